@@ -0,0 +1,17 @@
+import { defineConfig } from 'drizzle-kit';
+
+// Neon/Postgres when DATABASE_URL is set, otherwise the local PGlite database
+export default process.env.DATABASE_URL
+    ? defineConfig({
+        schema: './src/lib/db/schema.ts',
+        out: './drizzle',
+        dialect: 'postgresql',
+        dbCredentials: { url: process.env.DATABASE_URL },
+    })
+    : defineConfig({
+        schema: './src/lib/db/schema.ts',
+        out: './drizzle',
+        dialect: 'postgresql',
+        driver: 'pglite',
+        dbCredentials: { url: process.env.PGLITE_DATA_DIR || './.data/pglite' },
+    });
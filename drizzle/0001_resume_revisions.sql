@@ -0,0 +1,11 @@
+CREATE TABLE "resume_revisions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"resume_id" text NOT NULL,
+	"user_id" text NOT NULL,
+	"source" text NOT NULL,
+	"data" jsonb NOT NULL,
+	"created_at" timestamp with time zone NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "resume_revisions" ADD CONSTRAINT "resume_revisions_resume_id_resumes_id_fk" FOREIGN KEY ("resume_id") REFERENCES "public"."resumes"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "resume_revisions_resume_id_created_at_idx" ON "resume_revisions" USING btree ("resume_id","created_at");
\ No newline at end of file
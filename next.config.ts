@@ -1,7 +1,8 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // PGlite loads its WASM and data files from disk at runtime
+  serverExternalPackages: ["@electric-sql/pglite"],
 };
 
 export default nextConfig;
@@ -5,13 +5,16 @@
  * 1. Fetch repos list
  * 2. Check README status for selected repos
  * 3. Show tips and README generation option
- * 4. Analyze using README-only (fast)
+ * 4. Analyze using README-only (fast), as a background job followed over
+ *    Server-Sent Events (its ID is kept in the URL, so a refresh picks the
+ *    job back up). Jobs can be cancelled, and failed or cancelled ones
+ *    resumed without redoing the repositories already analyzed
  * 5. Show generated resume
  */
 
 'use client';
 
-import { useEffect, useState, useCallback, Suspense } from 'react';
+import { useEffect, useState, useCallback, useRef, Suspense } from 'react';
 import { useSearchParams, useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -43,7 +46,8 @@ import {
 import { RoleSelector, JOB_ROLES, type JobRole } from '@/components/resume/role-selector';
 import { ATSScoreModal } from '@/components/resume/ats-score-modal';
 import { deepClone } from '@/lib/utils';
-import type { Resume } from '@/types';
+import { saveAnalyses } from '@/lib/storage';
+import type { AnalysisJob, AnalysisJobEvent, AnalysisStatus, RepositoryProgress, Resume } from '@/types';
 import { useUsage } from '@/contexts/usage-context';
 import { PricingBanner } from '@/components/pricing/pricing-banner';
 
@@ -87,22 +91,55 @@ interface PageState {
     showATSModal: boolean;
     progress: number;
     message: string;
+    repositoryProgress?: RepositoryProgress[];
+    runningTokenUsage?: AnalysisJob['tokenUsage']; // Spend so far while a job runs
     resume?: Resume;
     error?: string;
+    canResume?: boolean; // The failed or cancelled job can pick up where it stopped
     generatingReadmeFor?: string;
     generatedReadme?: string;
     stats?: {
         repositoriesAnalyzed: number;
+        cachedRepositories: number;
         tokenUsage: { totalTokens: number; estimatedCost: string };
         timing: { durationSeconds: string };
     };
 }
 
+const JOB_EVENT_TYPES: AnalysisJobEvent['type'][] = ['snapshot', 'progress', 'repository', 'completed', 'failed', 'cancelled'];
+
+// Rough share of the work done at each stage of a job
+function getJobProgress(status: AnalysisStatus, progress: AnalysisJob['progress']): number {
+    switch (status) {
+        case 'queued':
+            return 2;
+        case 'fetching_profile':
+            return 5;
+        case 'fetching_repos':
+            return 10;
+        case 'analyzing_repos':
+            return 10 + Math.round(80 * (progress.total ? progress.current / progress.total : 0));
+        case 'generating_resume':
+            return 92;
+        default:
+            return 100;
+    }
+}
+
+function getDurationSeconds(job: AnalysisJob): string {
+    const start = new Date(job.startedAt || job.createdAt).getTime();
+    const end = new Date(job.completedAt || job.updatedAt).getTime();
+    return ((end - start) / 1000).toFixed(1);
+}
+
 function AnalyzeContent() {
     const searchParams = useSearchParams();
     const router = useRouter();
     const username = searchParams.get('username');
+    const jobId = searchParams.get('job');
     const { user } = useAuth(); // Get auth user for tier info
+    const submittedJobs = useRef(new Set<string>()); // Jobs started from this page, counted when they complete
+    const [jobRun, setJobRun] = useState(0); // Bumped to follow the job again after resuming it
 
     const [state, setState] = useState<PageState>({
         step: 'loading',
@@ -114,9 +151,9 @@ function AnalyzeContent() {
         message: 'Loading repositories...',
     });
 
-    // Fetch repos on mount
+    // Fetch repos on mount (not needed while following a job)
     useEffect(() => {
-        if (!username) return;
+        if (!username || jobId) return;
 
         const fetchRepos = async () => {
             try {
@@ -154,7 +191,7 @@ function AnalyzeContent() {
         };
 
         fetchRepos();
-    }, [username]);
+    }, [username, jobId]);
 
     const toggleRepo = (name: string) => {
         setState(prev => {
@@ -288,7 +325,7 @@ function AnalyzeContent() {
 
     const { incrementGeneration, hasReachedGenerationLimit, setShowRegistrationWall } = useUsage();
 
-    // Run analysis with selected repos
+    // Start an analysis job with the selected repos; the job effect below follows it
     const runAnalysis = useCallback(async () => {
         if (!username || state.selectedRepos.size === 0) return;
 
@@ -300,32 +337,14 @@ function AnalyzeContent() {
         setState(prev => ({
             ...prev,
             step: 'analyzing',
-            progress: 5,
+            progress: 2,
             message: 'Starting analysis...',
+            repositoryProgress: undefined,
+            runningTokenUsage: undefined,
         }));
 
         try {
-            const progressInterval = setInterval(() => {
-                setState(prev => {
-                    if (prev.step !== 'analyzing') return prev;
-                    const newProgress = Math.min(prev.progress + Math.random() * 5, 90);
-                    const messages = [
-                        'Fetching README files...',
-                        'Analyzing project content...',
-                        'Extracting skills and achievements...',
-                        'Generating resume content...',
-                        'Finalizing your resume...',
-                    ];
-                    const messageIndex = Math.floor(newProgress / 20);
-                    return {
-                        ...prev,
-                        progress: newProgress,
-                        message: messages[messageIndex] || prev.message,
-                    };
-                });
-            }, 2000);
-
-            const response = await fetch('/api/analyze', {
+            const response = await fetch('/api/jobs', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify({
@@ -333,32 +352,188 @@ function AnalyzeContent() {
                     selectedRepos: Array.from(state.selectedRepos),
                     targetRole: state.selectedRole?.id,
                     customRole: state.customRole || undefined,
+                    tier: user?.tier === 'premium' ? 'openai' : 'groq',
                 }),
             });
 
-            clearInterval(progressInterval);
-
             const data = await response.json();
 
             if (!response.ok) {
                 throw new Error(data.error || 'Analysis failed');
             }
 
-            // Increment generation count on success
-            incrementGeneration();
+            submittedJobs.current.add(data.job.id);
+            router.replace(`/analyze?username=${encodeURIComponent(username)}&job=${encodeURIComponent(data.job.id)}`);
+        } catch (error) {
+            setState(prev => ({
+                ...prev,
+                step: 'error',
+                progress: 0,
+                message: 'Analysis failed',
+                error: error instanceof Error ? error.message : 'Unknown error occurred',
+            }));
+        }
+    }, [username, state.selectedRepos, state.selectedRole, state.customRole, user?.tier, hasReachedGenerationLimit, setShowRegistrationWall, router]);
+
+    // Follow the analysis job's events until it completes or fails
+    useEffect(() => {
+        if (!jobId) return;
+        let finished = false;
+
+        const source = new EventSource(`/api/jobs/${encodeURIComponent(jobId)}/events`);
+
+        const fail = (error: string, canResume: boolean) => {
+            finished = true;
+            source.close();
+            setState(prev => ({
+                ...prev,
+                step: 'error',
+                progress: 0,
+                message: 'Analysis failed',
+                error,
+                canResume,
+            }));
+        };
+
+        const complete = (job: AnalysisJob) => {
+            finished = true;
+            source.close();
+
+            // Count the generation once, in the tab that started it
+            if (submittedJobs.current.delete(job.id)) incrementGeneration();
+            saveAnalyses(job.resume!.id, job.analyses || []);
 
             setState(prev => ({
                 ...prev,
                 step: 'completed',
                 progress: 100,
                 message: 'Resume generated successfully!',
-                resume: data.data.resume,
+                user: job.user || prev.user,
+                resume: job.resume,
                 stats: {
-                    repositoriesAnalyzed: data.data.repositoriesAnalyzed,
-                    tokenUsage: data.data.tokenUsage,
-                    timing: data.data.timing,
+                    repositoriesAnalyzed: job.repositories?.length || job.analyses?.length || 0,
+                    cachedRepositories: job.cachedRepositories || 0,
+                    tokenUsage: {
+                        totalTokens: job.tokenUsage?.totalTokens || 0,
+                        estimatedCost: (job.tokenUsage?.estimatedCost || 0).toFixed(4),
+                    },
+                    timing: { durationSeconds: getDurationSeconds(job) },
                 },
             }));
+        };
+
+        const handleEvent = (message: MessageEvent<string>) => {
+            if (finished) return;
+            const event = JSON.parse(message.data) as AnalysisJobEvent;
+
+            switch (event.type) {
+                case 'snapshot': {
+                    const { job } = event;
+                    if (job.status === 'completed' && job.resume) {
+                        complete(job);
+                    } else if (job.status === 'failed' || job.status === 'cancelled') {
+                        fail(job.error || 'Analysis failed', true);
+                    } else {
+                        setState(prev => ({
+                            ...prev,
+                            step: 'analyzing',
+                            progress: getJobProgress(job.status, job.progress),
+                            message: job.progress.message || prev.message,
+                            repositoryProgress: job.repositoryProgress || [],
+                            runningTokenUsage: job.tokenUsage,
+                            canResume: false,
+                        }));
+                    }
+                    break;
+                }
+                case 'progress':
+                    setState(prev => ({
+                        ...prev,
+                        progress: getJobProgress(event.status, event.progress),
+                        message: event.progress.message || prev.message,
+                    }));
+                    break;
+                case 'repository':
+                    setState(prev => {
+                        const repositoryProgress = [...(prev.repositoryProgress || [])];
+                        const index = repositoryProgress.findIndex(r => r.name === event.repository.name);
+                        if (index === -1) {
+                            repositoryProgress.push(event.repository);
+                        } else {
+                            repositoryProgress[index] = event.repository;
+                        }
+                        return { ...prev, repositoryProgress, runningTokenUsage: event.tokenUsage };
+                    });
+                    break;
+                case 'completed':
+                    complete(event.job);
+                    break;
+                case 'failed':
+                    fail(event.error || 'Analysis failed', true);
+                    break;
+                case 'cancelled':
+                    fail('Analysis cancelled', true);
+                    break;
+            }
+        };
+
+        for (const type of JOB_EVENT_TYPES) {
+            source.addEventListener(type, handleEvent);
+        }
+
+        // EventSource reconnects after dropped connections by itself; it only
+        // gives up when the stream cannot be opened, i.e. the job is gone
+        source.onerror = () => {
+            if (finished || source.readyState !== EventSource.CLOSED) return;
+            fail('This analysis is no longer available. Please start a new one.', false);
+        };
+
+        return () => {
+            finished = true;
+            source.close();
+        };
+    }, [jobId, jobRun, incrementGeneration]);
+
+    // Stop the running job; the job effect sees it cancelled
+    const cancelAnalysis = useCallback(async () => {
+        if (!jobId) return;
+        setState(prev => ({ ...prev, message: 'Cancelling...' }));
+
+        try {
+            await fetch(`/api/jobs/${encodeURIComponent(jobId)}/cancel`, { method: 'POST' });
+        } catch (error) {
+            console.error('Failed to cancel analysis:', error);
+        }
+    }, [jobId]);
+
+    // Run a failed or cancelled job again, reusing the repositories it finished
+    const resumeAnalysis = useCallback(async () => {
+        if (!jobId) return;
+
+        if (hasReachedGenerationLimit) {
+            setShowRegistrationWall(true);
+            return;
+        }
+
+        setState(prev => ({
+            ...prev,
+            step: 'analyzing',
+            progress: 2,
+            message: 'Resuming analysis...',
+            error: undefined,
+            canResume: false,
+        }));
+
+        try {
+            const response = await fetch(`/api/jobs/${encodeURIComponent(jobId)}/resume`, { method: 'POST' });
+            const data = await response.json();
+
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to resume analysis');
+            }
+
+            submittedJobs.current.add(jobId);
+            setJobRun(run => run + 1);
         } catch (error) {
             setState(prev => ({
                 ...prev,
@@ -368,7 +543,7 @@ function AnalyzeContent() {
                 error: error instanceof Error ? error.message : 'Unknown error occurred',
             }));
         }
-    }, [username, state.selectedRepos, hasReachedGenerationLimit, incrementGeneration, setShowRegistrationWall]);
+    }, [jobId, hasReachedGenerationLimit, setShowRegistrationWall]);
 
     // No username
     if (!username) {
@@ -391,6 +566,8 @@ function AnalyzeContent() {
         );
     }
 
+    const analyzedBeforeStop = state.repositoryProgress?.filter(r => r.status === 'completed').length || 0;
+
     const reposWithoutReadme = state.readmeStatus
         ? Array.from(state.selectedRepos).filter(name => !state.readmeStatus?.get(name))
         : [];
@@ -796,11 +973,65 @@ function AnalyzeContent() {
                                 <div className="flex-1">
                                     <h3 className="font-semibold">{state.message}</h3>
                                     <p className="text-sm text-[hsl(var(--muted-foreground))]">
-                                        Analyzing {state.selectedRepos.size} repositories...
+                                        You can leave this page and come back; the analysis keeps running.
                                     </p>
                                 </div>
+                                {jobId && (
+                                    <Button variant="outline" size="sm" onClick={cancelAnalysis}>
+                                        Cancel
+                                    </Button>
+                                )}
                             </div>
                             <Progress value={state.progress} showLabel />
+
+                            {state.repositoryProgress && state.repositoryProgress.length > 0 && (
+                                <div className="mt-6 space-y-2">
+                                    <div className="flex items-center justify-between text-sm text-[hsl(var(--muted-foreground))]">
+                                        <span>
+                                            {state.repositoryProgress.filter(r => r.status === 'completed' || r.status === 'failed').length} of {state.repositoryProgress.length} repositories analyzed
+                                        </span>
+                                        {state.runningTokenUsage && (
+                                            <span className="flex items-center gap-1">
+                                                <Coins className="h-4 w-4" />
+                                                {state.runningTokenUsage.totalTokens.toLocaleString()} tokens · ${state.runningTokenUsage.estimatedCost.toFixed(4)}
+                                            </span>
+                                        )}
+                                    </div>
+                                    <ul className="rounded-lg border border-[hsl(var(--border))] divide-y divide-[hsl(var(--border))]">
+                                        {state.repositoryProgress.map(repo => (
+                                            <li key={repo.name} className="flex items-start gap-3 px-3 py-2 text-sm">
+                                                {repo.status === 'pending' && <Clock className="h-4 w-4 mt-0.5 text-[hsl(var(--muted-foreground))] flex-shrink-0" />}
+                                                {repo.status === 'analyzing' && <Loader2 className="h-4 w-4 mt-0.5 text-[hsl(var(--primary))] animate-spin flex-shrink-0" />}
+                                                {repo.status === 'completed' && <CheckCircle2 className="h-4 w-4 mt-0.5 text-emerald-500 flex-shrink-0" />}
+                                                {repo.status === 'failed' && <AlertTriangle className="h-4 w-4 mt-0.5 text-amber-500 flex-shrink-0" />}
+                                                <div className="flex-1 min-w-0">
+                                                    <p className={`truncate ${repo.status === 'pending' ? 'text-[hsl(var(--muted-foreground))]' : 'font-medium'}`}>
+                                                        {repo.name}
+                                                    </p>
+                                                    {repo.status === 'completed' && repo.analysis && (
+                                                        <p className="text-xs text-[hsl(var(--muted-foreground))] truncate">{repo.analysis.oneLiner}</p>
+                                                    )}
+                                                    {repo.status === 'failed' && (
+                                                        <p className="text-xs text-amber-600 dark:text-amber-400">
+                                                            {repo.error || 'Analysis failed'}. A basic summary from its description will be used.
+                                                        </p>
+                                                    )}
+                                                </div>
+                                                {repo.tokenUsage && (
+                                                    <span className="text-xs text-[hsl(var(--muted-foreground))] flex-shrink-0">
+                                                        {repo.tokenUsage.totalTokens.toLocaleString()} tokens
+                                                    </span>
+                                                )}
+                                                {repo.cached && (
+                                                    <span className="text-xs text-[hsl(var(--muted-foreground))] flex-shrink-0">
+                                                        Unchanged, cached
+                                                    </span>
+                                                )}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
                         </CardContent>
                     </Card>
                 )}
@@ -813,11 +1044,23 @@ function AnalyzeContent() {
                                 <XCircle className="h-12 w-12 text-[hsl(var(--destructive))]" />
                                 <div className="flex-1">
                                     <h3 className="font-semibold text-[hsl(var(--destructive))]">
-                                        {state.error?.includes('rate limit') ? 'Rate Limit Exceeded' : 'Error'}
+                                        {state.error?.includes('rate limit')
+                                            ? 'Rate Limit Exceeded'
+                                            : state.error === 'Analysis cancelled' ? 'Analysis Cancelled' : 'Error'}
                                     </h3>
                                     <p className="text-sm text-[hsl(var(--muted-foreground))]">{state.error}</p>
+                                    {state.canResume && analyzedBeforeStop > 0 && (
+                                        <p className="text-sm text-[hsl(var(--muted-foreground))]">
+                                            {analyzedBeforeStop} of {state.repositoryProgress!.length} repositories were analyzed before it stopped; resuming keeps them.
+                                        </p>
+                                    )}
                                 </div>
-                                <Button onClick={() => window.location.reload()}>Try Again</Button>
+                                {state.canResume && (
+                                    <Button variant="outline" onClick={resumeAnalysis}>Resume</Button>
+                                )}
+                                <Button onClick={() => {
+                                    window.location.href = `/analyze?username=${encodeURIComponent(username)}`;
+                                }}>Try Again</Button>
                             </div>
                         </CardContent>
                     </Card>
@@ -833,7 +1076,10 @@ function AnalyzeContent() {
                                         <FileText className="h-8 w-8 text-[hsl(var(--primary))]" />
                                         <div>
                                             <p className="text-2xl font-bold">{state.stats?.repositoriesAnalyzed}</p>
-                                            <p className="text-sm text-[hsl(var(--muted-foreground))]">Repos Analyzed</p>
+                                            <p className="text-sm text-[hsl(var(--muted-foreground))]">
+                                                Repos Analyzed
+                                                {!!state.stats?.cachedRepositories && ` · ${state.stats.cachedRepositories} unchanged`}
+                                            </p>
                                         </div>
                                     </div>
                                 </CardContent>
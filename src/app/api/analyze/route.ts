@@ -6,8 +6,9 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { runAnalysis, type AnalysisProgress } from '@/lib/orchestrator';
-import { isValidGitHubUsername, parseGitHubUrl } from '@/lib/utils';
+import { runAnalysis, describeAnalysisError } from '@/lib/orchestrator';
+import { LLM_PROVIDERS, isProviderConfigured, toLLMProvider } from '@/lib/llm';
+import { resolveGitHubUsername } from '@/lib/utils';
 
 export const maxDuration = 300; // 5 minutes for Vercel
 export const dynamic = 'force-dynamic';
@@ -18,41 +19,33 @@ interface AnalyzeRequest {
     githubToken?: string;
     targetRole?: string;  // e.g., 'software-engineer', 'data-scientist'
     customRole?: string;  // Custom role entered by user
+    tier?: string;        // 'openai' for premium, otherwise the free tier
 }
 
 export async function POST(request: NextRequest) {
     try {
         const body = await request.json() as AnalyzeRequest;
 
-        // Parse username from URL or direct input
-        let username = body.username?.trim();
-
-        if (!username) {
+        if (!body.username?.trim()) {
             return NextResponse.json(
                 { error: 'GitHub username is required' },
                 { status: 400 }
             );
         }
 
-        // Try to parse as URL
-        const parsed = parseGitHubUrl(username);
-        if (parsed) {
-            username = parsed.username;
-        }
-
-        // Validate username
-        if (!isValidGitHubUsername(username)) {
+        // Accepts a username or a profile URL
+        const username = resolveGitHubUsername(body.username);
+        if (!username) {
             return NextResponse.json(
                 { error: 'Invalid GitHub username format' },
                 { status: 400 }
             );
         }
 
-        // Get OpenAI API key from environment
-        const openaiApiKey = process.env.OPENAI_API_KEY;
-        if (!openaiApiKey) {
+        const provider = toLLMProvider(body.tier);
+        if (!isProviderConfigured(provider)) {
             return NextResponse.json(
-                { error: 'OpenAI API key not configured' },
+                { error: `${LLM_PROVIDERS[provider].label} is not configured` },
                 { status: 500 }
             );
         }
@@ -60,11 +53,12 @@ export async function POST(request: NextRequest) {
         // Run the analysis
         const result = await runAnalysis(username, {
             githubToken: body.githubToken,
-            openaiApiKey,
+            tier: provider,
             selectedRepos: body.selectedRepos, // Only analyze these repos if provided
             targetRole: body.targetRole,       // Role targeting for ATS optimization
             customRole: body.customRole,       // Custom role if not using predefined
             verbose: process.env.NODE_ENV === 'development',
+            signal: request.signal,            // Stop spending tokens if the client goes away
         });
 
         return NextResponse.json({
@@ -72,11 +66,20 @@ export async function POST(request: NextRequest) {
             data: {
                 user: result.user,
                 resume: result.resume,
+                analyses: result.analyses, // Kept by the client for cover letters
+                contributions: result.contributions,
                 repositoriesAnalyzed: result.repositories.length,
                 tokenUsage: {
                     totalTokens: result.tokenUsage.total.totalTokens,
                     estimatedCost: result.tokenUsage.total.estimatedCost.toFixed(4),
+                    cache: {
+                        hits: result.tokenUsage.cache.hits,
+                        misses: result.tokenUsage.cache.misses,
+                        savedTokens: result.tokenUsage.cache.saved.totalTokens,
+                        savedCost: result.tokenUsage.cache.saved.estimatedCost.toFixed(4),
+                    },
                 },
+                githubCache: result.githubCache,
                 timing: {
                     durationMs: result.timing.durationMs,
                     durationSeconds: (result.timing.durationMs / 1000).toFixed(1),
@@ -86,31 +89,7 @@ export async function POST(request: NextRequest) {
     } catch (error) {
         console.error('Analysis error:', error);
 
-        // Handle specific error types
-        if (error instanceof Error) {
-            if (error.message.includes('Not Found')) {
-                return NextResponse.json(
-                    { error: 'GitHub user not found' },
-                    { status: 404 }
-                );
-            }
-            if (error.message.includes('rate limit')) {
-                return NextResponse.json(
-                    { error: 'GitHub API rate limit exceeded. Please try again later.' },
-                    { status: 429 }
-                );
-            }
-            if (error.message.includes('API key')) {
-                return NextResponse.json(
-                    { error: 'Invalid or missing API key' },
-                    { status: 401 }
-                );
-            }
-        }
-
-        return NextResponse.json(
-            { error: 'Failed to analyze GitHub profile' },
-            { status: 500 }
-        );
+        const { message, status, diagnostics } = describeAnalysisError(error);
+        return NextResponse.json({ error: message, diagnostics }, { status });
     }
 }
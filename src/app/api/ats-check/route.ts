@@ -7,11 +7,17 @@
  * Supports two modes:
  * - "quick" (default): Rule-based analysis, fast and free
  * - "ai": LLM-powered analysis, more accurate but uses tokens
+ *
+ * With a `jobDescription`, the response also includes a `jobMatch` report of
+ * the posting's requirements and where the resume meets them. Quick mode
+ * matches by keyword; AI mode adds semantic matching.
  */
 
 import { NextRequest, NextResponse } from 'next/server';
 import { analyzeATSScore, type ATSScore } from '@/lib/ats-scorer';
-import { analyzeATSWithLLM, fixWithLLM, optimizeSummaryWithLLM, type LLMATSResult } from '@/lib/llm/ats-analyzer';
+import { analyzeATSWithLLM, fixWithLLM, matchJobWithLLM, optimizeSummaryWithLLM, type LLMATSResult } from '@/lib/llm/ats-analyzer';
+import { toLLMProvider } from '@/lib/llm/llm-service';
+import { matchJobDescription, MAX_JOB_DESCRIPTION_LENGTH } from '@/lib/job-match';
 import type { Resume } from '@/types';
 
 export const dynamic = 'force-dynamic';
@@ -54,6 +60,7 @@ function incrementUsage(key: string): void {
 interface ATSCheckRequest {
     resume: Resume;
     targetRole?: string;
+    jobDescription?: string;
     mode?: 'quick' | 'ai';
     tier?: string;
 }
@@ -95,7 +102,7 @@ export async function POST(request: NextRequest) {
             }
 
             // Use 'groq' as default if not specified or invalid
-            const provider = tier === 'openai' ? 'openai' : 'groq';
+            const provider = toLLMProvider(tier);
             const result = await fixWithLLM(originalText, issue, context, provider);
             incrementUsage(usageKey);
 
@@ -118,7 +125,7 @@ export async function POST(request: NextRequest) {
             }
 
             // Use 'groq' as default if not specified or invalid
-            const provider = tier === 'openai' ? 'openai' : 'groq';
+            const provider = toLLMProvider(tier);
             const result = await optimizeSummaryWithLLM(currentSummary, targetRole, skills || [], provider);
             incrementUsage(usageKey);
 
@@ -131,6 +138,7 @@ export async function POST(request: NextRequest) {
 
         // Handle ATS analysis
         const { resume, targetRole, mode = 'quick' } = body as ATSCheckRequest;
+        const jobDescription = (body as ATSCheckRequest).jobDescription?.trim() || undefined;
 
         if (!resume) {
             return NextResponse.json(
@@ -139,6 +147,16 @@ export async function POST(request: NextRequest) {
             );
         }
 
+        if (jobDescription && jobDescription.length > MAX_JOB_DESCRIPTION_LENGTH) {
+            return NextResponse.json(
+                {
+                    error: 'Job description too long',
+                    message: `Job descriptions are limited to ${MAX_JOB_DESCRIPTION_LENGTH} characters.`,
+                },
+                { status: 400 }
+            );
+        }
+
         // Check free tier limit for AI mode
         if (mode === 'ai' && !allowed) {
             return NextResponse.json(
@@ -154,9 +172,12 @@ export async function POST(request: NextRequest) {
         if (mode === 'ai') {
             // LLM-powered analysis
             // Use 'groq' as default if not specified or invalid
-            const tier = (body as any).tier === 'openai' ? 'openai' : 'groq';
+            const tier = toLLMProvider((body as any).tier);
 
-            const aiScore = await analyzeATSWithLLM(resume, targetRole, tier);
+            const [aiScore, jobMatch] = await Promise.all([
+                analyzeATSWithLLM(resume, targetRole, tier, jobDescription),
+                jobDescription ? matchJobWithLLM(resume, jobDescription, tier) : undefined,
+            ]);
             incrementUsage(usageKey);
 
             return NextResponse.json({
@@ -169,18 +190,21 @@ export async function POST(request: NextRequest) {
                         keywordAnalysis: { found: [], missing: [] }
                     },
                     aiResult: aiScore,
+                    jobMatch,
                     mode,
                     usage: { remaining: remaining - 1, limit: FREE_TIER_LIMIT }
                 }
             });
         } else {
             // Quick rule-based analysis
-            const score = analyzeATSScore(resume, targetRole);
+            const jobMatch = jobDescription ? matchJobDescription(resume, jobDescription) : undefined;
+            const score = analyzeATSScore(resume, targetRole, jobMatch);
 
             return NextResponse.json({
                 success: true,
                 data: {
                     score,
+                    jobMatch,
                     mode,
                     usage: {
                         remaining: remaining, // No usage increment for quick mode
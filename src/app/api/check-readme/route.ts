@@ -50,26 +50,13 @@ export async function POST(request: NextRequest) {
             console.log(`[GitHub] ${msg}`);
         });
 
-        // Check README for each repo
-        const results: ReadmeStatus[] = [];
-
-        for (const repoName of reposToCheck) {
-            try {
-                const readmeInfo = await github.getReadmeOnly(username, repoName);
-                results.push({
-                    repoName,
-                    hasReadme: readmeInfo.hasReadme,
-                    filename: readmeInfo.filename,
-                });
-            } catch (error) {
-                console.error(`Failed to check README for ${repoName}:`, error);
-                results.push({
-                    repoName,
-                    hasReadme: false,
-                    filename: null,
-                });
-            }
-        }
+        // Check README for each repo, batched when a token is available
+        const readmes = await github.getReadmes(username, reposToCheck, request.signal);
+        const results: ReadmeStatus[] = reposToCheck.map((repoName, index) => ({
+            repoName,
+            hasReadme: readmes[index].hasReadme,
+            filename: readmes[index].filename,
+        }));
 
         // Count repos with and without README
         const withReadme = results.filter(r => r.hasReadme).length;
@@ -0,0 +1,102 @@
+/**
+ * Cover Letter API Route
+ *
+ * POST /api/cover-letter
+ * Writes a cover letter from a resume and the repository analyses behind it,
+ * for a job posting or a company. The letter is returned, not stored; the
+ * client saves it next to the resume.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { safeMigrateResume } from '@/lib/resume-schema';
+import { selectProjectEvidence, createCoverLetter } from '@/lib/cover-letter';
+import { MAX_JOB_DESCRIPTION_LENGTH } from '@/lib/job-match';
+import { generateCoverLetterWithLLM } from '@/lib/llm/cover-letter-generator';
+import { toLLMProvider } from '@/lib/llm/llm-service';
+import { repositoryAnalysisSchema } from '@/lib/llm/schemas';
+import { StructuredOutputError } from '@/lib/llm/structured-output';
+
+export const dynamic = 'force-dynamic';
+
+interface CoverLetterRequest {
+    resume: unknown;
+    analyses?: unknown;
+    company?: string;
+    jobDescription?: string;
+    tier?: string;
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json() as CoverLetterRequest;
+        const company = body.company?.trim() || '';
+        const jobDescription = body.jobDescription?.trim() || undefined;
+
+        if (!company && !jobDescription) {
+            return NextResponse.json(
+                { error: 'A company name or job description is required' },
+                { status: 400 }
+            );
+        }
+
+        if (jobDescription && jobDescription.length > MAX_JOB_DESCRIPTION_LENGTH) {
+            return NextResponse.json(
+                {
+                    error: 'Job description too long',
+                    message: `Job descriptions are limited to ${MAX_JOB_DESCRIPTION_LENGTH} characters.`,
+                },
+                { status: 400 }
+            );
+        }
+
+        const parsed = safeMigrateResume(body.resume);
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: 'Invalid resume', message: parsed.error.message, issues: parsed.error.issues },
+                { status: 400 }
+            );
+        }
+
+        // Analyses come from the client's cache, so check them before they reach the prompt
+        const analyses = z.array(repositoryAnalysisSchema).safeParse(body.analyses ?? []);
+        if (!analyses.success) {
+            return NextResponse.json(
+                { error: 'Invalid analyses', message: analyses.error.message, issues: analyses.error.issues },
+                { status: 400 }
+            );
+        }
+
+        // Use 'groq' as default if not specified or invalid
+        const provider = toLLMProvider(body.tier);
+        const input = { company, jobDescription };
+
+        const evidence = selectProjectEvidence(parsed.resume, analyses.data, jobDescription);
+        const { draft, tokenUsage } = await generateCoverLetterWithLLM(parsed.resume, evidence, input, provider);
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                coverLetter: createCoverLetter(parsed.resume, draft, evidence, input, provider),
+                evidence,
+                tokenUsage,
+            },
+        });
+    } catch (error) {
+        console.error('Cover letter error:', error);
+        if (error instanceof StructuredOutputError) {
+            return NextResponse.json(
+                { error: 'Failed to write cover letter', message: error.message, diagnostics: error.diagnostics },
+                { status: 502 }
+            );
+        }
+
+        return NextResponse.json(
+            {
+                error: 'Failed to write cover letter',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
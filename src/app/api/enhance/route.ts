@@ -6,11 +6,12 @@
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { enhanceBulletPoint } from '@/lib/llm';
+import { LLM_PROVIDERS, enhanceBulletPoint, isProviderConfigured, toLLMProvider } from '@/lib/llm';
 
 interface EnhanceRequest {
     bullet: string;
     context?: string;
+    tier?: string;
 }
 
 export async function POST(request: NextRequest) {
@@ -24,16 +25,17 @@ export async function POST(request: NextRequest) {
             );
         }
 
-        const openaiApiKey = process.env.OPENAI_API_KEY;
-        if (!openaiApiKey) {
+        const provider = toLLMProvider(body.tier);
+        if (!isProviderConfigured(provider)) {
             return NextResponse.json(
-                { error: 'OpenAI API key not configured' },
+                { error: `${LLM_PROVIDERS[provider].label} is not configured` },
                 { status: 500 }
             );
         }
 
         const result = await enhanceBulletPoint(body.bullet, body.context, {
-            apiKey: openaiApiKey,
+            tier: provider,
+            signal: request.signal,
         });
 
         return NextResponse.json({
@@ -0,0 +1,87 @@
+/**
+ * Cover Letter Export API Route
+ *
+ * POST /api/export/cover-letter
+ * Renders a cover letter to PDF (headless Chromium) or DOCX
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    exportCoverLetterToPDF,
+    exportCoverLetterToDocx,
+    getCoverLetterFilename,
+    EXPORT_PAGE_SIZES,
+    type ExportPageSize,
+} from '@/lib/export';
+import type { CoverLetter, ResumeTemplate } from '@/types';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+const TEMPLATES: ResumeTemplate[] = ['modern', 'classic', 'minimal', 'creative'];
+
+interface ExportCoverLetterRequest {
+    coverLetter: CoverLetter;
+    format: 'pdf' | 'docx';
+    template?: ResumeTemplate; // DOCX only: the resume style to match
+    pageSize?: ExportPageSize;
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json() as ExportCoverLetterRequest;
+        const { coverLetter, format, template, pageSize } = body;
+
+        if (!coverLetter || !coverLetter.sender || !Array.isArray(coverLetter.paragraphs)) {
+            return NextResponse.json(
+                { error: 'Cover letter data is required' },
+                { status: 400 }
+            );
+        }
+
+        if (format !== 'pdf' && format !== 'docx') {
+            return NextResponse.json(
+                { error: 'Format must be one of: pdf, docx' },
+                { status: 400 }
+            );
+        }
+
+        if (template && !TEMPLATES.includes(template)) {
+            return NextResponse.json(
+                { error: `Unknown template "${template}"` },
+                { status: 400 }
+            );
+        }
+
+        if (pageSize && !EXPORT_PAGE_SIZES.includes(pageSize)) {
+            return NextResponse.json(
+                { error: `Page size must be one of: ${EXPORT_PAGE_SIZES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const file = format === 'pdf'
+            ? await exportCoverLetterToPDF(coverLetter, { pageSize })
+            : await exportCoverLetterToDocx(coverLetter, { template, pageSize });
+
+        return new NextResponse(new Uint8Array(file), {
+            headers: {
+                'Content-Type': format === 'pdf'
+                    ? 'application/pdf'
+                    : 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+                'Content-Disposition': `attachment; filename="${getCoverLetterFilename(coverLetter, format)}"`,
+                'Cache-Control': 'no-store',
+            },
+        });
+    } catch (error) {
+        console.error('Cover letter export error:', error);
+
+        return NextResponse.json(
+            {
+                error: 'Failed to export cover letter',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
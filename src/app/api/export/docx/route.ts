@@ -0,0 +1,83 @@
+/**
+ * DOCX Export API Route
+ *
+ * POST /api/export/docx
+ * Builds a native Word document from a resume
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    exportResumeToDocx,
+    getExportFilename,
+    EXPORT_PAGE_SIZES,
+    type ExportPageSize,
+} from '@/lib/export';
+import { safeMigrateResume } from '@/lib/resume-schema';
+import type { ResumeTemplate } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+const TEMPLATES: ResumeTemplate[] = ['modern', 'classic', 'minimal', 'creative'];
+
+interface ExportDocxRequest {
+    resume: unknown;
+    template?: ResumeTemplate;
+    pageSize?: ExportPageSize;
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json() as ExportDocxRequest;
+        const { template, pageSize } = body;
+
+        if (!body.resume) {
+            return NextResponse.json(
+                { error: 'Resume data is required' },
+                { status: 400 }
+            );
+        }
+
+        const parsed = safeMigrateResume(body.resume);
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: 'Invalid resume', message: parsed.error.message, issues: parsed.error.issues },
+                { status: 400 }
+            );
+        }
+        const resume = parsed.resume;
+
+        if (template && !TEMPLATES.includes(template)) {
+            return NextResponse.json(
+                { error: `Unknown template "${template}"` },
+                { status: 400 }
+            );
+        }
+
+        if (pageSize && !EXPORT_PAGE_SIZES.includes(pageSize)) {
+            return NextResponse.json(
+                { error: `Page size must be one of: ${EXPORT_PAGE_SIZES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const docx = await exportResumeToDocx(resume, { template, pageSize });
+
+        return new NextResponse(new Uint8Array(docx), {
+            headers: {
+                'Content-Type': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+                'Content-Disposition': `attachment; filename="${getExportFilename(resume, 'docx')}"`,
+                'Cache-Control': 'no-store',
+            },
+        });
+    } catch (error) {
+        console.error('DOCX export error:', error);
+
+        return NextResponse.json(
+            {
+                error: 'Failed to export DOCX',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,94 @@
+/**
+ * PDF Export API Route
+ *
+ * POST /api/export/pdf
+ * Renders a resume to PDF on the server with headless Chromium
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import {
+    exportResumeToPDF,
+    getExportFilename,
+    EXPORT_PAGE_SIZES,
+    type ExportPageSize,
+    type PDFMargins,
+    type PDFMetadata,
+} from '@/lib/export';
+import { safeMigrateResume } from '@/lib/resume-schema';
+import type { ResumeTemplate } from '@/types';
+
+export const maxDuration = 60;
+export const dynamic = 'force-dynamic';
+
+const TEMPLATES: ResumeTemplate[] = ['modern', 'classic', 'minimal', 'creative'];
+
+interface ExportPDFRequest {
+    resume: unknown;
+    template?: ResumeTemplate;
+    pageSize?: ExportPageSize;
+    margins?: Partial<PDFMargins>;
+    metadata?: PDFMetadata;
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json() as ExportPDFRequest;
+        const { template, pageSize, margins, metadata } = body;
+
+        if (!body.resume) {
+            return NextResponse.json(
+                { error: 'Resume data is required' },
+                { status: 400 }
+            );
+        }
+
+        // A resume the print page cannot render would hold Chromium until the render times out
+        const parsed = safeMigrateResume(body.resume);
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: 'Invalid resume', message: parsed.error.message, issues: parsed.error.issues },
+                { status: 400 }
+            );
+        }
+        const resume = parsed.resume;
+
+        if (template && !TEMPLATES.includes(template)) {
+            return NextResponse.json(
+                { error: `Unknown template "${template}"` },
+                { status: 400 }
+            );
+        }
+
+        if (pageSize && !EXPORT_PAGE_SIZES.includes(pageSize)) {
+            return NextResponse.json(
+                { error: `Page size must be one of: ${EXPORT_PAGE_SIZES.join(', ')}` },
+                { status: 400 }
+            );
+        }
+
+        const pdf = await exportResumeToPDF(resume, {
+            template,
+            pageSize,
+            margins,
+            metadata,
+        });
+
+        return new NextResponse(Buffer.from(pdf), {
+            headers: {
+                'Content-Type': 'application/pdf',
+                'Content-Disposition': `attachment; filename="${getExportFilename(resume, 'pdf')}"`,
+                'Cache-Control': 'no-store',
+            },
+        });
+    } catch (error) {
+        console.error('PDF export error:', error);
+
+        return NextResponse.json(
+            {
+                error: 'Failed to export PDF',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -8,6 +8,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { GitHubClient } from '@/lib/github';
 import { generateReadme } from '@/lib/llm/readme-generator';
+import { toLLMProvider } from '@/lib/llm/llm-service';
 import { isValidGitHubUsername } from '@/lib/utils';
 
 export const dynamic = 'force-dynamic';
@@ -19,6 +20,7 @@ interface GenerateReadmeRequest {
     language?: string;
     topics?: string[];
     homepage?: string;
+    tier?: string;
 }
 
 export async function POST(request: NextRequest) {
@@ -59,7 +61,7 @@ export async function POST(request: NextRequest) {
             homepage: homepage || null,
             structure,
         }, {
-            apiKey: process.env.OPENAI_API_KEY,
+            tier: toLLMProvider(body.tier),
             verbose: process.env.NODE_ENV === 'development',
         });
 
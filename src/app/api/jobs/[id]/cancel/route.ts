@@ -0,0 +1,50 @@
+/**
+ * Cancel Analysis Job API Route
+ *
+ * POST /api/jobs/:id/cancel
+ * Stops a queued or running analysis. Repositories analyzed so far are kept,
+ * so the job can be resumed later.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisQueue } from '@/lib/jobs';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const queue = getAnalysisQueue();
+        const job = queue.get(id);
+
+        if (!job) {
+            return NextResponse.json(
+                { error: 'Job not found' },
+                { status: 404 }
+            );
+        }
+
+        if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+            return NextResponse.json(
+                { error: 'Job already finished', job },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json({ job: queue.cancel(id) }, { status: 202 });
+    } catch (error) {
+        console.error('Cancel job error:', error);
+
+        return NextResponse.json(
+            {
+                error: 'Failed to cancel job',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,98 @@
+/**
+ * Analysis Job Events API Route
+ *
+ * GET /api/jobs/:id/events
+ * Streams an analysis job as Server-Sent Events: a snapshot of the job first,
+ * then progress, each repository as it is analyzed, and finally the completed
+ * job, the failure or the cancellation. Reconnecting starts again from a fresh
+ * snapshot.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisQueue } from '@/lib/jobs';
+import type { AnalysisJobEvent } from '@/types';
+
+export const dynamic = 'force-dynamic';
+
+// Comment lines keep proxies from closing a quiet stream
+const KEEP_ALIVE_INTERVAL_MS = 15000;
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const queue = getAnalysisQueue();
+        const job = queue.get(id);
+
+        if (!job) {
+            return NextResponse.json(
+                { error: 'Job not found' },
+                { status: 404 }
+            );
+        }
+
+        const encoder = new TextEncoder();
+        let cleanup = () => {};
+
+        const stream = new ReadableStream<Uint8Array>({
+            start(controller) {
+                let closed = false;
+
+                const send = (event: AnalysisJobEvent) => {
+                    if (closed) return;
+                    controller.enqueue(encoder.encode(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`));
+                };
+
+                cleanup = () => {
+                    if (closed) return;
+                    closed = true;
+                    unsubscribe();
+                    clearInterval(keepAlive);
+                    try {
+                        controller.close();
+                    } catch {
+                        // Already closed by the client
+                    }
+                };
+
+                const unsubscribe = queue.subscribe(id, event => {
+                    send(event);
+                    if (event.type === 'completed' || event.type === 'failed' || event.type === 'cancelled') cleanup();
+                });
+                const keepAlive = setInterval(() => {
+                    if (!closed) controller.enqueue(encoder.encode(': keep-alive\n\n'));
+                }, KEEP_ALIVE_INTERVAL_MS);
+
+                send({ type: 'snapshot', job });
+                if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') cleanup();
+
+                request.signal.addEventListener('abort', () => cleanup());
+            },
+            cancel() {
+                cleanup();
+            },
+        });
+
+        return new Response(stream, {
+            headers: {
+                'Content-Type': 'text/event-stream',
+                'Cache-Control': 'no-store, no-transform',
+                'Connection': 'keep-alive',
+                'X-Accel-Buffering': 'no',
+            },
+        });
+    } catch (error) {
+        console.error('Job events error:', error);
+
+        return NextResponse.json(
+            {
+                error: 'Failed to stream job',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,54 @@
+/**
+ * Resume Analysis Job API Route
+ *
+ * POST /api/jobs/:id/resume
+ * Queues a failed or cancelled analysis again. Repositories it already
+ * analyzed are reused, so their tokens are not spent twice.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisQueue } from '@/lib/jobs';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function POST(_request: NextRequest, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const queue = getAnalysisQueue();
+        const job = queue.get(id);
+
+        if (!job) {
+            return NextResponse.json(
+                { error: 'Job not found' },
+                { status: 404 }
+            );
+        }
+
+        const resumed = queue.resume(id);
+        if (!resumed) {
+            return NextResponse.json(
+                { error: 'Only failed or cancelled jobs can be resumed', job },
+                { status: 409 }
+            );
+        }
+
+        return NextResponse.json({ job: resumed }, {
+            status: 202,
+            headers: { Location: `/api/jobs/${id}` },
+        });
+    } catch (error) {
+        console.error('Resume job error:', error);
+
+        return NextResponse.json(
+            {
+                error: 'Failed to resume job',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,44 @@
+/**
+ * Analysis Job API Route
+ *
+ * GET /api/jobs/:id
+ * Returns an analysis job with its progress, and the results once completed.
+ * Finished jobs stay available for an hour.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisQueue } from '@/lib/jobs';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function GET(_request: NextRequest, { params }: RouteContext) {
+    try {
+        const { id } = await params;
+        const job = getAnalysisQueue().get(id);
+
+        if (!job) {
+            return NextResponse.json(
+                { error: 'Job not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ job }, {
+            headers: { 'Cache-Control': 'no-store' },
+        });
+    } catch (error) {
+        console.error('Get job error:', error);
+
+        return NextResponse.json(
+            {
+                error: 'Failed to load job',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,68 @@
+/**
+ * Analysis Jobs API Route
+ *
+ * POST /api/jobs
+ * Queues analysis of a GitHub profile and returns the job right away.
+ * Poll GET /api/jobs/:id for progress and the generated resume.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisQueue, type AnalysisJobRequest } from '@/lib/jobs';
+import { LLM_PROVIDERS, isProviderConfigured, toLLMProvider } from '@/lib/llm';
+import { resolveGitHubUsername } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json() as AnalysisJobRequest;
+
+        if (!body.username?.trim()) {
+            return NextResponse.json(
+                { error: 'GitHub username is required' },
+                { status: 400 }
+            );
+        }
+
+        // Accepts a username or a profile URL
+        const username = resolveGitHubUsername(body.username);
+        if (!username) {
+            return NextResponse.json(
+                { error: 'Invalid GitHub username format' },
+                { status: 400 }
+            );
+        }
+
+        const provider = toLLMProvider(body.tier);
+        if (!isProviderConfigured(provider)) {
+            return NextResponse.json(
+                { error: `${LLM_PROVIDERS[provider].label} is not configured` },
+                { status: 500 }
+            );
+        }
+
+        const job = getAnalysisQueue().enqueue({
+            username,
+            selectedRepos: body.selectedRepos,
+            githubToken: body.githubToken,
+            targetRole: body.targetRole,
+            customRole: body.customRole,
+            tier: provider,
+        });
+
+        return NextResponse.json({ job }, {
+            status: 202,
+            headers: { Location: `/api/jobs/${job.id}` },
+        });
+    } catch (error) {
+        console.error('Create job error:', error);
+
+        return NextResponse.json(
+            {
+                error: 'Failed to queue analysis',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
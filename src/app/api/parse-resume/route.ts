@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ResumeParser } from '@/lib/llm/resume-parser-fixed';
+import { StructuredOutputError } from '@/lib/llm/structured-output';
 // @ts-ignore
 import pdfParse from 'pdf-parse/lib/pdf-parse';
 import mammoth from 'mammoth';
@@ -44,6 +45,12 @@ export async function POST(req: NextRequest) {
 
     } catch (error) {
         console.error('Parse API Error:', error);
+        if (error instanceof StructuredOutputError) {
+            return NextResponse.json(
+                { error: 'Failed to parse resume', message: error.message, diagnostics: error.diagnostics },
+                { status: 502 }
+            );
+        }
         return NextResponse.json(
             { error: error instanceof Error ? error.message : 'Failed to parse resume' },
             { status: 500 }
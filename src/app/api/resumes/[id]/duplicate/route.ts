@@ -0,0 +1,41 @@
+/**
+ * Duplicate Resume API Route
+ *
+ * POST /api/resumes/:id/duplicate
+ * Copies a resume under a new ID
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/session';
+import { duplicateResume } from '@/lib/db/resumes';
+
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const userId = getSessionUserId(request);
+        if (!userId) return unauthorizedResponse();
+
+        const { id } = await params;
+        const resume = await duplicateResume(id, userId);
+
+        if (!resume) {
+            return NextResponse.json(
+                { error: 'Resume not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ resume }, { status: 201 });
+    } catch (error) {
+        console.error('Duplicate resume error:', error);
+
+        return NextResponse.json(
+            {
+                error: 'Failed to duplicate resume',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
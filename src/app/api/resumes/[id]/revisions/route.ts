@@ -0,0 +1,38 @@
+/**
+ * Resume Revisions API Route
+ *
+ * GET /api/resumes/:id/revisions?limit=100
+ * Lists the saved revisions of a resume, newest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/session';
+import { getRevisions } from '@/lib/db/resumes';
+
+export const dynamic = 'force-dynamic';
+
+const MAX_LIMIT = 500;
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+    try {
+        const userId = getSessionUserId(request);
+        if (!userId) return unauthorizedResponse();
+
+        const { id } = await params;
+        const { searchParams } = new URL(request.url);
+        const limit = Math.min(Number(searchParams.get('limit')) || 100, MAX_LIMIT);
+
+        const revisions = await getRevisions(id, userId, limit);
+        return NextResponse.json({ revisions });
+    } catch (error) {
+        console.error('List revisions error:', error);
+
+        return NextResponse.json(
+            {
+                error: 'Failed to load revisions',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
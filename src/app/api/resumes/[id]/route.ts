@@ -0,0 +1,135 @@
+/**
+ * Resume API Route
+ *
+ * GET    /api/resumes/:id - Loads a resume
+ * PUT    /api/resumes/:id - Saves a resume and the revisions recorded since the last sync
+ * DELETE /api/resumes/:id - Deletes a resume
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/session';
+import { safeMigrateResume } from '@/lib/resume-schema';
+import {
+    getResume,
+    saveResume,
+    deleteResume,
+    isStorableRevision,
+} from '@/lib/db/resumes';
+
+export const dynamic = 'force-dynamic';
+
+interface RouteContext {
+    params: Promise<{ id: string }>;
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+    try {
+        const userId = getSessionUserId(request);
+        if (!userId) return unauthorizedResponse();
+
+        const { id } = await params;
+        const resume = await getResume(id, userId);
+
+        if (!resume) {
+            return NextResponse.json(
+                { error: 'Resume not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ resume });
+    } catch (error) {
+        console.error('Get resume error:', error);
+
+        return NextResponse.json(
+            {
+                error: 'Failed to load resume',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+    try {
+        const userId = getSessionUserId(request);
+        if (!userId) return unauthorizedResponse();
+
+        const { id } = await params;
+        const { resume: input, revisions = [] } = await request.json();
+
+        // Older clients may send resumes in an earlier schema version
+        const parsed = safeMigrateResume(input);
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: 'Invalid resume', message: parsed.error.message, issues: parsed.error.issues },
+                { status: 400 }
+            );
+        }
+        const resume = parsed.resume;
+
+        if (resume.id !== id) {
+            return NextResponse.json(
+                { error: 'Resume ID does not match the URL' },
+                { status: 400 }
+            );
+        }
+
+        if (!Array.isArray(revisions) || !revisions.every(r => isStorableRevision(r, resume.id))) {
+            return NextResponse.json(
+                { error: 'Invalid revisions' },
+                { status: 400 }
+            );
+        }
+
+        const saved = await saveResume(resume, userId, { revisions });
+        if (!saved) {
+            return NextResponse.json(
+                { error: 'Resume belongs to another user' },
+                { status: 403 }
+            );
+        }
+
+        return NextResponse.json({ resume: saved });
+    } catch (error) {
+        console.error('Save resume error:', error);
+
+        return NextResponse.json(
+            {
+                error: 'Failed to save resume',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+    try {
+        const userId = getSessionUserId(request);
+        if (!userId) return unauthorizedResponse();
+
+        const { id } = await params;
+        const deleted = await deleteResume(id, userId);
+
+        if (!deleted) {
+            return NextResponse.json(
+                { error: 'Resume not found' },
+                { status: 404 }
+            );
+        }
+
+        return NextResponse.json({ success: true });
+    } catch (error) {
+        console.error('Delete resume error:', error);
+
+        return NextResponse.json(
+            {
+                error: 'Failed to delete resume',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
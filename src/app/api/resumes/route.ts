@@ -0,0 +1,81 @@
+/**
+ * Resumes API Route
+ *
+ * GET  /api/resumes - Lists the user's resumes
+ * POST /api/resumes - Saves (inserts or updates) a resume and the revisions recorded since the last sync
+ *
+ * The user comes from the session cookie set by /api/session; requests without one get a 401.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSessionUserId, unauthorizedResponse } from '@/lib/session';
+import { safeMigrateResume } from '@/lib/resume-schema';
+import { getResumes, saveResume, isStorableRevision } from '@/lib/db/resumes';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    try {
+        const userId = getSessionUserId(request);
+        if (!userId) return unauthorizedResponse();
+
+        const resumes = await getResumes(userId);
+        return NextResponse.json({ resumes });
+    } catch (error) {
+        console.error('List resumes error:', error);
+
+        return NextResponse.json(
+            {
+                error: 'Failed to load resumes',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const userId = getSessionUserId(request);
+        if (!userId) return unauthorizedResponse();
+
+        const { resume: input, revisions = [] } = await request.json();
+
+        // Older clients may send resumes in an earlier schema version
+        const parsed = safeMigrateResume(input);
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: 'Invalid resume', message: parsed.error.message, issues: parsed.error.issues },
+                { status: 400 }
+            );
+        }
+        const resume = parsed.resume;
+
+        if (!Array.isArray(revisions) || !revisions.every(r => isStorableRevision(r, resume.id))) {
+            return NextResponse.json(
+                { error: 'Invalid revisions' },
+                { status: 400 }
+            );
+        }
+
+        const saved = await saveResume(resume, userId, { revisions });
+        if (!saved) {
+            return NextResponse.json(
+                { error: 'Resume belongs to another user' },
+                { status: 403 }
+            );
+        }
+
+        return NextResponse.json({ resume: saved });
+    } catch (error) {
+        console.error('Save resume error:', error);
+
+        return NextResponse.json(
+            {
+                error: 'Failed to save resume',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
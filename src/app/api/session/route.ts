@@ -0,0 +1,74 @@
+/**
+ * Session API Route
+ *
+ * GET    /api/session - The signed-in user, or null
+ * POST   /api/session - Signs in with a GitHub token; GitHub confirms the username
+ * DELETE /api/session - Signs out
+ *
+ * The token is only used to look up its owner and is not stored.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { Octokit } from '@octokit/rest';
+import {
+    SESSION_COOKIE,
+    SESSION_MAX_AGE_SECONDS,
+    createSessionToken,
+    getSessionUserId,
+} from '@/lib/session';
+
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+    return NextResponse.json({ username: getSessionUserId(request) });
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const { githubToken } = await request.json();
+
+        if (typeof githubToken !== 'string' || !githubToken.trim()) {
+            return NextResponse.json(
+                { error: 'A GitHub token is required' },
+                { status: 400 }
+            );
+        }
+
+        let username: string;
+        try {
+            const { data } = await new Octokit({ auth: githubToken.trim() }).users.getAuthenticated();
+            username = data.login;
+        } catch {
+            return NextResponse.json(
+                { error: 'Invalid GitHub token' },
+                { status: 401 }
+            );
+        }
+
+        const response = NextResponse.json({ username });
+        response.cookies.set(SESSION_COOKIE, createSessionToken(username), {
+            httpOnly: true,
+            sameSite: 'lax',
+            secure: process.env.NODE_ENV === 'production',
+            path: '/',
+            maxAge: SESSION_MAX_AGE_SECONDS,
+        });
+        return response;
+    } catch (error) {
+        console.error('Sign in error:', error);
+
+        return NextResponse.json(
+            {
+                error: 'Failed to sign in',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
+
+export async function DELETE() {
+    const response = NextResponse.json({ success: true });
+    response.cookies.delete(SESSION_COOKIE);
+    return response;
+}
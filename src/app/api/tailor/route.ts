@@ -0,0 +1,94 @@
+/**
+ * Tailor API Route
+ *
+ * POST /api/tailor
+ * Builds a variant of a resume for a job posting: projects reordered by
+ * relevance (unrelated ones hidden), skills reprioritized and the summary
+ * rewritten for the role. The variant is returned, not stored; the client
+ * saves it like any other resume.
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { safeMigrateResume } from '@/lib/resume-schema';
+import { tailorResume } from '@/lib/tailor';
+import { MAX_JOB_DESCRIPTION_LENGTH } from '@/lib/job-match';
+import { optimizeSummaryWithLLM } from '@/lib/llm/ats-analyzer';
+import { toLLMProvider } from '@/lib/llm/llm-service';
+import { unique } from '@/lib/utils';
+
+export const dynamic = 'force-dynamic';
+
+interface TailorRequest {
+    resume: unknown;
+    jobDescription?: string;
+    tier?: string;
+}
+
+export async function POST(request: NextRequest) {
+    try {
+        const body = await request.json() as TailorRequest;
+        const jobDescription = body.jobDescription?.trim();
+
+        if (!jobDescription) {
+            return NextResponse.json(
+                { error: 'jobDescription is required' },
+                { status: 400 }
+            );
+        }
+
+        if (jobDescription.length > MAX_JOB_DESCRIPTION_LENGTH) {
+            return NextResponse.json(
+                {
+                    error: 'Job description too long',
+                    message: `Job descriptions are limited to ${MAX_JOB_DESCRIPTION_LENGTH} characters.`,
+                },
+                { status: 400 }
+            );
+        }
+
+        const parsed = safeMigrateResume(body.resume);
+        if (!parsed.success) {
+            return NextResponse.json(
+                { error: 'Invalid resume', message: parsed.error.message, issues: parsed.error.issues },
+                { status: 400 }
+            );
+        }
+
+        const tailored = tailorResume(parsed.resume, jobDescription);
+
+        // Use 'groq' as default if not specified or invalid
+        const provider = toLLMProvider(body.tier);
+        const targetRole = tailored.job.title || parsed.resume.header.title || 'the role in this job posting';
+        const skills = [
+            ...tailored.matchedSkills,
+            ...tailored.resume.skills.categories.flatMap(cat => cat.items),
+        ];
+        const summary = await optimizeSummaryWithLLM(
+            parsed.resume.summary,
+            targetRole,
+            unique(skills),
+            provider
+        );
+
+        return NextResponse.json({
+            success: true,
+            data: {
+                resume: { ...tailored.resume, summary: summary.fixed },
+                job: tailored.job,
+                projects: tailored.projects,
+                summaryExplanation: summary.explanation,
+                tokenUsage: summary.tokenUsage,
+            },
+        });
+    } catch (error) {
+        console.error('Tailor error:', error);
+
+        return NextResponse.json(
+            {
+                error: 'Failed to tailor resume',
+                message: error instanceof Error ? error.message : 'Unknown error'
+            },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,387 @@
+/**
+ * Cover Letter Editor Page
+ *
+ * Edit a generated cover letter next to the project evidence it cites,
+ * preview it as printed and export it as PDF, DOCX or plain text.
+ */
+
+'use client';
+
+import { useEffect, useState, useCallback } from 'react';
+import { useParams, useRouter } from 'next/navigation';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { CoverLetterDocument } from '@/components/cover-letter/cover-letter-document';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+    ArrowLeft,
+    Download,
+    FileText,
+    Copy,
+    Loader2,
+    Check,
+    Plus,
+    Trash2,
+    AlertCircle,
+    BookOpen,
+} from 'lucide-react';
+import type { CoverLetter, CoverLetterParagraph } from '@/types';
+import { getCoverLetter, saveCoverLetter, deleteCoverLetter } from '@/lib/cover-letter-storage';
+import { getCitedProjects } from '@/lib/cover-letter';
+import { getResume } from '@/lib/storage';
+import { generateId } from '@/lib/utils';
+import { downloadBlob, getCoverLetterFilename, type ExportPageSize } from '@/lib/export/utils';
+import { exportCoverLetterToText } from '@/lib/export/text';
+
+type ViewMode = 'edit' | 'preview';
+
+const TEXTAREA_CLASS = 'w-full rounded-lg border border-[hsl(var(--border))] bg-transparent px-3 py-2 text-sm leading-relaxed focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[hsl(var(--ring))]';
+
+export default function CoverLetterEditorPage() {
+    const params = useParams();
+    const router = useRouter();
+    const letterId = params.id as string;
+
+    const [letter, setLetter] = useState<CoverLetter | null>(null);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [viewMode, setViewMode] = useState<ViewMode>('edit');
+    const [isSaving, setIsSaving] = useState(false);
+    const [lastSaved, setLastSaved] = useState<Date | null>(null);
+    const [isExporting, setIsExporting] = useState(false);
+
+    // Load from localStorage
+    useEffect(() => {
+        const saved = getCoverLetter(letterId);
+        if (saved) {
+            setLetter(saved);
+        } else {
+            setLoadError('Cover letter not found. Cover letters are stored in this browser only.');
+        }
+    }, [letterId]);
+
+    // Auto-save
+    useEffect(() => {
+        if (!letter) return;
+
+        const timeout = setTimeout(() => {
+            setIsSaving(true);
+            saveCoverLetter(letter);
+            setLastSaved(new Date());
+            setTimeout(() => setIsSaving(false), 500);
+        }, 1000);
+
+        return () => clearTimeout(timeout);
+    }, [letter]);
+
+    const updateLetter = useCallback((changes: Partial<CoverLetter>) => {
+        setLetter(prev => (prev ? { ...prev, ...changes } : prev));
+    }, []);
+
+    const updateParagraphs = useCallback((update: (paragraphs: CoverLetterParagraph[]) => CoverLetterParagraph[]) => {
+        setLetter(prev => (prev ? { ...prev, paragraphs: update(prev.paragraphs) } : prev));
+    }, []);
+
+    // Export through the server (PDF via headless Chromium, DOCX via docx)
+    const exportFile = useCallback(async (format: 'pdf' | 'docx', pageSize: ExportPageSize) => {
+        if (!letter) return;
+
+        const label = format.toUpperCase();
+        setIsExporting(true);
+        try {
+            const response = await fetch('/api/export/cover-letter', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    coverLetter: letter,
+                    format,
+                    template: getResume(letter.resumeId)?.template, // Match the resume's Word style
+                    pageSize,
+                }),
+            });
+
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(data.error || `Failed to export ${label}`);
+            }
+
+            downloadBlob(await response.blob(), getCoverLetterFilename(letter, format));
+        } catch (error) {
+            alert(error instanceof Error ? error.message : `Failed to export ${label}`);
+        } finally {
+            setIsExporting(false);
+        }
+    }, [letter]);
+
+    const exportToText = useCallback(() => {
+        if (!letter) return;
+
+        const text = exportCoverLetterToText(letter);
+        downloadBlob(new Blob([text], { type: 'text/plain;charset=utf-8' }), getCoverLetterFilename(letter, 'txt'));
+    }, [letter]);
+
+    // Copy plain text to the clipboard, ready to paste into an application form
+    const copyAsText = useCallback(async () => {
+        if (!letter) return;
+
+        try {
+            await navigator.clipboard.writeText(exportCoverLetterToText(letter, { lineWidth: 0 }));
+        } catch {
+            alert('Could not copy to clipboard');
+        }
+    }, [letter]);
+
+    const handleDelete = useCallback(() => {
+        if (!letter || !confirm('Delete this cover letter?')) return;
+
+        deleteCoverLetter(letter.id);
+        router.push(`/resume/${letter.resumeId}`);
+    }, [letter, router]);
+
+    if (loadError) {
+        return (
+            <div className="min-h-screen flex flex-col items-center justify-center gap-4 p-4 text-center">
+                <AlertCircle className="h-8 w-8 text-red-500" />
+                <p className="max-w-md text-sm text-[hsl(var(--muted-foreground))]">{loadError}</p>
+                <Button variant="outline" onClick={() => router.push('/')}>
+                    <ArrowLeft className="h-4 w-4 mr-1" />
+                    Back to home
+                </Button>
+            </div>
+        );
+    }
+
+    if (!letter) {
+        return (
+            <div className="min-h-screen flex items-center justify-center">
+                <Loader2 className="h-8 w-8 animate-spin text-[hsl(var(--primary))]" />
+            </div>
+        );
+    }
+
+    const citedProjects = getCitedProjects(letter);
+
+    return (
+        <div className="min-h-screen bg-[hsl(var(--muted))]">
+            {/* Toolbar */}
+            <div className="sticky top-0 z-50 bg-[hsl(var(--background))] border-b border-[hsl(var(--border))] shadow-sm">
+                <div className="max-w-7xl mx-auto px-4 py-3 flex items-center justify-between">
+                    <div className="flex items-center gap-4">
+                        <Button variant="ghost" size="icon" onClick={() => router.push(`/resume/${letter.resumeId}`)}>
+                            <ArrowLeft className="h-5 w-5" />
+                        </Button>
+                        <div>
+                            <h1 className="font-semibold">
+                                Cover Letter{letter.company ? ` – ${letter.company}` : ''}
+                            </h1>
+                            <p className="text-xs text-[hsl(var(--muted-foreground))]">
+                                {isSaving ? (
+                                    <span className="flex items-center gap-1">
+                                        <Loader2 className="h-3 w-3 animate-spin" />
+                                        Saving...
+                                    </span>
+                                ) : lastSaved ? (
+                                    <span className="flex items-center gap-1">
+                                        <Check className="h-3 w-3 text-emerald-500" />
+                                        Saved {lastSaved.toLocaleTimeString()}
+                                    </span>
+                                ) : (
+                                    'Changes auto-saved'
+                                )}
+                            </p>
+                        </div>
+                    </div>
+
+                    <div className="flex items-center gap-2">
+                        <Button variant="ghost" size="icon" onClick={handleDelete} title="Delete cover letter">
+                            <Trash2 className="h-4 w-4" />
+                        </Button>
+
+                        {/* View Mode Toggle */}
+                        <div className="flex rounded-lg overflow-hidden border border-[hsl(var(--border))]">
+                            <Button
+                                variant={viewMode === 'edit' ? 'default' : 'ghost'}
+                                size="sm"
+                                onClick={() => setViewMode('edit')}
+                                className="rounded-none"
+                            >
+                                Edit
+                            </Button>
+                            <Button
+                                variant={viewMode === 'preview' ? 'default' : 'ghost'}
+                                size="sm"
+                                onClick={() => setViewMode('preview')}
+                                className="rounded-none"
+                            >
+                                Preview
+                            </Button>
+                        </div>
+
+                        {/* Export Menu */}
+                        <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                                <Button variant="gradient" isLoading={isExporting}>
+                                    {!isExporting && <Download className="h-4 w-4" />}
+                                    <span className="hidden sm:inline ml-1">Export</span>
+                                </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" className="w-48">
+                                <DropdownMenuLabel>PDF</DropdownMenuLabel>
+                                <DropdownMenuItem onClick={() => exportFile('pdf', 'Letter')}>
+                                    <FileText className="mr-2 h-4 w-4" />
+                                    <span>US Letter</span>
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => exportFile('pdf', 'A4')}>
+                                    <FileText className="mr-2 h-4 w-4" />
+                                    <span>A4</span>
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuLabel>Word</DropdownMenuLabel>
+                                <DropdownMenuItem onClick={() => exportFile('docx', 'Letter')}>
+                                    <FileText className="mr-2 h-4 w-4" />
+                                    <span>US Letter (.docx)</span>
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => exportFile('docx', 'A4')}>
+                                    <FileText className="mr-2 h-4 w-4" />
+                                    <span>A4 (.docx)</span>
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuLabel>Text</DropdownMenuLabel>
+                                <DropdownMenuItem onClick={exportToText}>
+                                    <FileText className="mr-2 h-4 w-4" />
+                                    <span>Plain text (.txt)</span>
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={copyAsText}>
+                                    <Copy className="mr-2 h-4 w-4" />
+                                    <span>Copy as plain text</span>
+                                </DropdownMenuItem>
+                            </DropdownMenuContent>
+                        </DropdownMenu>
+                    </div>
+                </div>
+            </div>
+
+            {/* Main Content */}
+            <div className="max-w-7xl mx-auto px-4 py-8">
+                {viewMode === 'preview' ? (
+                    <div className="flex justify-center">
+                        <div className="transform-gpu origin-top" style={{ transform: 'scale(0.9)' }}>
+                            <CoverLetterDocument letter={letter} />
+                        </div>
+                    </div>
+                ) : (
+                    <div className="flex flex-col lg:flex-row gap-8">
+                        {/* Sidebar */}
+                        <div className="lg:w-96 space-y-4">
+                            <Card>
+                                <CardHeader className="pb-2">
+                                    <CardTitle className="text-lg">Details</CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-3 text-sm">
+                                    <label className="block space-y-1">
+                                        <span className="text-[hsl(var(--muted-foreground))]">Company</span>
+                                        <Input value={letter.company} onChange={(e) => updateLetter({ company: e.target.value })} />
+                                    </label>
+                                    <label className="block space-y-1">
+                                        <span className="text-[hsl(var(--muted-foreground))]">Date</span>
+                                        <Input value={letter.date} onChange={(e) => updateLetter({ date: e.target.value })} />
+                                    </label>
+                                    <label className="block space-y-1">
+                                        <span className="text-[hsl(var(--muted-foreground))]">Signature</span>
+                                        <Input value={letter.signature} onChange={(e) => updateLetter({ signature: e.target.value })} />
+                                    </label>
+                                </CardContent>
+                            </Card>
+
+                            {/* Evidence */}
+                            <Card>
+                                <CardHeader className="pb-2">
+                                    <CardTitle className="text-lg flex items-center gap-2">
+                                        <BookOpen className="h-5 w-5 text-[hsl(var(--primary))]" />
+                                        Evidence
+                                    </CardTitle>
+                                </CardHeader>
+                                <CardContent className="space-y-3 text-sm">
+                                    {citedProjects.length === 0 ? (
+                                        <p className="text-[hsl(var(--muted-foreground))]">No project facts are cited in this letter.</p>
+                                    ) : (
+                                        citedProjects.map(projectName => (
+                                            <div key={projectName} className="space-y-1">
+                                                <p className="font-medium">{projectName}</p>
+                                                {letter.paragraphs.flatMap(p => p.citations)
+                                                    .filter(c => c.projectName === projectName)
+                                                    .map((citation, i) => (
+                                                        <p key={i} className="text-xs text-[hsl(var(--muted-foreground))]">
+                                                            • {citation.fact}
+                                                        </p>
+                                                    ))}
+                                            </div>
+                                        ))
+                                    )}
+                                </CardContent>
+                            </Card>
+                        </div>
+
+                        {/* Letter Body */}
+                        <div className="flex-1">
+                            <Card>
+                                <CardContent className="pt-6 space-y-4">
+                                    <Input value={letter.greeting} onChange={(e) => updateLetter({ greeting: e.target.value })} />
+
+                                    {letter.paragraphs.map((paragraph, index) => (
+                                        <div key={paragraph.id} className="space-y-1">
+                                            <div className="flex gap-2">
+                                                <textarea
+                                                    value={paragraph.text}
+                                                    onChange={(e) => updateParagraphs(paragraphs => paragraphs.map((p, i) =>
+                                                        i === index ? { ...p, text: e.target.value } : p
+                                                    ))}
+                                                    rows={5}
+                                                    className={TEXTAREA_CLASS}
+                                                />
+                                                <Button
+                                                    variant="ghost"
+                                                    size="icon"
+                                                    title="Remove paragraph"
+                                                    onClick={() => updateParagraphs(paragraphs => paragraphs.filter((_, i) => i !== index))}
+                                                >
+                                                    <Trash2 className="h-4 w-4" />
+                                                </Button>
+                                            </div>
+                                            {paragraph.citations.length > 0 && (
+                                                <div className="flex flex-wrap gap-1">
+                                                    {[...new Set(paragraph.citations.map(c => c.projectName))].map(name => (
+                                                        <Badge key={name} variant="secondary">{name}</Badge>
+                                                    ))}
+                                                </div>
+                                            )}
+                                        </div>
+                                    ))}
+
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        onClick={() => updateParagraphs(paragraphs => [...paragraphs, { id: generateId(), text: '', citations: [] }])}
+                                    >
+                                        <Plus className="h-4 w-4 mr-1" />
+                                        Add paragraph
+                                    </Button>
+
+                                    <Input value={letter.closing} onChange={(e) => updateLetter({ closing: e.target.value })} />
+                                </CardContent>
+                            </Card>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+}
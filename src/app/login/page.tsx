@@ -12,19 +12,24 @@ import Link from 'next/link';
 
 export default function LoginPage() {
     const [username, setUsername] = useState('');
+    const [githubToken, setGithubToken] = useState('');
+    const [error, setError] = useState<string | null>(null);
     const [isLoading, setIsLoading] = useState(false);
     const { login } = useAuth();
     const router = useRouter();
 
-    const handleLogin = (e: React.FormEvent) => {
+    const handleLogin = async (e: React.FormEvent) => {
         e.preventDefault();
         setIsLoading(true);
+        setError(null);
 
-        // Simulate network request
-        setTimeout(() => {
-            login(username);
+        try {
+            await login(username, githubToken.trim() || undefined);
             router.push('/analyze'); // Redirect to main app
-        }, 800);
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Failed to sign in');
+            setIsLoading(false);
+        }
     };
 
     return (
@@ -48,6 +53,20 @@ export default function LoginPage() {
                                 onChange={(e) => setUsername(e.target.value)}
                             />
                         </div>
+                        <div className="space-y-2">
+                            <Label htmlFor="github-token">GitHub token (optional)</Label>
+                            <Input
+                                id="github-token"
+                                type="password"
+                                placeholder="ghp_..."
+                                value={githubToken}
+                                onChange={(e) => setGithubToken(e.target.value)}
+                            />
+                            <p className="text-xs text-muted-foreground">
+                                Verifies your GitHub account so your resumes sync across devices. It is not stored.
+                            </p>
+                        </div>
+                        {error && <p className="text-sm text-red-500">{error}</p>}
                         <Button type="submit" className="w-full" disabled={isLoading}>
                             {isLoading ? <Loader2 className="h-4 w-4 animate-spin mr-2" /> : null}
                             Sign In
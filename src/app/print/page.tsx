@@ -0,0 +1,58 @@
+/**
+ * Print Page
+ *
+ * Bare page used by the server-side PDF exporter. Renders the injected
+ * resume with the regular templates (or the injected cover letter) and no
+ * editor chrome.
+ */
+
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { ResumeTemplate } from '@/components/resume/resume-template';
+import { CoverLetterDocument } from '@/components/cover-letter/cover-letter-document';
+import { readPrintPayload, PRINT_READY_ATTRIBUTE } from '@/lib/export/print';
+
+// The payload is injected once before hydration and never changes
+const subscribe = () => () => {};
+
+export default function PrintPage() {
+    const payload = useSyncExternalStore(subscribe, readPrintPayload, () => null);
+
+    if (!payload) {
+        return (
+            <div className="min-h-screen flex items-center justify-center text-sm text-[hsl(var(--muted-foreground))]">
+                Nothing to print.
+            </div>
+        );
+    }
+
+    return (
+        <div {...{ [PRINT_READY_ATTRIBUTE]: 'true' }}>
+            {'coverLetter' in payload ? (
+                <CoverLetterDocument letter={payload.coverLetter} />
+            ) : (
+                <ResumeTemplate resume={{ ...payload.resume, template: payload.template }} />
+            )}
+
+            {/* Page size and margins come from the exporter, not the template */}
+            <style jsx global>{`
+                html,
+                body {
+                    background: white !important;
+                }
+                .resume-page {
+                    width: auto !important;
+                    min-height: 0 !important;
+                    margin: 0 !important;
+                    box-shadow: none !important;
+                }
+                @media print {
+                    .resume-page {
+                        padding: 0 !important;
+                    }
+                }
+            `}</style>
+        </div>
+    );
+}
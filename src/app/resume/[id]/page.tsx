@@ -7,7 +7,7 @@
 
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useRef } from 'react';
 import { useParams, useRouter } from 'next/navigation';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -16,10 +16,26 @@ import { ResumeTemplate } from '@/components/resume/resume-template';
 import { SectionManager } from '@/components/resume/section-manager';
 import { KeywordSuggestions } from '@/components/resume/keyword-suggestions';
 import { ATSScoreModal } from '@/components/resume/ats-score-modal';
+import { HistoryPanel } from '@/components/resume/history-panel';
+import { TailorDialog } from '@/components/resume/tailor-dialog';
+import { VariantsPanel } from '@/components/resume/variants-panel';
+import { TextExportOptionsMenu } from '@/components/resume/text-export-options';
+import { CoverLetterDialog } from '@/components/cover-letter/cover-letter-dialog';
+import {
+    DropdownMenu,
+    DropdownMenuContent,
+    DropdownMenuItem,
+    DropdownMenuLabel,
+    DropdownMenuSeparator,
+    DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import {
     ArrowLeft,
     Download,
     FileText,
+    FileJson,
+    FileCode,
+    Copy,
     Sparkles,
     Loader2,
     Check,
@@ -27,14 +43,34 @@ import {
     Target,
     ChevronLeft,
     ChevronRight,
+    History,
+    Scissors,
+    Mail,
+    Undo2,
+    Redo2,
+    AlertCircle,
 } from 'lucide-react';
-import type { Resume, ResumeTemplate as ResumeTemplateType, CustomSection } from '@/types';
-import { DEFAULT_SECTION_ORDER } from '@/types/resume';
-import { getResume, saveResume } from '@/lib/storage';
+import type { CoverLetter, Resume, ResumeRevision, RevisionSource, ResumeTemplate as ResumeTemplateType, CustomSection } from '@/types';
+import { getResume, saveResume, loadResume, restoreRevision, forkRevision } from '@/lib/storage';
 import { deepClone } from '@/lib/utils';
+import { safeMigrateResume } from '@/lib/resume-schema';
+import { useUndoHistory, type UpdateOptions } from '@/hooks/use-undo-history';
+import { downloadBlob, getExportFilename, type ExportPageSize } from '@/lib/export/utils';
+import { toJsonResume } from '@/lib/export/json-resume';
+import { exportResumeToText, DEFAULT_TEXT_OPTIONS, type TextExportOptions } from '@/lib/export/text';
+import { exportResumeToMarkdown, DEFAULT_MARKDOWN_OPTIONS, type MarkdownExportOptions } from '@/lib/export/markdown';
+import { exportResumeToLatex, LATEX_LAYOUTS, type LatexLayout } from '@/lib/export/latex';
 
 type ViewMode = 'edit' | 'preview';
 
+// Read a value by dot path, e.g. 'projects.0.bullets.1'
+function getPath(obj: unknown, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+        (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+        obj
+    );
+}
+
 import { useAuth } from '@/contexts/auth-context';
 
 export default function ResumeEditorPage() {
@@ -43,55 +79,77 @@ export default function ResumeEditorPage() {
     const resumeId = params.id as string;
     const { user } = useAuth(); // Get user tier
 
-    const [resume, setResume] = useState<Resume | null>(null);
+    const {
+        state: resume,
+        update: updateResume,
+        reset: resetResume,
+        undo,
+        redo,
+        canUndo,
+        canRedo,
+    } = useUndoHistory<Resume | null>(null);
     const [viewMode, setViewMode] = useState<ViewMode>('edit');
     const [isSaving, setIsSaving] = useState(false);
     const [lastSaved, setLastSaved] = useState<Date | null>(null);
     const [isExporting, setIsExporting] = useState(false);
     const [showATSModal, setShowATSModal] = useState(false);
+    const [showHistory, setShowHistory] = useState(false);
+    const [tailorJobDescription, setTailorJobDescription] = useState<string | null>(null); // Open while set
+    const [showCoverLetter, setShowCoverLetter] = useState(false);
+    const pendingSource = useRef<RevisionSource>('edit'); // Source of the next auto-saved revision
     const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [textOptions, setTextOptions] = useState<Required<TextExportOptions>>(DEFAULT_TEXT_OPTIONS);
+    const [markdownOptions, setMarkdownOptions] = useState<Required<MarkdownExportOptions>>(DEFAULT_MARKDOWN_OPTIONS);
 
-    // Load resume from localStorage
+    // Load resume from localStorage, falling back to the server
     useEffect(() => {
         // First try to get from generated_resume (just created)
         const generatedResume = localStorage.getItem('generated_resume');
         if (generatedResume) {
-            const parsed = JSON.parse(generatedResume) as Resume;
+            const parsed = JSON.parse(generatedResume) as { id?: string };
             if (parsed.id === resumeId) {
-                // Ensure new fields exist
-                const resumeWithDefaults = {
-                    ...parsed,
-                    customSections: parsed.customSections || [],
-                    sectionOrder: parsed.sectionOrder || DEFAULT_SECTION_ORDER,
-                    sectionVisibility: parsed.sectionVisibility || { header: true, summary: true, skills: true, experience: true, projects: true, education: true, certifications: true },
-                };
-                setResume(resumeWithDefaults);
-                // Save to permanent storage
-                saveResume(resumeWithDefaults);
                 // Clear the temporary storage
                 localStorage.removeItem('generated_resume');
+                // Upgrade to the current schema, then save to permanent storage
+                const result = safeMigrateResume(parsed);
+                if (!result.success) {
+                    setLoadError(result.error.message);
+                    return;
+                }
+                resetResume(result.resume);
+                saveResume(result.resume);
                 return;
             }
         }
 
-        // Otherwise load from permanent storage
+        // Otherwise load from the local cache (upgraded to the current schema on read)
         const saved = getResume(resumeId);
         if (saved) {
-            // Ensure new fields exist
-            const resumeWithDefaults = {
-                ...saved,
-                customSections: saved.customSections || [],
-                sectionOrder: saved.sectionOrder || DEFAULT_SECTION_ORDER,
-                sectionVisibility: saved.sectionVisibility || { header: true, summary: true, skills: true, experience: true, projects: true, education: true, certifications: true },
-            };
-            setResume(resumeWithDefaults);
+            resetResume(saved);
+            return;
         }
-    }, [resumeId]);
 
-    // Handle updates to resume fields
-    const handleUpdate = useCallback((path: string, value: unknown) => {
-        setResume(prev => {
+        // Not cached on this device - fetch it from the server
+        let cancelled = false;
+        loadResume(resumeId).then(remote => {
+            if (cancelled) return;
+            if (remote) {
+                resetResume(remote);
+            } else {
+                setLoadError('Resume not found. It may have been deleted, or saved in a format this version cannot read.');
+            }
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [resumeId, resetResume]);
+
+    // Set a field by dot path; updates in the same group merge into one undo step
+    const updateField = useCallback((path: string, value: unknown, options?: UpdateOptions) => {
+        updateResume(prev => {
             if (!prev) return prev;
+            if (Object.is(getPath(prev, path), value)) return prev; // e.g. blur without an edit
 
             const updated = deepClone(prev);
             const parts = path.split('.');
@@ -107,37 +165,42 @@ export default function ResumeEditorPage() {
 
             current[parts[parts.length - 1]] = value;
             return updated;
-        });
-    }, []);
+        }, options);
+    }, [updateResume]);
+
+    // Handle updates to resume fields; rapid edits to one field form a single undo step
+    const handleUpdate = useCallback((path: string, value: unknown) => {
+        updateField(path, value, { group: path });
+    }, [updateField]);
 
     // Add custom section
     const handleAddSection = useCallback((section: CustomSection) => {
-        setResume(prev => {
+        updateResume(prev => {
             if (!prev) return prev;
             const updated = deepClone(prev);
-            updated.customSections = [...(updated.customSections || []), section];
-            updated.sectionOrder = [...(updated.sectionOrder || DEFAULT_SECTION_ORDER), section.id];
+            updated.customSections = [...updated.customSections, section];
+            updated.sectionOrder = [...updated.sectionOrder, section.id];
             return updated;
         });
-    }, []);
+    }, [updateResume]);
 
     // Remove custom section
     const handleRemoveSection = useCallback((sectionId: string) => {
-        setResume(prev => {
+        updateResume(prev => {
             if (!prev) return prev;
             const updated = deepClone(prev);
-            updated.customSections = (updated.customSections || []).filter(s => s.id !== sectionId);
-            updated.sectionOrder = (updated.sectionOrder || []).filter(id => id !== sectionId);
+            updated.customSections = updated.customSections.filter(s => s.id !== sectionId);
+            updated.sectionOrder = updated.sectionOrder.filter(id => id !== sectionId);
             return updated;
         });
-    }, []);
+    }, [updateResume]);
 
     // Reorder section
     const handleReorderSection = useCallback((sectionId: string, direction: 'up' | 'down') => {
-        setResume(prev => {
+        updateResume(prev => {
             if (!prev) return prev;
             const updated = deepClone(prev);
-            const order = [...(updated.sectionOrder || DEFAULT_SECTION_ORDER)];
+            const order = [...updated.sectionOrder];
             const currentIndex = order.indexOf(sectionId);
 
             if (currentIndex === -1) return prev;
@@ -150,7 +213,7 @@ export default function ResumeEditorPage() {
             updated.sectionOrder = order;
             return updated;
         });
-    }, []);
+    }, [updateResume]);
 
     // Auto-save
     useEffect(() => {
@@ -158,7 +221,8 @@ export default function ResumeEditorPage() {
 
         const timeout = setTimeout(() => {
             setIsSaving(true);
-            saveResume(resume);
+            saveResume(resume, pendingSource.current);
+            pendingSource.current = 'edit';
             setLastSaved(new Date());
             setTimeout(() => setIsSaving(false), 500);
         }, 1000);
@@ -166,14 +230,73 @@ export default function ResumeEditorPage() {
         return () => clearTimeout(timeout);
     }, [resume]);
 
-    // Export to PDF (using browser print)
-    const exportToPDF = useCallback(() => {
+    // Export through the server exporters (PDF via headless Chromium, DOCX via docx)
+    const exportFile = useCallback(async (format: 'pdf' | 'docx', pageSize: ExportPageSize) => {
+        if (!resume) return;
+
+        const label = format.toUpperCase();
         setIsExporting(true);
-        setTimeout(() => {
-            window.print();
+        try {
+            const response = await fetch(`/api/export/${format}`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    resume,
+                    template: resume.template,
+                    pageSize,
+                }),
+            });
+
+            if (!response.ok) {
+                const data = await response.json().catch(() => ({}));
+                throw new Error(data.error || `Failed to export ${label}`);
+            }
+
+            downloadBlob(await response.blob(), getExportFilename(resume, format));
+        } catch (error) {
+            alert(error instanceof Error ? error.message : `Failed to export ${label}`);
+        } finally {
             setIsExporting(false);
-        }, 100);
-    }, []);
+        }
+    }, [resume]);
+
+    // Export as a JSON Resume document (converted in the browser)
+    const exportToJSONResume = useCallback(() => {
+        if (!resume) return;
+
+        const json = JSON.stringify(toJsonResume(resume), null, 2);
+        downloadBlob(new Blob([json], { type: 'application/json' }), getExportFilename(resume, 'json'));
+    }, [resume]);
+
+    // Export as plain text or Markdown (for portals that only offer a textarea)
+    const exportToText = useCallback((format: 'txt' | 'md') => {
+        if (!resume) return;
+
+        const text = format === 'md'
+            ? exportResumeToMarkdown(resume, markdownOptions)
+            : exportResumeToText(resume, textOptions);
+        const type = format === 'md' ? 'text/markdown' : 'text/plain';
+        downloadBlob(new Blob([text], { type: `${type};charset=utf-8` }), getExportFilename(resume, format));
+    }, [resume, textOptions, markdownOptions]);
+
+    // Export as a standalone LaTeX source file
+    const exportToLatex = useCallback((layout: LatexLayout) => {
+        if (!resume) return;
+
+        const tex = exportResumeToLatex(resume, { layout });
+        downloadBlob(new Blob([tex], { type: 'application/x-tex;charset=utf-8' }), getExportFilename(resume, 'tex'));
+    }, [resume]);
+
+    // Copy plain text to the clipboard, ready to paste into an application form
+    const copyAsText = useCallback(async () => {
+        if (!resume) return;
+
+        try {
+            await navigator.clipboard.writeText(exportResumeToText(resume, { bullet: textOptions.bullet, lineWidth: 0 }));
+        } catch {
+            alert('Could not copy to clipboard');
+        }
+    }, [resume, textOptions.bullet]);
 
     // Apply AI fix
     const handleApplyFix = useCallback((location: string, value: string) => {
@@ -187,8 +310,75 @@ export default function ResumeEditorPage() {
         // Handle "project.0.description" -> "projects.0.description"
         if (path.startsWith('project.')) path = path.replace('project.', 'projects.');
 
-        handleUpdate(path, value);
-    }, [handleUpdate]);
+        // Save the current text as its own revision so the fix can be reverted from the history
+        if (resume) saveResume(resume);
+        pendingSource.current = 'ai-fix';
+        updateField(path, value);
+    }, [resume, updateField]);
+
+    // Restoring is an undoable step like any other edit
+    const handleRestoreRevision = useCallback((revision: ResumeRevision) => {
+        const restored = restoreRevision(revision);
+        updateResume(() => restored);
+        setLastSaved(new Date());
+        setShowHistory(false);
+    }, [updateResume]);
+
+    const handleForkRevision = useCallback((revision: ResumeRevision) => {
+        const forked = forkRevision(revision);
+        setShowHistory(false);
+        router.push(`/resume/${forked.id}`);
+    }, [router]);
+
+    const handleTailorFromATS = useCallback((jobDescription: string) => {
+        setShowATSModal(false);
+        setTailorJobDescription(jobDescription);
+    }, []);
+
+    const handleVariantCreated = useCallback((variant: Resume) => {
+        setTailorJobDescription(null);
+        router.push(`/resume/${variant.id}`);
+    }, [router]);
+
+    const handleCoverLetterCreated = useCallback((letter: CoverLetter) => {
+        setShowCoverLetter(false);
+        router.push(`/cover-letter/${letter.id}`);
+    }, [router]);
+
+    // Undo/redo shortcuts; text fields being edited keep the browser's own undo
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.metaKey || e.ctrlKey) || e.altKey) return;
+
+            const target = e.target as HTMLElement | null;
+            if (target && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))) return;
+
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                undo();
+            } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+                e.preventDefault();
+                redo();
+            }
+        };
+
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, [undo, redo]);
+
+    if (loadError) {
+        return (
+            <div className="min-h-screen flex flex-col items-center justify-center gap-4 p-4 text-center">
+                <AlertCircle className="h-8 w-8 text-red-500" />
+                <p className="max-w-md text-sm text-[hsl(var(--muted-foreground))]">{loadError}</p>
+                <Button variant="outline" onClick={() => router.push('/')}>
+                    <ArrowLeft className="h-4 w-4 mr-1" />
+                    Back to home
+                </Button>
+            </div>
+        );
+    }
 
     if (!resume) {
         return (
@@ -228,6 +418,43 @@ export default function ResumeEditorPage() {
                     </div>
 
                     <div className="flex items-center gap-2">
+                        {/* Undo / Redo */}
+                        <div className="flex">
+                            <Button variant="ghost" size="icon" onClick={undo} disabled={!canUndo} title="Undo (Ctrl+Z)">
+                                <Undo2 className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="icon" onClick={redo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)">
+                                <Redo2 className="h-4 w-4" />
+                            </Button>
+                        </div>
+
+                        {/* Version History Button */}
+                        <Button
+                            variant="outline"
+                            onClick={() => setShowHistory(true)}
+                        >
+                            <History className="h-4 w-4" />
+                            <span className="hidden sm:inline ml-1">History</span>
+                        </Button>
+
+                        {/* Tailor Button */}
+                        <Button
+                            variant="outline"
+                            onClick={() => setTailorJobDescription('')}
+                        >
+                            <Scissors className="h-4 w-4" />
+                            <span className="hidden sm:inline ml-1">Tailor</span>
+                        </Button>
+
+                        {/* Cover Letter Button */}
+                        <Button
+                            variant="outline"
+                            onClick={() => setShowCoverLetter(true)}
+                        >
+                            <Mail className="h-4 w-4" />
+                            <span className="hidden sm:inline ml-1">Cover Letter</span>
+                        </Button>
+
                         {/* ATS Check Button */}
                         <Button
                             variant="outline"
@@ -257,15 +484,70 @@ export default function ResumeEditorPage() {
                             </Button>
                         </div>
 
-                        {/* Export Button */}
-                        <Button
-                            variant="gradient"
-                            onClick={exportToPDF}
-                            isLoading={isExporting}
-                        >
-                            <Download className="h-4 w-4" />
-                            <span className="hidden sm:inline ml-1">Export PDF</span>
-                        </Button>
+                        {/* Export Menu */}
+                        <DropdownMenu>
+                            <DropdownMenuTrigger asChild>
+                                <Button variant="gradient" isLoading={isExporting}>
+                                    {!isExporting && <Download className="h-4 w-4" />}
+                                    <span className="hidden sm:inline ml-1">Export</span>
+                                </Button>
+                            </DropdownMenuTrigger>
+                            <DropdownMenuContent align="end" className="w-48">
+                                <DropdownMenuLabel>PDF</DropdownMenuLabel>
+                                <DropdownMenuItem onClick={() => exportFile('pdf', 'Letter')}>
+                                    <FileText className="mr-2 h-4 w-4" />
+                                    <span>US Letter</span>
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => exportFile('pdf', 'A4')}>
+                                    <FileText className="mr-2 h-4 w-4" />
+                                    <span>A4</span>
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuLabel>Word</DropdownMenuLabel>
+                                <DropdownMenuItem onClick={() => exportFile('docx', 'Letter')}>
+                                    <FileText className="mr-2 h-4 w-4" />
+                                    <span>US Letter (.docx)</span>
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => exportFile('docx', 'A4')}>
+                                    <FileText className="mr-2 h-4 w-4" />
+                                    <span>A4 (.docx)</span>
+                                </DropdownMenuItem>
+                                <DropdownMenuSeparator />
+                                <DropdownMenuLabel>LaTeX</DropdownMenuLabel>
+                                {LATEX_LAYOUTS.map(layout => (
+                                    <DropdownMenuItem key={layout.id} onClick={() => exportToLatex(layout.id)}>
+                                        <FileCode className="mr-2 h-4 w-4" />
+                                        <span>{layout.name} (.tex)</span>
+                                    </DropdownMenuItem>
+                                ))}
+                                <DropdownMenuSeparator />
+                                <DropdownMenuLabel>Text</DropdownMenuLabel>
+                                <DropdownMenuItem onClick={() => exportToText('txt')}>
+                                    <FileText className="mr-2 h-4 w-4" />
+                                    <span>Plain text (.txt)</span>
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={() => exportToText('md')}>
+                                    <FileText className="mr-2 h-4 w-4" />
+                                    <span>Markdown (.md)</span>
+                                </DropdownMenuItem>
+                                <DropdownMenuItem onClick={copyAsText}>
+                                    <Copy className="mr-2 h-4 w-4" />
+                                    <span>Copy as plain text</span>
+                                </DropdownMenuItem>
+                                <TextExportOptionsMenu
+                                    textOptions={textOptions}
+                                    markdownOptions={markdownOptions}
+                                    onTextOptionsChange={setTextOptions}
+                                    onMarkdownOptionsChange={setMarkdownOptions}
+                                />
+                                <DropdownMenuSeparator />
+                                <DropdownMenuLabel>Data</DropdownMenuLabel>
+                                <DropdownMenuItem onClick={exportToJSONResume}>
+                                    <FileJson className="mr-2 h-4 w-4" />
+                                    <span>JSON Resume</span>
+                                </DropdownMenuItem>
+                            </DropdownMenuContent>
+                        </DropdownMenu>
                     </div>
                 </div>
             </div>
@@ -319,6 +601,9 @@ export default function ResumeEditorPage() {
                                         </CardContent>
                                     </Card>
 
+                                    {/* Tailored Versions */}
+                                    <VariantsPanel key={resume.id} resume={resume} />
+
                                     {/* Keyword Suggestions */}
                                     <KeywordSuggestions resume={resume} />
 
@@ -395,7 +680,39 @@ export default function ResumeEditorPage() {
                     resume={resume}
                     onClose={() => setShowATSModal(false)}
                     onApplyFix={handleApplyFix}
+                    onTailor={handleTailorFromATS}
+                    tier={user?.tier === 'premium' ? 'openai' : 'groq'}
+                />
+            )}
+
+            {/* Tailor for a Job */}
+            {tailorJobDescription !== null && (
+                <TailorDialog
+                    resume={resume}
+                    initialJobDescription={tailorJobDescription}
+                    tier={user?.tier === 'premium' ? 'openai' : 'groq'}
+                    onClose={() => setTailorJobDescription(null)}
+                    onCreated={handleVariantCreated}
+                />
+            )}
+
+            {/* Version History */}
+            {showHistory && (
+                <HistoryPanel
+                    resume={resume}
+                    onClose={() => setShowHistory(false)}
+                    onRestore={handleRestoreRevision}
+                    onFork={handleForkRevision}
+                />
+            )}
+
+            {/* Cover Letter */}
+            {showCoverLetter && (
+                <CoverLetterDialog
+                    resume={resume}
                     tier={user?.tier === 'premium' ? 'openai' : 'groq'}
+                    onClose={() => setShowCoverLetter(false)}
+                    onCreated={handleCoverLetterCreated}
                 />
             )}
 
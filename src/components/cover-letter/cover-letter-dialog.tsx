@@ -0,0 +1,148 @@
+/**
+ * Cover Letter Dialog Component
+ *
+ * Writes a cover letter from the open resume for a company or job posting,
+ * and lists the letters already written from it
+ */
+
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { XCircle, Mail } from 'lucide-react';
+import type { CoverLetter, Resume } from '@/types';
+import { getAnalyses } from '@/lib/storage';
+import { getCoverLettersForResume, saveCoverLetter } from '@/lib/cover-letter-storage';
+import { MAX_JOB_DESCRIPTION_LENGTH } from '@/lib/job-match';
+import { formatRelativeTime } from '@/lib/utils';
+import type { LLMProvider } from '@/lib/llm/types';
+
+interface CoverLetterDialogProps {
+    resume: Resume;
+    tier?: LLMProvider;
+    onClose: () => void;
+    onCreated: (letter: CoverLetter) => void;
+}
+
+export function CoverLetterDialog({ resume, tier, onClose, onCreated }: CoverLetterDialogProps) {
+    const [company, setCompany] = useState('');
+    const [jobDescription, setJobDescription] = useState(resume.metadata.tailoredFrom?.jobDescription || '');
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const [letters] = useState(() => getCoverLettersForResume(resume.id));
+    const analyzedCount = getAnalyses(resume).length;
+
+    const handleGenerate = async () => {
+        setLoading(true);
+        setError(null);
+
+        try {
+            const response = await fetch('/api/cover-letter', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    resume,
+                    analyses: getAnalyses(resume),
+                    company,
+                    jobDescription,
+                    tier,
+                }),
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.message || data.error || 'Failed to write cover letter');
+            }
+
+            onCreated(saveCoverLetter(data.data.coverLetter));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <Card className="max-w-2xl w-full max-h-[90vh] overflow-hidden">
+                <CardHeader className="border-b">
+                    <div className="flex items-center justify-between">
+                        <CardTitle className="flex items-center gap-2">
+                            <Mail className="h-5 w-5" />
+                            Cover Letter
+                        </CardTitle>
+                        <Button variant="ghost" size="sm" onClick={onClose}>
+                            <XCircle className="h-4 w-4" />
+                        </Button>
+                    </div>
+                </CardHeader>
+
+                <CardContent className="overflow-y-auto max-h-[calc(90vh-80px)] pt-6 space-y-4">
+                    {letters.length > 0 && (
+                        <div className="space-y-1">
+                            <p className="text-sm font-medium">Written from this resume</p>
+                            {letters.map(letter => (
+                                <Link
+                                    key={letter.id}
+                                    href={`/cover-letter/${letter.id}`}
+                                    className="flex justify-between gap-2 p-2 rounded-lg text-sm hover:bg-[hsl(var(--muted))]"
+                                >
+                                    <span className="truncate">
+                                        {[letter.jobTitle, letter.company].filter(Boolean).join(' at ') || 'Cover letter'}
+                                    </span>
+                                    <span className="text-xs text-[hsl(var(--muted-foreground))] shrink-0">
+                                        {formatRelativeTime(letter.metadata.updatedAt)}
+                                    </span>
+                                </Link>
+                            ))}
+                        </div>
+                    )}
+
+                    <p className="text-sm text-[hsl(var(--muted-foreground))]">
+                        {analyzedCount > 0
+                            ? `Uses the ${analyzedCount} analyzed repositories behind this resume as evidence, picking the ones that fit the job best.`
+                            : 'Uses the projects on this resume as evidence. Resumes generated from GitHub get richer letters from the repository analyses.'}
+                    </p>
+
+                    <Input
+                        value={company}
+                        onChange={(e) => setCompany(e.target.value)}
+                        placeholder="Company name"
+                        disabled={loading}
+                    />
+
+                    <textarea
+                        value={jobDescription}
+                        onChange={(e) => setJobDescription(e.target.value)}
+                        placeholder="Paste the job posting here (optional)..."
+                        rows={10}
+                        maxLength={MAX_JOB_DESCRIPTION_LENGTH}
+                        disabled={loading}
+                        className="w-full rounded-lg border border-[hsl(var(--border))] bg-transparent px-3 py-2 text-sm placeholder:text-[hsl(var(--muted-foreground))] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[hsl(var(--ring))]"
+                    />
+
+                    {error && (
+                        <p className="text-sm text-[hsl(var(--destructive))]">{error}</p>
+                    )}
+
+                    <div className="flex justify-end gap-3">
+                        <Button variant="outline" onClick={onClose} disabled={loading}>
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={handleGenerate}
+                            isLoading={loading}
+                            disabled={!company.trim() && !jobDescription.trim()}
+                        >
+                            {!loading && <Mail className="h-4 w-4 mr-1" />}
+                            Write Cover Letter
+                        </Button>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,44 @@
+/**
+ * Cover Letter Document Component
+ *
+ * The printable letter, used by the editor preview and the /print page
+ */
+
+'use client';
+
+import type { CoverLetter } from '@/types';
+import { getContactItems } from '@/lib/export/sections';
+
+interface CoverLetterDocumentProps {
+    letter: CoverLetter;
+}
+
+export function CoverLetterDocument({ letter }: CoverLetterDocumentProps) {
+    const contact = getContactItems(letter.sender);
+
+    return (
+        <div className="resume-page shadow-2xl mx-auto bg-white text-gray-800" style={{ padding: '25mm' }}>
+            <header className="mb-8">
+                {letter.sender.name && (
+                    <h1 className="text-2xl font-bold text-gray-900">{letter.sender.name}</h1>
+                )}
+                {contact.length > 0 && (
+                    <p className="text-sm text-gray-500">
+                        {contact.map(item => item.text).join('  |  ')}
+                    </p>
+                )}
+            </header>
+
+            <p className="mb-6">{letter.date}</p>
+            {letter.company && <p className="mb-6">{letter.company}</p>}
+            <p className="mb-4">{letter.greeting}</p>
+
+            {letter.paragraphs.map(paragraph => (
+                <p key={paragraph.id} className="mb-4 leading-relaxed">{paragraph.text}</p>
+            ))}
+
+            <p className="mt-6">{letter.closing}</p>
+            <p>{letter.signature}</p>
+        </div>
+    );
+}
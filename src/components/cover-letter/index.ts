@@ -0,0 +1,2 @@
+export * from './cover-letter-document';
+export * from './cover-letter-dialog';
@@ -1,7 +1,8 @@
 /**
  * ATS Score Modal Component
  * 
- * Displays detailed ATS score breakdown with AI-powered suggestions and fixes
+ * Displays detailed ATS score breakdown with AI-powered suggestions and fixes,
+ * and optionally a match report against a pasted job description
  */
 
 'use client';
@@ -28,10 +29,14 @@ import {
     Check,
     Copy,
     RefreshCw,
+    Briefcase,
+    Scissors,
 } from 'lucide-react';
 import type { Resume } from '@/types';
 import type { ATSScore } from '@/lib/ats-scorer';
 import type { LLMATSResult, LLMSuggestion } from '@/lib/llm/ats-analyzer';
+import type { JobMatchReport } from '@/lib/job-match';
+import { JobMatchPanel } from './job-match-panel';
 
 import { deepClone } from '@/lib/utils';
 import { useUsage } from '@/contexts/usage-context';
@@ -42,6 +47,7 @@ interface ATSScoreModalProps {
     targetRole?: string;
     onClose: () => void;
     onApplyFix?: (path: string, value: string) => void;
+    onTailor?: (jobDescription: string) => void;
     tier?: LLMProvider;
 }
 
@@ -294,12 +300,15 @@ function RuleSuggestionCard({
     );
 }
 
-export function ATSScoreModal({ resume, targetRole, onClose, onApplyFix, tier }: ATSScoreModalProps) {
+export function ATSScoreModal({ resume, targetRole, onClose, onApplyFix, onTailor, tier }: ATSScoreModalProps) {
     const [mode, setMode] = useState<'quick' | 'ai'>('quick');
     const [loading, setLoading] = useState(true);
     const [error, setError] = useState<string | null>(null);
     const [score, setScore] = useState<ATSScore | null>(null);
     const [aiResult, setAiResult] = useState<LLMATSResult | null>(null);
+    const [jobDescription, setJobDescription] = useState('');
+    const [showJobInput, setShowJobInput] = useState(false);
+    const [jobMatch, setJobMatch] = useState<JobMatchReport | null>(null);
     const [usage, setUsage] = useState<{ remaining: number; limit: number } | null>(null);
     const [showUpgrade, setShowUpgrade] = useState(false);
     const [fixingId, setFixingId] = useState<string | null>(null);
@@ -321,7 +330,13 @@ export function ATSScoreModal({ resume, targetRole, onClose, onApplyFix, tier }:
             const response = await fetch('/api/ats-check', {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ resume, targetRole, mode: analysisMode, tier }),
+                body: JSON.stringify({
+                    resume,
+                    targetRole,
+                    jobDescription: jobDescription.trim() || undefined,
+                    mode: analysisMode,
+                    tier,
+                }),
             });
 
             const data = await response.json();
@@ -334,6 +349,7 @@ export function ATSScoreModal({ resume, targetRole, onClose, onApplyFix, tier }:
             }
 
             setScore(data.data.score);
+            setJobMatch(data.data.jobMatch || null);
             if (data.data.aiResult) {
                 setAiResult(deepClone(data.data.aiResult));
                 // Increment usage only for AI analysis success
@@ -455,6 +471,52 @@ export function ATSScoreModal({ resume, targetRole, onClose, onApplyFix, tier }:
                                 )}
                             </div>
 
+                            {/* Job Description */}
+                            <div className="rounded-lg border border-[hsl(var(--border))] p-4">
+                                <button
+                                    onClick={() => setShowJobInput(!showJobInput)}
+                                    className="w-full flex items-center justify-between text-sm font-medium"
+                                >
+                                    <span className="flex items-center gap-2">
+                                        <Briefcase className="h-4 w-4" />
+                                        {jobMatch ? 'Change job description' : 'Match against a job description'}
+                                    </span>
+                                    {showJobInput ? <ChevronUp className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                                </button>
+                                {showJobInput && (
+                                    <div className="mt-3 space-y-2">
+                                        <textarea
+                                            value={jobDescription}
+                                            onChange={(e) => setJobDescription(e.target.value)}
+                                            placeholder="Paste the job posting here..."
+                                            rows={8}
+                                            className="w-full rounded-lg border border-[hsl(var(--border))] bg-transparent px-3 py-2 text-sm placeholder:text-[hsl(var(--muted-foreground))] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[hsl(var(--ring))]"
+                                        />
+                                        <div className="flex justify-end">
+                                            <Button
+                                                size="sm"
+                                                onClick={() => fetchScore(mode)}
+                                                disabled={!jobDescription.trim()}
+                                            >
+                                                <Target className="h-4 w-4 mr-1" />
+                                                {mode === 'ai' ? 'Match with AI' : 'Match Job'}
+                                            </Button>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+
+                            {/* Job Match Report */}
+                            {jobMatch && <JobMatchPanel report={jobMatch} />}
+                            {jobMatch && onTailor && (
+                                <div className="flex justify-end">
+                                    <Button variant="outline" size="sm" onClick={() => onTailor(jobDescription)}>
+                                        <Scissors className="h-4 w-4 mr-1" />
+                                        Tailor a version for this job
+                                    </Button>
+                                </div>
+                            )}
+
                             {/* Usage Info */}
                             {usage && (
                                 <p className="text-center text-sm text-[hsl(var(--muted-foreground))]">
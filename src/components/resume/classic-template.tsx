@@ -7,6 +7,7 @@
 'use client';
 
 import { Resume, CustomSection, CustomSectionItem, ExperienceItem, ProjectItem, EducationItem, CertificationItem } from '@/types';
+import { isProjectVisible } from '@/types/resume';
 import { Plus, Trash2, X } from 'lucide-react';
 
 interface ResumeTemplateProps {
@@ -275,7 +276,7 @@ export function ClassicTemplate({ resume, isEditing = false, onUpdate }: ResumeT
                     <section key="projects" className="mb-5">
                         <h2 className="text-base font-bold uppercase text-gray-900 border-b-2 border-gray-900 pb-1 mb-3">Projects</h2>
                         <div className="space-y-3">
-                            {resume.projects.map((project, index) => (
+                            {resume.projects.map((project, index) => isProjectVisible(resume, project) && (
                                 <div key={project.id || index} className="group relative">
                                     {isEditing && (
                                         <button className="absolute -right-2 -top-2 w-5 h-5 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 flex items-center justify-center"
@@ -7,6 +7,7 @@
 'use client';
 
 import { Resume, CustomSection, CustomSectionItem, ExperienceItem, ProjectItem, EducationItem, CertificationItem } from '@/types';
+import { isProjectVisible } from '@/types/resume';
 import { Mail, MapPin, Github, Phone, ExternalLink, Plus, Trash2, X } from 'lucide-react';
 
 interface ResumeTemplateProps {
@@ -269,7 +270,7 @@ export function CreativeTemplate({ resume, isEditing = false, onUpdate }: Resume
                     <section key="projects" className="mb-5">
                         <h2 className="text-sm font-bold text-transparent bg-clip-text bg-gradient-to-r from-pink-500 to-orange-500 uppercase tracking-wider mb-3">Projects</h2>
                         <div className="grid grid-cols-1 gap-4">
-                            {resume.projects.map((project, index) => (
+                            {resume.projects.map((project, index) => isProjectVisible(resume, project) && (
                                 <div key={project.id || index} className="group relative p-3 rounded-lg bg-gradient-to-br from-pink-50 to-orange-50 border border-pink-100">
                                     {isEditing && (
                                         <button className="absolute -right-2 -top-2 w-5 h-5 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 flex items-center justify-center"
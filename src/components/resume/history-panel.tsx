@@ -0,0 +1,226 @@
+/**
+ * History Panel Component
+ *
+ * Lists saved revisions of a resume with a field-level diff between any two,
+ * and lets the user restore a revision or open it as a new resume
+ */
+
+'use client';
+
+import { useState, useEffect, useMemo, type ReactNode } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import {
+    XCircle,
+    History,
+    Loader2,
+    Plus,
+    Minus,
+    Pencil,
+    ArrowUpDown,
+    Eye,
+    EyeOff,
+    RotateCcw,
+    CopyPlus,
+} from 'lucide-react';
+import type { Resume, ResumeRevision, RevisionSource } from '@/types';
+import { diffResumes, type ResumeChange, type ResumeChangeKind } from '@/lib/resume-diff';
+import { getRevisions, loadRevisions } from '@/lib/storage';
+import { formatDate, formatRelativeTime } from '@/lib/utils';
+
+interface HistoryPanelProps {
+    resume: Resume;
+    onClose: () => void;
+    onRestore: (revision: ResumeRevision) => void;
+    onFork: (revision: ResumeRevision) => void;
+}
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+    'edit': 'Edit',
+    'ai-fix': 'AI fix',
+    'restore': 'Restored',
+    'fork': 'Copied',
+    'tailor': 'Tailored',
+    'base-update': 'From base',
+};
+
+const CHANGE_ICONS: Record<ResumeChangeKind, ReactNode> = {
+    added: <Plus className="h-4 w-4 text-emerald-500" />,
+    removed: <Minus className="h-4 w-4 text-red-500" />,
+    changed: <Pencil className="h-4 w-4 text-amber-500" />,
+    moved: <ArrowUpDown className="h-4 w-4 text-blue-500" />,
+    shown: <Eye className="h-4 w-4 text-emerald-500" />,
+    hidden: <EyeOff className="h-4 w-4 text-[hsl(var(--muted-foreground))]" />,
+};
+
+function formatTimestamp(date: string): string {
+    return formatDate(date, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+}
+
+function ChangeRow({ change }: { change: ResumeChange }) {
+    return (
+        <div className="p-3 rounded-lg border border-[hsl(var(--border))]">
+            <div className="flex items-start gap-3">
+                {CHANGE_ICONS[change.kind]}
+                <div className="flex-1 min-w-0 space-y-2">
+                    <p className="text-sm font-medium">{change.description}</p>
+                    {change.before && (
+                        <div className="p-2 bg-red-50 dark:bg-red-900/20 rounded text-xs break-words">
+                            <span className="font-medium text-red-600 dark:text-red-400">Before: </span>
+                            <span className="text-red-700 dark:text-red-300">{change.before}</span>
+                        </div>
+                    )}
+                    {change.after && (
+                        <div className="p-2 bg-emerald-50 dark:bg-emerald-900/20 rounded text-xs break-words">
+                            <span className="font-medium text-emerald-600 dark:text-emerald-400">After: </span>
+                            <span className="text-emerald-700 dark:text-emerald-300">{change.after}</span>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export function HistoryPanel({ resume, onClose, onRestore, onFork }: HistoryPanelProps) {
+    const [revisions, setRevisions] = useState<ResumeRevision[]>(() => getRevisions(resume.id));
+    const [loading, setLoading] = useState(true);
+    const [selectedId, setSelectedId] = useState<string | null>(null);
+    const [baseId, setBaseId] = useState<string | null>(null);
+
+    // Local revisions show immediately; the server history replaces them once loaded
+    useEffect(() => {
+        let cancelled = false;
+        loadRevisions(resume.id).then(loaded => {
+            if (cancelled) return;
+            setRevisions(loaded);
+            setLoading(false);
+        });
+        return () => {
+            cancelled = true;
+        };
+    }, [resume.id]);
+
+    const selectedIndex = Math.max(0, revisions.findIndex(r => r.id === selectedId));
+    const selected = revisions[selectedIndex];
+
+    // Compare against the chosen base, or the revision saved just before the selected one
+    const base = revisions.find(r => r.id === baseId && r.id !== selected?.id)
+        || revisions[selectedIndex + 1];
+
+    const changes = useMemo(
+        () => (selected && base ? diffResumes(base.resume, selected.resume) : []),
+        [selected, base]
+    );
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <Card className="max-w-4xl w-full max-h-[90vh] overflow-hidden">
+                <CardHeader className="border-b">
+                    <div className="flex items-center justify-between">
+                        <CardTitle className="flex items-center gap-2">
+                            <History className="h-5 w-5" />
+                            Version History
+                            {loading && <Loader2 className="h-4 w-4 animate-spin text-[hsl(var(--muted-foreground))]" />}
+                        </CardTitle>
+                        <Button variant="ghost" size="sm" onClick={onClose}>
+                            <XCircle className="h-4 w-4" />
+                        </Button>
+                    </div>
+                </CardHeader>
+
+                <CardContent className="p-0">
+                    {revisions.length === 0 ? (
+                        <div className="flex flex-col items-center justify-center py-12 gap-2 text-center">
+                            {loading ? (
+                                <Loader2 className="h-8 w-8 animate-spin text-[hsl(var(--primary))]" />
+                            ) : (
+                                <p className="text-[hsl(var(--muted-foreground))]">
+                                    No saved versions yet. Every change you make is kept here.
+                                </p>
+                            )}
+                        </div>
+                    ) : (
+                        <div className="grid md:grid-cols-[16rem_1fr] max-h-[calc(90vh-80px)]">
+                            {/* Revision list */}
+                            <div className="border-r border-[hsl(var(--border))] overflow-y-auto max-h-[calc(90vh-80px)]">
+                                {revisions.map((revision, index) => {
+                                    const isSelected = revision.id === selected?.id;
+                                    const isBase = revision.id === base?.id;
+
+                                    return (
+                                        <div
+                                            key={revision.id}
+                                            onClick={() => setSelectedId(revision.id)}
+                                            className={`px-4 py-3 border-b border-[hsl(var(--border))] cursor-pointer transition-colors ${isSelected ? 'bg-[hsl(var(--primary))]/10' : 'hover:bg-[hsl(var(--muted))]'}`}
+                                        >
+                                            <div className="flex items-center justify-between gap-2">
+                                                <span className="text-sm font-medium">
+                                                    {index === 0 ? 'Latest' : formatRelativeTime(revision.createdAt)}
+                                                </span>
+                                                <Badge variant={revision.source === 'ai-fix' ? 'warning' : 'secondary'}>
+                                                    {SOURCE_LABELS[revision.source]}
+                                                </Badge>
+                                            </div>
+                                            <div className="flex items-center justify-between gap-2 mt-1">
+                                                <span className="text-xs text-[hsl(var(--muted-foreground))]">
+                                                    {formatTimestamp(revision.createdAt)}
+                                                </span>
+                                                {isBase ? (
+                                                    <Badge variant="outline">Base</Badge>
+                                                ) : !isSelected && (
+                                                    <button
+                                                        onClick={(e) => {
+                                                            e.stopPropagation();
+                                                            setBaseId(revision.id);
+                                                        }}
+                                                        className="text-xs text-[hsl(var(--primary))]"
+                                                    >
+                                                        Compare
+                                                    </button>
+                                                )}
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+
+                            {/* Diff */}
+                            <div className="flex flex-col max-h-[calc(90vh-80px)]">
+                                <div className="overflow-y-auto p-6 space-y-3 flex-1">
+                                    {selected && (
+                                        <p className="text-sm text-[hsl(var(--muted-foreground))]">
+                                            {base
+                                                ? `Changes from ${formatTimestamp(base.createdAt)} to ${formatTimestamp(selected.createdAt)}`
+                                                : 'First saved version'}
+                                        </p>
+                                    )}
+                                    {base && changes.length === 0 && (
+                                        <p className="text-sm">No differences.</p>
+                                    )}
+                                    {changes.map((change, index) => (
+                                        <ChangeRow key={`${change.path}-${index}`} change={change} />
+                                    ))}
+                                </div>
+
+                                {selected && (
+                                    <div className="flex gap-2 justify-end p-4 border-t border-[hsl(var(--border))]">
+                                        <Button variant="outline" size="sm" onClick={() => onFork(selected)}>
+                                            <CopyPlus className="h-4 w-4 mr-1" />
+                                            Open as new resume
+                                        </Button>
+                                        <Button size="sm" onClick={() => onRestore(selected)}>
+                                            <RotateCcw className="h-4 w-4 mr-1" />
+                                            Restore this version
+                                        </Button>
+                                    </div>
+                                )}
+                            </div>
+                        </div>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -7,3 +7,8 @@ export * from './role-selector';
 export * from './ats-score-modal';
 export * from './section-manager';
 export * from './keyword-suggestions';
+export * from './history-panel';
+export * from './job-match-panel';
+export * from './tailor-dialog';
+export * from './variants-panel';
+export * from './text-export-options';
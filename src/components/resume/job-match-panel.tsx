@@ -0,0 +1,111 @@
+/**
+ * Job Match Panel Component
+ *
+ * Shows how a resume covers the requirements of a job posting: which are
+ * met and by which skill or bullet, and which are missing
+ */
+
+'use client';
+
+import { Badge } from '@/components/ui/badge';
+import { Briefcase, CheckCircle2, XCircle, Brain } from 'lucide-react';
+import { getScoreColor } from '@/lib/ats-scorer';
+import type { JobMatchReport, RequirementMatch } from '@/lib/job-match';
+import { capitalize, truncate } from '@/lib/utils';
+
+interface JobMatchPanelProps {
+    report: JobMatchReport;
+}
+
+function RequirementRow({ requirement }: { requirement: RequirementMatch }) {
+    return (
+        <div className="p-3 rounded-lg border border-[hsl(var(--border))]">
+            <div className="flex items-start gap-3">
+                {requirement.met ? (
+                    <CheckCircle2 className="h-4 w-4 mt-0.5 text-emerald-500 shrink-0" />
+                ) : (
+                    <XCircle className="h-4 w-4 mt-0.5 text-red-500 shrink-0" />
+                )}
+                <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 flex-wrap">
+                        <span className="text-sm font-medium">{requirement.label}</span>
+                        <Badge variant={requirement.priority === 'required' ? 'outline' : 'secondary'} className="text-xs">
+                            {capitalize(requirement.priority)}
+                        </Badge>
+                        {requirement.matchedBy === 'semantic' && (
+                            <Badge className="text-xs bg-gradient-to-r from-purple-500 to-pink-500">
+                                <Brain className="h-3 w-3 mr-1" />
+                                AI match
+                            </Badge>
+                        )}
+                    </div>
+                    {requirement.evidence.map(item => (
+                        <p key={item.location} className="text-xs text-[hsl(var(--muted-foreground))] mt-1 break-words">
+                            <span className="font-medium">{item.label}:</span> {truncate(item.text, 140)}
+                        </p>
+                    ))}
+                    {requirement.note && (
+                        <p className="text-xs text-[hsl(var(--muted-foreground))] mt-1 italic">{requirement.note}</p>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+}
+
+export function JobMatchPanel({ report }: JobMatchPanelProps) {
+    const { job, coverage } = report;
+    const missing = report.requirements.filter(r => !r.met);
+    const met = report.requirements.filter(r => r.met);
+
+    return (
+        <div className="space-y-4">
+            <div className="flex items-start justify-between gap-4">
+                <div>
+                    <h4 className="font-semibold flex items-center gap-2">
+                        <Briefcase className="h-4 w-4" />
+                        Job Match
+                    </h4>
+                    {job.title && (
+                        <p className="text-sm text-[hsl(var(--muted-foreground))] mt-1">{job.title}</p>
+                    )}
+                    <p className="text-xs text-[hsl(var(--muted-foreground))] mt-1">
+                        Required {coverage.required.met}/{coverage.required.total}
+                        {coverage.preferred.total > 0 && ` · Preferred ${coverage.preferred.met}/${coverage.preferred.total}`}
+                    </p>
+                </div>
+                <span className={`text-3xl font-bold ${getScoreColor(report.score)}`}>{report.score}%</span>
+            </div>
+
+            {report.requirements.length === 0 ? (
+                <p className="text-sm text-[hsl(var(--muted-foreground))]">
+                    No skills, tools or experience requirements were recognized in this posting.
+                    {!report.semantic && ' Analyze with AI for a semantic match.'}
+                </p>
+            ) : (
+                <>
+                    {missing.length > 0 && (
+                        <div>
+                            <h5 className="text-sm font-medium mb-2">Missing ({missing.length})</h5>
+                            <div className="space-y-2">
+                                {missing.map(requirement => (
+                                    <RequirementRow key={requirement.id} requirement={requirement} />
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                    {met.length > 0 && (
+                        <div>
+                            <h5 className="text-sm font-medium mb-2">Met ({met.length})</h5>
+                            <div className="space-y-2">
+                                {met.map(requirement => (
+                                    <RequirementRow key={requirement.id} requirement={requirement} />
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </>
+            )}
+        </div>
+    );
+}
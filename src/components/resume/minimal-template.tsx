@@ -7,6 +7,7 @@
 'use client';
 
 import { Resume, CustomSection, CustomSectionItem, ExperienceItem, ProjectItem, EducationItem, CertificationItem } from '@/types';
+import { isProjectVisible } from '@/types/resume';
 import { Plus, Trash2, X } from 'lucide-react';
 
 interface ResumeTemplateProps {
@@ -228,7 +229,7 @@ export function MinimalTemplate({ resume, isEditing = false, onUpdate }: ResumeT
                     <section key="projects" className="mb-4">
                         <h2 className="text-xs font-medium uppercase tracking-widest text-gray-500 mb-2">Projects</h2>
                         <div className="space-y-3">
-                            {resume.projects.map((project, index) => (
+                            {resume.projects.map((project, index) => isProjectVisible(resume, project) && (
                                 <div key={project.id || index} className="group relative">
                                     {isEditing && (
                                         <button className="absolute -right-2 -top-2 w-4 h-4 bg-red-500 text-white rounded-full opacity-0 group-hover:opacity-100 flex items-center justify-center"
@@ -8,6 +8,7 @@
 'use client';
 
 import { Resume, CustomSection, CustomSectionItem, ExperienceItem, ProjectItem, EducationItem, CertificationItem } from '@/types';
+import { isProjectVisible } from '@/types/resume';
 import {
     Mail,
     MapPin,
@@ -678,7 +679,7 @@ export function ModernTemplate({ resume, isEditing = false, onUpdate }: ResumeTe
                             Projects
                         </h2>
                         <div className="space-y-4">
-                            {resume.projects.map((project, index) => (
+                            {resume.projects.map((project, index) => isProjectVisible(resume, project) && (
                                 <div key={project.id || index} className="group relative">
                                     {isEditing && (
                                         <button
@@ -2,7 +2,7 @@
  * Section Manager Component
  * 
  * Allows users to add, remove, reorder, and toggle visibility of all resume sections
- * Both default and custom sections can be shown/hidden
+ * Both default and custom sections can be shown/hidden, as can individual projects
  */
 
 'use client';
@@ -22,7 +22,13 @@ import {
     Layers,
 } from 'lucide-react';
 import type { Resume, CustomSection } from '@/types';
-import { CUSTOM_SECTION_TEMPLATES, DEFAULT_SECTION_ORDER, DEFAULT_SECTION_VISIBILITY } from '@/types/resume';
+import {
+    CUSTOM_SECTION_TEMPLATES,
+    DEFAULT_SECTION_ORDER,
+    DEFAULT_SECTION_VISIBILITY,
+    isProjectVisible,
+    projectVisibilityKey,
+} from '@/types/resume';
 
 interface SectionManagerProps {
     resume: Resume;
@@ -57,11 +63,11 @@ export function SectionManager({
     const sectionVisibility = resume.sectionVisibility || DEFAULT_SECTION_VISIBILITY;
     const customSections = resume.customSections || [];
 
-    // Toggle visibility for a section
+    // Toggle visibility for a section (or a project); missing entries count as visible
     const toggleSectionVisibility = (sectionId: string) => {
         const newVisibility = {
             ...sectionVisibility,
-            [sectionId]: !sectionVisibility[sectionId],
+            [sectionId]: sectionVisibility[sectionId] === false,
         };
         onUpdate('sectionVisibility', newVisibility);
     };
@@ -210,6 +216,42 @@ export function SectionManager({
                     ))}
                 </div>
 
+                {/* Project Visibility */}
+                {resume.projects.length > 0 && (
+                    <div className="pt-2 space-y-1">
+                        <p className="text-xs font-medium text-[hsl(var(--muted-foreground))] px-2">
+                            Projects
+                        </p>
+                        {resume.projects.map(project => {
+                            const visible = isProjectVisible(resume, project);
+
+                            return (
+                                <div
+                                    key={project.id}
+                                    className={`flex items-center gap-2 px-2 py-1 rounded-lg ${visible ? '' : 'bg-[hsl(var(--muted))] opacity-50'}`}
+                                >
+                                    <span className="flex-1 text-sm truncate">
+                                        {project.name || 'Untitled project'}
+                                    </span>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className="h-6 w-6 p-0"
+                                        onClick={() => toggleSectionVisibility(projectVisibilityKey(project.id))}
+                                        title={visible ? 'Hide project' : 'Show project'}
+                                    >
+                                        {visible ? (
+                                            <Eye className="h-3 w-3" />
+                                        ) : (
+                                            <EyeOff className="h-3 w-3" />
+                                        )}
+                                    </Button>
+                                </div>
+                            );
+                        })}
+                    </div>
+                )}
+
                 {/* Add Section Button */}
                 <div className="relative pt-2">
                     <Button
@@ -0,0 +1,104 @@
+/**
+ * Tailor Dialog Component
+ *
+ * Takes a job posting and creates a variant of the resume tailored to it,
+ * linked back to this resume
+ */
+
+'use client';
+
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { XCircle, Scissors } from 'lucide-react';
+import type { Resume } from '@/types';
+import { saveResume } from '@/lib/storage';
+import { MAX_JOB_DESCRIPTION_LENGTH } from '@/lib/job-match';
+import type { LLMProvider } from '@/lib/llm/types';
+
+interface TailorDialogProps {
+    resume: Resume;
+    initialJobDescription?: string;
+    tier?: LLMProvider;
+    onClose: () => void;
+    onCreated: (variant: Resume) => void;
+}
+
+export function TailorDialog({ resume, initialJobDescription = '', tier, onClose, onCreated }: TailorDialogProps) {
+    const [jobDescription, setJobDescription] = useState(initialJobDescription);
+    const [loading, setLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const handleTailor = async () => {
+        setLoading(true);
+        setError(null);
+
+        try {
+            const response = await fetch('/api/tailor', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ resume, jobDescription, tier }),
+            });
+
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.message || data.error || 'Failed to tailor resume');
+            }
+
+            onCreated(saveResume(data.data.resume, 'tailor'));
+        } catch (err) {
+            setError(err instanceof Error ? err.message : 'Unknown error');
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+            <Card className="max-w-2xl w-full max-h-[90vh] overflow-hidden">
+                <CardHeader className="border-b">
+                    <div className="flex items-center justify-between">
+                        <CardTitle className="flex items-center gap-2">
+                            <Scissors className="h-5 w-5" />
+                            Tailor for a Job
+                        </CardTitle>
+                        <Button variant="ghost" size="sm" onClick={onClose}>
+                            <XCircle className="h-4 w-4" />
+                        </Button>
+                    </div>
+                </CardHeader>
+
+                <CardContent className="overflow-y-auto max-h-[calc(90vh-80px)] pt-6 space-y-4">
+                    <p className="text-sm text-[hsl(var(--muted-foreground))]">
+                        Creates a copy of this resume for one job: the most relevant projects first (others hidden),
+                        matching skills up front and a summary rewritten for the role. This resume stays unchanged.
+                    </p>
+
+                    <textarea
+                        value={jobDescription}
+                        onChange={(e) => setJobDescription(e.target.value)}
+                        placeholder="Paste the job posting here..."
+                        rows={12}
+                        maxLength={MAX_JOB_DESCRIPTION_LENGTH}
+                        disabled={loading}
+                        className="w-full rounded-lg border border-[hsl(var(--border))] bg-transparent px-3 py-2 text-sm placeholder:text-[hsl(var(--muted-foreground))] focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-[hsl(var(--ring))]"
+                    />
+
+                    {error && (
+                        <p className="text-sm text-[hsl(var(--destructive))]">{error}</p>
+                    )}
+
+                    <div className="flex justify-end gap-3">
+                        <Button variant="outline" onClick={onClose} disabled={loading}>
+                            Cancel
+                        </Button>
+                        <Button onClick={handleTailor} isLoading={loading} disabled={!jobDescription.trim()}>
+                            {!loading && <Scissors className="h-4 w-4 mr-1" />}
+                            Create Tailored Version
+                        </Button>
+                    </div>
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -0,0 +1,134 @@
+/**
+ * Text Export Options Component
+ *
+ * Submenus of the export menu for the plain text and Markdown exporters:
+ * bullet character, line width and, for Markdown, what project names link to
+ */
+
+'use client';
+
+import {
+    DropdownMenuLabel,
+    DropdownMenuRadioGroup,
+    DropdownMenuRadioItem,
+    DropdownMenuSeparator,
+    DropdownMenuSub,
+    DropdownMenuSubContent,
+    DropdownMenuSubTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Settings2 } from 'lucide-react';
+import type { TextExportOptions } from '@/lib/export/text';
+import type { MarkdownExportOptions } from '@/lib/export/markdown';
+
+const TEXT_BULLETS = ['•', '-', '*', '▪'];
+const MARKDOWN_BULLETS: Required<MarkdownExportOptions>['bullet'][] = ['-', '*', '+'];
+const LINE_WIDTHS = [0, 72, 80, 100]; // 0 turns wrapping off
+const PROJECT_LINKS: { id: Required<MarkdownExportOptions>['projectLinks']; name: string }[] = [
+    { id: 'url', name: 'Project URL' },
+    { id: 'repo', name: 'GitHub repository' },
+    { id: 'none', name: 'No links' },
+];
+
+interface TextExportOptionsMenuProps {
+    textOptions: Required<TextExportOptions>;
+    markdownOptions: Required<MarkdownExportOptions>;
+    onTextOptionsChange: (options: Required<TextExportOptions>) => void;
+    onMarkdownOptionsChange: (options: Required<MarkdownExportOptions>) => void;
+}
+
+// Choosing an option keeps the menu open, so several can be changed at once
+const keepOpen = (e: Event) => e.preventDefault();
+
+export function TextExportOptionsMenu({
+    textOptions,
+    markdownOptions,
+    onTextOptionsChange,
+    onMarkdownOptionsChange,
+}: TextExportOptionsMenuProps) {
+    return (
+        <>
+            <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                    <Settings2 className="mr-2 h-4 w-4" />
+                    <span>Plain text options</span>
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent className="w-44">
+                    <DropdownMenuLabel>Bullet</DropdownMenuLabel>
+                    <DropdownMenuRadioGroup
+                        value={textOptions.bullet}
+                        onValueChange={bullet => onTextOptionsChange({ ...textOptions, bullet })}
+                    >
+                        {TEXT_BULLETS.map(bullet => (
+                            <DropdownMenuRadioItem key={bullet} value={bullet} onSelect={keepOpen}>
+                                {bullet}
+                            </DropdownMenuRadioItem>
+                        ))}
+                    </DropdownMenuRadioGroup>
+                    <DropdownMenuSeparator />
+                    <LineWidthOptions
+                        value={textOptions.lineWidth}
+                        onChange={lineWidth => onTextOptionsChange({ ...textOptions, lineWidth })}
+                    />
+                </DropdownMenuSubContent>
+            </DropdownMenuSub>
+
+            <DropdownMenuSub>
+                <DropdownMenuSubTrigger>
+                    <Settings2 className="mr-2 h-4 w-4" />
+                    <span>Markdown options</span>
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent className="w-44">
+                    <DropdownMenuLabel>Bullet</DropdownMenuLabel>
+                    <DropdownMenuRadioGroup
+                        value={markdownOptions.bullet}
+                        onValueChange={bullet => onMarkdownOptionsChange({
+                            ...markdownOptions,
+                            bullet: bullet as Required<MarkdownExportOptions>['bullet'],
+                        })}
+                    >
+                        {MARKDOWN_BULLETS.map(bullet => (
+                            <DropdownMenuRadioItem key={bullet} value={bullet} onSelect={keepOpen}>
+                                {bullet}
+                            </DropdownMenuRadioItem>
+                        ))}
+                    </DropdownMenuRadioGroup>
+                    <DropdownMenuSeparator />
+                    <LineWidthOptions
+                        value={markdownOptions.lineWidth}
+                        onChange={lineWidth => onMarkdownOptionsChange({ ...markdownOptions, lineWidth })}
+                    />
+                    <DropdownMenuSeparator />
+                    <DropdownMenuLabel>Project links</DropdownMenuLabel>
+                    <DropdownMenuRadioGroup
+                        value={markdownOptions.projectLinks}
+                        onValueChange={projectLinks => onMarkdownOptionsChange({
+                            ...markdownOptions,
+                            projectLinks: projectLinks as Required<MarkdownExportOptions>['projectLinks'],
+                        })}
+                    >
+                        {PROJECT_LINKS.map(option => (
+                            <DropdownMenuRadioItem key={option.id} value={option.id} onSelect={keepOpen}>
+                                {option.name}
+                            </DropdownMenuRadioItem>
+                        ))}
+                    </DropdownMenuRadioGroup>
+                </DropdownMenuSubContent>
+            </DropdownMenuSub>
+        </>
+    );
+}
+
+function LineWidthOptions({ value, onChange }: { value: number; onChange: (lineWidth: number) => void }) {
+    return (
+        <>
+            <DropdownMenuLabel>Line width</DropdownMenuLabel>
+            <DropdownMenuRadioGroup value={String(value)} onValueChange={width => onChange(Number(width))}>
+                {LINE_WIDTHS.map(width => (
+                    <DropdownMenuRadioItem key={width} value={String(width)} onSelect={keepOpen}>
+                        {width === 0 ? 'No wrapping' : `${width} characters`}
+                    </DropdownMenuRadioItem>
+                ))}
+            </DropdownMenuRadioGroup>
+        </>
+    );
+}
@@ -0,0 +1,147 @@
+/**
+ * Variants Panel Component
+ *
+ * On a base resume, lists the variants tailored from it and offers to copy
+ * changed contact info, education and certifications into them. On a
+ * variant, links back to its base.
+ */
+
+'use client';
+
+import { useState, useMemo } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { GitBranch, RefreshCw } from 'lucide-react';
+import type { Resume } from '@/types';
+import { getResume, getVariants, propagateSharedFacts } from '@/lib/storage';
+import { getSharedFactChanges } from '@/lib/tailor';
+import { formatRelativeTime } from '@/lib/utils';
+
+interface VariantsPanelProps {
+    resume: Resume;
+}
+
+function getVariantName(variant: Resume): string {
+    return variant.metadata.tailoredFrom?.jobTitle || variant.header.title || 'Tailored version';
+}
+
+export function VariantsPanel({ resume }: VariantsPanelProps) {
+    const [excluded, setExcluded] = useState<string[]>([]);
+    const [dismissedFacts, setDismissedFacts] = useState<string | null>(null);
+
+    const tailoredFrom = resume.metadata.tailoredFrom;
+    const base = useMemo(() => (tailoredFrom ? getResume(tailoredFrom.resumeId) : null), [tailoredFrom]);
+
+    // Read once (and after updating); the cache does not change while editing this resume.
+    // The editor keys this panel by resume id, so another resume starts a fresh read.
+    const [variants, setVariants] = useState(() => getVariants(resume.id));
+
+    const outdated = useMemo(
+        () => variants
+            .map(variant => ({ variant, changes: getSharedFactChanges(variant, resume) }))
+            .filter(({ changes }) => changes.length > 0),
+        [variants, resume]
+    );
+
+    // "Not now" holds until the shared facts change again
+    const sharedFacts = JSON.stringify([resume.header, resume.education, resume.certifications]);
+    const showOffer = outdated.length > 0 && dismissedFacts !== sharedFacts;
+    const selectedIds = outdated.map(({ variant }) => variant.id).filter(id => !excluded.includes(id));
+
+    const handleUpdate = () => {
+        propagateSharedFacts(resume, selectedIds);
+        setExcluded([]);
+        setVariants(getVariants(resume.id));
+    };
+
+    if (!tailoredFrom && variants.length === 0) return null;
+
+    return (
+        <Card>
+            <CardHeader className="pb-2">
+                <CardTitle className="text-lg flex items-center gap-2">
+                    <GitBranch className="h-5 w-5 text-[hsl(var(--primary))]" />
+                    {tailoredFrom ? 'Tailored Version' : 'Tailored Versions'}
+                </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+                {tailoredFrom && (
+                    <div className="space-y-1">
+                        <p>
+                            For <span className="font-medium">{tailoredFrom.jobTitle || 'a job posting'}</span>
+                            <span className="text-[hsl(var(--muted-foreground))]">, {formatRelativeTime(tailoredFrom.tailoredAt)}</span>
+                        </p>
+                        {base ? (
+                            <Link href={`/resume/${base.id}`} className="text-[hsl(var(--primary))]">
+                                Open base resume
+                            </Link>
+                        ) : (
+                            <p className="text-[hsl(var(--muted-foreground))]">The base resume was deleted.</p>
+                        )}
+                    </div>
+                )}
+
+                {variants.length > 0 && (
+                    <div className="space-y-1">
+                        {variants.map(variant => (
+                            <Link
+                                key={variant.id}
+                                href={`/resume/${variant.id}`}
+                                className="flex justify-between gap-2 p-2 rounded-lg hover:bg-[hsl(var(--muted))]"
+                            >
+                                <span className="truncate">{getVariantName(variant)}</span>
+                                <span className="text-xs text-[hsl(var(--muted-foreground))] shrink-0">
+                                    {formatRelativeTime(variant.metadata.updatedAt)}
+                                </span>
+                            </Link>
+                        ))}
+                    </div>
+                )}
+
+                {showOffer && (
+                    <div className="p-3 rounded-lg border border-amber-500/30 bg-amber-500/5 space-y-2">
+                        <p className="font-medium">Update tailored versions?</p>
+                        <p className="text-xs text-[hsl(var(--muted-foreground))]">
+                            Contact info, education or certifications here differ from these versions.
+                        </p>
+                        {outdated.map(({ variant, changes }) => (
+                            <label key={variant.id} className="flex items-start gap-2 cursor-pointer">
+                                <input
+                                    type="checkbox"
+                                    className="mt-1"
+                                    checked={!excluded.includes(variant.id)}
+                                    onChange={(e) => setExcluded(prev => e.target.checked
+                                        ? prev.filter(id => id !== variant.id)
+                                        : [...prev, variant.id])}
+                                />
+                                <span>
+                                    <span className="font-medium">{getVariantName(variant)}</span>
+                                    {changes.slice(0, 3).map((change, i) => (
+                                        <span key={i} className="block text-xs text-[hsl(var(--muted-foreground))]">
+                                            {change.description}
+                                        </span>
+                                    ))}
+                                    {changes.length > 3 && (
+                                        <span className="block text-xs text-[hsl(var(--muted-foreground))]">
+                                            +{changes.length - 3} more
+                                        </span>
+                                    )}
+                                </span>
+                            </label>
+                        ))}
+                        <div className="flex gap-2 justify-end pt-1">
+                            <Button variant="ghost" size="sm" onClick={() => setDismissedFacts(sharedFacts)}>
+                                Not now
+                            </Button>
+                            <Button size="sm" onClick={handleUpdate} disabled={selectedIds.length === 0}>
+                                <RefreshCw className="h-4 w-4 mr-1" />
+                                Update {selectedIds.length}
+                            </Button>
+                        </div>
+                    </div>
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -3,10 +3,13 @@
 import { useState, useCallback } from "react";
 import { useRouter } from "next/navigation";
 import { useDropzone } from "react-dropzone";
-import { Upload, FileText, Loader2, File, AlertCircle } from "lucide-react";
+import { Upload, FileText, FileJson, Loader2, File, AlertCircle } from "lucide-react";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { useUsage } from "@/contexts/usage-context"; // Import Usage Context
+import { fromJsonResume } from "@/lib/export/json-resume";
+import { migrateResume, isResumeDocument } from "@/lib/resume-schema";
+import { generateId } from "@/lib/utils";
 
 export function UploadResume() {
     const router = useRouter();
@@ -18,6 +21,24 @@ export function UploadResume() {
         const file = acceptedFiles[0];
         if (!file) return;
 
+        // JSON files are converted locally, no AI parsing involved
+        if (file.name.toLowerCase().endsWith(".json")) {
+            setError(null);
+            try {
+                const data = JSON.parse(await file.text());
+                // Files in this app's own format are upgraded to the current schema, anything else is read as JSON Resume
+                const resume = isResumeDocument(data)
+                    ? { ...migrateResume(data), id: generateId() }
+                    : migrateResume(fromJsonResume(data));
+                localStorage.setItem("generated_resume", JSON.stringify(resume));
+                router.push(`/resume/${resume.id}`);
+            } catch (err) {
+                console.error("JSON Resume import error:", err);
+                setError(err instanceof SyntaxError ? "File is not valid JSON" : err instanceof Error ? err.message : "Failed to import JSON Resume");
+            }
+            return;
+        }
+
         // Check limits before starting upload
         if (hasReachedGenerationLimit) {
             setShowRegistrationWall(true);
@@ -69,6 +90,7 @@ export function UploadResume() {
         accept: {
             "application/pdf": [".pdf"],
             "application/vnd.openxmlformats-officedocument.wordprocessingml.document": [".docx"],
+            "application/json": [".json"],
         },
         maxFiles: 1,
         multiple: false,
@@ -104,7 +126,7 @@ export function UploadResume() {
                                 Upload your existing resume
                             </h3>
                             <p className="text-sm text-muted-foreground mb-4 max-w-xs">
-                                Drag & drop PDF or DOCX here, or click to select
+                                Drag & drop PDF, DOCX or JSON Resume here, or click to select
                             </p>
                             <div className="flex gap-2">
                                 <Badge variant="secondary" className="font-normal text-xs">
@@ -113,6 +135,9 @@ export function UploadResume() {
                                 <Badge variant="secondary" className="font-normal text-xs">
                                     <FileText className="h-3 w-3 mr-1" /> DOCX
                                 </Badge>
+                                <Badge variant="secondary" className="font-normal text-xs">
+                                    <FileJson className="h-3 w-3 mr-1" /> JSON Resume
+                                </Badge>
                             </div>
                         </>
                     )}
@@ -1,6 +1,7 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect } from 'react';
+import { clearLocalResumes, flushPendingChanges, syncResumes } from '@/lib/storage';
 
 type UserTier = 'free' | 'premium';
 
@@ -12,8 +13,8 @@ interface User {
 interface AuthContextType {
     user: User | null;
     isAuthenticated: boolean;
-    login: (username: string) => void;
-    logout: () => void;
+    login: (username: string, githubToken?: string) => Promise<void>; // A token also signs in to resume sync
+    logout: () => Promise<void>;
     upgradeToPremium: () => void;
     downgradeToFree: () => void;
     isLoading: boolean;
@@ -32,17 +33,41 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
             setUser(JSON.parse(storedUser));
         }
         setIsLoading(false);
+
+        // Pull resumes saved from other machines; without a session this keeps the local ones
+        void syncResumes();
     }, []);
 
-    const login = (username: string) => {
+    const login = async (username: string, githubToken?: string) => {
+        // The server only trusts a session GitHub has confirmed the username for
+        if (githubToken) {
+            const response = await fetch('/api/session', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ githubToken }),
+            });
+            const data = await response.json();
+            if (!response.ok) {
+                throw new Error(data.error || 'Failed to sign in');
+            }
+            username = data.username;
+        }
+
         const newUser: User = { username, tier: 'free' };
         setUser(newUser);
         localStorage.setItem('auth_user', JSON.stringify(newUser));
+
+        if (githubToken) void syncResumes();
     };
 
-    const logout = () => {
+    const logout = async () => {
         setUser(null);
         localStorage.removeItem('auth_user');
+
+        // Send what is still queued while the session lasts, then leave nothing behind for the next user
+        await flushPendingChanges();
+        clearLocalResumes();
+        await fetch('/api/session', { method: 'DELETE' }).catch(() => undefined);
     };
 
     const upgradeToPremium = () => {
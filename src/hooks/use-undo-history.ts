@@ -0,0 +1,95 @@
+/**
+ * Undo History Hook
+ *
+ * State with an undo/redo stack. Updates that share a group key and arrive
+ * within `groupWindowMs` of each other (e.g. keystrokes in one field) are
+ * merged into a single undo step.
+ */
+
+'use client';
+
+import { useState, useCallback } from 'react';
+
+export interface UndoHistoryOptions {
+    limit?: number;         // Maximum undo steps kept
+    groupWindowMs?: number; // Time window for merging grouped updates
+}
+
+export interface UpdateOptions {
+    group?: string; // Updates with the same group merge into one step while typing
+}
+
+interface History<T> {
+    past: T[];
+    present: T;
+    future: T[];
+    lastGroup?: string;
+    lastUpdate: number;
+}
+
+export function useUndoHistory<T>(initial: T, options: UndoHistoryOptions = {}) {
+    const { limit = 100, groupWindowMs = 1000 } = options;
+    const [history, setHistory] = useState<History<T>>({ past: [], present: initial, future: [], lastUpdate: 0 });
+
+    /**
+     * Apply an update as a new undo step (or merge it into the current group)
+     */
+    const update = useCallback((updater: (prev: T) => T, { group }: UpdateOptions = {}) => {
+        setHistory(h => {
+            const next = updater(h.present);
+            if (next === h.present) return h;
+
+            const now = Date.now();
+            const merge = !!group && group === h.lastGroup && now - h.lastUpdate < groupWindowMs;
+
+            return {
+                past: merge ? h.past : [...h.past, h.present].slice(-limit),
+                present: next,
+                future: [],
+                lastGroup: group,
+                lastUpdate: now,
+            };
+        });
+    }, [limit, groupWindowMs]);
+
+    /**
+     * Replace the state and clear the undo stack (e.g. after loading)
+     */
+    const reset = useCallback((value: T) => {
+        setHistory({ past: [], present: value, future: [], lastUpdate: 0 });
+    }, []);
+
+    const undo = useCallback(() => {
+        setHistory(h => {
+            if (h.past.length === 0) return h;
+            return {
+                past: h.past.slice(0, -1),
+                present: h.past[h.past.length - 1],
+                future: [h.present, ...h.future],
+                lastUpdate: 0,
+            };
+        });
+    }, []);
+
+    const redo = useCallback(() => {
+        setHistory(h => {
+            if (h.future.length === 0) return h;
+            return {
+                past: [...h.past, h.present],
+                present: h.future[0],
+                future: h.future.slice(1),
+                lastUpdate: 0,
+            };
+        });
+    }, []);
+
+    return {
+        state: history.present,
+        update,
+        reset,
+        undo,
+        redo,
+        canUndo: history.past.length > 0,
+        canRedo: history.future.length > 0,
+    };
+}
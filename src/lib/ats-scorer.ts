@@ -6,6 +6,7 @@
  */
 
 import type { Resume } from '@/types';
+import type { JobMatchReport } from './job-match';
 
 export interface ATSScore {
     overall: number; // 0-100
@@ -74,8 +75,9 @@ const WEAK_WORDS = [
 
 /**
  * Analyze resume for ATS compatibility
+ * With a job match report, the keyword score measures coverage of the posting's skills and tools.
  */
-export function analyzeATSScore(resume: Resume, targetRole?: string): ATSScore {
+export function analyzeATSScore(resume: Resume, targetRole?: string, jobMatch?: JobMatchReport): ATSScore {
     const suggestions: ATSSuggestion[] = [];
 
     // Collect all text content
@@ -87,7 +89,9 @@ export function analyzeATSScore(resume: Resume, targetRole?: string): ATSScore {
     ].join(' ').toLowerCase();
 
     // 1. Keyword Analysis
-    const keywordScore = analyzeKeywords(allText, allBullets, suggestions);
+    const keywordScore = jobMatch && jobMatch.requirements.length > 0
+        ? analyzeJobKeywords(jobMatch, suggestions)
+        : analyzeKeywords(allText, allBullets, suggestions);
 
     // 2. Formatting Score
     const formattingScore = analyzeFormatting(resume, suggestions);
@@ -195,6 +199,39 @@ function analyzeKeywords(
     };
 }
 
+function analyzeJobKeywords(
+    jobMatch: JobMatchReport,
+    suggestions: ATSSuggestion[]
+): { score: number; analysis: KeywordAnalysis } {
+    const keywords = jobMatch.requirements.filter(r => r.kind === 'skill' || r.kind === 'tool');
+    const missingRequired = keywords.filter(r => !r.met && r.priority === 'required').map(r => r.label);
+    const missingPreferred = keywords.filter(r => !r.met && r.priority === 'preferred').map(r => r.label);
+
+    if (missingRequired.length > 0) {
+        suggestions.push({
+            category: 'critical',
+            message: `Missing ${missingRequired.length} required skill(s) from the job description: ${missingRequired.slice(0, 5).join(', ')}`,
+            fix: 'Add them to your skills or bullet points where you have real experience with them',
+        });
+    }
+
+    if (missingPreferred.length > 0) {
+        suggestions.push({
+            category: 'minor',
+            message: `Nice-to-have skills not on your resume: ${missingPreferred.slice(0, 5).join(', ')}`,
+        });
+    }
+
+    return {
+        score: jobMatch.score,
+        analysis: {
+            found: keywords.filter(r => r.met).map(r => r.label),
+            missing: [...missingRequired, ...missingPreferred],
+            overused: [],
+        },
+    };
+}
+
 function analyzeFormatting(resume: Resume, suggestions: ATSSuggestion[]): number {
     let score = 100;
 
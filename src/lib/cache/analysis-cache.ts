@@ -0,0 +1,102 @@
+/**
+ * Repository Analysis Cache
+ *
+ * Stores each RepositoryAnalysis under a hash of the repository, its tree SHA
+ * at HEAD, the analysis prompt version and the model, so an unchanged repo is
+ * never downloaded or analyzed twice. Entries are content-addressed and never
+ * go stale; they only expire to bound storage.
+ *
+ * Backend: Upstash Redis when UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN
+ * are set, otherwise files in ANALYSIS_CACHE_DIR (default .data/analysis-cache).
+ * ANALYSIS_CACHE=off disables caching.
+ *
+ * Server-only.
+ */
+
+import { createHash } from 'crypto';
+import path from 'path';
+import { createCacheStore, type CacheStore } from './store';
+import type { TokenUsage } from '../tokens';
+import type { RepositoryAnalysis } from '@/types';
+
+const TTL_SECONDS = 30 * 24 * 60 * 60;
+
+export interface AnalysisCacheKey {
+    repository: string; // Full name, e.g. octocat/hello-world
+    treeSha: string;
+    promptVersion: number;
+    model: string;
+}
+
+export interface CachedAnalysis {
+    analysis: RepositoryAnalysis;
+    tokenUsage: TokenUsage; // What producing it cost
+    createdAt: string;
+}
+
+export class AnalysisCache {
+    constructor(private store: CacheStore) {}
+
+    /**
+     * Look up an analysis; cache failures count as misses
+     */
+    async get(key: AnalysisCacheKey): Promise<CachedAnalysis | null> {
+        try {
+            const value = await this.store.get(getAnalysisCacheKey(key));
+            if (!value) return null;
+
+            const cached = JSON.parse(value) as CachedAnalysis;
+            return typeof cached.analysis?.projectName === 'string' ? cached : null;
+        } catch (error) {
+            console.error('Analysis cache read failed:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Store an analysis; cache failures are logged and otherwise ignored
+     */
+    async set(key: AnalysisCacheKey, analysis: RepositoryAnalysis, tokenUsage: TokenUsage): Promise<void> {
+        const cached: CachedAnalysis = {
+            analysis,
+            tokenUsage,
+            createdAt: new Date().toISOString(),
+        };
+
+        try {
+            await this.store.set(getAnalysisCacheKey(key), JSON.stringify(cached), TTL_SECONDS);
+        } catch (error) {
+            console.error('Analysis cache write failed:', error);
+        }
+    }
+}
+
+/**
+ * The storage key for an analysis
+ */
+export function getAnalysisCacheKey(key: AnalysisCacheKey): string {
+    const hash = createHash('sha256')
+        .update(JSON.stringify([key.repository.toLowerCase(), key.treeSha, key.promptVersion, key.model]))
+        .digest('hex');
+    return `analysis-${hash}`;
+}
+
+// Route handlers can be bundled separately; the global keeps one cache per process
+const globalForCache = globalThis as unknown as { analysisCache?: AnalysisCache | null };
+
+/**
+ * Get the configured analysis cache, or null if caching is turned off
+ */
+export function getAnalysisCache(): AnalysisCache | null {
+    if (globalForCache.analysisCache === undefined) {
+        globalForCache.analysisCache = createAnalysisCache();
+    }
+    return globalForCache.analysisCache;
+}
+
+function createAnalysisCache(): AnalysisCache | null {
+    if (process.env.ANALYSIS_CACHE === 'off') return null;
+
+    const directory = process.env.ANALYSIS_CACHE_DIR || path.join(process.cwd(), '.data', 'analysis-cache');
+    return new AnalysisCache(createCacheStore(directory));
+}
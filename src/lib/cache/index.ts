@@ -0,0 +1,3 @@
+export * from './store';
+export * from './analysis-cache';
+export * from './response-cache';
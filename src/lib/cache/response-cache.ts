@@ -0,0 +1,82 @@
+/**
+ * HTTP Response Cache
+ *
+ * Keeps API response bodies with their ETags so later requests can be sent
+ * with If-None-Match and answered from here on a 304. Used by GitHubClient:
+ * GitHub does not count 304 responses against the rate limit.
+ *
+ * Backend: Upstash Redis when UPSTASH_REDIS_REST_URL and UPSTASH_REDIS_REST_TOKEN
+ * are set, otherwise files in GITHUB_CACHE_DIR (default .data/github-cache).
+ * GITHUB_CACHE=off disables it.
+ *
+ * Server-only.
+ */
+
+import { createHash } from 'crypto';
+import path from 'path';
+import { createCacheStore, type CacheStore } from './store';
+
+// Entries are revalidated on every use, so this only bounds storage
+const TTL_SECONDS = 7 * 24 * 60 * 60;
+const MAX_BODY_CHARS = 1024 * 1024; // Larger bodies (huge trees) are not kept
+
+export interface CachedResponse {
+    etag: string;
+    data: unknown;
+    storedAt: string;
+}
+
+export class ResponseCache {
+    constructor(private store: CacheStore) {}
+
+    /**
+     * Look up a response; cache failures count as misses
+     */
+    async get(key: string): Promise<CachedResponse | null> {
+        try {
+            const value = await this.store.get(getResponseCacheKey(key));
+            if (!value) return null;
+
+            const cached = JSON.parse(value) as CachedResponse;
+            return typeof cached.etag === 'string' ? cached : null;
+        } catch (error) {
+            console.error('Response cache read failed:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Store a response; cache failures are logged and otherwise ignored
+     */
+    async set(key: string, etag: string, data: unknown): Promise<void> {
+        const value = JSON.stringify({ etag, data, storedAt: new Date().toISOString() } satisfies CachedResponse);
+        if (value.length > MAX_BODY_CHARS) return;
+
+        try {
+            await this.store.set(getResponseCacheKey(key), value, TTL_SECONDS);
+        } catch (error) {
+            console.error('Response cache write failed:', error);
+        }
+    }
+}
+
+function getResponseCacheKey(key: string): string {
+    return `response-${createHash('sha256').update(key).digest('hex')}`;
+}
+
+// Route handlers can be bundled separately; the global keeps one cache per process
+const globalForCache = globalThis as unknown as { githubResponseCache?: ResponseCache | null };
+
+/**
+ * Get the configured GitHub response cache, or null if it is turned off
+ */
+export function getGitHubResponseCache(): ResponseCache | null {
+    if (globalForCache.githubResponseCache === undefined) {
+        globalForCache.githubResponseCache = process.env.GITHUB_CACHE === 'off'
+            ? null
+            : new ResponseCache(createCacheStore(
+                process.env.GITHUB_CACHE_DIR || path.join(process.cwd(), '.data', 'github-cache')
+            ));
+    }
+    return globalForCache.githubResponseCache;
+}
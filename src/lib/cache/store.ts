@@ -0,0 +1,109 @@
+/**
+ * Cache Stores
+ *
+ * Key-value backends for the caches in this folder:
+ * - FileCacheStore: one JSON file per key in a local directory (development)
+ * - RedisCacheStore: Upstash Redis over HTTP (production)
+ *
+ * Server-only.
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { Redis } from '@upstash/redis';
+
+export interface CacheStore {
+    get(key: string): Promise<string | null>;
+    set(key: string, value: string, ttlSeconds?: number): Promise<void>;
+}
+
+interface FileCacheEntry {
+    expiresAt: number | null;
+    value: string;
+}
+
+export class FileCacheStore implements CacheStore {
+    constructor(private directory: string) {}
+
+    async get(key: string): Promise<string | null> {
+        let entry: FileCacheEntry;
+        try {
+            entry = JSON.parse(await fs.readFile(this.pathFor(key), 'utf-8')) as FileCacheEntry;
+        } catch {
+            return null; // Missing or unreadable entries are misses
+        }
+
+        if (entry.expiresAt !== null && entry.expiresAt < Date.now()) {
+            await fs.rm(this.pathFor(key), { force: true });
+            return null;
+        }
+        return entry.value;
+    }
+
+    async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+        const entry: FileCacheEntry = {
+            expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : null,
+            value,
+        };
+
+        // Write then rename, so a concurrent reader never sees half a file
+        await fs.mkdir(this.directory, { recursive: true });
+        const file = this.pathFor(key);
+        const temp = `${file}.${process.pid}.${Date.now()}.tmp`;
+        await fs.writeFile(temp, JSON.stringify(entry));
+        await fs.rename(temp, file);
+    }
+
+    private pathFor(key: string): string {
+        return path.join(this.directory, `${key.replace(/[^a-zA-Z0-9_-]/g, '_')}.json`);
+    }
+}
+
+export class RedisCacheStore implements CacheStore {
+    private client: Promise<Redis> | null = null;
+
+    constructor(
+        private url: string,
+        private token: string,
+        private prefix = 'github-to-resume:'
+    ) {}
+
+    async get(key: string): Promise<string | null> {
+        const redis = await this.getClient();
+        return redis.get<string>(this.prefix + key);
+    }
+
+    async set(key: string, value: string, ttlSeconds?: number): Promise<void> {
+        const redis = await this.getClient();
+        if (ttlSeconds) {
+            await redis.set(this.prefix + key, value, { ex: ttlSeconds });
+        } else {
+            await redis.set(this.prefix + key, value);
+        }
+    }
+
+    // Loaded lazily so local development never needs the Redis client
+    private getClient(): Promise<Redis> {
+        if (!this.client) {
+            this.client = import('@upstash/redis').then(({ Redis }) => new Redis({
+                url: this.url,
+                token: this.token,
+                automaticDeserialization: false, // Values are JSON strings already
+            }));
+        }
+        return this.client;
+    }
+}
+
+/**
+ * The store for a cache: Upstash Redis when UPSTASH_REDIS_REST_URL and
+ * UPSTASH_REDIS_REST_TOKEN are set, otherwise files in the given directory
+ */
+export function createCacheStore(directory: string): CacheStore {
+    const url = process.env.UPSTASH_REDIS_REST_URL;
+    const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+
+    return url && token
+        ? new RedisCacheStore(url, token)
+        : new FileCacheStore(directory);
+}
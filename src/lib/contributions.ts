@@ -0,0 +1,207 @@
+/**
+ * Open Source Contributions
+ *
+ * Groups a user's pull requests, reviews and issues in other people's
+ * repositories by project, ranks the projects by merged work, and turns the
+ * best of them into an "Open Source Contributions" resume section whose
+ * entries link to the work on GitHub
+ */
+
+import type { Contribution, ContributionSummary, CustomSection, Resume } from '@/types';
+import { CUSTOM_SECTION_TEMPLATES } from '@/types/resume';
+import { capitalize, generateId } from '@/lib/utils';
+
+// Id of the generated section, also its custom section template id
+export const CONTRIBUTIONS_SECTION_ID = 'open-source';
+
+const MAX_PROJECTS = 6;
+const MAX_HIGHLIGHTS = 3;
+
+// How much each kind of contribution says about the user's work; pull
+// requests closed without merging count for nothing
+const WEIGHTS = {
+    merged: 10,
+    review: 3,
+    open: 2,
+    issue: 1,
+};
+
+/**
+ * Summarize contributions per project, most significant project first.
+ * Projects with only unmerged, closed pull requests are left out.
+ */
+export function summarizeContributions(
+    username: string,
+    contributions: Contribution[],
+    limit = MAX_PROJECTS
+): ContributionSummary[] {
+    const byRepository = new Map<string, Contribution[]>();
+    for (const contribution of contributions) {
+        const key = contribution.repository.toLowerCase();
+        byRepository.set(key, [...(byRepository.get(key) || []), contribution]);
+    }
+
+    return [...byRepository.values()]
+        .map(items => summarizeProject(username, items))
+        .map(summary => ({ summary, score: scoreProject(summary) }))
+        .filter(({ score }) => score > 0)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit)
+        .map(({ summary }) => summary);
+}
+
+function summarizeProject(username: string, items: Contribution[]): ContributionSummary {
+    const repository = items[0].repository;
+    const pullRequests = items.filter(item => item.kind === 'pull_request');
+    const merged = pullRequests.filter(item => item.state === 'merged');
+    const reviews = items.filter(item => item.kind === 'review').length;
+    const issues = items.filter(item => item.kind === 'issue').length;
+    const dates = items.map(item => item.createdAt).sort();
+
+    // Merged pull requests first, biggest first; then the rest, newest first
+    const highlights = [...items]
+        .sort((a, b) =>
+            rank(b) - rank(a) ||
+            size(b) - size(a) ||
+            b.createdAt.localeCompare(a.createdAt))
+        .slice(0, MAX_HIGHLIGHTS);
+
+    return {
+        repository,
+        url: `https://github.com/${repository}`,
+        pullRequests: {
+            merged: merged.length,
+            open: pullRequests.filter(item => item.state === 'open').length,
+            closed: pullRequests.filter(item => item.state === 'closed').length,
+        },
+        reviews,
+        issues,
+        additions: sum(merged, item => item.additions),
+        deletions: sum(merged, item => item.deletions),
+        changedFiles: sum(merged, item => item.changedFiles),
+        firstContributionAt: dates[0],
+        lastContributionAt: dates[dates.length - 1],
+        highlights,
+        evidenceUrl: getEvidenceUrl(username, repository, pullRequests.length > 0, reviews > 0),
+    };
+}
+
+function scoreProject(summary: ContributionSummary): number {
+    return summary.pullRequests.merged * WEIGHTS.merged
+        + summary.reviews * WEIGHTS.review
+        + summary.pullRequests.open * WEIGHTS.open
+        + summary.issues * WEIGHTS.issue;
+}
+
+// Authored and merged work outranks open work, which outranks reviews and issues
+function rank(contribution: Contribution): number {
+    if (contribution.kind !== 'pull_request') return 0;
+    return contribution.state === 'merged' ? 2 : contribution.state === 'open' ? 1 : 0;
+}
+
+function size(contribution: Contribution): number {
+    return (contribution.additions || 0) + (contribution.deletions || 0);
+}
+
+function sum(items: Contribution[], value: (item: Contribution) => number | undefined): number {
+    return items.reduce((total, item) => total + (value(item) || 0), 0);
+}
+
+// A GitHub search of the user's pull requests in the project, or reviews or issues if there are none
+function getEvidenceUrl(username: string, repository: string, hasPullRequests: boolean, hasReviews: boolean): string {
+    const [path, query] = hasPullRequests
+        ? ['pulls', `is:pr author:${username}`]
+        : hasReviews
+            ? ['pulls', `is:pr reviewed-by:${username}`]
+            : ['issues', `is:issue author:${username}`];
+    return `https://github.com/${repository}/${path}?q=${encodeURIComponent(query)}`;
+}
+
+/**
+ * Describe a project's contributions in a sentence or two, e.g.
+ * "3 merged pull requests (+420/-85 across 12 files) and 2 reviews. Includes: Fix flaky test (#12)."
+ */
+export function describeContributions(summary: ContributionSummary): string {
+    const { pullRequests } = summary;
+    const parts: string[] = [];
+
+    if (pullRequests.merged > 0) {
+        const changed = summary.additions + summary.deletions > 0
+            ? ` (+${summary.additions}/-${summary.deletions} across ${plural(summary.changedFiles, 'file')})`
+            : '';
+        parts.push(`${plural(pullRequests.merged, 'merged pull request')}${changed}`);
+    }
+    if (pullRequests.open > 0) parts.push(plural(pullRequests.open, 'open pull request'));
+    if (summary.reviews > 0) parts.push(plural(summary.reviews, 'review'));
+    if (summary.issues > 0) parts.push(plural(summary.issues, 'issue'));
+
+    const counts = parts.length > 1
+        ? `${parts.slice(0, -1).join(', ')} and ${parts[parts.length - 1]}`
+        : parts[0] || '';
+    const highlights = summary.highlights
+        .map(item => `${item.title} (#${item.number})`)
+        .join('; ');
+
+    return highlights ? `${capitalize(counts)}. Includes: ${highlights}.` : `${capitalize(counts)}.`;
+}
+
+function plural(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+/**
+ * Build the "Open Source Contributions" section, one item per project
+ */
+export function createContributionsSection(summaries: ContributionSummary[]): CustomSection {
+    const template = CUSTOM_SECTION_TEMPLATES.find(t => t.id === CONTRIBUTIONS_SECTION_ID)!;
+
+    return {
+        id: CONTRIBUTIONS_SECTION_ID,
+        title: template.title,
+        icon: template.icon,
+        type: 'items',
+        content: summaries.map(summary => ({
+            id: generateId(),
+            title: summary.repository,
+            description: describeContributions(summary),
+            date: formatYears(summary.firstContributionAt, summary.lastContributionAt),
+            url: summary.evidenceUrl,
+        })),
+        visible: true,
+    };
+}
+
+function formatYears(from: string, to: string): string {
+    const first = new Date(from).getFullYear();
+    const last = new Date(to).getFullYear();
+    return first === last ? `${first}` : `${first} – ${last}`;
+}
+
+/**
+ * Add the contributions section to a resume, right after the projects.
+ * A section from an earlier generation is replaced; nothing is added when
+ * there are no contributions.
+ */
+export function addContributionsSection(resume: Resume, summaries: ContributionSummary[]): Resume {
+    if (summaries.length === 0) return resume;
+
+    const section = createContributionsSection(summaries);
+    const customSections = [
+        ...resume.customSections.filter(s => s.id !== CONTRIBUTIONS_SECTION_ID),
+        section,
+    ];
+
+    let sectionOrder = resume.sectionOrder;
+    if (!sectionOrder.includes(CONTRIBUTIONS_SECTION_ID)) {
+        const projectsIndex = sectionOrder.indexOf('projects');
+        sectionOrder = projectsIndex === -1
+            ? [...sectionOrder, CONTRIBUTIONS_SECTION_ID]
+            : [
+                ...sectionOrder.slice(0, projectsIndex + 1),
+                CONTRIBUTIONS_SECTION_ID,
+                ...sectionOrder.slice(projectsIndex + 1),
+            ];
+    }
+
+    return { ...resume, customSections, sectionOrder };
+}
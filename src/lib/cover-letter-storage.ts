@@ -0,0 +1,80 @@
+/**
+ * Cover Letter Storage
+ *
+ * Saves and loads cover letters in localStorage, next to the resumes they
+ * were written from.
+ */
+
+import type { CoverLetter } from '@/types';
+
+const STORAGE_KEY = 'github_cover_letters';
+
+/**
+ * Get all saved cover letters, newest first
+ */
+export function getCoverLetters(): CoverLetter[] {
+    if (typeof window === 'undefined') return [];
+
+    try {
+        const data = localStorage.getItem(STORAGE_KEY);
+        const parsed = data ? JSON.parse(data) : [];
+        return (Array.isArray(parsed) ? parsed as CoverLetter[] : []).sort((a, b) =>
+            new Date(b.metadata.updatedAt).getTime() - new Date(a.metadata.updatedAt).getTime()
+        );
+    } catch {
+        return [];
+    }
+}
+
+/**
+ * Get a cover letter by ID
+ */
+export function getCoverLetter(id: string): CoverLetter | null {
+    return getCoverLetters().find(letter => letter.id === id) || null;
+}
+
+/**
+ * Get the cover letters written from a resume, newest first
+ */
+export function getCoverLettersForResume(resumeId: string): CoverLetter[] {
+    return getCoverLetters().filter(letter => letter.resumeId === resumeId);
+}
+
+/**
+ * Save a cover letter
+ */
+export function saveCoverLetter(letter: CoverLetter): CoverLetter {
+    const letters = getCoverLetters();
+    const updated = {
+        ...letter,
+        metadata: {
+            ...letter.metadata,
+            updatedAt: new Date().toISOString(),
+        },
+    };
+
+    const index = letters.findIndex(l => l.id === letter.id);
+    if (index >= 0) {
+        letters[index] = updated;
+    } else {
+        letters.push(updated);
+    }
+
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(letters));
+    return updated;
+}
+
+/**
+ * Delete a cover letter
+ */
+export function deleteCoverLetter(id: string): boolean {
+    const letters = getCoverLetters();
+    const filtered = letters.filter(letter => letter.id !== id);
+
+    if (filtered.length === letters.length) {
+        return false;
+    }
+
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
+    return true;
+}
@@ -0,0 +1,194 @@
+/**
+ * Cover Letters
+ *
+ * Picks the analyzed projects that best support an application and turns a
+ * generated draft into a CoverLetter. Paragraphs may only cite projects from
+ * the selected evidence, so every project a letter leans on is one the
+ * candidate actually built.
+ */
+
+import type {
+    Resume,
+    RepositoryAnalysis,
+    ProjectItem,
+    CoverLetter,
+    CoverLetterCitation,
+    CoverLetterParagraph,
+} from '@/types';
+import { formatDate, generateId } from '@/lib/utils';
+import { extractJobRequirements, mentionsRequirement, type JobRequirement } from '@/lib/job-match';
+
+// Projects handed to the LLM; more than this and letters turn into project lists
+export const MAX_EVIDENCE_PROJECTS = 4;
+
+export interface ProjectEvidence {
+    projectName: string;
+    summary: string;
+    problemSolved?: string;
+    achievements: string[];
+    skills: string[];
+    technologies: string[];
+    matched: string[];  // Labels of the job requirements the project mentions
+    score: number;      // Weighted count of matched requirements, required ones count double
+}
+
+export interface CoverLetterInput {
+    company: string;
+    jobDescription?: string;
+}
+
+export interface CoverLetterDraft {
+    greeting: string;
+    paragraphs: { text: string; citations: CoverLetterCitation[] }[];
+    closing: string;
+}
+
+/**
+ * Pick the projects that best support an application, most relevant first
+ * Analyses come from the GitHub pipeline; resume projects without one (e.g.
+ * on uploaded resumes) are used as they are. Without a job description the
+ * most complex projects win.
+ */
+export function selectProjectEvidence(
+    resume: Resume,
+    analyses: RepositoryAnalysis[],
+    jobDescription?: string
+): ProjectEvidence[] {
+    const terms = jobDescription
+        ? extractJobRequirements(jobDescription).requirements.filter(r => r.kind === 'skill' || r.kind === 'tool')
+        : [];
+
+    const analyzed = analyses.map(analysis => ({
+        complexity: analysis.complexityScore || 0,
+        evidence: fromAnalysis(analysis),
+    }));
+    const names = new Set(analyzed.map(({ evidence }) => evidence.projectName.toLowerCase()));
+    const unanalyzed = resume.projects
+        .filter(project => !names.has(project.name.toLowerCase()) && !names.has((project.repoId || '').toLowerCase()))
+        .map(project => ({ complexity: 0, evidence: fromProject(project) }));
+
+    return [...analyzed, ...unanalyzed]
+        .map(({ complexity, evidence }, index) => ({ complexity, index, evidence: scoreEvidence(evidence, terms) }))
+        .sort((a, b) => b.evidence.score - a.evidence.score || b.complexity - a.complexity || a.index - b.index)
+        .slice(0, MAX_EVIDENCE_PROJECTS)
+        .map(({ evidence }) => evidence);
+}
+
+/**
+ * Keep only citations of projects in the evidence, under their canonical names
+ * Paragraphs that name an evidence project without citing it get a citation
+ * pointing at the project's summary.
+ */
+export function groundDraft(draft: CoverLetterDraft, evidence: ProjectEvidence[]): CoverLetterParagraph[] {
+    const byName = new Map(evidence.map(project => [project.projectName.toLowerCase(), project]));
+
+    return draft.paragraphs
+        .filter(paragraph => paragraph.text.trim())
+        .map(paragraph => {
+            const citations = paragraph.citations.flatMap(citation => {
+                const project = byName.get(citation.projectName.trim().toLowerCase());
+                return project && citation.fact.trim()
+                    ? [{ projectName: project.projectName, fact: citation.fact.trim() }]
+                    : [];
+            });
+
+            for (const project of evidence) {
+                const cited = citations.some(c => c.projectName === project.projectName);
+                if (!cited && mentionsName(paragraph.text, project.projectName)) {
+                    citations.push({ projectName: project.projectName, fact: project.summary });
+                }
+            }
+
+            return { id: generateId(), text: paragraph.text.trim(), citations };
+        });
+}
+
+/**
+ * Build a cover letter from a generated draft
+ */
+export function createCoverLetter(
+    resume: Resume,
+    draft: CoverLetterDraft,
+    evidence: ProjectEvidence[],
+    input: CoverLetterInput,
+    provider?: CoverLetter['metadata']['provider']
+): CoverLetter {
+    const now = new Date().toISOString();
+    const jobTitle = input.jobDescription ? extractJobRequirements(input.jobDescription).title : undefined;
+
+    return {
+        id: generateId(),
+        userId: resume.userId,
+        resumeId: resume.id,
+        company: input.company,
+        jobTitle,
+        jobDescription: input.jobDescription,
+        sender: { ...resume.header },
+        date: formatDate(now, { year: 'numeric', month: 'long', day: 'numeric' }),
+        greeting: draft.greeting.trim() || 'Dear Hiring Manager,',
+        paragraphs: groundDraft(draft, evidence),
+        closing: draft.closing.trim() || 'Sincerely,',
+        signature: resume.header.name,
+        metadata: {
+            createdAt: now,
+            updatedAt: now,
+            provider,
+        },
+    };
+}
+
+/**
+ * Projects cited anywhere in a letter, in order of first citation
+ */
+export function getCitedProjects(letter: CoverLetter): string[] {
+    return [...new Set(letter.paragraphs.flatMap(p => p.citations.map(c => c.projectName)))];
+}
+
+function fromAnalysis(analysis: RepositoryAnalysis): ProjectEvidence {
+    return {
+        projectName: analysis.projectName,
+        summary: analysis.oneLiner,
+        // The pipeline fills in 'Not specified' when a repository could not be analyzed
+        problemSolved: analysis.problemSolved !== 'Not specified' ? analysis.problemSolved : undefined,
+        achievements: analysis.achievements.length > 0 ? analysis.achievements : analysis.resumeBulletPoints,
+        skills: analysis.skillsDemonstrated,
+        technologies: analysis.technologies,
+        matched: [],
+        score: 0,
+    };
+}
+
+function fromProject(project: ProjectItem): ProjectEvidence {
+    return {
+        projectName: project.name,
+        summary: project.description,
+        achievements: project.bullets,
+        skills: [],
+        technologies: project.technologies,
+        matched: [],
+        score: 0,
+    };
+}
+
+function scoreEvidence(evidence: ProjectEvidence, terms: JobRequirement[]): ProjectEvidence {
+    const text = [
+        evidence.projectName,
+        evidence.summary,
+        evidence.problemSolved,
+        ...evidence.achievements,
+        ...evidence.skills,
+        ...evidence.technologies,
+    ].filter(Boolean).join('\n');
+    const matched = terms.filter(term => mentionsRequirement(term, text));
+
+    return {
+        ...evidence,
+        matched: matched.map(term => term.label),
+        score: matched.reduce((sum, term) => sum + (term.priority === 'required' ? 2 : 1), 0),
+    };
+}
+
+function mentionsName(text: string, name: string): boolean {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(?<![\\w-])${escaped}(?![\\w-])`, 'i').test(text);
+}
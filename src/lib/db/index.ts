@@ -0,0 +1,55 @@
+/**
+ * Database Connection
+ *
+ * - DATABASE_URL set: Neon serverless Postgres over HTTP (run `npm run db:migrate` on deploy)
+ * - Otherwise: an embedded PGlite database in PGLITE_DATA_DIR (default .data/pglite)
+ *   for offline development, migrated automatically on first use
+ *
+ * Server-only.
+ */
+
+import path from 'path';
+import { neon } from '@neondatabase/serverless';
+import { drizzle as drizzleNeon } from 'drizzle-orm/neon-http';
+import type { PgDatabase, PgQueryResultHKT } from 'drizzle-orm/pg-core';
+import * as schema from './schema';
+
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+const MIGRATIONS_FOLDER = path.join(process.cwd(), 'drizzle');
+
+let dbPromise: Promise<Database> | null = null;
+
+/**
+ * Get the shared database connection
+ */
+export function getDb(): Promise<Database> {
+    if (!dbPromise) {
+        dbPromise = connect().catch(error => {
+            dbPromise = null; // Allow a retry on the next request
+            throw error;
+        });
+    }
+    return dbPromise;
+}
+
+async function connect(): Promise<Database> {
+    const databaseUrl = process.env.DATABASE_URL;
+
+    if (databaseUrl) {
+        return drizzleNeon(neon(databaseUrl), { schema }) as unknown as Database;
+    }
+
+    // Loaded lazily so production bundles never start the embedded database
+    const { PGlite } = await import('@electric-sql/pglite');
+    const { drizzle: drizzlePglite } = await import('drizzle-orm/pglite');
+    const { migrate } = await import('drizzle-orm/pglite/migrator');
+
+    const dataDir = process.env.PGLITE_DATA_DIR || path.join(process.cwd(), '.data', 'pglite');
+    const db = drizzlePglite(new PGlite(dataDir), { schema });
+    await migrate(db, { migrationsFolder: MIGRATIONS_FOLDER });
+
+    return db as unknown as Database;
+}
+
+export * from './schema';
@@ -0,0 +1,209 @@
+/**
+ * Resume Repository
+ *
+ * Server-side counterpart of `src/lib/storage.ts`, with the same operations
+ * backed by the `resumes` table. Every query is scoped to a user id.
+ */
+
+import { and, desc, eq } from 'drizzle-orm';
+import type { Resume, ResumeRevision, RevisionSource } from '@/types';
+import { generateId } from '@/lib/utils';
+import { hasContentChanges } from '@/lib/resume-diff';
+import { migrateResume, safeMigrateResume } from '@/lib/resume-schema';
+import { getDb } from './index';
+import { resumes, resumeRevisions, type ResumeRow, type ResumeRevisionRow } from './schema';
+
+/**
+ * Shape check for client-recorded revisions of a resume
+ * Revisions are stored as recorded and upgraded to the current schema when read.
+ */
+export function isStorableRevision(value: unknown, resumeId: string): value is ResumeRevision {
+    if (!value || typeof value !== 'object') return false;
+    const revision = value as Partial<ResumeRevision>;
+
+    return typeof revision.id === 'string' && revision.id.length > 0
+        && revision.resumeId === resumeId
+        && typeof revision.createdAt === 'string'
+        && REVISION_SOURCES.includes(revision.source as RevisionSource)
+        && safeMigrateResume(revision.resume).success;
+}
+
+const REVISION_SOURCES: RevisionSource[] = ['edit', 'ai-fix', 'restore', 'fork', 'tailor', 'base-update'];
+
+export interface SaveResumeOptions {
+    revisions?: ResumeRevision[]; // Revisions the client recorded since its last sync
+    source?: RevisionSource;      // Source of the revision recorded here when none match the saved content
+}
+
+/**
+ * Get all resumes of a user, most recently updated first
+ */
+export async function getResumes(userId: string): Promise<Resume[]> {
+    const db = await getDb();
+    const rows = await db
+        .select()
+        .from(resumes)
+        .where(eq(resumes.userId, userId))
+        .orderBy(desc(resumes.updatedAt));
+
+    return rows.map(toResume);
+}
+
+/**
+ * Get a resume by ID
+ */
+export async function getResume(id: string, userId: string): Promise<Resume | null> {
+    const db = await getDb();
+    const [row] = await db
+        .select()
+        .from(resumes)
+        .where(and(eq(resumes.id, id), eq(resumes.userId, userId)))
+        .limit(1);
+
+    return row ? toResume(row) : null;
+}
+
+/**
+ * Save a resume (insert or update) and record its revisions
+ * Returns null when the id already belongs to another user.
+ */
+export async function saveResume(
+    resume: Resume,
+    userId: string,
+    options: SaveResumeOptions = {}
+): Promise<Resume | null> {
+    const db = await getDb();
+    const saved: Resume = { ...resume, userId };
+    const values = {
+        id: saved.id,
+        userId,
+        name: saved.header?.name || '',
+        template: saved.template || 'modern',
+        data: saved,
+        createdAt: saved.metadata.createdAt,
+        updatedAt: saved.metadata.updatedAt,
+    };
+
+    const [row] = await db
+        .insert(resumes)
+        .values(values)
+        .onConflictDoUpdate({
+            target: resumes.id,
+            set: {
+                name: values.name,
+                template: values.template,
+                data: values.data,
+                updatedAt: values.updatedAt,
+            },
+            setWhere: eq(resumes.userId, userId),
+        })
+        .returning();
+
+    if (!row) return null;
+
+    const { revisions = [], source = 'edit' } = options;
+    if (revisions.length > 0) {
+        await db
+            .insert(resumeRevisions)
+            .values(revisions.map(revision => ({
+                id: revision.id,
+                resumeId: saved.id,
+                userId,
+                source: revision.source,
+                data: { ...revision.resume, userId },
+                createdAt: revision.createdAt,
+            })))
+            .onConflictDoNothing();
+    }
+
+    // Saves from other API clients still get a revision
+    const [latest] = await db
+        .select()
+        .from(resumeRevisions)
+        .where(eq(resumeRevisions.resumeId, saved.id))
+        .orderBy(desc(resumeRevisions.createdAt))
+        .limit(1);
+
+    if (!latest || hasContentChanges(latest.data, saved)) {
+        await db.insert(resumeRevisions).values({
+            id: generateId(),
+            resumeId: saved.id,
+            userId,
+            source,
+            data: saved,
+            createdAt: saved.metadata.updatedAt,
+        });
+    }
+
+    return toResume(row);
+}
+
+/**
+ * Get the revisions of a resume, newest first
+ */
+export async function getRevisions(resumeId: string, userId: string, limit = 100): Promise<ResumeRevision[]> {
+    const db = await getDb();
+    const rows = await db
+        .select()
+        .from(resumeRevisions)
+        .where(and(eq(resumeRevisions.resumeId, resumeId), eq(resumeRevisions.userId, userId)))
+        .orderBy(desc(resumeRevisions.createdAt))
+        .limit(limit);
+
+    return rows.flatMap(toRevision);
+}
+
+/**
+ * Delete a resume
+ */
+export async function deleteResume(id: string, userId: string): Promise<boolean> {
+    const db = await getDb();
+    const deleted = await db
+        .delete(resumes)
+        .where(and(eq(resumes.id, id), eq(resumes.userId, userId)))
+        .returning({ id: resumes.id });
+
+    return deleted.length > 0;
+}
+
+/**
+ * Duplicate a resume
+ */
+export async function duplicateResume(id: string, userId: string): Promise<Resume | null> {
+    const resume = await getResume(id, userId);
+    if (!resume) return null;
+
+    const now = new Date().toISOString();
+
+    return saveResume({
+        ...resume,
+        id: generateId(),
+        metadata: {
+            ...resume.metadata,
+            createdAt: now,
+            updatedAt: now,
+        },
+    }, userId, { source: 'fork' });
+}
+
+// Rows keep the schema version they were written with
+function toResume(row: ResumeRow): Resume {
+    return migrateResume({ ...row.data, id: row.id, userId: row.userId });
+}
+
+// Revisions that no longer migrate are left out of the history rather than failing it
+function toRevision(row: ResumeRevisionRow): ResumeRevision[] {
+    const result = safeMigrateResume(row.data);
+    if (!result.success) {
+        console.error(`Skipping revision ${row.id}: ${result.error.message}`);
+        return [];
+    }
+
+    return [{
+        id: row.id,
+        resumeId: row.resumeId,
+        source: row.source,
+        createdAt: result.resume.metadata.updatedAt, // ISO string, unlike the driver's timestamp format
+        resume: result.resume,
+    }];
+}
@@ -0,0 +1,37 @@
+/**
+ * Database Schema
+ *
+ * Postgres schema shared by Neon (production) and PGlite (local development).
+ * Migrations in /drizzle are generated from this file with `npm run db:generate`.
+ */
+
+import { index, jsonb, pgTable, text, timestamp } from 'drizzle-orm/pg-core';
+import type { Resume, RevisionSource } from '@/types';
+
+export const resumes = pgTable('resumes', {
+    id: text('id').primaryKey(),
+    userId: text('user_id').notNull(),
+    name: text('name').notNull().default(''),     // Header name, for listing without loading data
+    template: text('template').notNull(),
+    data: jsonb('data').$type<Resume>().notNull(), // The full Resume document
+    createdAt: timestamp('created_at', { withTimezone: true, mode: 'string' }).notNull(),
+    updatedAt: timestamp('updated_at', { withTimezone: true, mode: 'string' }).notNull(),
+}, table => [
+    index('resumes_user_id_updated_at_idx').on(table.userId, table.updatedAt),
+]);
+
+// Immutable snapshots of a resume, one per save that changed its content
+export const resumeRevisions = pgTable('resume_revisions', {
+    id: text('id').primaryKey(),
+    resumeId: text('resume_id').notNull().references(() => resumes.id, { onDelete: 'cascade' }),
+    userId: text('user_id').notNull(),
+    source: text('source').$type<RevisionSource>().notNull(),
+    data: jsonb('data').$type<Resume>().notNull(),
+    createdAt: timestamp('created_at', { withTimezone: true, mode: 'string' }).notNull(),
+}, table => [
+    index('resume_revisions_resume_id_created_at_idx').on(table.resumeId, table.createdAt),
+]);
+
+export type ResumeRow = typeof resumes.$inferSelect;
+export type NewResumeRow = typeof resumes.$inferInsert;
+export type ResumeRevisionRow = typeof resumeRevisions.$inferSelect;
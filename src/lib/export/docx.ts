@@ -0,0 +1,539 @@
+/**
+ * DOCX Exporter
+ *
+ * Builds a native Word document from a resume with the `docx` package.
+ * Section titles are real Word headings, bullets are real lists and links
+ * are real hyperlinks, so the file stays editable and parses cleanly in
+ * ATS systems. Each on-screen template has a matching DOCX style.
+ * Cover letters use the same styles, so they match the resume they go with.
+ */
+
+import {
+    AlignmentType,
+    BorderStyle,
+    Document,
+    ExternalHyperlink,
+    HeadingLevel,
+    Packer,
+    Paragraph,
+    TabStopPosition,
+    TabStopType,
+    TextRun,
+    type ParagraphChild,
+} from 'docx';
+import type {
+    Resume,
+    ResumeTemplate,
+    ExperienceItem,
+    ProjectItem,
+    EducationItem,
+    CertificationItem,
+    CustomSection,
+    CoverLetter,
+    ResumeHeader,
+} from '@/types';
+import {
+    getExportSections,
+    getCustomSectionContent,
+    getContactItems,
+    formatDateRange,
+    toAbsoluteUrl,
+    SECTION_TITLES,
+    type BuiltInSectionId,
+    getVisibleProjects,
+} from './sections';
+import { collectSkills, type ExportPageSize } from './utils';
+
+/**
+ * Visual style of a DOCX export
+ * Sizes are in half-points, colors are hex without '#'.
+ */
+export interface DocxStyle {
+    font: string;
+    fontSize: number;
+    textColor: string;
+    mutedColor: string;
+    accentColor: string;
+    name: {
+        size: number;
+        color: string;
+        bold: boolean;
+        allCaps: boolean;
+        align: 'left' | 'center';
+    };
+    heading: {
+        size: number;
+        color: string;
+        allCaps: boolean;
+        border?: { color: string; size: number }; // size in eighths of a point
+    };
+    showSummaryHeading: boolean;
+    italicSummary: boolean;
+    skillsLayout: 'categories' | 'inline';
+    inlineSeparator: string;
+    titles: Record<Exclude<BuiltInSectionId, 'header'>, string>;
+}
+
+const SHORT_TITLES = {
+    ...SECTION_TITLES,
+    summary: 'Summary',
+    skills: 'Skills',
+    experience: 'Experience',
+};
+
+// One style per on-screen template
+export const DOCX_STYLES: Record<ResumeTemplate, DocxStyle> = {
+    modern: {
+        font: 'Calibri',
+        fontSize: 21,
+        textColor: '374151',
+        mutedColor: '6B7280',
+        accentColor: '9333EA',
+        name: { size: 48, color: '111827', bold: true, allCaps: false, align: 'left' },
+        heading: { size: 20, color: '9333EA', allCaps: true, border: { color: 'E9D5FF', size: 6 } },
+        showSummaryHeading: true,
+        italicSummary: false,
+        skillsLayout: 'categories',
+        inlineSeparator: ' • ',
+        titles: SECTION_TITLES,
+    },
+    classic: {
+        font: 'Georgia',
+        fontSize: 21,
+        textColor: '1F2937',
+        mutedColor: '4B5563',
+        accentColor: '111827',
+        name: { size: 48, color: '111827', bold: true, allCaps: true, align: 'center' },
+        heading: { size: 24, color: '111827', allCaps: true, border: { color: '111827', size: 12 } },
+        showSummaryHeading: true,
+        italicSummary: false,
+        skillsLayout: 'categories',
+        inlineSeparator: ', ',
+        titles: SECTION_TITLES,
+    },
+    minimal: {
+        font: 'Arial',
+        fontSize: 20,
+        textColor: '374151',
+        mutedColor: '6B7280',
+        accentColor: '6B7280',
+        name: { size: 40, color: '111827', bold: false, allCaps: false, align: 'left' },
+        heading: { size: 16, color: '6B7280', allCaps: true },
+        showSummaryHeading: false,
+        italicSummary: false,
+        skillsLayout: 'inline',
+        inlineSeparator: ' · ',
+        titles: SHORT_TITLES,
+    },
+    creative: {
+        font: 'Trebuchet MS',
+        fontSize: 21,
+        textColor: '374151',
+        mutedColor: '6B7280',
+        accentColor: 'EC4899',
+        name: { size: 52, color: 'EC4899', bold: true, allCaps: false, align: 'left' },
+        heading: { size: 20, color: 'F97316', allCaps: true },
+        showSummaryHeading: false,
+        italicSummary: true,
+        skillsLayout: 'inline',
+        inlineSeparator: ' · ',
+        titles: SHORT_TITLES,
+    },
+};
+
+export interface DocxExportOptions {
+    template?: ResumeTemplate;
+    pageSize?: ExportPageSize;
+}
+
+// Page sizes and margins in twips (1/1440 inch)
+const PAGE_SIZES: Record<ExportPageSize, { width: number; height: number }> = {
+    Letter: { width: 12240, height: 15840 },
+    A4: { width: 11906, height: 16838 },
+};
+const PAGE_MARGIN = 720;
+const LETTER_MARGIN = 1080;
+
+/**
+ * Render a resume to a DOCX file
+ */
+export async function exportResumeToDocx(
+    resume: Resume,
+    options: DocxExportOptions = {}
+): Promise<Buffer> {
+    return Packer.toBuffer(buildResumeDocument(resume, options));
+}
+
+/**
+ * Build the Word document for a resume
+ */
+export function buildResumeDocument(
+    resume: Resume,
+    options: DocxExportOptions = {}
+): Document {
+    const { template = resume.template, pageSize = 'Letter' } = options;
+    const style = DOCX_STYLES[template] || DOCX_STYLES.modern;
+    const children: Paragraph[] = [];
+
+    for (const section of getExportSections(resume)) {
+        if (section.type === 'custom') {
+            children.push(...renderCustomSection(section.section, style));
+            continue;
+        }
+
+        switch (section.type) {
+            case 'header':
+                children.push(...renderHeader(resume, style));
+                break;
+            case 'summary':
+                children.push(...renderSummary(resume, style));
+                break;
+            case 'skills':
+                children.push(...renderSkills(resume, style));
+                break;
+            case 'experience':
+                children.push(...renderList(style.titles.experience, resume.experience, item => renderExperience(item, style)));
+                break;
+            case 'projects':
+                children.push(...renderList(style.titles.projects, getVisibleProjects(resume), item => renderProject(item, style)));
+                break;
+            case 'education':
+                children.push(...renderList(style.titles.education, resume.education, item => renderEducation(item, style)));
+                break;
+            case 'certifications':
+                children.push(...renderList(style.titles.certifications, resume.certifications || [], item => renderCertification(item, style)));
+                break;
+        }
+    }
+
+    const name = resume.header.name?.trim();
+
+    return new Document({
+        title: name ? `${name} - Resume` : 'Resume',
+        subject: resume.header.title || undefined,
+        creator: name || undefined,
+        keywords: collectSkills(resume).join(', ') || undefined,
+        styles: buildStyles(style),
+        sections: [{
+            properties: {
+                page: {
+                    size: PAGE_SIZES[pageSize],
+                    margin: { top: PAGE_MARGIN, right: PAGE_MARGIN, bottom: PAGE_MARGIN, left: PAGE_MARGIN },
+                },
+            },
+            children,
+        }],
+    });
+}
+
+/**
+ * Render a cover letter to a DOCX file
+ */
+export async function exportCoverLetterToDocx(
+    letter: CoverLetter,
+    options: DocxExportOptions = {}
+): Promise<Buffer> {
+    return Packer.toBuffer(buildCoverLetterDocument(letter, options));
+}
+
+/**
+ * Build the Word document for a cover letter
+ * The letterhead matches the header of the resume template it is styled after.
+ */
+export function buildCoverLetterDocument(
+    letter: CoverLetter,
+    options: DocxExportOptions = {}
+): Document {
+    const { template = 'modern', pageSize = 'Letter' } = options;
+    const style = DOCX_STYLES[template] || DOCX_STYLES.modern;
+    const name = letter.sender.name?.trim();
+    const block = (text: string) => new Paragraph({ spacing: { after: 240 }, children: [new TextRun(text)] });
+
+    const children = [
+        ...renderContactHeader(letter.sender, style, false),
+        new Paragraph({ spacing: { after: 240 }, children: [] }),
+        block(letter.date),
+        block(letter.company),
+        block(letter.greeting),
+        ...letter.paragraphs.map(paragraph => block(paragraph.text)),
+        new Paragraph({ keepNext: true, children: [new TextRun(letter.closing)] }),
+        new Paragraph({ children: [new TextRun(letter.signature)] }),
+    ];
+
+    return new Document({
+        title: name ? `${name} - Cover Letter` : 'Cover Letter',
+        subject: [letter.jobTitle, letter.company].filter(Boolean).join(' at ') || undefined,
+        creator: name || undefined,
+        styles: buildStyles(style),
+        sections: [{
+            properties: {
+                page: {
+                    size: PAGE_SIZES[pageSize],
+                    margin: { top: LETTER_MARGIN, right: LETTER_MARGIN, bottom: LETTER_MARGIN, left: LETTER_MARGIN },
+                },
+            },
+            children,
+        }],
+    });
+}
+
+/**
+ * Map a DocxStyle onto Word's built-in Title / Heading 1 / Heading 2 styles
+ */
+function buildStyles(style: DocxStyle) {
+    return {
+        default: {
+            document: {
+                run: { font: style.font, size: style.fontSize, color: style.textColor },
+                paragraph: { spacing: { after: 40 } },
+            },
+            title: {
+                run: {
+                    font: style.font,
+                    size: style.name.size,
+                    bold: style.name.bold,
+                    allCaps: style.name.allCaps,
+                    color: style.name.color,
+                },
+                paragraph: {
+                    alignment: style.name.align === 'center' ? AlignmentType.CENTER : AlignmentType.LEFT,
+                    spacing: { after: 40 },
+                },
+            },
+            heading1: {
+                run: {
+                    font: style.font,
+                    size: style.heading.size,
+                    bold: true,
+                    allCaps: style.heading.allCaps,
+                    color: style.heading.color,
+                },
+                paragraph: {
+                    spacing: { before: 240, after: 80 },
+                    keepNext: true,
+                    border: style.heading.border
+                        ? { bottom: { style: BorderStyle.SINGLE, color: style.heading.border.color, size: style.heading.border.size, space: 2 } }
+                        : undefined,
+                },
+            },
+            heading2: {
+                run: { font: style.font, size: style.fontSize + 1, bold: true, color: '111827' },
+                paragraph: {
+                    spacing: { before: 120, after: 20 },
+                    keepNext: true,
+                    tabStops: [{ type: TabStopType.RIGHT, position: TabStopPosition.MAX }],
+                },
+            },
+            hyperlink: {
+                run: { color: style.accentColor, underline: {} },
+            },
+        },
+    };
+}
+
+function renderHeader(resume: Resume, style: DocxStyle): Paragraph[] {
+    return renderContactHeader(resume.header, style, true);
+}
+
+// Name and contact line; letters leave out the resume's job title
+function renderContactHeader(header: ResumeHeader, style: DocxStyle, showTitle: boolean): Paragraph[] {
+    const alignment = style.name.align === 'center' ? AlignmentType.CENTER : AlignmentType.LEFT;
+    const paragraphs: Paragraph[] = [];
+
+    if (header.name) {
+        paragraphs.push(new Paragraph({ heading: HeadingLevel.TITLE, text: header.name }));
+    }
+
+    if (showTitle && header.title) {
+        paragraphs.push(new Paragraph({
+            alignment,
+            children: [new TextRun({ text: header.title, size: style.fontSize + 6, color: style.accentColor })],
+        }));
+    }
+
+    const contactRuns: ParagraphChild[] = [];
+    for (const item of getContactItems(header)) {
+        if (contactRuns.length > 0) {
+            contactRuns.push(new TextRun({ text: '  |  ', color: style.mutedColor }));
+        }
+        contactRuns.push(item.url ? link(item.text, item.url) : new TextRun({ text: item.text, color: style.mutedColor }));
+    }
+
+    if (contactRuns.length > 0) {
+        paragraphs.push(new Paragraph({ alignment, spacing: { after: 120 }, children: contactRuns }));
+    }
+
+    return paragraphs;
+}
+
+function renderSummary(resume: Resume, style: DocxStyle): Paragraph[] {
+    if (!resume.summary) return [];
+
+    return [
+        ...(style.showSummaryHeading ? [heading(style.titles.summary)] : []),
+        ...textParagraphs(resume.summary, { italics: style.italicSummary }),
+    ];
+}
+
+function renderSkills(resume: Resume, style: DocxStyle): Paragraph[] {
+    const categories = (resume.skills.categories || []).filter(cat => cat.items.length > 0);
+    if (categories.length === 0) return [];
+
+    if (style.skillsLayout === 'inline') {
+        return [
+            heading(style.titles.skills),
+            new Paragraph({ text: categories.flatMap(cat => cat.items).join(style.inlineSeparator) }),
+        ];
+    }
+
+    return [
+        heading(style.titles.skills),
+        ...categories.map(cat => new Paragraph({
+            children: [
+                new TextRun({ text: `${cat.name}: `, bold: true }),
+                new TextRun({ text: cat.items.join(', ') }),
+            ],
+        })),
+    ];
+}
+
+function renderList<T>(
+    title: string,
+    items: T[],
+    render: (item: T) => Paragraph[]
+): Paragraph[] {
+    if (items.length === 0) return [];
+    return [heading(title), ...items.flatMap(render)];
+}
+
+function renderExperience(exp: ExperienceItem, style: DocxStyle): Paragraph[] {
+    const subtitle = [exp.company, exp.location].filter(Boolean).join(' • ');
+
+    return [
+        itemHeading([new TextRun(exp.title)], formatDateRange(exp.startDate, exp.endDate, exp.current), style),
+        ...(subtitle ? [new Paragraph({ children: [new TextRun({ text: subtitle, color: style.accentColor })] })] : []),
+        ...bullets(exp.bullets),
+    ];
+}
+
+function renderProject(project: ProjectItem, style: DocxStyle): Paragraph[] {
+    const paragraphs: Paragraph[] = [
+        itemHeading(
+            [project.url ? link(project.name, toAbsoluteUrl(project.url)) : new TextRun(project.name)],
+            project.dateRange || '',
+            style
+        ),
+    ];
+
+    if (project.description) {
+        paragraphs.push(new Paragraph({ text: project.description }));
+    }
+
+    if (project.technologies.length > 0) {
+        paragraphs.push(new Paragraph({
+            children: [
+                new TextRun({ text: 'Technologies: ', bold: true, color: style.mutedColor }),
+                new TextRun({ text: project.technologies.join(', '), color: style.mutedColor }),
+            ],
+        }));
+    }
+
+    paragraphs.push(...bullets(project.bullets));
+    return paragraphs;
+}
+
+function renderEducation(edu: EducationItem, style: DocxStyle): Paragraph[] {
+    const degree = [edu.degree, edu.field].filter(Boolean).join(' in ');
+    const details = [degree, edu.gpa ? `GPA: ${edu.gpa}` : ''].filter(Boolean).join(' • ');
+
+    return [
+        itemHeading([new TextRun(edu.institution)], edu.graduationDate || '', style),
+        ...(details ? [new Paragraph({ text: details })] : []),
+        ...bullets(edu.highlights || []),
+    ];
+}
+
+function renderCertification(cert: CertificationItem, style: DocxStyle): Paragraph[] {
+    const children: ParagraphChild[] = [
+        cert.url ? link(cert.name, toAbsoluteUrl(cert.url)) : new TextRun({ text: cert.name, bold: true }),
+    ];
+
+    if (cert.issuer) {
+        children.push(new TextRun({ text: ` — ${cert.issuer}`, color: style.mutedColor }));
+    }
+    if (cert.date) {
+        children.push(new TextRun({ children: ['\t', cert.date], color: style.mutedColor }));
+    }
+
+    return [new Paragraph({
+        tabStops: [{ type: TabStopType.RIGHT, position: TabStopPosition.MAX }],
+        children,
+    })];
+}
+
+// Section icons are left out on purpose: emoji in headings confuse ATS parsers
+function renderCustomSection(section: CustomSection, style: DocxStyle): Paragraph[] {
+    const content = getCustomSectionContent(section);
+    const title = heading(section.title);
+
+    switch (content.type) {
+        case 'text':
+            return content.text ? [title, ...textParagraphs(content.text)] : [];
+        case 'list':
+            return content.items.length > 0
+                ? [title, new Paragraph({ text: content.items.join(style.inlineSeparator) })]
+                : [];
+        case 'bullets':
+            return content.items.length > 0 ? [title, ...bullets(content.items)] : [];
+        case 'items':
+            if (content.items.length === 0) return [];
+            return [
+                title,
+                ...content.items.flatMap(item => [
+                    new Paragraph({
+                        tabStops: [{ type: TabStopType.RIGHT, position: TabStopPosition.MAX }],
+                        children: [
+                            item.url ? link(item.title, toAbsoluteUrl(item.url)) : new TextRun({ text: item.title, bold: true }),
+                            ...(item.date ? [new TextRun({ children: ['\t', item.date], color: style.mutedColor })] : []),
+                        ],
+                    }),
+                    ...(item.description ? textParagraphs(item.description) : []),
+                ]),
+            ];
+    }
+}
+
+function heading(text: string): Paragraph {
+    return new Paragraph({ heading: HeadingLevel.HEADING_1, text });
+}
+
+// Item title with a right-aligned date
+function itemHeading(title: ParagraphChild[], date: string, style: DocxStyle): Paragraph {
+    return new Paragraph({
+        heading: HeadingLevel.HEADING_2,
+        children: [
+            ...title,
+            ...(date ? [new TextRun({ children: ['\t', date], bold: false, color: style.mutedColor })] : []),
+        ],
+    });
+}
+
+function bullets(items: string[]): Paragraph[] {
+    return items
+        .filter(item => item.trim())
+        .map(item => new Paragraph({ text: item, bullet: { level: 0 } }));
+}
+
+function textParagraphs(text: string, run: { italics?: boolean } = {}): Paragraph[] {
+    return text
+        .split(/\n+/)
+        .filter(line => line.trim())
+        .map(line => new Paragraph({ children: [new TextRun({ text: line, ...run })] }));
+}
+
+function link(text: string, url: string): ExternalHyperlink {
+    return new ExternalHyperlink({
+        link: url,
+        children: [new TextRun({ text, style: 'Hyperlink' })],
+    });
+}
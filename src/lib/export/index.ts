@@ -0,0 +1,9 @@
+export * from './utils';
+export * from './sections';
+export * from './json-resume';
+export * from './text';
+export * from './markdown';
+export * from './latex';
+export * from './print';
+export * from './pdf';
+export * from './docx';
@@ -0,0 +1,741 @@
+/**
+ * JSON Resume Converter
+ *
+ * Deterministic, bidirectional mapping between our Resume and the
+ * JSON Resume schema (https://jsonresume.org/schema). Round-trips are
+ * lossless in both directions:
+ * - JSON Resume fields the editor has no place for are kept in
+ *   `metadata.jsonResume` on import and written back on export
+ * - Editor-only data (template, section order, ids, ...) is written to
+ *   `meta.githubToResume` on export and restored on import
+ *
+ * Volunteer, awards, publications, languages, interests and references
+ * map onto the matching custom sections.
+ */
+
+import type {
+    Resume,
+    ResumeHeader,
+    CustomSection,
+    CustomSectionItem,
+    JsonResume,
+    JsonResumeAppMeta,
+    JsonResumeAppSection,
+    JsonResumeLocation,
+    JsonResumeProfile,
+    JsonResumeSectionKey,
+} from '@/types';
+import {
+    CUSTOM_SECTION_TEMPLATES,
+    DEFAULT_SECTION_ORDER,
+    DEFAULT_SECTION_VISIBILITY,
+    RESUME_SCHEMA_VERSION,
+} from '@/types/resume';
+import { generateId } from '@/lib/utils';
+import { formatDateRange, getCustomSectionContent } from './sections';
+
+export const JSON_RESUME_SCHEMA_URL =
+    'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+// JSON Resume sections stored as custom sections, in schema order
+const SECTION_KEYS: JsonResumeSectionKey[] = [
+    'volunteer',
+    'awards',
+    'publications',
+    'languages',
+    'interests',
+    'references',
+];
+
+// Keys of `metadata.jsonResume.fields` that hold top-level objects
+const RESUME_FIELDS = '$resume';
+const BASICS_FIELDS = 'basics';
+const META_FIELDS = 'meta';
+
+// Prefixes of the ids given to imported items ("experience-0", ...)
+const ID_PREFIXES = {
+    skills: 'skill',
+    experience: 'experience',
+    projects: 'project',
+    education: 'education',
+    certifications: 'certification',
+};
+
+// Schema key order, so exported files diff cleanly against hand-written ones
+const KEY_ORDER = {
+    resume: ['$schema', 'basics', 'work', 'volunteer', 'education', 'awards', 'certificates', 'publications', 'skills', 'languages', 'interests', 'references', 'projects', 'meta'],
+    basics: ['name', 'label', 'image', 'email', 'phone', 'url', 'summary', 'location', 'profiles'],
+    location: ['address', 'postalCode', 'city', 'countryCode', 'region'],
+    profile: ['network', 'username', 'url'],
+    work: ['name', 'location', 'description', 'position', 'url', 'startDate', 'endDate', 'summary', 'highlights'],
+    volunteer: ['organization', 'position', 'url', 'startDate', 'endDate', 'summary', 'highlights'],
+    education: ['institution', 'url', 'area', 'studyType', 'startDate', 'endDate', 'score', 'courses'],
+    awards: ['title', 'date', 'awarder', 'summary'],
+    certificates: ['name', 'date', 'url', 'issuer'],
+    publications: ['name', 'publisher', 'releaseDate', 'url', 'summary'],
+    skills: ['name', 'level', 'keywords'],
+    languages: ['language', 'fluency'],
+    interests: ['name', 'keywords'],
+    references: ['name', 'reference'],
+    projects: ['name', 'description', 'highlights', 'keywords', 'startDate', 'endDate', 'url', 'roles', 'entity', 'type'],
+    meta: ['canonical', 'version', 'lastModified', 'githubToResume'],
+};
+
+type Fields = Record<string, unknown>;
+
+// ============================================================
+// Export
+// ============================================================
+
+/**
+ * Convert a resume to a JSON Resume document
+ */
+export function toJsonResume(resume: Resume): JsonResume {
+    const extras = resume.metadata.jsonResume?.fields || {};
+    const imported = !!resume.metadata.jsonResume;
+    const app: JsonResumeAppMeta = {};
+    const ids: Record<string, string[]> = {};
+    const fields: Record<string, Fields> = {};
+
+    const trackIds = (group: string, prefix: string, items: { id: string }[]) => {
+        const list = items.map(item => item.id);
+        if (list.some((id, i) => id !== `${prefix}-${i}`)) {
+            ids[group] = list;
+        }
+    };
+
+    // Basics
+    const { location, profiles, ...basicsExtras } = extras[BASICS_FIELDS] || {};
+    const basics = withExtras({
+        name: resume.header.name,
+        label: resume.header.title,
+        image: resume.header.avatar,
+        email: resume.header.email,
+        phone: resume.header.phone,
+        url: resume.header.portfolio,
+        summary: resume.summary,
+        location: toLocation(resume.header.location, location as JsonResumeLocation | undefined),
+        profiles: toProfiles(resume.header, profiles as JsonResumeProfile[] | undefined),
+    }, basicsExtras, KEY_ORDER.basics);
+
+    // Work experience
+    trackIds('experience', ID_PREFIXES.experience, resume.experience);
+    const work = resume.experience.map(exp => {
+        // JSON Resume marks a current role by leaving out the end date
+        if (exp.current && exp.endDate) fields[exp.id] = { endDate: exp.endDate };
+        if (!exp.current && !exp.endDate) fields[exp.id] = { current: false };
+
+        return withExtras({
+            name: exp.company,
+            location: exp.location,
+            position: exp.title,
+            startDate: exp.startDate,
+            endDate: exp.current ? undefined : exp.endDate,
+            highlights: exp.bullets,
+        }, extras[exp.id], KEY_ORDER.work);
+    });
+
+    // Education
+    trackIds('education', ID_PREFIXES.education, resume.education);
+    const education = resume.education.map(edu => withExtras({
+        institution: edu.institution,
+        area: edu.field,
+        studyType: edu.degree,
+        endDate: edu.graduationDate,
+        score: edu.gpa,
+        courses: edu.highlights,
+    }, extras[edu.id], KEY_ORDER.education));
+
+    // Certifications
+    const certifications = resume.certifications || [];
+    trackIds('certifications', ID_PREFIXES.certifications, certifications);
+    const certificates = certifications.map(cert => withExtras({
+        name: cert.name,
+        date: cert.date,
+        url: cert.url,
+        issuer: cert.issuer,
+    }, extras[cert.id], KEY_ORDER.certificates));
+
+    // Skills
+    trackIds('skills', ID_PREFIXES.skills, resume.skills.categories);
+    const skills = resume.skills.categories.map(cat => withExtras({
+        name: cat.name,
+        keywords: cat.items,
+    }, extras[cat.id], KEY_ORDER.skills));
+
+    // Projects
+    trackIds('projects', ID_PREFIXES.projects, resume.projects);
+    const projects = resume.projects.map(project => {
+        if (project.repoId) fields[project.id] = { repoId: project.repoId };
+
+        return withExtras({
+            name: project.name,
+            description: project.description,
+            highlights: project.bullets,
+            keywords: project.technologies,
+            ...splitDateRange(project.dateRange),
+            url: project.url,
+        }, extras[project.id], KEY_ORDER.projects);
+    });
+
+    // Custom sections
+    const sectionEntries: Partial<Record<JsonResumeSectionKey, Fields[]>> = {};
+    const appSections: JsonResumeAppSection[] = [];
+
+    for (const section of resume.customSections || []) {
+        const key = getSectionKey(section.id);
+
+        if (!key) {
+            appSections.push({ ...section });
+            continue;
+        }
+
+        const items = toSectionEntries(key, section, extras, fields);
+        if (section.type === 'items') {
+            trackIds(key, key, getItems(section));
+        }
+        sectionEntries[key] = [...(sectionEntries[key] || []), ...items];
+
+        if (!isDefaultSection(section, key) || items.length === 0) {
+            appSections.push({
+                id: section.id,
+                title: section.title,
+                ...optional('icon', section.icon),
+                type: section.type,
+                visible: section.visible,
+            });
+        }
+    }
+
+    // Editor-only settings, written only when they differ from what an import would produce
+    if (resume.template !== 'modern') app.template = resume.template;
+
+    const customIds = getImportSectionIds(resume.customSections || []);
+    if (!sameList(resume.sectionOrder, [...DEFAULT_SECTION_ORDER, ...customIds])) {
+        app.sectionOrder = resume.sectionOrder;
+    }
+    if (!sameVisibility(resume.sectionVisibility, DEFAULT_SECTION_VISIBILITY)) {
+        app.sectionVisibility = resume.sectionVisibility;
+    }
+    if (resume.metadata.createdAt !== resume.metadata.updatedAt) {
+        app.createdAt = resume.metadata.createdAt;
+    }
+    if (resume.metadata.generatedFrom) app.generatedFrom = resume.metadata.generatedFrom;
+    if (Object.keys(ids).length > 0) app.ids = ids;
+    if (appSections.length > 0) app.sections = appSections;
+    if (Object.keys(fields).length > 0) app.fields = fields;
+
+    const metaExtras = extras[META_FIELDS] || {};
+    const keepLastModified = !imported || 'lastModified' in metaExtras;
+    const meta = withExtras({
+        lastModified: keepLastModified ? resume.metadata.updatedAt : undefined,
+        githubToResume: Object.keys(app).length > 0 ? app : undefined,
+    }, omit(metaExtras, ['lastModified']), KEY_ORDER.meta);
+
+    return withExtras({
+        $schema: imported ? undefined : JSON_RESUME_SCHEMA_URL,
+        basics,
+        work,
+        volunteer: sectionEntries.volunteer,
+        education,
+        awards: sectionEntries.awards,
+        certificates,
+        publications: sectionEntries.publications,
+        skills,
+        languages: sectionEntries.languages,
+        interests: sectionEntries.interests,
+        references: sectionEntries.references,
+        projects,
+        meta,
+    }, extras[RESUME_FIELDS], KEY_ORDER.resume) as JsonResume;
+}
+
+function toLocation(text: string | undefined, original?: JsonResumeLocation): Fields | undefined {
+    if (original && formatLocation(original) === (text || '')) {
+        return { ...original };
+    }
+    if (!text) return undefined;
+
+    const index = text.indexOf(', ');
+    return index < 0
+        ? { city: text }
+        : compact({ city: text.slice(0, index), region: text.slice(index + 2) }, KEY_ORDER.location);
+}
+
+function toProfiles(header: ResumeHeader, original: JsonResumeProfile[] = []): Fields[] {
+    const profiles: Fields[] = original.map(p => ({ ...p }));
+    const networks: [string, string | undefined][] = [
+        ['GitHub', header.github],
+        ['LinkedIn', header.linkedin],
+    ];
+
+    for (const [network, url] of networks) {
+        const index = original.findIndex(p => isNetwork(p, network));
+
+        if (!url) {
+            if (index >= 0) profiles.splice(index, 1);
+            continue;
+        }
+
+        // Keep the original entry untouched unless the link was edited
+        if (index >= 0 && getProfileUrl(original[index], network) === url) continue;
+
+        const profile = compact({ network, username: getUsername(url), url }, KEY_ORDER.profile);
+        if (index >= 0) {
+            profiles[index] = profile;
+        } else {
+            profiles.push(profile);
+        }
+    }
+
+    return profiles;
+}
+
+function toSectionEntries(
+    key: JsonResumeSectionKey,
+    section: CustomSection,
+    extras: Record<string, Fields>,
+    fields: Record<string, Fields>
+): Fields[] {
+    switch (key) {
+        case 'awards':
+            return getItems(section).map(item => {
+                if (item.url) fields[item.id] = { url: item.url };
+                return withExtras({
+                    title: item.title,
+                    date: item.date,
+                    summary: item.description,
+                }, extras[item.id], KEY_ORDER.awards);
+            });
+        case 'publications':
+            return getItems(section).map(item => withExtras({
+                name: item.title,
+                releaseDate: item.date,
+                url: item.url,
+                summary: item.description,
+            }, extras[item.id], KEY_ORDER.publications));
+        case 'volunteer':
+            return getItems(section).map(item => withExtras({
+                organization: item.title,
+                url: item.url,
+                ...splitDateRange(item.date),
+                summary: item.description,
+            }, extras[item.id], KEY_ORDER.volunteer));
+        case 'languages':
+            return getStrings(section).map(text => {
+                const [language, fluency] = splitQualifier(text);
+                return compact({ language, fluency }, KEY_ORDER.languages);
+            });
+        case 'interests':
+            return getStrings(section).map(text => {
+                const [name, keywords] = splitQualifier(text);
+                return compact({ name, keywords: keywords?.split(', ') }, KEY_ORDER.interests);
+            });
+        case 'references':
+            return parseReferences(getText(section)).map(ref => compact(ref, KEY_ORDER.references));
+    }
+}
+
+// ============================================================
+// Import
+// ============================================================
+
+/**
+ * Convert a JSON Resume document to a resume
+ */
+export function fromJsonResume(input: unknown, userId: string = ''): Resume {
+    if (!isObject(input)) {
+        throw new Error('Invalid JSON Resume: expected a JSON object');
+    }
+    if (!KEY_ORDER.resume.some(key => key !== '$schema' && key in input)) {
+        throw new Error('Invalid JSON Resume: no resume sections found');
+    }
+
+    const json = input as JsonResume;
+    const basics: Fields = isObject(json.basics) ? json.basics : {};
+    const meta: Fields = isObject(json.meta) ? json.meta : {};
+    const app: JsonResumeAppMeta = isObject(meta.githubToResume) ? meta.githubToResume : {};
+    const appFields = app.fields || {};
+    const extras: Record<string, Fields> = {};
+
+    const keepExtras = (id: string, source: Fields, mapped: string[]) => {
+        const rest = omit(source, mapped);
+        if (Object.keys(rest).length > 0) extras[id] = rest;
+    };
+
+    // Assign ids (restored from `meta.githubToResume` when present) and editor-only fields
+    const withId = <T extends { id: string }>(group: string, prefix: string, index: number, item: Omit<T, 'id'>): T => {
+        const id = app.ids?.[group]?.[index] ?? `${prefix}-${index}`;
+        return { id, ...item, ...appFields[id] } as T;
+    };
+
+    // Basics
+    const location = isObject(basics.location) ? basics.location as JsonResumeLocation : undefined;
+    const profiles = asArray(basics.profiles).filter(isObject) as JsonResumeProfile[];
+    keepExtras(BASICS_FIELDS, basics, ['name', 'label', 'image', 'email', 'phone', 'url', 'summary', 'location', 'profiles']);
+
+    const header: ResumeHeader = {
+        name: text(basics.name) || '',
+        title: text(basics.label) || '',
+        email: text(basics.email) || '',
+        location: location ? formatLocation(location) : '',
+        github: getProfileUrl(profiles.find(p => isNetwork(p, 'GitHub')), 'GitHub'),
+        linkedin: getProfileUrl(profiles.find(p => isNetwork(p, 'LinkedIn')), 'LinkedIn'),
+        portfolio: text(basics.url) || '',
+    };
+    if (basics.phone) header.phone = text(basics.phone);
+    if (basics.image) header.avatar = text(basics.image);
+
+    // Work experience
+    const experience = asArray(json.work).filter(isObject).map((job, i) => {
+        const item = withId<Resume['experience'][number]>('experience', ID_PREFIXES.experience, i, {
+            company: text(job.name) || '',
+            title: text(job.position) || '',
+            ...optional('location', text(job.location)),
+            startDate: text(job.startDate) || '',
+            ...optional('endDate', text(job.endDate)),
+            current: !job.endDate,
+            bullets: strings(job.highlights),
+        });
+        keepExtras(item.id, job, ['name', 'location', 'position', 'startDate', 'endDate', 'highlights']);
+        return item;
+    });
+
+    // Education
+    const education = asArray(json.education).filter(isObject).map((edu, i) => {
+        const item = withId<Resume['education'][number]>('education', ID_PREFIXES.education, i, {
+            institution: text(edu.institution) || '',
+            degree: text(edu.studyType) || '',
+            field: text(edu.area) || '',
+            ...optional('graduationDate', text(edu.endDate)),
+            ...optional('gpa', text(edu.score)),
+            ...optional('highlights', edu.courses ? strings(edu.courses) : undefined),
+        });
+        keepExtras(item.id, edu, ['institution', 'area', 'studyType', 'endDate', 'score', 'courses']);
+        return item;
+    });
+
+    // Certifications
+    const certifications = asArray(json.certificates).filter(isObject).map((cert, i) => {
+        const item = withId<NonNullable<Resume['certifications']>[number]>('certifications', ID_PREFIXES.certifications, i, {
+            name: text(cert.name) || '',
+            issuer: text(cert.issuer) || '',
+            ...optional('date', text(cert.date)),
+            ...optional('url', text(cert.url)),
+        });
+        keepExtras(item.id, cert, ['name', 'date', 'url', 'issuer']);
+        return item;
+    });
+
+    // Skills
+    const categories = asArray(json.skills).filter(isObject).map((skill, i) => {
+        const item = withId<Resume['skills']['categories'][number]>('skills', ID_PREFIXES.skills, i, {
+            name: text(skill.name) || '',
+            items: strings(skill.keywords),
+        });
+        keepExtras(item.id, skill, ['name', 'keywords']);
+        return item;
+    });
+
+    // Projects
+    const projects = asArray(json.projects).filter(isObject).map((project, i) => {
+        const dateRange = formatDateRange(text(project.startDate), text(project.endDate));
+        const item = withId<Resume['projects'][number]>('projects', ID_PREFIXES.projects, i, {
+            name: text(project.name) || '',
+            ...optional('url', text(project.url)),
+            description: text(project.description) || '',
+            technologies: strings(project.keywords),
+            bullets: strings(project.highlights),
+            ...optional('dateRange', dateRange || undefined),
+        });
+        keepExtras(item.id, project, ['name', 'description', 'highlights', 'keywords', 'startDate', 'endDate', 'url']);
+        return item;
+    });
+
+    // Custom sections: mapped JSON Resume sections first, then editor-only ones
+    const customSections: CustomSection[] = [];
+    for (const key of SECTION_KEYS) {
+        const entries = asArray(json[key]).filter(isObject);
+        const settings = app.sections?.find(s => getSectionKey(s.id) === key);
+        if (entries.length === 0 && !settings) continue;
+
+        const base = getDefaultSection(key);
+        const section: CustomSection = { ...base, ...settings, content: base.content };
+        section.content = fromSectionEntries(key, entries, section.type, (index, item) => {
+            const id = app.ids?.[key]?.[index] ?? `${key}-${index}`;
+            keepExtras(id, entries[index], item);
+            return { id, ...appFields[id] };
+        });
+        customSections.push(section);
+    }
+    for (const settings of app.sections || []) {
+        if (getSectionKey(settings.id)) continue;
+        customSections.push({ ...settings, content: settings.content ?? '' });
+    }
+
+    keepExtras(RESUME_FIELDS, json, [...KEY_ORDER.resume.filter(key => key !== '$schema')]);
+    keepExtras(META_FIELDS, omit(meta, ['githubToResume']), []);
+    if (location) extras[BASICS_FIELDS] = { ...extras[BASICS_FIELDS], location };
+    if (profiles.length > 0) extras[BASICS_FIELDS] = { ...extras[BASICS_FIELDS], profiles };
+
+    const updatedAt = text(meta.lastModified) || new Date().toISOString();
+
+    return {
+        schemaVersion: RESUME_SCHEMA_VERSION,
+        id: generateId(),
+        userId,
+        template: app.template || 'modern',
+        header,
+        summary: text(basics.summary) || '',
+        skills: { categories },
+        experience,
+        projects,
+        education,
+        certifications,
+        customSections,
+        sectionOrder: app.sectionOrder || [...DEFAULT_SECTION_ORDER, ...customSections.map(s => s.id)],
+        sectionVisibility: app.sectionVisibility || { ...DEFAULT_SECTION_VISIBILITY },
+        metadata: {
+            createdAt: app.createdAt || updatedAt,
+            updatedAt,
+            ...optional('generatedFrom', app.generatedFrom),
+            jsonResume: { fields: extras },
+        },
+    };
+}
+
+function fromSectionEntries(
+    key: JsonResumeSectionKey,
+    entries: Fields[],
+    type: CustomSection['type'],
+    identify: (index: number, mapped: string[]) => Partial<CustomSectionItem> & { id: string }
+): CustomSection['content'] {
+    switch (key) {
+        case 'awards':
+            return entries.map((award, i) => compactItem({
+                ...identify(i, ['title', 'date', 'summary']),
+                title: text(award.title) || '',
+                date: text(award.date),
+                description: text(award.summary),
+            }));
+        case 'publications':
+            return entries.map((pub, i) => compactItem({
+                ...identify(i, ['name', 'releaseDate', 'url', 'summary']),
+                title: text(pub.name) || '',
+                date: text(pub.releaseDate),
+                url: text(pub.url),
+                description: text(pub.summary),
+            }));
+        case 'volunteer':
+            return entries.map((vol, i) => compactItem({
+                ...identify(i, ['organization', 'url', 'startDate', 'endDate', 'summary']),
+                title: text(vol.organization) || '',
+                date: formatDateRange(text(vol.startDate), text(vol.endDate)) || undefined,
+                url: text(vol.url),
+                description: text(vol.summary),
+            }));
+        case 'languages':
+            return entries.map(lang => joinQualifier(text(lang.language), text(lang.fluency)));
+        case 'interests':
+            return entries.map(interest => joinQualifier(text(interest.name), strings(interest.keywords).join(', ')));
+        case 'references': {
+            const refs = entries.map(ref => [
+                text(ref.reference),
+                ref.name ? `— ${text(ref.name)}` : undefined,
+            ].filter(Boolean).join('\n'));
+            return type === 'text' ? refs.join('\n\n') : refs;
+        }
+    }
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+/**
+ * Find the JSON Resume section a custom section belongs to
+ * Custom section ids start with their template id, e.g. "awards-1712345678"
+ */
+function getSectionKey(sectionId: string): JsonResumeSectionKey | undefined {
+    return SECTION_KEYS.find(key => sectionId === key || sectionId.startsWith(`${key}-`));
+}
+
+function getDefaultSection(key: JsonResumeSectionKey): CustomSection {
+    const template = CUSTOM_SECTION_TEMPLATES.find(t => t.id === key)!;
+    return {
+        id: key,
+        title: template.title,
+        icon: template.icon,
+        type: template.type,
+        content: template.type === 'text' ? '' : [],
+        visible: true,
+    };
+}
+
+function isDefaultSection(section: CustomSection, key: JsonResumeSectionKey): boolean {
+    const base = getDefaultSection(key);
+    return section.id === base.id
+        && section.title === base.title
+        && section.icon === base.icon
+        && section.type === base.type
+        && section.visible;
+}
+
+// Custom section ids in the order an import recreates them
+function getImportSectionIds(sections: CustomSection[]): string[] {
+    const mapped = SECTION_KEYS.flatMap(key => {
+        const section = sections.find(s => getSectionKey(s.id) === key);
+        return section ? [section.id] : [];
+    });
+    return [...mapped, ...sections.filter(s => !getSectionKey(s.id)).map(s => s.id)];
+}
+
+function getItems(section: CustomSection): CustomSectionItem[] {
+    const content = getCustomSectionContent(section);
+    if (content.type === 'items') return content.items;
+    if (content.type === 'text') return content.text ? [{ id: '', title: content.text }] : [];
+    return content.items.map(title => ({ id: '', title }));
+}
+
+function getStrings(section: CustomSection): string[] {
+    const content = getCustomSectionContent(section);
+    if (content.type === 'items') return content.items.map(item => item.title);
+    if (content.type === 'text') return content.text.split('\n').filter(Boolean);
+    return content.items;
+}
+
+function getText(section: CustomSection): string {
+    const content = getCustomSectionContent(section);
+    if (content.type === 'text') return content.text;
+    return getStrings(section).join('\n\n');
+}
+
+/**
+ * Split reference text into entries
+ * Entries are separated by blank lines; a trailing "— Name" line names the referee.
+ */
+function parseReferences(value: string): { name?: string; reference?: string }[] {
+    return value
+        .split(/\n\s*\n/)
+        .map(block => block.trim())
+        .filter(Boolean)
+        .map(block => {
+            const lines = block.split('\n');
+            const last = lines[lines.length - 1];
+            if (!last.startsWith('— ')) return { reference: block };
+            return {
+                name: last.slice(2),
+                reference: lines.slice(0, -1).join('\n') || undefined,
+            };
+        });
+}
+
+// "English (Native)" <-> ["English", "Native"]
+function joinQualifier(value?: string, qualifier?: string): string {
+    return qualifier ? `${value || ''} (${qualifier})` : value || '';
+}
+
+function splitQualifier(value: string): [string, string | undefined] {
+    const match = value.match(/^(.*?)\s*\(([^()]*)\)$/);
+    return match ? [match[1], match[2]] : [value, undefined];
+}
+
+// "2020-01 - 2021-06" <-> { startDate, endDate }
+function splitDateRange(range?: string): { startDate?: string; endDate?: string } {
+    if (!range) return {};
+    const index = range.indexOf(' - ');
+    if (index < 0) return { startDate: range };
+    return { startDate: range.slice(0, index), endDate: range.slice(index + 3) };
+}
+
+function formatLocation(location: JsonResumeLocation): string {
+    const cityRegion = [location.city, location.region].filter(Boolean).join(', ');
+    return cityRegion || location.countryCode || location.address || '';
+}
+
+function isNetwork(profile: JsonResumeProfile, network: string): boolean {
+    return !!profile.network?.toLowerCase().includes(network.toLowerCase());
+}
+
+function getProfileUrl(profile: JsonResumeProfile | undefined, network: string): string {
+    if (!profile) return '';
+    if (profile.url) return profile.url;
+    if (!profile.username) return '';
+    return network === 'LinkedIn'
+        ? `https://linkedin.com/in/${profile.username}`
+        : `https://github.com/${profile.username}`;
+}
+
+function getUsername(url: string): string | undefined {
+    return url.replace(/\/+$/, '').split('/').pop() || undefined;
+}
+
+/**
+ * Merge mapped fields over the preserved extras, drop empty values and sort
+ * keys into schema order (unknown keys last)
+ */
+function withExtras(mapped: Fields, extras: Fields | undefined, order: string[]): Fields {
+    const defined = Object.entries(mapped).filter(([, value]) => value !== undefined);
+    return compact({ ...extras, ...Object.fromEntries(defined) }, order);
+}
+
+function compact(fields: Fields, order: string[]): Fields {
+    const keys = Object.keys(fields).sort((a, b) => rank(order, a) - rank(order, b));
+    const result: Fields = {};
+
+    for (const key of keys) {
+        const value = fields[key];
+        if (value === undefined || value === null || value === '') continue;
+        if (Array.isArray(value) && value.length === 0) continue;
+        result[key] = value;
+    }
+
+    return result;
+}
+
+function compactItem(item: Partial<CustomSectionItem> & { id: string; title: string }): CustomSectionItem {
+    return Object.fromEntries(
+        Object.entries(item).filter(([key, value]) => key === 'title' || (value !== undefined && value !== ''))
+    ) as unknown as CustomSectionItem;
+}
+
+function rank(order: string[], key: string): number {
+    const index = order.indexOf(key);
+    return index < 0 ? order.length : index;
+}
+
+function omit(fields: Fields, keys: string[]): Fields {
+    return Object.fromEntries(Object.entries(fields).filter(([key]) => !keys.includes(key)));
+}
+
+function optional<K extends string, V>(key: K, value: V | undefined): Partial<Record<K, V>> {
+    return value === undefined || value === '' ? {} : { [key]: value } as Record<K, V>;
+}
+
+function sameList(a: string[] | undefined, b: string[]): boolean {
+    return !!a && a.length === b.length && a.every((value, i) => value === b[i]);
+}
+
+function sameVisibility(a: Record<string, boolean> | undefined, b: Record<string, boolean>): boolean {
+    if (!a) return true;
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    return [...keys].every(key => a[key] === b[key]);
+}
+
+function isObject(value: unknown): value is Fields {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asArray(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [];
+}
+
+function text(value: unknown): string | undefined {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number') return String(value);
+    return undefined;
+}
+
+function strings(value: unknown): string[] {
+    return asArray(value).map(text).filter((v): v is string => v !== undefined);
+}
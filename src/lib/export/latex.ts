@@ -0,0 +1,487 @@
+/**
+ * LaTeX Exporter
+ *
+ * Renders a resume as a single .tex file in one of two popular layouts:
+ * - jakes: Jake's Resume, built on the standard article class only
+ * - moderncv: the moderncv class from CTAN (ships with TeX Live and MiKTeX);
+ *   its style and color follow the resume's template
+ *
+ * Neither layout needs a custom .cls file next to the output. Both compile
+ * with pdflatex.
+ */
+
+import type {
+    Resume,
+    ResumeTemplate,
+    ProjectItem,
+    CustomSection,
+} from '@/types';
+import {
+    getExportSections,
+    getCustomSectionContent,
+    getContactItems,
+    getProjectUrl,
+    formatDateRange,
+    toAbsoluteUrl,
+    SECTION_TITLES,
+    getVisibleProjects,
+} from './sections';
+import type { ExportPageSize } from './utils';
+
+export type LatexLayout = 'jakes' | 'moderncv';
+
+export const LATEX_LAYOUTS: { id: LatexLayout; name: string }[] = [
+    { id: 'jakes', name: "Jake's Resume" },
+    { id: 'moderncv', name: 'moderncv' },
+];
+
+export interface LatexExportOptions {
+    layout?: LatexLayout;
+    pageSize?: ExportPageSize;
+}
+
+// moderncv style and color closest to each on-screen template
+const MODERNCV_THEMES: Record<ResumeTemplate, { style: string; color: string }> = {
+    modern: { style: 'banking', color: 'purple' },
+    classic: { style: 'classic', color: 'black' },
+    minimal: { style: 'casual', color: 'grey' },
+    creative: { style: 'fancy', color: 'orange' },
+};
+
+/**
+ * Render a resume as a LaTeX document
+ */
+export function exportResumeToLatex(resume: Resume, options: LatexExportOptions = {}): string {
+    const { layout = 'jakes', pageSize = 'Letter' } = options;
+    const paper = pageSize === 'A4' ? 'a4paper' : 'letterpaper';
+
+    return layout === 'moderncv'
+        ? renderModernCV(resume, paper)
+        : renderJakes(resume, paper);
+}
+
+// ============================================================
+// Jake's Resume
+// ============================================================
+
+const JAKES_PREAMBLE = String.raw`\usepackage[T1]{fontenc}
+\usepackage[utf8]{inputenc}
+\usepackage{latexsym}
+\usepackage[empty]{fullpage}
+\usepackage{titlesec}
+\usepackage[usenames,dvipsnames]{color}
+\usepackage{enumitem}
+\usepackage[hidelinks]{hyperref}
+\usepackage{fancyhdr}
+\usepackage{tabularx}
+\input{glyphtounicode}
+
+\pagestyle{fancy}
+\fancyhf{}
+\fancyfoot{}
+\renewcommand{\headrulewidth}{0pt}
+\renewcommand{\footrulewidth}{0pt}
+
+\addtolength{\oddsidemargin}{-0.5in}
+\addtolength{\evensidemargin}{-0.5in}
+\addtolength{\textwidth}{1in}
+\addtolength{\topmargin}{-.5in}
+\addtolength{\textheight}{1.0in}
+
+\urlstyle{same}
+\raggedbottom
+\raggedright
+\setlength{\tabcolsep}{0in}
+
+\titleformat{\section}{\vspace{-4pt}\scshape\raggedright\large}{}{0em}{}[\color{black}\titlerule \vspace{-5pt}]
+
+% Keep the PDF text machine readable for ATS parsers
+\pdfgentounicode=1
+
+\newcommand{\resumeItem}[1]{\item\small{{#1 \vspace{-2pt}}}}
+\newcommand{\resumeSubheading}[4]{
+  \vspace{-2pt}\item
+    \begin{tabular*}{0.97\textwidth}[t]{l@{\extracolsep{\fill}}r}
+      \textbf{#1} & #2 \\
+      \textit{\small#3} & \textit{\small #4} \\
+    \end{tabular*}\vspace{-7pt}
+}
+\newcommand{\resumeProjectHeading}[2]{
+    \item
+    \begin{tabular*}{0.97\textwidth}{l@{\extracolsep{\fill}}r}
+      \small#1 & #2 \\
+    \end{tabular*}\vspace{-7pt}
+}
+\renewcommand\labelitemii{$\vcenter{\hbox{\tiny$\bullet$}}$}
+\newcommand{\resumeSubHeadingListStart}{\begin{itemize}[leftmargin=0.15in, label={}]}
+\newcommand{\resumeSubHeadingListEnd}{\end{itemize}}
+\newcommand{\resumeItemListStart}{\begin{itemize}}
+\newcommand{\resumeItemListEnd}{\end{itemize}\vspace{-5pt}}`;
+
+function renderJakes(resume: Resume, paper: string): string {
+    const body: string[] = [];
+
+    const itemList = (items: string[]) => {
+        const lines = items.filter(item => item.trim()).map(item => `        \\resumeItem{${escapeLatex(item)}}`);
+        return lines.length > 0 ? ['      \\resumeItemListStart', ...lines, '      \\resumeItemListEnd'] : [];
+    };
+    const section = (title: string, lines: string[]) => {
+        if (lines.length > 0) body.push(`\\section{${escapeLatex(title)}}`, ...lines, '');
+    };
+    const subheadings = (entries: string[][]) => entries.length > 0
+        ? ['  \\resumeSubHeadingListStart', ...entries.flat(), '  \\resumeSubHeadingListEnd']
+        : [];
+
+    for (const entry of getExportSections(resume)) {
+        if (entry.type === 'custom') {
+            section(entry.section.title, renderJakesCustomSection(entry.section, itemList, subheadings));
+            continue;
+        }
+
+        switch (entry.type) {
+            case 'header': {
+                const { header } = resume;
+                const contact = getContactItems(header).map(item => item.url
+                    ? `\\href{${escapeUrl(item.url)}}{\\underline{${escapeLatex(item.text)}}}`
+                    : escapeLatex(item.text));
+                body.push(
+                    '\\begin{center}',
+                    `    \\textbf{\\Huge \\scshape ${escapeLatex(header.name)}} \\\\ \\vspace{1pt}`,
+                    ...(header.title ? [`    ${escapeLatex(header.title)} \\\\ \\vspace{1pt}`] : []),
+                    `    \\small ${contact.join(' $|$ ')}`,
+                    '\\end{center}',
+                    '',
+                );
+                break;
+            }
+            case 'summary':
+                if (resume.summary) {
+                    section(SECTION_TITLES.summary, [`\\small{${paragraphs(resume.summary, '\\\\')}}`]);
+                }
+                break;
+            case 'skills': {
+                const categories = resume.skills.categories.filter(cat => cat.items.length > 0);
+                if (categories.length === 0) break;
+                section(SECTION_TITLES.skills, [
+                    ' \\begin{itemize}[leftmargin=0.15in, label={}]',
+                    '    \\small{\\item{',
+                    categories
+                        .map(cat => `     \\textbf{${escapeLatex(cat.name)}}{: ${escapeLatex(cat.items.join(', '))}}`)
+                        .join(' \\\\\n'),
+                    '    }}',
+                    ' \\end{itemize}',
+                ]);
+                break;
+            }
+            case 'experience':
+                section(SECTION_TITLES.experience, subheadings(resume.experience.map(exp => [
+                    '    \\resumeSubheading',
+                    `      {${escapeLatex(exp.title)}}{${escapeLatex(formatDateRange(exp.startDate, exp.endDate, exp.current))}}`,
+                    `      {${escapeLatex(exp.company)}}{${escapeLatex(exp.location || '')}}`,
+                    ...itemList(exp.bullets),
+                ])));
+                break;
+            case 'projects':
+                section(SECTION_TITLES.projects, subheadings(getVisibleProjects(resume).map(project => [
+                    '      \\resumeProjectHeading',
+                    `          {${jakesProjectTitle(project, resume)}}{${escapeLatex(project.dateRange || '')}}`,
+                    ...itemList([
+                        ...(project.description ? [project.description] : []),
+                        ...project.bullets,
+                    ]),
+                ])));
+                break;
+            case 'education':
+                section(SECTION_TITLES.education, subheadings(resume.education.map(edu => [
+                    '    \\resumeSubheading',
+                    `      {${escapeLatex(edu.institution)}}{${escapeLatex(edu.graduationDate || '')}}`,
+                    `      {${escapeLatex([edu.degree, edu.field].filter(Boolean).join(' in '))}}{${edu.gpa ? `GPA: ${escapeLatex(edu.gpa)}` : ''}}`,
+                    ...itemList(edu.highlights || []),
+                ])));
+                break;
+            case 'certifications':
+                section(SECTION_TITLES.certifications, subheadings((resume.certifications || []).map(cert => [
+                    '      \\resumeProjectHeading',
+                    `          {${link(`\\textbf{${escapeLatex(cert.name)}}`, cert.url)}${cert.issuer ? ` $|$ \\emph{${escapeLatex(cert.issuer)}}` : ''}}{${escapeLatex(cert.date || '')}}`,
+                ])));
+                break;
+        }
+    }
+
+    return [
+        '%-------------------------',
+        "% Resume in LaTeX, based on Jake's Resume by Jake Gutierrez (MIT license)",
+        '% Compile with: pdflatex resume.tex',
+        '%-------------------------',
+        '',
+        `\\documentclass[${paper},11pt]{article}`,
+        '',
+        JAKES_PREAMBLE,
+        '',
+        '\\begin{document}',
+        '',
+        ...body,
+        '\\end{document}',
+        '',
+    ].join('\n');
+}
+
+function jakesProjectTitle(project: ProjectItem, resume: Resume): string {
+    const url = getProjectUrl(project, resume);
+    const name = link(`\\textbf{${escapeLatex(project.name)}}`, url);
+    return project.technologies.length > 0
+        ? `${name} $|$ \\emph{${escapeLatex(project.technologies.join(', '))}}`
+        : name;
+}
+
+function renderJakesCustomSection(
+    section: CustomSection,
+    itemList: (items: string[]) => string[],
+    subheadings: (entries: string[][]) => string[]
+): string[] {
+    const content = getCustomSectionContent(section);
+
+    switch (content.type) {
+        case 'text':
+            return content.text ? [`\\small{${paragraphs(content.text, '\\\\')}}`] : [];
+        case 'list':
+            return content.items.length > 0
+                ? [' \\begin{itemize}[leftmargin=0.15in, label={}]', `    \\small{\\item{${escapeLatex(content.items.join(', '))}}}`, ' \\end{itemize}']
+                : [];
+        case 'bullets':
+            return subheadings(content.items.length > 0 ? [['    \\item', ...itemList(content.items)]] : []);
+        case 'items':
+            return subheadings(content.items.map(item => [
+                '      \\resumeProjectHeading',
+                `          {${link(`\\textbf{${escapeLatex(item.title)}}`, item.url)}${item.description ? ` $|$ ${escapeLatex(item.description)}` : ''}}{${escapeLatex(item.date || '')}}`,
+            ]));
+    }
+}
+
+// ============================================================
+// moderncv
+// ============================================================
+
+function renderModernCV(resume: Resume, paper: string): string {
+    const { header } = resume;
+    const theme = MODERNCV_THEMES[resume.template] || MODERNCV_THEMES.modern;
+    const [firstName, lastName] = splitName(header.name);
+    const body: string[] = [];
+
+    const itemize = (items: string[]) => {
+        const lines = items.filter(item => item.trim()).map(item => `\\item ${escapeLatex(item)}`);
+        return lines.length > 0 ? `\\begin{itemize}%\n${lines.join('\n')}\n\\end{itemize}` : '';
+    };
+    const section = (title: string, lines: string[]) => {
+        if (lines.length > 0) body.push(`\\section{${escapeLatex(title)}}`, ...lines, '');
+    };
+
+    for (const entry of getExportSections(resume)) {
+        if (entry.type === 'custom') {
+            section(entry.section.title, renderModernCVCustomSection(entry.section, itemize));
+            continue;
+        }
+
+        switch (entry.type) {
+            case 'header':
+                body.push('\\makecvtitle', '');
+                break;
+            case 'summary':
+                if (resume.summary) {
+                    section(SECTION_TITLES.summary, [`\\cvitem{}{${paragraphs(resume.summary, '\\newline')}}`]);
+                }
+                break;
+            case 'skills':
+                section(SECTION_TITLES.skills, resume.skills.categories
+                    .filter(cat => cat.items.length > 0)
+                    .map(cat => `\\cvitem{${escapeLatex(cat.name)}}{${escapeLatex(cat.items.join(', '))}}`));
+                break;
+            case 'experience':
+                section(SECTION_TITLES.experience, resume.experience.map(exp => cventry(
+                    formatDateRange(exp.startDate, exp.endDate, exp.current),
+                    exp.title,
+                    exp.company,
+                    exp.location || '',
+                    '',
+                    { latex: itemize(exp.bullets) },
+                )));
+                break;
+            case 'projects':
+                section(SECTION_TITLES.projects, getVisibleProjects(resume).map(project => {
+                    const url = getProjectUrl(project, resume);
+                    const details = [
+                        project.description ? escapeLatex(project.description) : '',
+                        itemize(project.bullets),
+                    ].filter(Boolean).join('\n');
+                    return cventry(
+                        project.dateRange || '',
+                        project.name,
+                        url ? { latex: `\\url{${escapeUrl(url)}}` } : '',
+                        project.technologies.join(', '),
+                        '',
+                        { latex: details },
+                    );
+                }));
+                break;
+            case 'education':
+                section(SECTION_TITLES.education, resume.education.map(edu => cventry(
+                    edu.graduationDate || '',
+                    edu.degree,
+                    edu.institution,
+                    edu.field,
+                    edu.gpa ? `GPA: ${edu.gpa}` : '',
+                    { latex: itemize(edu.highlights || []) },
+                )));
+                break;
+            case 'certifications':
+                section(SECTION_TITLES.certifications, (resume.certifications || []).map(cert =>
+                    `\\cvitem{${escapeLatex(cert.date || '')}}{${link(`\\textbf{${escapeLatex(cert.name)}}`, cert.url)}${cert.issuer ? `, ${escapeLatex(cert.issuer)}` : ''}}`
+                ));
+                break;
+        }
+    }
+
+    const personal: string[] = [
+        `\\name{${escapeLatex(firstName)}}{${escapeLatex(lastName)}}`,
+    ];
+    if (header.title) personal.push(`\\title{${escapeLatex(header.title)}}`);
+    if (header.location) personal.push(`\\address{${escapeLatex(header.location)}}{}{}`);
+    if (header.phone) personal.push(`\\phone[mobile]{${escapeLatex(header.phone)}}`);
+    if (header.email) personal.push(`\\email{${escapeLatex(header.email)}}`);
+    // moderncv links the homepage itself, so it is escaped as a URL
+    if (header.portfolio) personal.push(`\\homepage{${escapeUrl(header.portfolio.replace(/^https?:\/\//, ''))}}`);
+    const linkedin = getUsername(header.linkedin);
+    if (linkedin) personal.push(`\\social[linkedin]{${escapeLatex(linkedin)}}`);
+    const github = getUsername(header.github);
+    if (github) personal.push(`\\social[github]{${escapeLatex(github)}}`);
+
+    return [
+        '%-------------------------',
+        '% Resume in LaTeX, moderncv class (CTAN)',
+        '% Compile with: pdflatex resume.tex',
+        '%-------------------------',
+        '',
+        `\\documentclass[11pt,${paper},sans]{moderncv}`,
+        '',
+        `\\moderncvstyle{${theme.style}}`,
+        `\\moderncvcolor{${theme.color}}`,
+        '',
+        '\\usepackage[T1]{fontenc}',
+        '\\usepackage[utf8]{inputenc}',
+        '\\usepackage[scale=0.8]{geometry}',
+        '',
+        ...personal,
+        '',
+        '\\begin{document}',
+        '',
+        ...body,
+        '\\end{document}',
+        '',
+    ].join('\n');
+}
+
+function renderModernCVCustomSection(
+    section: CustomSection,
+    itemize: (items: string[]) => string
+): string[] {
+    const content = getCustomSectionContent(section);
+
+    switch (content.type) {
+        case 'text':
+            return content.text ? [`\\cvitem{}{${paragraphs(content.text, '\\newline')}}`] : [];
+        case 'list':
+            return content.items.length > 0 ? [`\\cvitem{}{${escapeLatex(content.items.join(', '))}}`] : [];
+        case 'bullets':
+            return content.items.filter(item => item.trim()).length > 0 ? [`\\cvitem{}{${itemize(content.items)}}`] : [];
+        case 'items':
+            return content.items.map(item => {
+                const title = link(`\\textbf{${escapeLatex(item.title)}}`, item.url);
+                return `\\cvitem{${escapeLatex(item.date || '')}}{${title}${item.description ? `, ${escapeLatex(item.description)}` : ''}}`;
+            });
+    }
+}
+
+// Pre-rendered LaTeX that must not be escaped again
+type LatexArg = string | { latex: string };
+
+function cventry(...args: LatexArg[]): string {
+    const rendered = args.map(arg => typeof arg === 'string' ? escapeLatex(arg) : arg.latex);
+    return `\\cventry${rendered.map(arg => `{${arg}}`).join('')}`;
+}
+
+// ============================================================
+// Helpers
+// ============================================================
+
+const LATEX_ESCAPES: Record<string, string> = {
+    '\\': '\\textbackslash{}',
+    '{': '\\{',
+    '}': '\\}',
+    '#': '\\#',
+    '$': '\\$',
+    '%': '\\%',
+    '&': '\\&',
+    '_': '\\_',
+    '~': '\\textasciitilde{}',
+    '^': '\\textasciicircum{}',
+    '<': '\\textless{}',
+    '>': '\\textgreater{}',
+    '|': '\\textbar{}',
+};
+
+// Unicode punctuation that pdflatex's utf8 input encoding does not cover out of the box;
+// other arrows, symbols and emoji are dropped
+const UNICODE_REPLACEMENTS: Record<string, string> = {
+    '•': '\\textbullet{}',
+    '·': '\\textperiodcentered{}',
+    '—': '---',
+    '–': '--',
+    '…': '\\ldots{}',
+    '“': '``',
+    '”': "''",
+    '‘': '`',
+    '’': "'",
+    '→': '$\\rightarrow$',
+};
+
+/**
+ * Escape text for LaTeX
+ * Special characters are escaped and Unicode punctuation is mapped to LaTeX
+ * equivalents. Symbols and emoji pdflatex cannot render are dropped.
+ */
+export function escapeLatex(text: string): string {
+    return text
+        .replace(/[\\{}#$%&_~^<>|]/g, char => LATEX_ESCAPES[char])
+        .replace(/[•·—–…“”‘’→]/g, char => UNICODE_REPLACEMENTS[char])
+        .replace(/\p{Extended_Pictographic}|[\u2190-\u2BFF\u200B-\u200D\uFE0F]/gu, '')
+        .replace(/\s*\n\s*/g, ' ')
+        .trim();
+}
+
+// Escape a URL for \href and \url
+function escapeUrl(url: string): string {
+    return url.replace(/[\\{}]/g, '').replace(/[#%]/g, char => `\\${char}`);
+}
+
+function link(latex: string, url?: string): string {
+    return url ? `\\href{${escapeUrl(toAbsoluteUrl(url))}}{${latex}}` : latex;
+}
+
+// Keep line breaks from multi-line text
+function paragraphs(text: string, separator: string): string {
+    return text
+        .split(/\n+/)
+        .filter(line => line.trim())
+        .map(escapeLatex)
+        .join(` ${separator}\n`);
+}
+
+function splitName(name: string): [string, string] {
+    const parts = name.trim().split(/\s+/);
+    if (parts.length < 2) return [parts[0] || '', ''];
+    return [parts.slice(0, -1).join(' '), parts[parts.length - 1]];
+}
+
+function getUsername(url?: string): string | undefined {
+    return url?.replace(/\/+$/, '').split('/').pop() || undefined;
+}
@@ -0,0 +1,190 @@
+/**
+ * Markdown Exporter
+ *
+ * Renders a resume as GitHub-flavored Markdown. The output pastes into
+ * Markdown-aware portals and works as a GitHub profile README.
+ */
+
+import type { Resume, ProjectItem, CustomSection } from '@/types';
+import {
+    getExportSections,
+    getCustomSectionContent,
+    getContactItems,
+    getProjectUrl,
+    formatDateRange,
+    toAbsoluteUrl,
+    SECTION_TITLES,
+    getVisibleProjects,
+} from './sections';
+import { wrapText } from './utils';
+
+export interface MarkdownExportOptions {
+    bullet?: '-' | '*' | '+';
+    lineWidth?: number;                     // Hard wrap width, 0 to disable
+    projectLinks?: 'url' | 'repo' | 'none'; // Link project names to their URL or GitHub repository
+}
+
+export const DEFAULT_MARKDOWN_OPTIONS: Required<MarkdownExportOptions> = {
+    bullet: '-',
+    lineWidth: 0,
+    projectLinks: 'url',
+};
+
+/**
+ * Render a resume as Markdown
+ */
+export function exportResumeToMarkdown(resume: Resume, options: MarkdownExportOptions = {}): string {
+    const { bullet, lineWidth, projectLinks } = { ...DEFAULT_MARKDOWN_OPTIONS, ...options };
+    const blocks: string[] = [];
+
+    const wrap = (text: string) => wrapText(text, lineWidth);
+    const list = (items: string[]) => items
+        .filter(item => item.trim())
+        .map(item => wrapText(item, lineWidth, '  ', `${bullet} `))
+        .join('\n');
+    const push = (...parts: string[]) => blocks.push(...parts.filter(Boolean));
+
+    for (const entry of getExportSections(resume)) {
+        if (entry.type === 'custom') {
+            const body = renderCustomSection(entry.section, wrap, list);
+            if (body) push(`## ${escapeMarkdown(entry.section.title)}`, body);
+            continue;
+        }
+
+        switch (entry.type) {
+            case 'header': {
+                const { header } = resume;
+                const contact = getContactItems(header).map(item => {
+                    if (item.type === 'email') return `<${item.text}>`;
+                    return item.url && item.type !== 'phone' ? `<${item.url}>` : escapeMarkdown(item.text);
+                });
+                push(
+                    header.name ? `# ${escapeMarkdown(header.name)}` : '',
+                    header.title ? `**${escapeMarkdown(header.title)}**` : '',
+                    wrap(contact.join(' · ')),
+                );
+                break;
+            }
+            case 'summary':
+                if (resume.summary) push(`## ${SECTION_TITLES.summary}`, wrap(escapeMarkdown(resume.summary)));
+                break;
+            case 'skills': {
+                const categories = resume.skills.categories.filter(cat => cat.items.length > 0);
+                if (categories.length === 0) break;
+                push(`## ${SECTION_TITLES.skills}`, list(categories.map(cat =>
+                    `**${escapeMarkdown(cat.name)}:** ${escapeMarkdown(cat.items.join(', '))}`
+                )));
+                break;
+            }
+            case 'experience':
+                if (resume.experience.length === 0) break;
+                push(`## ${SECTION_TITLES.experience}`);
+                for (const exp of resume.experience) {
+                    const details = [exp.location, formatDateRange(exp.startDate, exp.endDate, exp.current)].filter(Boolean);
+                    push(
+                        `### ${escapeMarkdown([exp.title, exp.company].filter(Boolean).join(' — '))}`,
+                        details.length > 0 ? `*${escapeMarkdown(details.join(' · '))}*` : '',
+                        list(exp.bullets.map(escapeMarkdown)),
+                    );
+                }
+                break;
+            case 'projects': {
+                const projects = getVisibleProjects(resume);
+                if (projects.length === 0) break;
+                push(`## ${SECTION_TITLES.projects}`);
+                for (const project of projects) {
+                    push(...renderProject(project, resume, projectLinks, wrap, list));
+                }
+                break;
+            }
+            case 'education':
+                if (resume.education.length === 0) break;
+                push(`## ${SECTION_TITLES.education}`);
+                for (const edu of resume.education) {
+                    const degree = [edu.degree, edu.field].filter(Boolean).join(' in ');
+                    const details = [degree, edu.gpa ? `GPA: ${edu.gpa}` : '', edu.graduationDate].filter(Boolean);
+                    push(
+                        `### ${escapeMarkdown(edu.institution)}`,
+                        details.length > 0 ? `*${escapeMarkdown(details.join(' · '))}*` : '',
+                        list((edu.highlights || []).map(escapeMarkdown)),
+                    );
+                }
+                break;
+            case 'certifications': {
+                const certifications = resume.certifications || [];
+                if (certifications.length === 0) break;
+                push(`## ${SECTION_TITLES.certifications}`, list(certifications.map(cert => {
+                    const name = cert.url ? link(cert.name, toAbsoluteUrl(cert.url)) : `**${escapeMarkdown(cert.name)}**`;
+                    const details = [cert.issuer, cert.date].filter(Boolean).join(', ');
+                    return details ? `${name} — ${escapeMarkdown(details)}` : name;
+                })));
+                break;
+            }
+        }
+    }
+
+    return blocks.join('\n\n') + '\n';
+}
+
+function renderProject(
+    project: ProjectItem,
+    resume: Resume,
+    projectLinks: Required<MarkdownExportOptions>['projectLinks'],
+    wrap: (text: string) => string,
+    list: (items: string[]) => string
+): string[] {
+    const url = projectLinks === 'none' ? undefined : getProjectUrl(project, resume, projectLinks);
+    const name = url ? link(project.name, url) : escapeMarkdown(project.name);
+
+    return [
+        `### ${name}${project.dateRange ? ` · *${escapeMarkdown(project.dateRange)}*` : ''}`,
+        project.description ? wrap(escapeMarkdown(project.description)) : '',
+        project.technologies.length > 0
+            ? wrap(project.technologies.map(tech => `\`${tech.replace(/`/g, '')}\``).join(' '))
+            : '',
+        list(project.bullets.map(escapeMarkdown)),
+    ];
+}
+
+function renderCustomSection(
+    section: CustomSection,
+    wrap: (text: string) => string,
+    list: (items: string[]) => string
+): string {
+    const content = getCustomSectionContent(section);
+
+    switch (content.type) {
+        case 'text':
+            // Blank lines separate paragraphs in Markdown
+            return content.text
+                .split(/\n+/)
+                .filter(line => line.trim())
+                .map(line => wrap(escapeMarkdown(line)))
+                .join('\n\n');
+        case 'list':
+            return content.items.length > 0 ? wrap(escapeMarkdown(content.items.join(' · '))) : '';
+        case 'bullets':
+            return list(content.items.map(escapeMarkdown));
+        case 'items':
+            return list(content.items.map(item => {
+                const title = item.url ? link(item.title, toAbsoluteUrl(item.url)) : `**${escapeMarkdown(item.title)}**`;
+                return [
+                    title,
+                    item.date ? ` (${escapeMarkdown(item.date)})` : '',
+                    item.description ? ` — ${escapeMarkdown(item.description)}` : '',
+                ].join('');
+            }));
+    }
+}
+
+function link(text: string, url: string): string {
+    return `[${escapeMarkdown(text)}](${url.replace(/[()\s]/g, char => `%${char.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`)})`;
+}
+
+// Escape characters that would otherwise be read as Markdown syntax
+function escapeMarkdown(text: string): string {
+    return text
+        .replace(/([\\`*_[\]<>|~])/g, '\\$1')
+        .replace(/^(\s*)([#+-])(\s)/gm, '$1\\$2$3')
+        .replace(/^(\s*)(\d+)\.(\s)/gm, '$1$2\\.$3');
+}
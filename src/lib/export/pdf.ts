@@ -0,0 +1,199 @@
+/**
+ * PDF Exporter
+ *
+ * Renders a resume to PDF with headless Chromium instead of the browser's
+ * print dialog, so page size, margins and metadata are always the same:
+ * 1. Launch Chromium (@sparticuz/chromium, or a local binary in development)
+ * 2. Open the /print page with the resume injected before page scripts run
+ * 3. Print to PDF once the ResumeTemplate has rendered
+ * 4. Embed document metadata (title, author, keywords)
+ *
+ * The output is real text, so it stays selectable and ATS-parseable.
+ * Cover letters are printed the same way.
+ */
+
+import puppeteer, { type Browser } from 'puppeteer-core';
+import chromium from '@sparticuz/chromium';
+import { PDFDocument } from 'pdf-lib';
+import type { Resume, ResumeTemplate, CoverLetter } from '@/types';
+import { PRINT_PAYLOAD_KEY, PRINT_READY_ATTRIBUTE, type PrintPayload } from './print';
+import { collectSkills, type ExportPageSize } from './utils';
+
+export interface PDFMargins {
+    top: string;
+    right: string;
+    bottom: string;
+    left: string;
+}
+
+export interface PDFMetadata {
+    title?: string;
+    author?: string;
+    subject?: string;
+    keywords?: string[];
+}
+
+export interface PDFExportOptions {
+    baseUrl?: string; // Origin that serves the /print page (defaults to getPrintOrigin())
+    template?: ResumeTemplate;
+    pageSize?: ExportPageSize;
+    margins?: Partial<PDFMargins>;
+    metadata?: PDFMetadata;
+    timeoutMs?: number;
+}
+
+export const DEFAULT_PDF_MARGINS: PDFMargins = {
+    top: '12mm',
+    right: '12mm',
+    bottom: '12mm',
+    left: '12mm',
+};
+
+// Letters get the usual one-inch margins
+export const DEFAULT_COVER_LETTER_MARGINS: PDFMargins = {
+    top: '25mm',
+    right: '25mm',
+    bottom: '25mm',
+    left: '25mm',
+};
+
+const PRODUCER = 'github-to-resume';
+const RENDER_TIMEOUT_MS = 30000;
+
+/**
+ * Origin Chromium opens the /print page on
+ * Configured rather than taken from the request's Host header, which the
+ * client controls: PRINT_ORIGIN, else this server on 127.0.0.1:$PORT.
+ */
+export function getPrintOrigin(): string {
+    return process.env.PRINT_ORIGIN || `http://127.0.0.1:${process.env.PORT || 3000}`;
+}
+
+/**
+ * Render a resume to a PDF document
+ */
+export async function exportResumeToPDF(
+    resume: Resume,
+    options: PDFExportOptions
+): Promise<Uint8Array> {
+    const { template = resume.template, metadata = {} } = options;
+    const name = resume.header.name?.trim();
+
+    const pdf = await printToPDF({ resume, template }, options);
+
+    return embedMetadata(pdf, {
+        title: metadata.title || (name ? `${name} - Resume` : 'Resume'),
+        author: metadata.author || name || '',
+        subject: metadata.subject || resume.header.title || '',
+        keywords: metadata.keywords || collectSkills(resume),
+    }, resume.metadata.updatedAt || resume.metadata.createdAt);
+}
+
+/**
+ * Render a cover letter to a PDF document
+ */
+export async function exportCoverLetterToPDF(
+    letter: CoverLetter,
+    options: Omit<PDFExportOptions, 'template'>
+): Promise<Uint8Array> {
+    const { metadata = {} } = options;
+    const name = letter.sender.name?.trim();
+
+    const pdf = await printToPDF({ coverLetter: letter }, {
+        ...options,
+        margins: { ...DEFAULT_COVER_LETTER_MARGINS, ...options.margins },
+    });
+
+    return embedMetadata(pdf, {
+        title: metadata.title || (name ? `${name} - Cover Letter` : 'Cover Letter'),
+        author: metadata.author || name || '',
+        subject: metadata.subject || [letter.jobTitle, letter.company].filter(Boolean).join(' at '),
+        keywords: metadata.keywords || [],
+    }, letter.metadata.updatedAt || letter.metadata.createdAt);
+}
+
+/**
+ * Open the /print page with a payload and print it
+ */
+async function printToPDF(payload: PrintPayload, options: PDFExportOptions): Promise<Uint8Array> {
+    const {
+        baseUrl = getPrintOrigin(),
+        pageSize = 'Letter',
+        margins = {},
+        timeoutMs = RENDER_TIMEOUT_MS,
+    } = options;
+
+    const browser = await launchBrowser();
+
+    try {
+        const page = await browser.newPage();
+
+        // Inject the payload before the print page hydrates
+        await page.evaluateOnNewDocument((key: string, data: PrintPayload) => {
+            Object.assign(window, { [key]: data });
+        }, PRINT_PAYLOAD_KEY, payload);
+
+        await page.goto(new URL('/print', baseUrl).toString(), {
+            waitUntil: 'networkidle0',
+            timeout: timeoutMs,
+        });
+        await page.waitForSelector(`[${PRINT_READY_ATTRIBUTE}="true"]`, { timeout: timeoutMs });
+        await page.evaluate(async () => {
+            await document.fonts.ready;
+        });
+
+        const pdf = await page.pdf({
+            format: pageSize,
+            margin: { ...DEFAULT_PDF_MARGINS, ...margins },
+            printBackground: true,
+            displayHeaderFooter: false,
+            timeout: timeoutMs,
+        });
+
+        return pdf;
+    } finally {
+        await browser.close();
+    }
+}
+
+/**
+ * Launch Chromium
+ * Set CHROMIUM_EXECUTABLE_PATH to use a locally installed Chrome during development.
+ */
+async function launchBrowser(): Promise<Browser> {
+    const localExecutable = process.env.CHROMIUM_EXECUTABLE_PATH;
+
+    return puppeteer.launch({
+        executablePath: localExecutable || await chromium.executablePath(),
+        args: localExecutable ? ['--no-sandbox', '--font-render-hinting=none'] : chromium.args,
+        headless: 'shell',
+    });
+}
+
+/**
+ * Write document metadata into the PDF info dictionary
+ * Dates come from the document so the same document always produces the same file.
+ */
+async function embedMetadata(
+    pdf: Uint8Array,
+    metadata: Required<PDFMetadata>,
+    updatedAt: string
+): Promise<Uint8Array> {
+    const doc = await PDFDocument.load(pdf);
+    const { title, author, subject, keywords } = metadata;
+
+    doc.setTitle(title, { showInWindowTitleBar: true });
+    if (author) doc.setAuthor(author);
+    if (subject) doc.setSubject(subject);
+    if (keywords.length > 0) doc.setKeywords(keywords);
+    doc.setCreator(PRODUCER);
+    doc.setProducer(PRODUCER);
+
+    const timestamp = new Date(updatedAt);
+    if (!isNaN(timestamp.getTime())) {
+        doc.setCreationDate(timestamp);
+        doc.setModificationDate(timestamp);
+    }
+
+    return doc.save();
+}
@@ -0,0 +1,36 @@
+/**
+ * Print Payload
+ *
+ * Shared contract between the server-side PDF exporter and the /print page.
+ * The exporter injects the payload into the page before any script runs,
+ * and the page renders it with the regular ResumeTemplate components, or
+ * the CoverLetterDocument for cover letters.
+ */
+
+import type { Resume, ResumeTemplate, CoverLetter } from '@/types';
+
+export const PRINT_PAYLOAD_KEY = '__RESUME_PRINT_PAYLOAD__';
+
+// Attribute set on the print root once the resume has rendered
+export const PRINT_READY_ATTRIBUTE = 'data-print-ready';
+
+export interface ResumePrintPayload {
+    resume: Resume;
+    template: ResumeTemplate;
+}
+
+export interface CoverLetterPrintPayload {
+    coverLetter: CoverLetter;
+}
+
+export type PrintPayload = ResumePrintPayload | CoverLetterPrintPayload;
+
+/**
+ * Read the injected payload (client-side only)
+ */
+export function readPrintPayload(): PrintPayload | null {
+    if (typeof window === 'undefined') return null;
+
+    const payload = (window as unknown as Record<string, unknown>)[PRINT_PAYLOAD_KEY];
+    return payload ? payload as PrintPayload : null;
+}
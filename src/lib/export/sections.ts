@@ -0,0 +1,207 @@
+/**
+ * Export Section Helpers
+ *
+ * Walks a resume the same way the on-screen templates do, so every
+ * exporter emits the same sections in the same order:
+ * - Sections follow `sectionOrder` (falling back to the default order)
+ * - Built-in sections are skipped when `sectionVisibility[id] === false`
+ * - Custom sections are skipped when `section.visible` is false
+ * - Projects are skipped when hidden individually (see `isProjectVisible`)
+ */
+
+import type {
+    Resume,
+    ResumeHeader,
+    ProjectItem,
+    CustomSection,
+    CustomSectionItem,
+} from '@/types';
+import { DEFAULT_SECTION_ORDER, isProjectVisible } from '@/types/resume';
+
+export type BuiltInSectionId =
+    | 'header'
+    | 'summary'
+    | 'skills'
+    | 'experience'
+    | 'projects'
+    | 'education'
+    | 'certifications';
+
+export type ExportSection =
+    | { id: BuiltInSectionId; type: BuiltInSectionId }
+    | { id: string; type: 'custom'; section: CustomSection };
+
+const BUILT_IN_SECTIONS: BuiltInSectionId[] = [
+    'header',
+    'summary',
+    'skills',
+    'experience',
+    'projects',
+    'education',
+    'certifications',
+];
+
+// Section headings used by the modern and classic templates
+export const SECTION_TITLES: Record<Exclude<BuiltInSectionId, 'header'>, string> = {
+    summary: 'Professional Summary',
+    skills: 'Technical Skills',
+    experience: 'Work Experience',
+    projects: 'Projects',
+    education: 'Education',
+    certifications: 'Certifications',
+};
+
+/**
+ * Get the sections to export, in display order
+ */
+export function getExportSections(resume: Resume): ExportSection[] {
+    const order = resume.sectionOrder || DEFAULT_SECTION_ORDER;
+    const visibility = resume.sectionVisibility || {};
+    const customSections = resume.customSections || [];
+    const sections: ExportSection[] = [];
+
+    for (const id of order) {
+        const custom = customSections.find(s => s.id === id);
+        if (custom) {
+            if (custom.visible) {
+                sections.push({ id, type: 'custom', section: custom });
+            }
+            continue;
+        }
+
+        if (visibility[id] === false) continue;
+
+        if (BUILT_IN_SECTIONS.includes(id as BuiltInSectionId)) {
+            sections.push({ id: id as BuiltInSectionId, type: id as BuiltInSectionId });
+        }
+    }
+
+    return sections;
+}
+
+/**
+ * Get the projects to export, leaving out individually hidden ones
+ */
+export function getVisibleProjects(resume: Resume): ProjectItem[] {
+    return resume.projects.filter(project => isProjectVisible(resume, project));
+}
+
+/**
+ * Normalized content of a custom section, keyed by its type
+ */
+export type CustomSectionContent =
+    | { type: 'text'; text: string }
+    | { type: 'list' | 'bullets'; items: string[] }
+    | { type: 'items'; items: CustomSectionItem[] };
+
+/**
+ * Normalize custom section content (content shape is not enforced by the type)
+ */
+export function getCustomSectionContent(section: CustomSection): CustomSectionContent {
+    const content = section.content;
+
+    switch (section.type) {
+        case 'text':
+            return {
+                type: 'text',
+                text: typeof content === 'string'
+                    ? content
+                    : Array.isArray(content) ? content.filter(c => typeof c === 'string').join('\n') : '',
+            };
+        case 'items':
+            return {
+                type: 'items',
+                items: Array.isArray(content)
+                    ? content
+                        .map(c => typeof c === 'string' ? { id: c, title: c } : c)
+                        .filter(c => c.title || c.description)
+                    : [],
+            };
+        case 'list':
+        case 'bullets':
+        default:
+            return {
+                type: section.type === 'bullets' ? 'bullets' : 'list',
+                items: Array.isArray(content)
+                    ? content
+                        .map(c => typeof c === 'string' ? c : c.title)
+                        .filter(Boolean)
+                    : typeof content === 'string' && content ? [content] : [],
+            };
+    }
+}
+
+/**
+ * Format a date range, e.g. "Jan 2020 - Present"
+ */
+export function formatDateRange(
+    startDate?: string,
+    endDate?: string,
+    current?: boolean
+): string {
+    const end = current ? 'Present' : endDate;
+    if (startDate && end) return `${startDate} - ${end}`;
+    return startDate || end || '';
+}
+
+/**
+ * Contact line entry with an optional link target
+ */
+export interface ContactItem {
+    type: 'email' | 'phone' | 'location' | 'github' | 'linkedin' | 'portfolio';
+    text: string;
+    url?: string;
+}
+
+/**
+ * Get the non-empty contact fields of a header, in template order
+ */
+export function getContactItems(header: ResumeHeader): ContactItem[] {
+    const items: ContactItem[] = [];
+
+    if (header.email) items.push({ type: 'email', text: header.email, url: `mailto:${header.email}` });
+    if (header.phone) items.push({ type: 'phone', text: header.phone, url: `tel:${header.phone.replace(/[^\d+]/g, '')}` });
+    if (header.location) items.push({ type: 'location', text: header.location });
+    if (header.github) items.push({ type: 'github', text: header.github, url: toAbsoluteUrl(header.github) });
+    if (header.linkedin) items.push({ type: 'linkedin', text: header.linkedin, url: toAbsoluteUrl(header.linkedin) });
+    if (header.portfolio) items.push({ type: 'portfolio', text: header.portfolio, url: toAbsoluteUrl(header.portfolio) });
+
+    return items;
+}
+
+/**
+ * Link for a project: its own URL or the GitHub repository it came from,
+ * whichever is preferred, falling back to the other
+ */
+export function getProjectUrl(
+    project: ProjectItem,
+    resume: Resume,
+    prefer: 'url' | 'repo' = 'url'
+): string | undefined {
+    const url = project.url ? toAbsoluteUrl(project.url) : undefined;
+    const repoUrl = getRepoUrl(project.repoId, resume);
+    return prefer === 'repo' ? repoUrl || url : url || repoUrl;
+}
+
+/**
+ * Turn a repoId ("owner/name", or "name" for the resume owner) into a GitHub URL
+ */
+function getRepoUrl(repoId: string | undefined, resume: Resume): string | undefined {
+    if (!repoId) return undefined;
+    if (/^[\w.-]+\/[\w.-]+$/.test(repoId)) return `https://github.com/${repoId}`;
+    if (!/^[\w.-]+$/.test(repoId)) return undefined;
+
+    const owner = resume.metadata.generatedFrom?.githubUsername
+        || resume.header.github?.replace(/\/+$/, '').split('/').pop();
+    return owner ? `https://github.com/${owner}/${repoId}` : undefined;
+}
+
+/**
+ * Turn "github.com/user" into "https://github.com/user"
+ */
+export function toAbsoluteUrl(url: string): string {
+    const trimmed = url.trim();
+    if (!trimmed) return trimmed;
+    if (/^[a-z][a-z0-9+.-]*:/i.test(trimmed)) return trimmed;
+    return `https://${trimmed.replace(/^\/+/, '')}`;
+}
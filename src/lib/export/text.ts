@@ -0,0 +1,167 @@
+/**
+ * Plain-Text Exporter
+ *
+ * Renders a resume as clean plain text for application portals that only
+ * offer a textarea. No markup, URLs printed in full, optional hard wrapping.
+ * Cover letters render the same way.
+ */
+
+import type { Resume, ProjectItem, CustomSection, CoverLetter } from '@/types';
+import {
+    getExportSections,
+    getCustomSectionContent,
+    getContactItems,
+    getProjectUrl,
+    formatDateRange,
+    toAbsoluteUrl,
+    SECTION_TITLES,
+    getVisibleProjects,
+} from './sections';
+import { wrapJoined, wrapText } from './utils';
+
+export interface TextExportOptions {
+    bullet?: string;    // Bullet character, e.g. '•', '-', '*'
+    lineWidth?: number; // Hard wrap width, 0 to disable
+}
+
+export const DEFAULT_TEXT_OPTIONS: Required<TextExportOptions> = {
+    bullet: '•',
+    lineWidth: 80,
+};
+
+/**
+ * Render a resume as plain text
+ */
+export function exportResumeToText(resume: Resume, options: TextExportOptions = {}): string {
+    const { bullet, lineWidth } = { ...DEFAULT_TEXT_OPTIONS, ...options };
+    const blocks: string[] = [];
+
+    const wrap = (text: string) => wrapText(text, lineWidth);
+    const joined = (items: (string | undefined)[]) =>
+        wrapJoined(items.filter((item): item is string => !!item), lineWidth);
+    const bullets = (items: string[]) => items
+        .filter(item => item.trim())
+        .map(item => wrapText(item, lineWidth, ' '.repeat(bullet.length + 1), `${bullet} `));
+    const section = (title: string, lines: string[]) => {
+        const body = lines.filter(Boolean);
+        if (body.length > 0) blocks.push([title.toUpperCase(), ...body].join('\n'));
+    };
+
+    for (const entry of getExportSections(resume)) {
+        if (entry.type === 'custom') {
+            section(entry.section.title, renderCustomSection(entry.section, wrap, joined, bullets));
+            continue;
+        }
+
+        switch (entry.type) {
+            case 'header': {
+                const { header } = resume;
+                const contact = getContactItems(header).map(item =>
+                    item.type === 'email' || item.type === 'phone' || !item.url ? item.text : item.url
+                );
+                blocks.push([header.name, header.title, joined(contact)].filter(Boolean).join('\n'));
+                break;
+            }
+            case 'summary':
+                section(SECTION_TITLES.summary, [wrap(resume.summary)]);
+                break;
+            case 'skills':
+                section(SECTION_TITLES.skills, resume.skills.categories
+                    .filter(cat => cat.items.length > 0)
+                    .map(cat => wrapText(`${cat.name}: ${cat.items.join(', ')}`, lineWidth, '  ', '')));
+                break;
+            case 'experience':
+                section(SECTION_TITLES.experience, resume.experience.map(exp => [
+                    joined([exp.title, exp.company, exp.location]),
+                    formatDateRange(exp.startDate, exp.endDate, exp.current),
+                    ...bullets(exp.bullets),
+                ].filter(Boolean).join('\n')).map(spaced));
+                break;
+            case 'projects':
+                section(SECTION_TITLES.projects, getVisibleProjects(resume)
+                    .map(project => renderProject(project, resume, wrap, joined, bullets))
+                    .map(spaced));
+                break;
+            case 'education':
+                section(SECTION_TITLES.education, resume.education.map(edu => [
+                    joined([edu.institution, edu.graduationDate]),
+                    joined([[edu.degree, edu.field].filter(Boolean).join(' in '), edu.gpa ? `GPA: ${edu.gpa}` : '']),
+                    ...bullets(edu.highlights || []),
+                ].filter(Boolean).join('\n')).map(spaced));
+                break;
+            case 'certifications':
+                section(SECTION_TITLES.certifications, (resume.certifications || []).map(cert => [
+                    joined([cert.name, cert.issuer, cert.date]),
+                    cert.url ? toAbsoluteUrl(cert.url) : '',
+                ].filter(Boolean).join('\n')));
+                break;
+        }
+    }
+
+    return blocks.join('\n\n') + '\n';
+}
+
+/**
+ * Render a cover letter as plain text
+ */
+export function exportCoverLetterToText(letter: CoverLetter, options: Pick<TextExportOptions, 'lineWidth'> = {}): string {
+    const { lineWidth } = { ...DEFAULT_TEXT_OPTIONS, ...options };
+    const wrap = (text: string) => wrapText(text, lineWidth);
+    const contact = getContactItems(letter.sender).map(item =>
+        item.type === 'email' || item.type === 'phone' || !item.url ? item.text : item.url
+    );
+
+    return [
+        [letter.sender.name, wrapJoined(contact, lineWidth)].filter(Boolean).join('\n'),
+        letter.date,
+        letter.company,
+        letter.greeting,
+        ...letter.paragraphs.map(paragraph => wrap(paragraph.text)),
+        [letter.closing, letter.signature].filter(Boolean).join('\n'),
+    ].filter(Boolean).join('\n\n') + '\n';
+}
+
+function renderProject(
+    project: ProjectItem,
+    resume: Resume,
+    wrap: (text: string) => string,
+    joined: (items: (string | undefined)[]) => string,
+    bullets: (items: string[]) => string[]
+): string {
+    return [
+        joined([project.name, project.dateRange]),
+        getProjectUrl(project, resume) || '',
+        project.description ? wrap(project.description) : '',
+        project.technologies.length > 0 ? wrap(`Technologies: ${project.technologies.join(', ')}`) : '',
+        ...bullets(project.bullets),
+    ].filter(Boolean).join('\n');
+}
+
+function renderCustomSection(
+    section: CustomSection,
+    wrap: (text: string) => string,
+    joined: (items: (string | undefined)[]) => string,
+    bullets: (items: string[]) => string[]
+): string[] {
+    const content = getCustomSectionContent(section);
+
+    switch (content.type) {
+        case 'text':
+            return content.text ? [wrap(content.text)] : [];
+        case 'list':
+            return content.items.length > 0 ? [wrap(content.items.join(', '))] : [];
+        case 'bullets':
+            return bullets(content.items);
+        case 'items':
+            return content.items.map(item => [
+                joined([item.title, item.date]),
+                item.url ? toAbsoluteUrl(item.url) : '',
+                item.description ? wrap(item.description) : '',
+            ].filter(Boolean).join('\n'));
+    }
+}
+
+// Entries after the first get a blank line above them
+function spaced(entry: string, index: number): string {
+    return index === 0 ? entry : `\n${entry}`;
+}
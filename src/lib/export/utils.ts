@@ -0,0 +1,114 @@
+/**
+ * Export Helpers
+ */
+
+import type { Resume, CoverLetter } from '@/types';
+
+export type ExportPageSize = 'Letter' | 'A4';
+
+export const EXPORT_PAGE_SIZES: ExportPageSize[] = ['Letter', 'A4'];
+
+/**
+ * Build a download filename for an exported resume, e.g. "jane-doe-resume.pdf"
+ */
+export function getExportFilename(resume: Resume, extension: string): string {
+    const slug = slugify(resume.header.name || '');
+    return `${slug || 'resume'}${slug ? '-resume' : ''}.${extension}`;
+}
+
+/**
+ * Build a download filename for an exported cover letter, e.g. "jane-doe-cover-letter-acme.pdf"
+ */
+export function getCoverLetterFilename(letter: CoverLetter, extension: string): string {
+    const parts = [slugify(letter.sender.name || ''), 'cover-letter', slugify(letter.company)];
+    return `${parts.filter(Boolean).join('-')}.${extension}`;
+}
+
+/**
+ * Collect every skill from all categories, de-duplicated
+ */
+export function collectSkills(resume: Resume): string[] {
+    const skills = (resume.skills.categories || []).flatMap(cat => cat.items);
+    return [...new Set(skills.filter(Boolean))];
+}
+
+/**
+ * Word-wrap text at a line width (0 disables wrapping)
+ * Continuation lines get `indent`; words longer than the width (URLs) are never split.
+ */
+export function wrapText(
+    text: string,
+    width: number,
+    indent: string = '',
+    firstIndent: string = indent
+): string {
+    const lines: string[] = [];
+
+    text.split('\n').forEach((paragraph, index) => {
+        let line = index === 0 ? firstIndent : indent;
+        let hasWord = false;
+
+        if (width <= 0) {
+            lines.push(line + paragraph.trim());
+            return;
+        }
+
+        for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+            if (hasWord && line.length + 1 + word.length > width) {
+                lines.push(line);
+                line = indent + word;
+            } else {
+                line += (hasWord ? ' ' : '') + word;
+            }
+            hasWord = true;
+        }
+        lines.push(line);
+    });
+
+    return lines.map(line => line.trimEnd()).join('\n');
+}
+
+/**
+ * Join items with a separator, wrapping between items rather than inside them
+ * so no line starts or ends with the separator. An item longer than the width
+ * gets a line of its own and is word-wrapped.
+ */
+export function wrapJoined(items: string[], width: number, separator: string = ' | '): string {
+    if (width <= 0) return items.join(separator);
+
+    const lines: string[] = [];
+    let line = '';
+    for (const item of items) {
+        if (line && line.length + separator.length + item.length > width) {
+            lines.push(line);
+            line = '';
+        }
+        line = line ? line + separator + item : item;
+    }
+    if (line) lines.push(line);
+
+    return lines.map(text => wrapText(text, width)).join('\n');
+}
+
+/**
+ * Trigger a browser download for generated content (client-side only)
+ */
+export function downloadBlob(blob: Blob, filename: string): void {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = filename;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+}
+
+function slugify(text: string): string {
+    return text
+        .toLowerCase()
+        .normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/[^a-z0-9]+/g, '-')
+        .replace(/^-+|-+$/g, '');
+}
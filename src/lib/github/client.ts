@@ -3,13 +3,19 @@
  * 
  * Handles all GitHub API interactions with:
  * - Rate limit tracking and recovery
- * - Conditional requests with ETags
+ * - Conditional requests with ETags, answered from a shared response cache
+ * - Bulk fetching over GraphQL when a token is available, REST otherwise
+ * - Contribution search in repositories the user does not own
  * - Automatic retry with exponential backoff
  * - Content fetching with size limits
+ * - Cancellation: fetch methods take an optional AbortSignal
+ * - Bounded concurrency: independent calls run in parallel, up to a limit
  */
 
+import { createHash } from 'crypto';
 import { Octokit } from '@octokit/rest';
 import {
+    Contribution,
     GitHubUser,
     GitHubRepository,
     GitHubLanguages,
@@ -18,6 +24,20 @@ import {
     RepositoryContent
 } from '@/types/github';
 import { retry, sleep } from '../utils';
+import { ConcurrencyLimiter } from '../scheduler';
+import { getGitHubResponseCache, type ResponseCache } from '../cache';
+import {
+    CONTRIBUTIONS_QUERY,
+    REPOSITORIES_QUERY,
+    buildReadmeQuery,
+    fromContributionNode,
+    fromRepositoryNode,
+    listsReadme,
+    readReadmeBlobs,
+    type ContributionsQueryResult,
+    type ReadmeQueryResult,
+    type RepositoriesQueryResult
+} from './graphql';
 import {
     truncateToTokenLimit,
     ContentBudget
@@ -28,6 +48,9 @@ const MAX_REPOS_TO_ANALYZE = 20;
 const MAX_FILE_SIZE_BYTES = 100 * 1024; // 100KB
 const MAX_SOURCE_FILES_PER_REPO = 5;
 const RATE_LIMIT_BUFFER = 10; // Keep 10 requests in reserve
+const DEFAULT_CONCURRENCY = 6; // API calls in flight at once
+const README_BATCH_SIZE = 20; // Repositories per GraphQL README query
+const MAX_REST_PULL_DETAILS = 10; // Merged pull requests sized one by one without GraphQL
 
 // File patterns for analysis
 const CONFIG_FILES = [
@@ -78,12 +101,42 @@ interface RateLimitInfo {
     limit: number;
 }
 
+export interface GitHubClientOptions {
+    concurrency?: number; // API calls in flight at once (default 6)
+    responseCache?: ResponseCache | null; // Defaults to the configured cache; null turns it off
+}
+
+export interface ResponseCacheStats {
+    hits: number;   // Answered with 304 Not Modified, not counted against the rate limit
+    misses: number; // Fetched in full
+}
+
+export interface ReadmeInfo {
+    hasReadme: boolean;
+    content: string | null;
+    filename: string | null;
+}
+
+const NO_README: ReadmeInfo = { hasReadme: false, content: null, filename: null };
+
+// A repository's files at HEAD; the tree SHA changes whenever any file does
+export interface RepositoryTree {
+    sha: string;
+    files: Array<{ path: string; type: string; size?: number }>;
+}
+
+type ResponseHeaders = Record<string, string | number | undefined>;
+
 export class GitHubClient {
     private octokit: Octokit;
     private rateLimit: RateLimitInfo | null = null;
     private onProgress?: (message: string) => void;
+    private limiter: ConcurrencyLimiter;
+    private cacheStats: ResponseCacheStats = { hits: 0, misses: 0 };
+    private authenticated: boolean;
+    private readmes = new Map<string, ReadmeInfo>(); // READMEs read in bulk, by owner/repo
 
-    constructor(token?: string, onProgress?: (message: string) => void) {
+    constructor(token?: string, onProgress?: (message: string) => void, options: GitHubClientOptions = {}) {
         // Use provided token or fall back to environment variable
         const authToken = token || process.env.GITHUB_TOKEN;
 
@@ -92,6 +145,13 @@ export class GitHubClient {
             userAgent: 'github-to-resume/1.0',
         });
         this.onProgress = onProgress;
+        this.authenticated = !!authToken;
+        this.limiter = new ConcurrencyLimiter(options.concurrency ?? DEFAULT_CONCURRENCY);
+
+        const responseCache = options.responseCache === undefined ? getGitHubResponseCache() : options.responseCache;
+        if (responseCache) {
+            this.useResponseCache(responseCache, authToken);
+        }
 
         if (authToken) {
             this.log('Using authenticated GitHub client');
@@ -106,19 +166,60 @@ export class GitHubClient {
         }
     }
 
+    /**
+     * Send GETs with the ETag of the cached response and answer 304s from the
+     * cache. Entries are scoped to the token, so responses that depend on
+     * access are never shared between users.
+     */
+    private useResponseCache(cache: ResponseCache, authToken?: string) {
+        const scope = authToken
+            ? createHash('sha256').update(authToken).digest('hex').slice(0, 16)
+            : 'anonymous';
+
+        this.octokit.hook.wrap('request', async (request, options) => {
+            if (options.method !== 'GET') return request(options);
+
+            const key = `${scope} ${this.octokit.request.endpoint.parse(options).url}`;
+            const cached = await cache.get(key);
+
+            // Octokit only sees header changes made on the options it passed in
+            if (cached) options.headers['if-none-match'] = cached.etag;
+
+            try {
+                const response = await request(options);
+
+                this.cacheStats.misses++;
+                if (response.headers.etag) {
+                    await cache.set(key, response.headers.etag, response.data);
+                }
+                return response;
+            } catch (error) {
+                const err = error as { status?: number; response?: { url: string; headers: Record<string, string> } };
+
+                if (cached && err.status === 304 && err.response) {
+                    this.cacheStats.hits++;
+                    return { status: 200, url: err.response.url, headers: err.response.headers, data: cached.data };
+                }
+
+                this.cacheStats.misses++;
+                throw error;
+            }
+        });
+    }
+
     /**
      * Check and update rate limit from response headers
      */
-    private updateRateLimit(headers: {
-        'x-ratelimit-remaining'?: string;
-        'x-ratelimit-reset'?: string;
-        'x-ratelimit-limit'?: string;
-    }) {
-        if (headers['x-ratelimit-remaining']) {
+    private updateRateLimit(headers: ResponseHeaders) {
+        // Search has its own, much smaller limit; only the core limit is tracked
+        const resource = headers['x-ratelimit-resource'];
+        if (resource !== undefined && resource !== 'core') return;
+
+        if (headers['x-ratelimit-remaining'] !== undefined) {
             this.rateLimit = {
-                remaining: parseInt(headers['x-ratelimit-remaining'], 10),
-                reset: new Date(parseInt(headers['x-ratelimit-reset'] || '0', 10) * 1000),
-                limit: parseInt(headers['x-ratelimit-limit'] || '60', 10),
+                remaining: parseInt(String(headers['x-ratelimit-remaining']), 10),
+                reset: new Date(parseInt(String(headers['x-ratelimit-reset'] || '0'), 10) * 1000),
+                limit: parseInt(String(headers['x-ratelimit-limit'] || '60'), 10),
             };
         }
     }
@@ -126,18 +227,53 @@ export class GitHubClient {
     /**
      * Wait if rate limit is low
      */
-    private async checkRateLimit() {
+    private async checkRateLimit(signal?: AbortSignal) {
+        signal?.throwIfAborted();
         if (!this.rateLimit) return;
 
         if (this.rateLimit.remaining <= RATE_LIMIT_BUFFER) {
             const waitMs = this.rateLimit.reset.getTime() - Date.now();
             if (waitMs > 0) {
                 this.log(`Rate limit low. Waiting ${Math.ceil(waitMs / 1000)}s...`);
-                await sleep(Math.min(waitMs + 1000, 60000)); // Max 60s wait
+                await sleep(Math.min(waitMs + 1000, 60000), signal); // Max 60s wait
             }
         }
     }
 
+    /**
+     * Run an API call within the concurrency limit, after waiting out a low
+     * rate limit, and track the rate limit headers it returns
+     */
+    private request<T extends { headers: object }>(call: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        return this.limiter.run(async () => {
+            await this.checkRateLimit(signal);
+
+            // Count calls in flight before their headers arrive
+            if (this.rateLimit) this.rateLimit.remaining--;
+
+            try {
+                const response = await call();
+                this.updateRateLimit(response.headers as ResponseHeaders);
+                return response;
+            } catch (error) {
+                const headers = (error as { response?: { headers?: ResponseHeaders } }).response?.headers;
+                if (headers) this.updateRateLimit(headers);
+                throw error;
+            }
+        }, signal);
+    }
+
+    /**
+     * Run a GraphQL query within the concurrency limit. GraphQL has its own
+     * points budget and no rate limit headers, so only the limit applies.
+     */
+    private graphql<T>(query: string, variables: Record<string, unknown>, signal?: AbortSignal): Promise<T> {
+        return this.limiter.run(
+            () => this.octokit.graphql<T>(query, { ...variables, request: { signal } }),
+            signal
+        );
+    }
+
     /**
      * Get rate limit status
      */
@@ -146,23 +282,28 @@ export class GitHubClient {
     }
 
     /**
-     * Fetch user profile
+     * Get response cache hits and misses for this client's requests
      */
-    async getUser(username: string): Promise<ProcessedUser> {
-        await this.checkRateLimit();
+    getCacheStats(): ResponseCacheStats {
+        return { ...this.cacheStats };
+    }
 
+    /**
+     * Fetch user profile
+     */
+    async getUser(username: string, signal?: AbortSignal): Promise<ProcessedUser> {
         const response = await retry(
-            () => this.octokit.users.getByUsername({ username }),
+            () => this.request(() => this.octokit.users.getByUsername({ username, request: { signal } }), signal),
             {
                 maxRetries: 3,
                 shouldRetry: (error: unknown) => {
                     const err = error as { status?: number };
                     return err.status !== 404;
                 },
+                signal,
             }
         );
 
-        this.updateRateLimit(response.headers as Record<string, string>);
         const user = response.data as unknown as GitHubUser;
 
         return {
@@ -183,30 +324,83 @@ export class GitHubClient {
     }
 
     /**
-     * Fetch user repositories
+     * Fetch user repositories, scored and trimmed to the ones worth analyzing.
+     * With a token this takes a few GraphQL queries, which also read the
+     * READMEs of the selected repositories; otherwise it pages through REST.
      */
-    async getRepositories(username: string): Promise<ProcessedRepository[]> {
-        await this.checkRateLimit();
+    async getRepositories(username: string, signal?: AbortSignal): Promise<ProcessedRepository[]> {
         this.log('Fetching repositories...');
 
+        if (this.authenticated) {
+            try {
+                const repos = await this.getRepositoriesGraphQL(username, signal);
+                if (repos) return repos;
+            } catch (error) {
+                signal?.throwIfAborted();
+                console.error('GraphQL repository fetch failed, falling back to REST:', error);
+            }
+        }
+
+        return this.getRepositoriesRest(username, signal);
+    }
+
+    /**
+     * Fetch repositories with languages, topics and HEAD over GraphQL.
+     * Returns null for organizations, which only REST lists.
+     */
+    private async getRepositoriesGraphQL(username: string, signal?: AbortSignal): Promise<ProcessedRepository[] | null> {
+        const allRepos: ProcessedRepository[] = [];
+        let after: string | null = null;
+
+        do {
+            const result: RepositoriesQueryResult = await retry(
+                () => this.graphql<RepositoriesQueryResult>(REPOSITORIES_QUERY, { login: username, after }, signal),
+                { maxRetries: 3, signal }
+            );
+            if (!result.user) return null;
+
+            const { nodes, pageInfo } = result.user.repositories;
+            allRepos.push(...nodes.filter(node => !node.isDisabled).map(fromRepositoryNode));
+            after = pageInfo.hasNextPage ? pageInfo.endCursor : null;
+        } while (after && allRepos.length < 200); // Safety limit
+
+        this.log(`Found ${allRepos.length} repositories`);
+
+        const selected = this.selectRepositories(allRepos);
+
+        // Analysis reads these READMEs from here instead of fetching each one
+        try {
+            await this.prefetchReadmes(username, selected.map(repo => repo.name), signal);
+        } catch (error) {
+            signal?.throwIfAborted();
+            console.error('Failed to fetch READMEs over GraphQL:', error);
+        }
+
+        return selected;
+    }
+
+    /**
+     * Fetch repositories page by page over REST, then languages per repository
+     */
+    private async getRepositoriesRest(username: string, signal?: AbortSignal): Promise<ProcessedRepository[]> {
         const allRepos: GitHubRepository[] = [];
         let page = 1;
 
         // Fetch all repos with pagination
         while (true) {
             const response = await retry(
-                () => this.octokit.repos.listForUser({
+                () => this.request(() => this.octokit.repos.listForUser({
                     username,
                     sort: 'pushed',
                     direction: 'desc',
                     per_page: 100,
                     page,
                     type: 'owner', // Only repos owned by user
-                }),
-                { maxRetries: 3 }
+                    request: { signal },
+                }), signal),
+                { maxRetries: 3, signal }
             );
 
-            this.updateRateLimit(response.headers as Record<string, string>);
             const repos = response.data as unknown as GitHubRepository[];
 
             if (repos.length === 0) break;
@@ -219,34 +413,23 @@ export class GitHubClient {
 
         this.log(`Found ${allRepos.length} repositories`);
 
-        // Filter and score repositories
-        const filteredRepos = allRepos
-            .filter(repo => !repo.fork && !repo.archived && !repo.disabled)
-            .map(repo => ({
-                repo,
-                score: this.calculateRepoScore(repo),
-            }))
-            .sort((a, b) => b.score - a.score)
-            .slice(0, MAX_REPOS_TO_ANALYZE);
-
-        this.log(`Selected ${filteredRepos.length} repositories for analysis`);
-
-        // Fetch languages for each repo
-        const processedRepos: ProcessedRepository[] = [];
-
-        for (const { repo } of filteredRepos) {
-            await this.checkRateLimit();
+        const selected = this.selectRepositories(allRepos
+            .filter(repo => !repo.disabled)
+            .map(repo => this.fromRestRepository(repo)));
 
+        // Fetch languages for each repo, in parallel
+        return Promise.all(selected.map(async (repo): Promise<ProcessedRepository> => {
             let languages: GitHubLanguages = {};
             try {
-                const langResponse = await this.octokit.repos.listLanguages({
+                const langResponse = await this.request(() => this.octokit.repos.listLanguages({
                     owner: username,
                     repo: repo.name,
-                });
-                this.updateRateLimit(langResponse.headers as Record<string, string>);
+                    request: { signal },
+                }), signal);
                 languages = langResponse.data as GitHubLanguages;
             } catch (error) {
-                // Ignore language fetch errors
+                // Ignore language fetch errors, but not cancellation
+                signal?.throwIfAborted();
                 console.error(`Failed to fetch languages for ${repo.name}:`, error);
             }
 
@@ -255,44 +438,72 @@ export class GitHubClient {
                 ? languageNames.reduce((a, b) => languages[a] > languages[b] ? a : b)
                 : null;
 
-            processedRepos.push({
-                id: repo.id,
-                name: repo.name,
-                fullName: repo.full_name,
-                description: repo.description,
-                url: repo.html_url,
-                homepage: repo.homepage,
+            return {
+                ...repo,
                 languages: languageNames,
                 languageBytes: languages,
                 primaryLanguage,
-                stars: repo.stargazers_count,
-                forks: repo.forks_count,
-                topics: repo.topics || [],
-                isFork: repo.fork,
-                isArchived: repo.archived,
-                pushedAt: repo.pushed_at,
-                createdAt: repo.created_at,
-                size: repo.size,
-            });
-        }
+            };
+        }));
+    }
+
+    /**
+     * Convert a REST repository; languages are fetched separately
+     */
+    private fromRestRepository(repo: GitHubRepository): ProcessedRepository {
+        return {
+            id: repo.id,
+            name: repo.name,
+            fullName: repo.full_name,
+            description: repo.description,
+            url: repo.html_url,
+            homepage: repo.homepage,
+            languages: [],
+            languageBytes: {},
+            primaryLanguage: null,
+            stars: repo.stargazers_count,
+            forks: repo.forks_count,
+            topics: repo.topics || [],
+            isFork: repo.fork,
+            isArchived: repo.archived,
+            pushedAt: repo.pushed_at,
+            createdAt: repo.created_at,
+            size: repo.size,
+        };
+    }
+
+    /**
+     * Drop forks and archived repositories and keep the best scoring ones
+     */
+    private selectRepositories(repos: ProcessedRepository[]): ProcessedRepository[] {
+        const selected = repos
+            .filter(repo => !repo.isFork && !repo.isArchived)
+            .map(repo => ({
+                repo,
+                score: this.calculateRepoScore(repo),
+            }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, MAX_REPOS_TO_ANALYZE)
+            .map(({ repo }) => repo);
 
-        return processedRepos;
+        this.log(`Selected ${selected.length} repositories for analysis`);
+        return selected;
     }
 
     /**
      * Calculate a score for repository prioritization
      */
-    private calculateRepoScore(repo: GitHubRepository): number {
+    private calculateRepoScore(repo: ProcessedRepository): number {
         let score = 0;
 
         // Stars (high weight)
-        score += Math.min(repo.stargazers_count * 10, 500);
+        score += Math.min(repo.stars * 10, 500);
 
         // Forks
-        score += Math.min(repo.forks_count * 5, 100);
+        score += Math.min(repo.forks * 5, 100);
 
         // Recent activity
-        const daysSincePush = (Date.now() - new Date(repo.pushed_at).getTime()) / (1000 * 60 * 60 * 24);
+        const daysSincePush = (Date.now() - new Date(repo.pushedAt).getTime()) / (1000 * 60 * 60 * 24);
         if (daysSincePush < 30) score += 100;
         else if (daysSincePush < 90) score += 50;
         else if (daysSincePush < 365) score += 20;
@@ -301,7 +512,7 @@ export class GitHubClient {
         if (repo.description) score += 30;
 
         // Has topics
-        score += Math.min((repo.topics?.length || 0) * 10, 50);
+        score += Math.min(repo.topics.length * 10, 50);
 
         // Size (not too small, not huge)
         if (repo.size > 10 && repo.size < 50000) score += 20;
@@ -312,13 +523,42 @@ export class GitHubClient {
         return score;
     }
 
+    /**
+     * Fetch the file tree at HEAD, or null if it cannot be read (e.g. an empty repo)
+     */
+    async getRepositoryTree(owner: string, repo: string, signal?: AbortSignal): Promise<RepositoryTree | null> {
+        try {
+            const treeResponse = await this.request(() => this.octokit.git.getTree({
+                owner,
+                repo,
+                tree_sha: 'HEAD',
+                recursive: 'true',
+                request: { signal },
+            }), signal);
+
+            return {
+                sha: treeResponse.data.sha,
+                files: treeResponse.data.tree
+                    .filter(item => item.type === 'blob')
+                    .map(item => ({ path: item.path || '', type: item.type || 'blob', size: item.size })),
+            };
+        } catch (error) {
+            signal?.throwIfAborted();
+            console.error(`Failed to get tree for ${repo}:`, error);
+            return null;
+        }
+    }
+
     /**
      * Fetch repository content (README, configs, source files)
+     * Pass a tree already fetched with getRepositoryTree to skip fetching it again.
      */
     async getRepositoryContent(
         owner: string,
         repo: string,
-        tokenBudget: ContentBudget
+        tokenBudget: ContentBudget,
+        signal?: AbortSignal,
+        repositoryTree?: RepositoryTree | null
     ): Promise<RepositoryContent> {
         const content: RepositoryContent = {
             readme: null,
@@ -328,74 +568,35 @@ export class GitHubClient {
             configFiles: [],
         };
 
-        await this.checkRateLimit();
-
         // 1. Get repository tree to find files
-        let tree: Array<{ path: string; type: string; size?: number }> = [];
-        try {
-            const treeResponse = await this.octokit.git.getTree({
-                owner,
-                repo,
-                tree_sha: 'HEAD',
-                recursive: 'true',
-            });
-            this.updateRateLimit(treeResponse.headers as Record<string, string>);
-            tree = treeResponse.data.tree.filter(item => item.type === 'blob');
-        } catch (error) {
-            console.error(`Failed to get tree for ${repo}:`, error);
-            return content;
-        }
+        const fetchedTree = repositoryTree === undefined
+            ? await this.getRepositoryTree(owner, repo, signal)
+            : repositoryTree;
+        if (!fetchedTree) return content;
 
-        // 2. Find and fetch README
-        const readmeFile = tree.find(file =>
+        const tree = fetchedTree.files;
+
+        // 2. Find the README, unless it was already read in bulk
+        const knownReadme = this.readmes.get(readmeKey(owner, repo));
+        const readmeFile = knownReadme?.hasReadme ? undefined : tree.find(file =>
             /^readme\.md$/i.test(file.path) ||
             /^readme\.rst$/i.test(file.path) ||
             /^readme$/i.test(file.path)
         );
 
-        if (readmeFile) {
-            const readme = await this.fetchFileContent(owner, repo, readmeFile.path);
-            if (readme) {
-                content.readme = truncateToTokenLimit(readme, tokenBudget.readme);
-            }
-        }
-
-        // 3. Find and fetch config files
+        // 3. Find config files
         const configTokensPerFile = Math.floor(tokenBudget.configFiles / CONFIG_FILES.length);
 
-        for (const configFile of CONFIG_FILES) {
-            const file = tree.find(f =>
+        const configFiles = CONFIG_FILES
+            .map(configFile => tree.find(f =>
                 f.path.toLowerCase() === configFile.toLowerCase() ||
                 f.path.toLowerCase().endsWith('/' + configFile.toLowerCase())
-            );
+            ))
+            .filter((file): file is (typeof tree)[number] => !!file && (file.size || 0) < MAX_FILE_SIZE_BYTES);
 
-            if (file && (file.size || 0) < MAX_FILE_SIZE_BYTES) {
-                const fileContent = await this.fetchFileContent(owner, repo, file.path);
-                if (fileContent) {
-                    // Parse package.json specially
-                    if (file.path.toLowerCase() === 'package.json') {
-                        try {
-                            content.packageJson = JSON.parse(fileContent);
-                        } catch {
-                            // Invalid JSON, store as text
-                        }
-                    } else if (file.path.toLowerCase() === 'requirements.txt') {
-                        content.requirementsTxt = fileContent;
-                    }
-
-                    content.configFiles.push({
-                        path: file.path,
-                        content: truncateToTokenLimit(fileContent, configTokensPerFile),
-                        type: this.getConfigType(file.path),
-                    });
-                }
-            }
-        }
-
-        // 4. Find and fetch source files
+        // 4. Score and select best source files
         const sourceTokensPerFile = Math.floor(tokenBudget.sourceFiles / MAX_SOURCE_FILES_PER_REPO);
 
-        // Score and select best source files
         const sourceFileCandidates = tree
             .filter(file => {
                 const ext = '.' + file.path.split('.').pop();
@@ -411,18 +612,51 @@ export class GitHubClient {
             .sort((a, b) => b.score - a.score)
             .slice(0, MAX_SOURCE_FILES_PER_REPO);
 
-        for (const file of sourceFileCandidates) {
-            const fileContent = await this.fetchFileContent(owner, repo, file.path);
-            if (fileContent) {
-                const ext = '.' + file.path.split('.').pop();
-                content.sourceFiles.push({
-                    path: file.path,
-                    content: truncateToTokenLimit(fileContent, sourceTokensPerFile),
-                    language: this.getLanguageFromExtension(ext),
-                });
-            }
+        // 5. Fetch them all in parallel; results keep the order above
+        const [readme, configContents, sourceContents] = await Promise.all([
+            readmeFile ? this.fetchFileContent(owner, repo, readmeFile.path, signal) : knownReadme?.content ?? null,
+            Promise.all(configFiles.map(file => this.fetchFileContent(owner, repo, file.path, signal))),
+            Promise.all(sourceFileCandidates.map(file => this.fetchFileContent(owner, repo, file.path, signal))),
+        ]);
+
+        if (readme) {
+            content.readme = truncateToTokenLimit(readme, tokenBudget.readme);
         }
 
+        configFiles.forEach((file, index) => {
+            const fileContent = configContents[index];
+            if (!fileContent) return;
+
+            // Parse package.json specially
+            if (file.path.toLowerCase() === 'package.json') {
+                try {
+                    content.packageJson = JSON.parse(fileContent);
+                } catch {
+                    // Invalid JSON, store as text
+                }
+            } else if (file.path.toLowerCase() === 'requirements.txt') {
+                content.requirementsTxt = fileContent;
+            }
+
+            content.configFiles.push({
+                path: file.path,
+                content: truncateToTokenLimit(fileContent, configTokensPerFile),
+                type: this.getConfigType(file.path),
+            });
+        });
+
+        sourceFileCandidates.forEach((file, index) => {
+            const fileContent = sourceContents[index];
+            if (!fileContent) return;
+
+            const ext = '.' + file.path.split('.').pop();
+            content.sourceFiles.push({
+                path: file.path,
+                content: truncateToTokenLimit(fileContent, sourceTokensPerFile),
+                language: this.getLanguageFromExtension(ext),
+            });
+        });
+
         return content;
     }
 
@@ -432,18 +666,16 @@ export class GitHubClient {
     private async fetchFileContent(
         owner: string,
         repo: string,
-        path: string
+        path: string,
+        signal?: AbortSignal
     ): Promise<string | null> {
         try {
-            await this.checkRateLimit();
-
-            const response = await this.octokit.repos.getContent({
+            const response = await this.request(() => this.octokit.repos.getContent({
                 owner,
                 repo,
                 path,
-            });
-
-            this.updateRateLimit(response.headers as Record<string, string>);
+                request: { signal },
+            }), signal);
 
             const data = response.data as { content?: string; encoding?: string };
 
@@ -453,6 +685,7 @@ export class GitHubClient {
 
             return null;
         } catch (error) {
+            signal?.throwIfAborted();
             console.error(`Failed to fetch ${path}:`, error);
             return null;
         }
@@ -539,21 +772,17 @@ export class GitHubClient {
      * Fetch only the README file for a repository (fast path)
      * Returns { hasReadme, content, filename }
      */
-    async getReadmeOnly(owner: string, repo: string): Promise<{
-        hasReadme: boolean;
-        content: string | null;
-        filename: string | null;
-    }> {
-        await this.checkRateLimit();
+    async getReadmeOnly(owner: string, repo: string, signal?: AbortSignal): Promise<ReadmeInfo> {
+        const known = this.readmes.get(readmeKey(owner, repo));
+        if (known) return known;
 
         try {
             // Try to get README directly using GitHub's README API
-            const response = await this.octokit.repos.getReadme({
+            const response = await this.request(() => this.octokit.repos.getReadme({
                 owner,
                 repo,
-            });
-
-            this.updateRateLimit(response.headers as Record<string, string>);
+                request: { signal },
+            }), signal);
 
             const data = response.data as { content?: string; encoding?: string; name?: string };
 
@@ -566,16 +795,174 @@ export class GitHubClient {
                 };
             }
 
-            return { hasReadme: false, content: null, filename: null };
+            return NO_README;
         } catch (error) {
+            signal?.throwIfAborted();
             // 404 means no README exists
             const err = error as { status?: number };
             if (err.status === 404) {
-                return { hasReadme: false, content: null, filename: null };
+                return NO_README;
             }
             console.error(`Failed to fetch README for ${repo}:`, error);
-            return { hasReadme: false, content: null, filename: null };
+            return NO_README;
+        }
+    }
+
+    /**
+     * Fetch the READMEs of several repositories of one owner, in the order given.
+     * With a token they are read in batched GraphQL queries; any the queries
+     * miss fall back to one REST call each.
+     */
+    async getReadmes(owner: string, repos: string[], signal?: AbortSignal): Promise<ReadmeInfo[]> {
+        if (this.authenticated) {
+            try {
+                await this.prefetchReadmes(owner, repos, signal);
+            } catch (error) {
+                signal?.throwIfAborted();
+                console.error('Failed to fetch READMEs over GraphQL:', error);
+            }
+        }
+
+        return Promise.all(repos.map(repo => this.getReadmeOnly(owner, repo, signal)));
+    }
+
+    /**
+     * Read READMEs over GraphQL into the bulk README map
+     */
+    private async prefetchReadmes(owner: string, repos: string[], signal?: AbortSignal): Promise<void> {
+        const missing = repos.filter(repo => !this.readmes.has(readmeKey(owner, repo)));
+        const batches: string[][] = [];
+        for (let i = 0; i < missing.length; i += README_BATCH_SIZE) {
+            batches.push(missing.slice(i, i + README_BATCH_SIZE));
         }
+
+        await Promise.all(batches.map(async (batch) => {
+            const variables: Record<string, string> = { owner };
+            batch.forEach((repo, i) => { variables[`name${i}`] = repo; });
+
+            let result: ReadmeQueryResult;
+            try {
+                result = await this.graphql<ReadmeQueryResult>(buildReadmeQuery(batch.length), variables, signal);
+            } catch (error) {
+                // A repository that does not exist fails the query, but the others still have data
+                const partial = (error as { data?: ReadmeQueryResult }).data;
+                if (!partial) throw error;
+                result = partial;
+            }
+
+            batch.forEach((repo, i) => {
+                const node = result[`r${i}`];
+                if (!node) return; // Left for REST to report
+
+                const readme = readReadmeBlobs(node);
+                if (readme) {
+                    this.readmes.set(readmeKey(owner, repo), {
+                        hasReadme: true,
+                        content: readme.content,
+                        filename: readme.filename,
+                    });
+                } else if (!listsReadme(node)) {
+                    this.readmes.set(readmeKey(owner, repo), NO_README);
+                }
+                // Otherwise the README has a name the query did not try; REST reads it
+            });
+        }));
+    }
+
+    /**
+     * Find the user's pull requests, reviews and issues in repositories they
+     * do not own. With a token each kind is one GraphQL search that includes
+     * pull request sizes; otherwise REST search is used and only the first
+     * merged pull requests are sized.
+     */
+    async getContributions(username: string, signal?: AbortSignal): Promise<Contribution[]> {
+        this.log('Fetching contributions...');
+        const searches = getContributionSearches(username);
+
+        if (this.authenticated) {
+            try {
+                const results = await Promise.all(searches.map(async ({ kind, query }) => {
+                    const result = await retry(
+                        () => this.graphql<ContributionsQueryResult>(CONTRIBUTIONS_QUERY, { search: query }, signal),
+                        { maxRetries: 3, signal }
+                    );
+                    return result.search.nodes
+                        .filter(node => node.number !== undefined)
+                        .map(node => fromContributionNode(node, kind));
+                }));
+
+                const contributions = results.flat();
+                this.log(`Found ${contributions.length} contributions`);
+                return contributions;
+            } catch (error) {
+                signal?.throwIfAborted();
+                console.error('GraphQL contribution search failed, falling back to REST:', error);
+            }
+        }
+
+        const contributions = await this.getContributionsRest(searches, signal);
+        this.log(`Found ${contributions.length} contributions`);
+        return contributions;
+    }
+
+    /**
+     * Search contributions over REST, then size the first merged pull requests
+     */
+    private async getContributionsRest(
+        searches: ContributionSearch[],
+        signal?: AbortSignal
+    ): Promise<Contribution[]> {
+        const results = await Promise.all(searches.map(async ({ kind, query }) => {
+            const response = await retry(
+                () => this.request(() => this.octokit.search.issuesAndPullRequests({
+                    q: query,
+                    per_page: 100,
+                    request: { signal },
+                }), signal),
+                { maxRetries: 3, signal }
+            );
+
+            return response.data.items.map((item): Contribution => {
+                const mergedAt = item.pull_request?.merged_at ?? null;
+                return {
+                    kind,
+                    repository: item.repository_url.split('/repos/')[1],
+                    number: item.number,
+                    title: item.title,
+                    url: item.html_url,
+                    state: mergedAt ? 'merged' : item.state === 'open' ? 'open' : 'closed',
+                    createdAt: item.created_at,
+                    mergedAt,
+                };
+            });
+        }));
+        const contributions = results.flat();
+
+        // Search results carry no sizes
+        const merged = contributions
+            .filter(contribution => contribution.kind === 'pull_request' && contribution.state === 'merged')
+            .slice(0, MAX_REST_PULL_DETAILS);
+
+        await Promise.all(merged.map(async (contribution) => {
+            const [owner, repo] = contribution.repository.split('/');
+            try {
+                const response = await this.request(() => this.octokit.pulls.get({
+                    owner,
+                    repo,
+                    pull_number: contribution.number,
+                    request: { signal },
+                }), signal);
+
+                contribution.additions = response.data.additions;
+                contribution.deletions = response.data.deletions;
+                contribution.changedFiles = response.data.changed_files;
+            } catch (error) {
+                signal?.throwIfAborted();
+                console.error(`Failed to fetch ${contribution.url}:`, error);
+            }
+        }));
+
+        return contributions;
     }
 
     /**
@@ -590,8 +977,6 @@ export class GitHubClient {
         hasDockerfile: boolean;
         mainFiles: string[];
     }> {
-        await this.checkRateLimit();
-
         const result = {
             tree: [] as string[],
             languages: [] as string[],
@@ -603,14 +988,12 @@ export class GitHubClient {
 
         try {
             // Get repository tree
-            const treeResponse = await this.octokit.git.getTree({
+            const treeResponse = await this.request(() => this.octokit.git.getTree({
                 owner,
                 repo,
                 tree_sha: 'HEAD',
                 recursive: 'true',
-            });
-
-            this.updateRateLimit(treeResponse.headers as Record<string, string>);
+            }));
 
             const files = treeResponse.data.tree
                 .filter(item => item.type === 'blob')
@@ -663,6 +1046,24 @@ export class GitHubClient {
     }
 }
 
+interface ContributionSearch {
+    kind: Contribution['kind'];
+    query: string;
+}
+
+// -user: leaves out repositories the user owns, which are analyzed as projects
+function getContributionSearches(username: string): ContributionSearch[] {
+    return [
+        { kind: 'pull_request', query: `is:pr author:${username} -user:${username}` },
+        { kind: 'review', query: `is:pr reviewed-by:${username} -author:${username} -user:${username}` },
+        { kind: 'issue', query: `is:issue author:${username} -user:${username}` },
+    ];
+}
+
+function readmeKey(owner: string, repo: string): string {
+    return `${owner}/${repo}`.toLowerCase();
+}
+
 // Singleton for server-side use
 let client: GitHubClient | null = null;
 
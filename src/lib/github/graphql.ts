@@ -0,0 +1,268 @@
+/**
+ * GitHub GraphQL Queries
+ *
+ * Bulk queries used by GitHubClient when it has a token (GraphQL does not
+ * allow anonymous access). One page of the repositories query returns up to
+ * 100 repositories with their language byte counts, topics and default branch
+ * HEAD; the README query reads the README blobs of many repositories at once,
+ * with listings of where they live to tell a missing README from one under
+ * another name; the contributions query searches pull requests and issues
+ * with their sizes.
+ */
+
+import { Contribution, ProcessedRepository } from '@/types/github';
+
+// GraphQL can only read exact paths, so these are the README locations tried, in order
+export const README_FILENAMES = [
+    'README.md',
+    'readme.md',
+    'Readme.md',
+    'README.markdown',
+    'README.rst',
+    'README.txt',
+    'README',
+    '.github/README.md',
+    'docs/README.md',
+];
+
+// Where GitHub looks for a README; their listings catch names not in README_FILENAMES
+const README_DIRECTORIES = ['', '.github', 'docs'];
+const README_NAME = /^readme/i;
+
+export const REPOSITORIES_QUERY = `
+    query ($login: String!, $after: String) {
+        user(login: $login) {
+            repositories(
+                first: 100
+                after: $after
+                ownerAffiliations: OWNER
+                privacy: PUBLIC
+                orderBy: { field: PUSHED_AT, direction: DESC }
+            ) {
+                pageInfo { hasNextPage endCursor }
+                nodes {
+                    databaseId
+                    name
+                    nameWithOwner
+                    description
+                    url
+                    homepageUrl
+                    stargazerCount
+                    forkCount
+                    isFork
+                    isArchived
+                    isDisabled
+                    pushedAt
+                    createdAt
+                    diskUsage
+                    repositoryTopics(first: 20) { nodes { topic { name } } }
+                    languages(first: 20, orderBy: { field: SIZE, direction: DESC }) {
+                        edges { size node { name } }
+                    }
+                    defaultBranchRef {
+                        target { ... on Commit { oid tree { oid } } }
+                    }
+                }
+            }
+        }
+    }
+`;
+
+export interface RepositoryNode {
+    databaseId: number;
+    name: string;
+    nameWithOwner: string;
+    description: string | null;
+    url: string;
+    homepageUrl: string | null;
+    stargazerCount: number;
+    forkCount: number;
+    isFork: boolean;
+    isArchived: boolean;
+    isDisabled: boolean;
+    pushedAt: string | null; // Null for repositories nobody has pushed to
+    createdAt: string;
+    diskUsage: number | null; // KB, like the REST size field
+    repositoryTopics: { nodes: Array<{ topic: { name: string } }> };
+    languages: { edges: Array<{ size: number; node: { name: string } }> } | null;
+    defaultBranchRef: { target: { oid?: string; tree?: { oid: string } } } | null; // Null for empty repositories
+}
+
+export interface RepositoriesQueryResult {
+    user: {
+        repositories: {
+            pageInfo: { hasNextPage: boolean; endCursor: string | null };
+            nodes: RepositoryNode[];
+        };
+    } | null; // Null when the login is an organization or does not exist
+}
+
+type BlobNode = { text: string | null; isBinary: boolean | null } | null;
+type TreeNode = { entries: { name: string; type: string }[] | null } | null;
+
+// README blobs (f0, f1, ...) and directory listings (d0, d1, ...) of one repository
+export interface ReadmeNode {
+    [blob: `f${number}`]: BlobNode;
+    [directory: `d${number}`]: TreeNode;
+}
+
+// One entry per requested repository (r0, r1, ...), null if it does not exist
+export type ReadmeQueryResult = Record<string, ReadmeNode | null>;
+
+/**
+ * Build a query reading the README of each of `count` repositories from one owner.
+ * Variables: owner, and name0..name{count - 1}.
+ */
+export function buildReadmeQuery(count: number): string {
+    const indexes = Array.from({ length: count }, (_, i) => i);
+    const variables = indexes.map(i => `$name${i}: String!`).join(', ');
+    const repositories = indexes
+        .map(i => `r${i}: repository(owner: $owner, name: $name${i}) { ...Readme }`)
+        .join('\n');
+    const blobs = README_FILENAMES
+        .map((filename, i) => `f${i}: object(expression: "HEAD:${filename}") { ... on Blob { text isBinary } }`)
+        .join('\n');
+    const directories = README_DIRECTORIES
+        .map((directory, i) => `d${i}: object(expression: "HEAD:${directory}") { ... on Tree { entries { name type } } }`)
+        .join('\n');
+
+    return `
+        query ($owner: String!, ${variables}) {
+            ${repositories}
+        }
+        fragment Readme on Repository {
+            ${blobs}
+            ${directories}
+        }
+    `;
+}
+
+/**
+ * The first README found in one repository's part of a README query result
+ */
+export function readReadmeBlobs(
+    node: ReadmeNode | null
+): { filename: string; content: string } | null {
+    if (!node) return null;
+
+    for (let i = 0; i < README_FILENAMES.length; i++) {
+        const blob = node[`f${i}`];
+        if (blob && !blob.isBinary && blob.text !== null) {
+            return { filename: README_FILENAMES[i].split('/').pop()!, content: blob.text };
+        }
+    }
+    return null;
+}
+
+/**
+ * Whether one repository's part of a README query result lists a README file,
+ * e.g. README.adoc or readme.MD, that may not be among the blobs read
+ */
+export function listsReadme(node: ReadmeNode | null): boolean {
+    if (!node) return false;
+
+    return README_DIRECTORIES.some((_, i) => (node[`d${i}`]?.entries ?? [])
+        .some(entry => entry.type === 'blob' && README_NAME.test(entry.name)));
+}
+
+/**
+ * Convert a repository node into the shape the rest of the app uses
+ */
+export function fromRepositoryNode(node: RepositoryNode): ProcessedRepository {
+    const languageBytes: Record<string, number> = {};
+    for (const edge of node.languages?.edges ?? []) {
+        languageBytes[edge.node.name] = edge.size;
+    }
+    const languages = Object.keys(languageBytes); // Largest first
+    const head = node.defaultBranchRef?.target;
+
+    return {
+        id: node.databaseId,
+        name: node.name,
+        fullName: node.nameWithOwner,
+        description: node.description,
+        url: node.url,
+        homepage: node.homepageUrl || null,
+        languages,
+        languageBytes,
+        primaryLanguage: languages[0] ?? null,
+        stars: node.stargazerCount,
+        forks: node.forkCount,
+        topics: node.repositoryTopics.nodes.map(({ topic }) => topic.name),
+        isFork: node.isFork,
+        isArchived: node.isArchived,
+        pushedAt: node.pushedAt ?? node.createdAt,
+        createdAt: node.createdAt,
+        size: node.diskUsage ?? 0,
+        headSha: head?.oid,
+        treeSha: head?.tree?.oid,
+    };
+}
+
+export const CONTRIBUTIONS_QUERY = `
+    query ($search: String!) {
+        search(query: $search, type: ISSUE, first: 100) {
+            nodes {
+                ... on PullRequest {
+                    number
+                    title
+                    url
+                    state
+                    createdAt
+                    mergedAt
+                    additions
+                    deletions
+                    changedFiles
+                    repository { nameWithOwner }
+                }
+                ... on Issue {
+                    number
+                    title
+                    url
+                    state
+                    createdAt
+                    repository { nameWithOwner }
+                }
+            }
+        }
+    }
+`;
+
+export interface ContributionNode {
+    number?: number; // Missing on nodes that are neither pull requests nor issues
+    title: string;
+    url: string;
+    state: 'OPEN' | 'CLOSED' | 'MERGED';
+    createdAt: string;
+    mergedAt?: string | null;
+    additions?: number;
+    deletions?: number;
+    changedFiles?: number;
+    repository: { nameWithOwner: string };
+}
+
+export interface ContributionsQueryResult {
+    search: { nodes: ContributionNode[] };
+}
+
+/**
+ * Convert a search result node into a contribution
+ */
+export function fromContributionNode(node: ContributionNode, kind: Contribution['kind']): Contribution {
+    return {
+        kind,
+        repository: node.repository.nameWithOwner,
+        number: node.number!,
+        title: node.title,
+        url: node.url,
+        state: node.state.toLowerCase() as Contribution['state'],
+        createdAt: node.createdAt,
+        mergedAt: node.mergedAt,
+        // Sizes describe the author's work, not the reviewer's
+        ...(kind === 'pull_request' ? {
+            additions: node.additions,
+            deletions: node.deletions,
+            changedFiles: node.changedFiles,
+        } : {}),
+    };
+}
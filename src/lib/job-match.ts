@@ -0,0 +1,552 @@
+/**
+ * Job Description Matcher
+ *
+ * Extracts requirements (skills, tools, years of experience, seniority) from
+ * a pasted job posting with plain rules, then checks each one against the
+ * resume and reports where it is covered
+ */
+
+import type { Resume } from '@/types';
+import { capitalize } from '@/lib/utils';
+
+export type RequirementKind = 'skill' | 'tool' | 'experience' | 'seniority' | 'qualification';
+export type RequirementPriority = 'required' | 'preferred';
+
+// Longest posting accepted by the API routes
+export const MAX_JOB_DESCRIPTION_LENGTH = 20000;
+
+export const SENIORITY_LEVELS = ['intern', 'junior', 'mid', 'senior', 'staff', 'principal'] as const;
+export type SeniorityLevel = typeof SENIORITY_LEVELS[number];
+
+export interface JobRequirement {
+    id: string;
+    kind: RequirementKind;
+    label: string;
+    priority: RequirementPriority;
+    source?: string; // Posting line the requirement was found in
+}
+
+export interface JobDescriptionAnalysis {
+    title?: string;
+    seniority?: SeniorityLevel;
+    yearsOfExperience?: number;
+    requiredSkills: string[];
+    preferredSkills: string[];
+    tools: string[];
+    requirements: JobRequirement[];
+}
+
+export interface RequirementEvidence {
+    location: string; // e.g. "skills:0", "experience:1:bullet:2", "project:0:technologies"
+    label: string;    // Human-readable place in the resume
+    text: string;
+}
+
+export interface RequirementMatch extends JobRequirement {
+    met: boolean;
+    evidence: RequirementEvidence[];
+    matchedBy?: 'keyword' | 'semantic';
+    note?: string;
+}
+
+export interface JobMatchReport {
+    score: number; // 0-100, required requirements count double
+    coverage: {
+        required: { met: number; total: number };
+        preferred: { met: number; total: number };
+    };
+    job: JobDescriptionAnalysis;
+    requirements: RequirementMatch[];
+    semantic: boolean; // Whether an LLM checked the unmatched requirements
+}
+
+interface TermDefinition {
+    name: string;
+    kind: 'skill' | 'tool';
+    aliases?: string[];
+    caseSensitive?: boolean; // For names that are also common words
+}
+
+// Skills and tools recognized in postings; names and aliases match case-insensitively unless marked
+const TERMS: TermDefinition[] = [
+    // Languages
+    { name: 'JavaScript', kind: 'skill', aliases: ['javascript', 'js', 'es6'] },
+    { name: 'TypeScript', kind: 'skill', aliases: ['typescript', 'ts'] },
+    { name: 'Python', kind: 'skill' },
+    { name: 'Java', kind: 'skill' },
+    { name: 'Kotlin', kind: 'skill' },
+    { name: 'Swift', kind: 'skill', caseSensitive: true },
+    { name: 'Go', kind: 'skill', aliases: ['Go', 'Golang', 'golang'], caseSensitive: true },
+    { name: 'Rust', kind: 'skill' },
+    { name: 'Ruby', kind: 'skill' },
+    { name: 'PHP', kind: 'skill' },
+    { name: 'C++', kind: 'skill', aliases: ['c++', 'cpp'] },
+    { name: 'C#', kind: 'skill', aliases: ['c#', 'csharp'] },
+    { name: 'Scala', kind: 'skill' },
+    { name: 'Elixir', kind: 'skill' },
+    { name: 'SQL', kind: 'skill' },
+    { name: 'HTML', kind: 'skill', aliases: ['html', 'html5'] },
+    { name: 'CSS', kind: 'skill', aliases: ['css', 'css3', 'sass', 'scss'] },
+    { name: 'Bash', kind: 'skill', aliases: ['bash', 'shell scripting'] },
+
+    // Frameworks & libraries
+    { name: 'React', kind: 'skill', aliases: ['react', 'react.js', 'reactjs'] },
+    { name: 'React Native', kind: 'skill' },
+    { name: 'Next.js', kind: 'skill', aliases: ['next.js', 'nextjs'] },
+    { name: 'Vue', kind: 'skill', aliases: ['vue', 'vue.js', 'vuejs'] },
+    { name: 'Angular', kind: 'skill' },
+    { name: 'Svelte', kind: 'skill' },
+    { name: 'Node.js', kind: 'skill', aliases: ['node.js', 'nodejs', 'node'] },
+    { name: 'Express', kind: 'skill', aliases: ['Express', 'Express.js', 'express.js'], caseSensitive: true },
+    { name: 'NestJS', kind: 'skill', aliases: ['nestjs', 'nest.js'] },
+    { name: 'Django', kind: 'skill' },
+    { name: 'Flask', kind: 'skill' },
+    { name: 'FastAPI', kind: 'skill' },
+    { name: 'Spring', kind: 'skill', aliases: ['spring', 'spring boot'] },
+    { name: 'Ruby on Rails', kind: 'skill', aliases: ['rails', 'ruby on rails'] },
+    { name: '.NET', kind: 'skill', aliases: ['.net', 'asp.net', 'dotnet'] },
+    { name: 'Flutter', kind: 'skill' },
+    { name: 'Tailwind CSS', kind: 'skill', aliases: ['tailwind', 'tailwindcss'] },
+    { name: 'Redux', kind: 'skill' },
+    { name: 'GraphQL', kind: 'skill' },
+    { name: 'REST APIs', kind: 'skill', aliases: ['REST', 'RESTful', 'REST API', 'REST APIs'], caseSensitive: true },
+    { name: 'gRPC', kind: 'skill' },
+    { name: 'TensorFlow', kind: 'skill' },
+    { name: 'PyTorch', kind: 'skill' },
+    { name: 'scikit-learn', kind: 'skill', aliases: ['scikit-learn', 'sklearn'] },
+    { name: 'Pandas', kind: 'skill' },
+    { name: 'Spark', kind: 'skill', aliases: ['Spark', 'PySpark', 'Apache Spark'], caseSensitive: true },
+
+    // Practices
+    { name: 'Machine Learning', kind: 'skill', aliases: ['machine learning', 'ml'] },
+    { name: 'Deep Learning', kind: 'skill' },
+    { name: 'NLP', kind: 'skill', aliases: ['nlp', 'natural language processing'] },
+    { name: 'Computer Vision', kind: 'skill' },
+    { name: 'LLMs', kind: 'skill', aliases: ['llm', 'llms', 'large language models'] },
+    { name: 'Data Structures', kind: 'skill' },
+    { name: 'Algorithms', kind: 'skill', aliases: ['algorithms', 'algorithm'] },
+    { name: 'System Design', kind: 'skill' },
+    { name: 'Distributed Systems', kind: 'skill' },
+    { name: 'Microservices', kind: 'skill', aliases: ['microservices', 'microservice', 'micro-services'] },
+    { name: 'API Design', kind: 'skill' },
+    { name: 'Testing', kind: 'skill', aliases: ['testing', 'unit testing', 'unit tests', 'tdd', 'test-driven development'] },
+    { name: 'CI/CD', kind: 'skill', aliases: ['ci/cd', 'continuous integration', 'continuous delivery', 'continuous deployment'] },
+    { name: 'Infrastructure as Code', kind: 'skill', aliases: ['infrastructure as code', 'iac'] },
+    { name: 'Agile', kind: 'skill', aliases: ['agile', 'scrum', 'kanban'] },
+    { name: 'Accessibility', kind: 'skill', aliases: ['accessibility', 'a11y', 'wcag'] },
+    { name: 'Responsive Design', kind: 'skill' },
+    { name: 'Security', kind: 'skill', aliases: ['security', 'application security', 'appsec'] },
+    { name: 'Data Visualization', kind: 'skill' },
+    { name: 'Statistics', kind: 'skill', aliases: ['statistics', 'statistical analysis'] },
+
+    // Tools & platforms
+    { name: 'AWS', kind: 'tool', aliases: ['aws', 'amazon web services'] },
+    { name: 'GCP', kind: 'tool', aliases: ['gcp', 'google cloud'] },
+    { name: 'Azure', kind: 'tool' },
+    { name: 'Docker', kind: 'tool' },
+    { name: 'Kubernetes', kind: 'tool', aliases: ['kubernetes', 'k8s'] },
+    { name: 'Terraform', kind: 'tool' },
+    { name: 'Ansible', kind: 'tool' },
+    { name: 'Jenkins', kind: 'tool' },
+    { name: 'GitHub Actions', kind: 'tool' },
+    { name: 'GitLab CI', kind: 'tool', aliases: ['gitlab ci', 'gitlab'] },
+    { name: 'Git', kind: 'tool' },
+    { name: 'Linux', kind: 'tool' },
+    { name: 'PostgreSQL', kind: 'tool', aliases: ['postgresql', 'postgres'] },
+    { name: 'MySQL', kind: 'tool' },
+    { name: 'MongoDB', kind: 'tool', aliases: ['mongodb', 'mongo'] },
+    { name: 'Redis', kind: 'tool' },
+    { name: 'Elasticsearch', kind: 'tool' },
+    { name: 'DynamoDB', kind: 'tool' },
+    { name: 'Kafka', kind: 'tool', aliases: ['kafka', 'apache kafka'] },
+    { name: 'RabbitMQ', kind: 'tool' },
+    { name: 'Airflow', kind: 'tool', aliases: ['airflow', 'apache airflow'] },
+    { name: 'Snowflake', kind: 'tool' },
+    { name: 'Prometheus', kind: 'tool' },
+    { name: 'Grafana', kind: 'tool' },
+    { name: 'Datadog', kind: 'tool' },
+    { name: 'Figma', kind: 'tool' },
+    { name: 'Jira', kind: 'tool' },
+    { name: 'Tableau', kind: 'tool' },
+    { name: 'Power BI', kind: 'tool' },
+    { name: 'Excel', kind: 'tool', caseSensitive: true },
+    { name: 'Webpack', kind: 'tool' },
+    { name: 'Vercel', kind: 'tool' },
+];
+
+// Lookarounds instead of \b so names like C++, C# and .NET match
+const TERM_PATTERNS = TERMS.map(term => {
+    const aliases = term.aliases || [term.name];
+    const source = aliases.map(escapeRegExp).join('|');
+    return {
+        term,
+        pattern: new RegExp(`(?<![\\w+#.])(?:${source})(?![\\w+#]|\\.\\w)`, term.caseSensitive ? '' : 'i'),
+    };
+});
+
+const SECTION_HEADINGS: { pattern: RegExp; section: PostingSection }[] = [
+    { pattern: /nice[- ]to[- ]haves?|preferred|bonus|plus|desired|desirable|ideally/i, section: 'preferred' },
+    { pattern: /benefits?|perks|what we offer|compensation|salary|equal opportunity|about (us|the company)/i, section: 'ignored' },
+    { pattern: /responsibilit|what you('|’)?ll do|about the (role|team)|the role|day[- ]to[- ]day/i, section: 'neutral' },
+    { pattern: /requirements?|qualifications?|must[- ]haves?|what you('|’)?ll (need|bring)|who you are|you have|skills/i, section: 'required' },
+];
+
+// Phrases that make a single line optional, e.g. "Kubernetes is a plus"
+const PREFERRED_MARKERS = /nice[- ]to[- ]have|preferred|\bbonus\b|\ba plus\b|is a plus|big plus|ideally|desired|desirable/i;
+
+const SENIORITY_PATTERNS: { level: SeniorityLevel; pattern: RegExp }[] = [
+    { level: 'principal', pattern: /\b(principal|distinguished)\b/i },
+    { level: 'staff', pattern: /\b(staff|lead)\b/i },
+    { level: 'senior', pattern: /\b(senior|sr\.?)(?=\W|$)/i },
+    { level: 'mid', pattern: /\b(mid[- ]?level|intermediate)\b/i },
+    { level: 'junior', pattern: /\b(junior|jr\.?|entry[- ]level|graduate|new grad)(?=\W|$)/i },
+    { level: 'intern', pattern: /\b(intern|internship)\b/i },
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+    one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10,
+};
+
+const YEARS_PATTERN = /(\d{1,2}|one|two|three|four|five|six|seven|eight|nine|ten)\s*\+?\s*(?:(?:-|–|to)\s*\d{1,2}\s*\+?\s*)?(?:years?|yrs?)\b/i;
+
+type PostingSection = 'required' | 'preferred' | 'neutral' | 'ignored';
+
+/**
+ * Extract requirements from a job posting without an LLM
+ */
+export function extractJobRequirements(jobDescription: string): JobDescriptionAnalysis {
+    const lines = jobDescription
+        .split(/\r?\n/)
+        .map(line => line.replace(/^[\s>#*•·▪◦-]+/, '').replace(/\*\*/g, '').trim())
+        .filter(Boolean);
+
+    const title = lines[0] && lines[0].length <= 80 && !isHeading(lines[0]) ? lines[0] : undefined;
+    const terms = new Map<string, { term: TermDefinition; priority: RequirementPriority; source: string }>();
+    let years: { value: number; priority: RequirementPriority; source: string } | undefined;
+    let section: PostingSection = 'neutral';
+
+    for (const line of lines) {
+        const found = TERM_PATTERNS.filter(({ pattern }) => pattern.test(line)).map(({ term }) => term);
+        const yearsMatch = line.match(YEARS_PATTERN);
+
+        // Lines naming a skill are content even when short, e.g. "Strong TypeScript skills"
+        if (found.length === 0 && !yearsMatch && isHeading(line)) {
+            section = getHeadingSection(line);
+            continue;
+        }
+        if (section === 'ignored') continue;
+
+        const priority: RequirementPriority = section === 'preferred' || PREFERRED_MARKERS.test(line)
+            ? 'preferred'
+            : 'required';
+
+        for (const term of found) {
+            const existing = terms.get(term.name);
+            // A term listed as both required and preferred is required
+            if (!existing || (existing.priority === 'preferred' && priority === 'required')) {
+                terms.set(term.name, { term, priority, source: line });
+            }
+        }
+
+        if (yearsMatch && /experience|professional|industry|hands-on|working|building|developing/i.test(line)) {
+            const value = NUMBER_WORDS[yearsMatch[1].toLowerCase()] ?? parseInt(yearsMatch[1], 10);
+            // A required minimum outranks a preferred one; otherwise the highest wins
+            if (!years || (priority === 'required' && years.priority === 'preferred')
+                || (priority === years.priority && value > years.value)) {
+                years = { value, priority, source: line };
+            }
+        }
+    }
+
+    const seniority = extractSeniority(title, lines);
+    const requirements: JobRequirement[] = [];
+
+    if (seniority) {
+        requirements.push({
+            id: 'seniority',
+            kind: 'seniority',
+            label: `${capitalize(seniority.level)} level`,
+            priority: 'required',
+            source: seniority.source,
+        });
+    }
+
+    if (years) {
+        requirements.push({
+            id: 'experience',
+            kind: 'experience',
+            label: `${years.value}+ years of experience`,
+            priority: years.priority,
+            source: years.source,
+        });
+    }
+
+    for (const { term, priority, source } of terms.values()) {
+        requirements.push({
+            id: `${term.kind}:${term.name.toLowerCase()}`,
+            kind: term.kind,
+            label: term.name,
+            priority,
+            source,
+        });
+    }
+
+    const skills = requirements.filter(r => r.kind === 'skill');
+
+    return {
+        title,
+        seniority: seniority?.level,
+        yearsOfExperience: years?.value,
+        requiredSkills: skills.filter(r => r.priority === 'required').map(r => r.label),
+        preferredSkills: skills.filter(r => r.priority === 'preferred').map(r => r.label),
+        tools: requirements.filter(r => r.kind === 'tool').map(r => r.label),
+        requirements,
+    };
+}
+
+/**
+ * Match a resume against a job posting using keyword rules only
+ */
+export function matchJobDescription(resume: Resume, jobDescription: string): JobMatchReport {
+    const job = extractJobRequirements(jobDescription);
+    const evidence = collectResumeEvidence(resume);
+
+    const requirements = job.requirements.map(requirement => {
+        switch (requirement.kind) {
+            case 'experience':
+                return matchExperience(requirement, resume, job.yearsOfExperience || 0);
+            case 'seniority':
+                return matchSeniority(requirement, resume, job.seniority || 'mid');
+            default:
+                return matchTerm(requirement, evidence);
+        }
+    });
+
+    return buildJobMatchReport(job, requirements, false);
+}
+
+/**
+ * Score matched requirements; required ones weigh twice as much as preferred
+ */
+export function buildJobMatchReport(
+    job: JobDescriptionAnalysis,
+    requirements: RequirementMatch[],
+    semantic: boolean
+): JobMatchReport {
+    const count = (priority: RequirementPriority) => {
+        const items = requirements.filter(r => r.priority === priority);
+        return { met: items.filter(r => r.met).length, total: items.length };
+    };
+
+    const required = count('required');
+    const preferred = count('preferred');
+    const total = required.total * 2 + preferred.total;
+    const met = required.met * 2 + preferred.met;
+
+    return {
+        score: total > 0 ? Math.round((met / total) * 100) : 0,
+        coverage: { required, preferred },
+        job,
+        requirements,
+        semantic,
+    };
+}
+
+/**
+ * Every piece of resume text a requirement can be matched against, with its location
+ */
+export function collectResumeEvidence(resume: Resume): RequirementEvidence[] {
+    const evidence: RequirementEvidence[] = [];
+
+    resume.skills.categories.forEach((category, i) => {
+        if (category.items.length > 0) {
+            evidence.push({ location: `skills:${i}`, label: `Skills (${category.name})`, text: category.items.join(', ') });
+        }
+    });
+
+    if (resume.header.title) {
+        evidence.push({ location: 'header:title', label: 'Title', text: resume.header.title });
+    }
+    if (resume.summary) {
+        evidence.push({ location: 'summary', label: 'Summary', text: resume.summary });
+    }
+
+    resume.experience.forEach((exp, i) => {
+        const name = exp.company || exp.title || `Experience ${i + 1}`;
+        evidence.push({ location: `experience:${i}:title`, label: name, text: exp.title });
+        exp.bullets.forEach((bullet, j) => {
+            evidence.push({ location: `experience:${i}:bullet:${j}`, label: `${name}, bullet ${j + 1}`, text: bullet });
+        });
+    });
+
+    resume.projects.forEach((project, i) => {
+        const name = project.name || `Project ${i + 1}`;
+        if (project.technologies.length > 0) {
+            evidence.push({ location: `project:${i}:technologies`, label: `${name}, technologies`, text: project.technologies.join(', ') });
+        }
+        if (project.description) {
+            evidence.push({ location: `project:${i}:description`, label: name, text: project.description });
+        }
+        project.bullets.forEach((bullet, j) => {
+            evidence.push({ location: `project:${i}:bullet:${j}`, label: `${name}, bullet ${j + 1}`, text: bullet });
+        });
+    });
+
+    resume.education.forEach((edu, i) => {
+        evidence.push({
+            location: `education:${i}`,
+            label: edu.institution || 'Education',
+            text: [edu.degree, edu.field].filter(Boolean).join(' in '),
+        });
+    });
+
+    (resume.certifications || []).forEach((cert, i) => {
+        evidence.push({ location: `certification:${i}`, label: 'Certification', text: cert.name });
+    });
+
+    resume.customSections.forEach((section, i) => {
+        const content = Array.isArray(section.content)
+            ? section.content.map(item => (typeof item === 'string' ? item : [item.title, item.description].filter(Boolean).join(': ')))
+            : [section.content];
+        content.filter(Boolean).forEach((text, j) => {
+            evidence.push({ location: `custom:${i}:${j}`, label: section.title, text });
+        });
+    });
+
+    return evidence.filter(item => item.text.trim());
+}
+
+/**
+ * Total years of work experience on the resume, counting overlapping roles once
+ */
+export function getExperienceYears(resume: Resume, now = new Date()): number {
+    const ranges = resume.experience
+        .map(exp => {
+            const start = parseResumeDate(exp.startDate);
+            const end = exp.current || !exp.endDate ? now : parseResumeDate(exp.endDate);
+            return start && end && end > start ? [start.getTime(), end.getTime()] as const : null;
+        })
+        .filter((range): range is readonly [number, number] => range !== null)
+        .sort((a, b) => a[0] - b[0]);
+
+    let total = 0;
+    let coveredUntil = -Infinity;
+    for (const [start, end] of ranges) {
+        const from = Math.max(start, coveredUntil);
+        if (end > from) total += end - from;
+        coveredUntil = Math.max(coveredUntil, end);
+    }
+
+    return Math.round((total / (365.25 * 24 * 60 * 60 * 1000)) * 10) / 10;
+}
+
+/**
+ * Whether a text mentions a skill or tool requirement, by name or alias
+ */
+export function mentionsRequirement(requirement: JobRequirement, text: string): boolean {
+    const definition = TERM_PATTERNS.find(({ term }) => term.name === requirement.label);
+    return !!definition && definition.pattern.test(text);
+}
+
+function matchTerm(requirement: JobRequirement, evidence: RequirementEvidence[]): RequirementMatch {
+    const found = evidence.filter(item => mentionsRequirement(requirement, item.text));
+
+    return {
+        ...requirement,
+        met: found.length > 0,
+        evidence: found.slice(0, 3),
+        matchedBy: found.length > 0 ? 'keyword' : undefined,
+    };
+}
+
+function matchExperience(requirement: JobRequirement, resume: Resume, required: number): RequirementMatch {
+    const years = getExperienceYears(resume);
+    const evidence = resume.experience.map((exp, i) => ({
+        location: `experience:${i}`,
+        label: exp.company || exp.title,
+        text: `${exp.title} (${exp.startDate} – ${exp.current ? 'Present' : exp.endDate || 'Present'})`,
+    }));
+
+    return {
+        ...requirement,
+        met: years >= required,
+        evidence: evidence.slice(0, 3),
+        matchedBy: years >= required ? 'keyword' : undefined,
+        note: years > 0 ? `About ${years} years of work experience on the resume` : 'No dated work experience on the resume',
+    };
+}
+
+function matchSeniority(requirement: JobRequirement, resume: Resume, required: SeniorityLevel): RequirementMatch {
+    const years = getExperienceYears(resume);
+    // Years alone never imply more than senior; staff and above need a matching title
+    let level: SeniorityLevel = years >= 5 ? 'senior' : years >= 2 ? 'mid' : 'junior';
+    let evidence: RequirementEvidence[] = [];
+    resume.experience.forEach((exp, i) => {
+        const titleLevel = SENIORITY_PATTERNS.find(({ pattern }) => pattern.test(exp.title))?.level;
+        if (titleLevel && rank(titleLevel) >= rank(level)) {
+            if (rank(titleLevel) > rank(level)) evidence = [];
+            level = titleLevel;
+            evidence.push({ location: `experience:${i}:title`, label: exp.company || exp.title, text: exp.title });
+        }
+    });
+
+    const met = rank(level) >= rank(required);
+
+    return {
+        ...requirement,
+        met,
+        evidence: evidence.slice(0, 3),
+        matchedBy: met ? 'keyword' : undefined,
+        note: `Resume reads as ${level} level`,
+    };
+}
+
+// The title decides; otherwise only explicit "<level> level" phrases count, since
+// words like "senior" also appear in sentences such as "work with senior engineers"
+function extractSeniority(title: string | undefined, lines: string[]): { level: SeniorityLevel; source: string } | undefined {
+    const inTitle = title && SENIORITY_PATTERNS.find(({ pattern }) => pattern.test(title));
+    if (title && inTitle) return { level: inTitle.level, source: title };
+
+    for (const line of lines) {
+        for (const { level, pattern } of SENIORITY_PATTERNS) {
+            const explicit = new RegExp(`${pattern.source}[- ]level|(seniority|level)\\s*:\\s*${pattern.source}`, 'i');
+            if (explicit.test(line)) return { level, source: line };
+        }
+    }
+
+    return undefined;
+}
+
+function isHeading(line: string): boolean {
+    const text = line.replace(/:$/, '').trim();
+    return text.split(/\s+/).length <= 6 && !/[.!?]$/.test(text)
+        && (line.endsWith(':') || SECTION_HEADINGS.some(({ pattern }) => pattern.test(text)));
+}
+
+function getHeadingSection(line: string): PostingSection {
+    return SECTION_HEADINGS.find(({ pattern }) => pattern.test(line))?.section ?? 'neutral';
+}
+
+function parseResumeDate(value: string): Date | null {
+    if (/present|current|now/i.test(value)) return new Date();
+
+    const parsed = Date.parse(value);
+    if (!Number.isNaN(parsed)) return new Date(parsed);
+
+    const year = value.match(/\b(19|20)\d{2}\b/);
+    if (!year) return null;
+
+    const month = value.match(/\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)/i);
+    const monthIndex = month
+        ? ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'].indexOf(month[1].toLowerCase())
+        : 0;
+    return new Date(parseInt(year[0], 10), monthIndex, 1);
+}
+
+function rank(level: SeniorityLevel): number {
+    return SENIORITY_LEVELS.indexOf(level);
+}
+
+function escapeRegExp(value: string): string {
+    return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,329 @@
+/**
+ * Analysis Job Queue
+ *
+ * Runs profile analyses in the background so requests return right away and
+ * clients poll for progress, or subscribe to it as events. Running jobs can be
+ * cancelled, and failed or cancelled ones resumed: repositories analyzed
+ * before the interruption are reused instead of analyzed again. Jobs and
+ * their results live in this process's memory, so nothing external is needed
+ * locally; jobs do not survive a restart, and each server instance has its
+ * own queue.
+ *
+ * Server-only.
+ */
+
+import {
+    runAnalysis,
+    createAnalysisJob,
+    updateAnalysisJob,
+    describeAnalysisError,
+} from '../orchestrator';
+import type { LLMProvider } from '../llm';
+import type { AnalysisJob, AnalysisJobEvent, RepositoryProgress, StructuredOutputDiagnostics } from '@/types';
+
+export interface AnalysisJobRequest {
+    username: string;
+    selectedRepos?: string[];
+    githubToken?: string;
+    targetRole?: string;
+    customRole?: string;
+    tier?: LLMProvider;
+}
+
+export type AnalysisJobListener = (event: AnalysisJobEvent) => void;
+
+export interface AnalysisQueueOptions {
+    concurrency?: number; // Analyses run at the same time
+    retentionMs?: number; // How long finished jobs stay retrievable
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_RETENTION_MS = 60 * 60 * 1000;
+
+export class AnalysisQueue {
+    private jobs = new Map<string, AnalysisJob>();
+    private requests = new Map<string, AnalysisJobRequest>(); // Kept apart so tokens never reach clients
+    private controllers = new Map<string, AbortController>();
+    private listeners = new Map<string, Set<AnalysisJobListener>>();
+    private pending: string[] = [];
+    private running = 0;
+    private concurrency: number;
+    private retentionMs: number;
+
+    constructor(options: AnalysisQueueOptions = {}) {
+        this.concurrency = Math.max(1, options.concurrency ?? DEFAULT_CONCURRENCY);
+        this.retentionMs = options.retentionMs ?? DEFAULT_RETENTION_MS;
+    }
+
+    /**
+     * Queue an analysis and return its job
+     */
+    enqueue(request: AnalysisJobRequest): AnalysisJob {
+        this.evictExpired();
+
+        const job = createAnalysisJob(request.username);
+        this.jobs.set(job.id, job);
+        this.requests.set(job.id, request);
+        this.pending.push(job.id);
+
+        this.updateQueuePositions();
+        this.drain();
+        return this.jobs.get(job.id)!;
+    }
+
+    /**
+     * Get a job by ID, or null if it is unknown or expired
+     */
+    get(id: string): AnalysisJob | null {
+        this.evictExpired();
+        return this.jobs.get(id) || null;
+    }
+
+    /**
+     * Cancel a queued or running job. Returns the job, or null if it is
+     * unknown; finished jobs are returned unchanged.
+     */
+    cancel(id: string): AnalysisJob | null {
+        const job = this.get(id);
+        if (!job) return null;
+
+        const queuedAt = this.pending.indexOf(id);
+        if (queuedAt !== -1) {
+            this.pending.splice(queuedAt, 1);
+            this.finish(id, 'cancelled', 'Analysis cancelled');
+            this.updateQueuePositions();
+        } else {
+            // The run notices the abort and records the cancellation itself
+            this.controllers.get(id)?.abort();
+        }
+
+        return this.jobs.get(id)!;
+    }
+
+    /**
+     * Queue a failed or cancelled job again. Repositories it already analyzed
+     * are kept; the rest are analyzed and the resume generated. Returns null
+     * if the job is unknown or cannot be resumed.
+     */
+    resume(id: string): AnalysisJob | null {
+        const job = this.get(id);
+        if (!job || !this.requests.has(id)) return null;
+        if (job.status !== 'failed' && job.status !== 'cancelled') return null;
+
+        this.update(id, {
+            status: 'queued',
+            error: undefined,
+            startedAt: undefined,
+            completedAt: undefined,
+            progress: { current: 0, total: 0, message: 'Queued for processing' },
+        });
+        this.pending.push(id);
+
+        this.updateQueuePositions();
+        this.drain();
+        return this.jobs.get(id)!;
+    }
+
+    /**
+     * Follow a job's progress; returns a function that stops listening.
+     * Nothing is delivered once the job has finished, so check the job's
+     * status first.
+     */
+    subscribe(id: string, listener: AnalysisJobListener): () => void {
+        let listeners = this.listeners.get(id);
+        if (!listeners) {
+            listeners = new Set();
+            this.listeners.set(id, listeners);
+        }
+        listeners.add(listener);
+
+        return () => {
+            const current = this.listeners.get(id);
+            if (!current) return;
+
+            current.delete(listener);
+            if (current.size === 0) this.listeners.delete(id);
+        };
+    }
+
+    private drain(): void {
+        while (this.running < this.concurrency && this.pending.length > 0) {
+            const id = this.pending.shift()!;
+            this.running++;
+
+            void this.run(id).finally(() => {
+                this.running--;
+                this.drain();
+            });
+        }
+        this.updateQueuePositions();
+    }
+
+    private async run(id: string): Promise<void> {
+        const request = this.requests.get(id);
+        const job = this.jobs.get(id);
+        if (!request || !job) return;
+
+        const controller = new AbortController();
+        this.controllers.set(id, controller);
+
+        // Checkpoint from an earlier run of this job; failed repos are retried
+        const checkpoint = Object.fromEntries(
+            (job.repositoryProgress || [])
+                .filter(r => r.status === 'completed' && r.analysis)
+                .map(r => [r.name, r.analysis!])
+        );
+        const previousUsage = job.tokenUsage || { totalTokens: 0, estimatedCost: 0 };
+
+        this.update(id, { startedAt: new Date().toISOString() });
+
+        try {
+            const result = await runAnalysis(request.username, {
+                githubToken: request.githubToken,
+                tier: request.tier,
+                selectedRepos: request.selectedRepos,
+                targetRole: request.targetRole,
+                customRole: request.customRole,
+                verbose: process.env.NODE_ENV === 'development',
+                onProgress: progress => {
+                    const job = this.jobs.get(id);
+                    if (!job) return;
+
+                    const updated = updateAnalysisJob(job, progress);
+                    this.jobs.set(id, updated);
+                    this.emit(id, { type: 'progress', status: updated.status, progress: updated.progress });
+                },
+                onRepository: repository => this.recordRepository(id, repository),
+                signal: controller.signal,
+                checkpoint,
+            });
+
+            this.update(id, {
+                status: 'completed',
+                user: result.user,
+                repositories: result.repositories,
+                analyses: result.analyses,
+                resume: result.resume,
+                tokenUsage: {
+                    totalTokens: previousUsage.totalTokens + result.tokenUsage.total.totalTokens,
+                    estimatedCost: previousUsage.estimatedCost + result.tokenUsage.total.estimatedCost,
+                },
+                cachedRepositories: result.tokenUsage.cache.hits,
+                completedAt: new Date().toISOString(),
+            });
+            this.requests.delete(id);
+            this.emit(id, { type: 'completed', job: this.jobs.get(id)! });
+            this.listeners.delete(id);
+        } catch (error) {
+            if (controller.signal.aborted) {
+                this.finish(id, 'cancelled', 'Analysis cancelled');
+            } else {
+                console.error(`Analysis job ${id} failed:`, error);
+                const { message, diagnostics } = describeAnalysisError(error);
+                this.finish(id, 'failed', message, diagnostics);
+            }
+        } finally {
+            this.controllers.delete(id);
+        }
+    }
+
+    // Failed and cancelled jobs keep their request so they can be resumed
+    private finish(
+        id: string,
+        status: 'failed' | 'cancelled',
+        message: string,
+        diagnostics?: StructuredOutputDiagnostics
+    ): void {
+        this.update(id, {
+            status,
+            error: message,
+            diagnostics,
+            completedAt: new Date().toISOString(),
+        });
+        this.emit(id, status === 'cancelled' ? { type: 'cancelled' } : { type: 'failed', error: message });
+        this.listeners.delete(id);
+    }
+
+    private recordRepository(id: string, repository: RepositoryProgress): void {
+        const job = this.jobs.get(id);
+        if (!job) return;
+
+        const repositoryProgress = [...(job.repositoryProgress || [])];
+        const index = repositoryProgress.findIndex(r => r.name === repository.name);
+        if (index === -1) {
+            repositoryProgress.push(repository);
+        } else {
+            repositoryProgress[index] = repository;
+        }
+
+        // Running total until the resume is generated and the final usage is known
+        const tokenUsage = {
+            totalTokens: (job.tokenUsage?.totalTokens || 0) + (repository.tokenUsage?.totalTokens || 0),
+            estimatedCost: (job.tokenUsage?.estimatedCost || 0) + (repository.tokenUsage?.estimatedCost || 0),
+        };
+
+        this.update(id, { repositoryProgress, tokenUsage });
+        this.emit(id, { type: 'repository', repository, tokenUsage });
+    }
+
+    private emit(id: string, event: AnalysisJobEvent): void {
+        const listeners = this.listeners.get(id);
+        if (!listeners) return;
+
+        for (const listener of listeners) {
+            try {
+                listener(event);
+            } catch (error) {
+                console.error(`Analysis job ${id} listener failed:`, error);
+            }
+        }
+    }
+
+    private update(id: string, changes: Partial<AnalysisJob>): void {
+        const job = this.jobs.get(id);
+        if (!job) return;
+
+        this.jobs.set(id, { ...job, ...changes, updatedAt: new Date().toISOString() });
+    }
+
+    private updateQueuePositions(): void {
+        this.pending.forEach((id, index) => {
+            const job = this.jobs.get(id);
+            if (!job) return;
+
+            const ahead = this.running + index;
+            const message = ahead > 0 ? `Queued behind ${ahead} other ${ahead === 1 ? 'analysis' : 'analyses'}` : 'Queued for processing';
+            if (job.progress.message !== message) {
+                this.update(id, { progress: { ...job.progress, message } });
+            }
+        });
+    }
+
+    private evictExpired(): void {
+        const cutoff = Date.now() - this.retentionMs;
+
+        for (const [id, job] of this.jobs) {
+            if (job.completedAt && new Date(job.completedAt).getTime() < cutoff) {
+                this.jobs.delete(id);
+                this.requests.delete(id);
+            }
+        }
+    }
+}
+
+// Route handlers can be bundled separately; the global keeps one queue per process
+const globalForQueue = globalThis as unknown as { analysisQueue?: AnalysisQueue };
+
+/**
+ * Get the process-wide analysis queue
+ * ANALYSIS_CONCURRENCY sets how many analyses run at once (default 2).
+ */
+export function getAnalysisQueue(): AnalysisQueue {
+    if (!globalForQueue.analysisQueue) {
+        const concurrency = parseInt(process.env.ANALYSIS_CONCURRENCY || '', 10);
+        globalForQueue.analysisQueue = new AnalysisQueue({
+            concurrency: Number.isNaN(concurrency) ? undefined : concurrency,
+        });
+    }
+    return globalForQueue.analysisQueue;
+}
@@ -1,7 +1,8 @@
 /**
  * Repository Analyzer with Hierarchical Summarization
  * 
- * This module handles intelligent analysis of GitHub repositories using OpenAI.
+ * This module handles intelligent analysis of GitHub repositories with the
+ * LLM provider of the request's tier.
  * It implements a hierarchical summarization strategy to handle large repos:
  * 
  * 1. If content fits in context → Direct analysis
@@ -10,8 +11,8 @@
  * This ensures we never exceed token limits while preserving maximum information.
  */
 
-import type OpenAI from 'openai';
-import { getOpenAIClient, LLM_DEFAULT_MODEL } from './openai';
+import { UnifiedLLMService, getTokenUsage } from './llm-service';
+import type { LLMProvider, LLMRequest } from './types';
 import {
     REPO_ANALYSIS_SYSTEM_PROMPT,
     CHUNK_SUMMARY_SYSTEM_PROMPT,
@@ -20,6 +21,8 @@ import {
     generateChunkSummaryPrompt,
     generateCombineSummariesPrompt,
 } from './prompts';
+import { repositoryAnalysisSchema } from './schemas';
+import { chatStructured, StructuredOutputError } from './structured-output';
 import {
     countTokens,
     getAvailableTokens,
@@ -28,8 +31,6 @@ import {
     allocateTokenBudget,
     needsHierarchicalSummarization,
     estimateRepoTokens,
-    calculateCost,
-    type ModelName,
     type TokenUsage,
 } from '../tokens';
 import {
@@ -37,7 +38,8 @@ import {
     RepositoryContent,
     RepositoryAnalysis,
 } from '@/types';
-import { retry, safeJsonParse } from '../utils';
+import { retry } from '../utils';
+import { runLimited, type ConcurrencyLimiter } from '../scheduler';
 
 // Configuration
 const MAX_RETRIES = 3;
@@ -47,9 +49,12 @@ const MAX_SUMMARIES_TO_COMBINE = 10;
 
 interface AnalyzerOptions {
     apiKey?: string;
-    model?: ModelName;
+    tier?: LLMProvider;   // Provider to analyze with (default groq, the free tier)
+    model?: string;       // Defaults to the provider's model
     verbose?: boolean;
     onProgress?: (message: string) => void;
+    signal?: AbortSignal; // Cancels the analysis, including pending retries
+    limiter?: ConcurrencyLimiter; // Shared limit on LLM calls in flight
 }
 
 interface AnalysisResult {
@@ -59,6 +64,7 @@ interface AnalysisResult {
 
 /**
  * Analyze a single repository
+ * Throws StructuredOutputError when the model's reply cannot be repaired.
  */
 export async function analyzeRepository(
     repo: ProcessedRepository,
@@ -67,14 +73,17 @@ export async function analyzeRepository(
 ): Promise<AnalysisResult> {
     const {
         apiKey,
-        model = LLM_DEFAULT_MODEL as ModelName,
+        tier = 'groq',
         verbose = false,
         onProgress,
+        signal,
+        limiter,
     } = options;
 
-    const openai = getOpenAIClient(apiKey);
-    let totalInputTokens = 0;
-    let totalOutputTokens = 0;
+    const llm = new UnifiedLLMService(tier, { apiKey });
+    const model = options.model ?? llm.model;
+    const call = (request: LLMRequest) => chat(llm, { ...request, model, signal }, limiter);
+    const tokenUsage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0, estimatedCost: 0 };
 
     const log = (msg: string) => {
         if (verbose) console.log(`[Analyzer] ${msg}`);
@@ -88,20 +97,21 @@ export async function analyzeRepository(
     log(`Estimated content tokens: ${estimatedTokens}`);
 
     // Check if we need hierarchical summarization
-    const availableTokens = getAvailableTokens(model);
+    const contextModel = llm.getContextModel(model);
+    const availableTokens = getAvailableTokens(contextModel);
+    // Chunks must leave room for their prompt in small contexts
+    const maxChunkTokens = Math.min(MAX_CHUNK_TOKENS, Math.floor(availableTokens / 2));
 
     let processedContent: RepositoryContent = content;
 
-    if (needsHierarchicalSummarization(estimatedTokens, model)) {
+    if (needsHierarchicalSummarization(estimatedTokens, contextModel)) {
         log(`Content too large (${estimatedTokens} tokens). Using hierarchical summarization...`);
 
         // Hierarchical summarization for large content
-        const { summarizedContent, inputTokens, outputTokens } =
-            await hierarchicalSummarize(repo.name, content, openai, model, log);
+        const { summarizedContent, usage } = await hierarchicalSummarize(repo.name, content, maxChunkTokens, call, log);
 
         processedContent = summarizedContent;
-        totalInputTokens += inputTokens;
-        totalOutputTokens += outputTokens;
+        addUsage(tokenUsage, usage);
     }
 
     // Generate the analysis prompt
@@ -116,40 +126,60 @@ export async function analyzeRepository(
         ? truncateToTokenLimit(userPrompt, maxUserPromptTokens)
         : userPrompt;
 
-    // Call LLM for analysis
-    const response = await retry(
-        () => openai.chat.completions.create({
-            model,
+    // Call LLM for analysis, asking it to repair replies that do not match the schema
+    let analysis: RepositoryAnalysis;
+    try {
+        const response = await chatStructured(call, {
             messages: [
                 { role: 'system', content: REPO_ANALYSIS_SYSTEM_PROMPT },
                 { role: 'user', content: finalPrompt },
             ],
             temperature: 0.3, // Lower temperature for more consistent output
-            response_format: { type: 'json_object' },
-        }),
-        { maxRetries: MAX_RETRIES }
-    );
+            jsonMode: true,
+        }, repositoryAnalysisSchema, 'repository analysis');
 
-    totalInputTokens += response.usage?.prompt_tokens || 0;
-    totalOutputTokens += response.usage?.completion_tokens || 0;
-
-    // Parse the response
-    const responseText = response.choices[0]?.message?.content || '';
-    const analysis = parseAnalysisResponse(responseText, repo);
+        addUsage(tokenUsage, response.usage);
+        analysis = response.data;
+    } catch (error) {
+        // Report everything this analysis spent, summaries included
+        if (error instanceof StructuredOutputError) {
+            addUsage(error.usage, tokenUsage);
+        }
+        throw error;
+    }
 
     log(`Analysis complete for ${repo.name}`);
 
     return {
         analysis,
-        tokenUsage: {
-            inputTokens: totalInputTokens,
-            outputTokens: totalOutputTokens,
-            totalTokens: totalInputTokens + totalOutputTokens,
-            estimatedCost: calculateCost(totalInputTokens, totalOutputTokens, model),
-        },
+        tokenUsage,
     };
 }
 
+type ChatCall = (request: LLMRequest) => Promise<{ content: string; usage: TokenUsage }>;
+
+/**
+ * Make one LLM call within the shared limit, retrying failures
+ */
+async function chat(
+    llm: UnifiedLLMService,
+    request: LLMRequest,
+    limiter?: ConcurrencyLimiter
+): Promise<{ content: string; usage: TokenUsage }> {
+    const response = await retry(
+        () => runLimited(limiter, () => llm.chat(request), request.signal),
+        { maxRetries: MAX_RETRIES, signal: request.signal }
+    );
+    return { content: response.content, usage: getTokenUsage(response) };
+}
+
+function addUsage(total: TokenUsage, usage: TokenUsage): void {
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+    total.totalTokens += usage.totalTokens;
+    total.estimatedCost += usage.estimatedCost;
+}
+
 /**
  * Estimate token count for repository content
  */
@@ -185,16 +215,14 @@ function estimateContentTokens(content: RepositoryContent): number {
 async function hierarchicalSummarize(
     repoName: string,
     content: RepositoryContent,
-    openai: OpenAI,
-    model: ModelName,
+    maxChunkTokens: number,
+    call: ChatCall,
     log: (msg: string) => void
 ): Promise<{
     summarizedContent: RepositoryContent;
-    inputTokens: number;
-    outputTokens: number;
+    usage: TokenUsage;
 }> {
-    let inputTokens = 0;
-    let outputTokens = 0;
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0, estimatedCost: 0 };
 
     const summarizedContent: RepositoryContent = {
         readme: null,
@@ -207,37 +235,25 @@ async function hierarchicalSummarize(
     };
 
     // Summarize README if large
-    if (content.readme && countTokens(content.readme) > MIN_CHUNK_FOR_HIERARCHICAL) {
+    if (content.readme && countTokens(content.readme) > Math.min(MIN_CHUNK_FOR_HIERARCHICAL, maxChunkTokens * 2)) {
         log('Summarizing large README...');
-        const { summary, input, output } = await summarizeLargeText(
-            content.readme,
-            repoName,
-            openai,
-            model
-        );
-        summarizedContent.readme = summary;
-        inputTokens += input;
-        outputTokens += output;
+        const readme = await summarizeLargeText(content.readme, repoName, maxChunkTokens, call);
+        summarizedContent.readme = readme.summary;
+        addUsage(usage, readme.usage);
     } else {
         summarizedContent.readme = content.readme;
     }
 
     // Summarize source files
     for (const file of content.sourceFiles) {
-        if (countTokens(file.content) > MAX_CHUNK_TOKENS) {
+        if (countTokens(file.content) > maxChunkTokens) {
             log(`Summarizing large source file: ${file.path}`);
-            const { summary, input, output } = await summarizeLargeText(
-                file.content,
-                `${repoName}/${file.path}`,
-                openai,
-                model
-            );
+            const source = await summarizeLargeText(file.content, `${repoName}/${file.path}`, maxChunkTokens, call);
             summarizedContent.sourceFiles.push({
                 ...file,
-                content: summary,
+                content: source.summary,
             });
-            inputTokens += input;
-            outputTokens += output;
+            addUsage(usage, source.usage);
         } else {
             summarizedContent.sourceFiles.push(file);
         }
@@ -249,7 +265,7 @@ async function hierarchicalSummarize(
         content: truncateToTokenLimit(file.content, 500),
     }));
 
-    return { summarizedContent, inputTokens, outputTokens };
+    return { summarizedContent, usage };
 }
 
 /**
@@ -258,23 +274,21 @@ async function hierarchicalSummarize(
 async function summarizeLargeText(
     text: string,
     contextName: string,
-    openai: OpenAI,
-    model: ModelName
+    maxChunkTokens: number,
+    call: ChatCall
 ): Promise<{
     summary: string;
-    input: number;
-    output: number;
+    usage: TokenUsage;
 }> {
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0, estimatedCost: 0 };
+
     // Split into chunks
-    const chunks = chunkText(text, { maxChunkTokens: MAX_CHUNK_TOKENS });
+    const chunks = chunkText(text, { maxChunkTokens });
 
     if (chunks.length === 1) {
-        return { summary: chunks[0], input: 0, output: 0 };
+        return { summary: chunks[0], usage };
     }
 
-    let inputTokens = 0;
-    let outputTokens = 0;
-
     // Summarize each chunk
     const chunkSummaries: string[] = [];
 
@@ -286,24 +300,17 @@ async function summarizeLargeText(
             contextName
         );
 
-        const response = await retry(
-            () => openai.chat.completions.create({
-                model,
-                messages: [
-                    { role: 'system', content: CHUNK_SUMMARY_SYSTEM_PROMPT },
-                    { role: 'user', content: chunkPrompt },
-                ],
-                temperature: 0.3,
-                max_tokens: 500,
-            }),
-            { maxRetries: MAX_RETRIES }
-        );
-
-        inputTokens += response.usage?.prompt_tokens || 0;
-        outputTokens += response.usage?.completion_tokens || 0;
+        const response = await call({
+            messages: [
+                { role: 'system', content: CHUNK_SUMMARY_SYSTEM_PROMPT },
+                { role: 'user', content: chunkPrompt },
+            ],
+            temperature: 0.3,
+            maxTokens: 500,
+        });
 
-        const summary = response.choices[0]?.message?.content || '';
-        chunkSummaries.push(summary);
+        addUsage(usage, response.usage);
+        chunkSummaries.push(response.content);
     }
 
     // If too many summaries, combine in batches
@@ -314,10 +321,9 @@ async function summarizeLargeText(
 
         for (let i = 0; i < finalSummaries.length; i += MAX_SUMMARIES_TO_COMBINE) {
             const batch = finalSummaries.slice(i, i + MAX_SUMMARIES_TO_COMBINE);
-            const combined = await combineSummaries(batch, contextName, openai, model);
+            const combined = await combineSummaries(batch, contextName, call);
             batchedSummaries.push(combined.summary);
-            inputTokens += combined.input;
-            outputTokens += combined.output;
+            addUsage(usage, combined.usage);
         }
 
         finalSummaries = batchedSummaries;
@@ -325,16 +331,14 @@ async function summarizeLargeText(
 
     // Final combination
     if (finalSummaries.length > 1) {
-        const final = await combineSummaries(finalSummaries, contextName, openai, model);
-        inputTokens += final.input;
-        outputTokens += final.output;
-        return { summary: final.summary, input: inputTokens, output: outputTokens };
+        const final = await combineSummaries(finalSummaries, contextName, call);
+        addUsage(usage, final.usage);
+        return { summary: final.summary, usage };
     }
 
     return {
         summary: finalSummaries[0],
-        input: inputTokens,
-        output: outputTokens
+        usage,
     };
 }
 
@@ -344,106 +348,32 @@ async function summarizeLargeText(
 async function combineSummaries(
     summaries: string[],
     contextName: string,
-    openai: OpenAI,
-    model: ModelName
+    call: ChatCall
 ): Promise<{
     summary: string;
-    input: number;
-    output: number;
+    usage: TokenUsage;
 }> {
     const prompt = generateCombineSummariesPrompt(summaries, contextName);
 
-    const response = await retry(
-        () => openai.chat.completions.create({
-            model,
-            messages: [
-                { role: 'system', content: CHUNK_COMBINE_SYSTEM_PROMPT },
-                { role: 'user', content: prompt },
-            ],
-            temperature: 0.3,
-            max_tokens: 800,
-        }),
-        { maxRetries: MAX_RETRIES }
-    );
+    const response = await call({
+        messages: [
+            { role: 'system', content: CHUNK_COMBINE_SYSTEM_PROMPT },
+            { role: 'user', content: prompt },
+        ],
+        temperature: 0.3,
+        maxTokens: 800,
+    });
 
     return {
-        summary: response.choices[0]?.message?.content || summaries.join('\n'),
-        input: response.usage?.prompt_tokens || 0,
-        output: response.usage?.completion_tokens || 0,
+        summary: response.content || summaries.join('\n'),
+        usage: response.usage,
     };
 }
 
-/**
- * Parse the analysis response with fallbacks
- */
-function parseAnalysisResponse(
-    response: string,
-    repo: ProcessedRepository
-): RepositoryAnalysis {
-    // Default analysis structure
-    const defaultAnalysis: RepositoryAnalysis = {
-        projectName: repo.name,
-        oneLiner: repo.description || `A ${repo.primaryLanguage || 'software'} project`,
-        detailedSummary: repo.description || 'No detailed description available.',
-        problemSolved: 'Not specified',
-        technologies: repo.languages,
-        skillsDemonstrated: [],
-        complexityScore: 5,
-        projectType: 'other',
-        achievements: [],
-        resumeBulletPoints: [`Developed ${repo.name} using ${repo.languages.join(', ')}`],
-    };
-
-    try {
-        // Try to parse JSON
-        const parsed = JSON.parse(response);
-
-        // Validate and merge with defaults
-        return {
-            projectName: parsed.projectName || defaultAnalysis.projectName,
-            oneLiner: parsed.oneLiner || defaultAnalysis.oneLiner,
-            detailedSummary: parsed.detailedSummary || defaultAnalysis.detailedSummary,
-            problemSolved: parsed.problemSolved || defaultAnalysis.problemSolved,
-            technologies: Array.isArray(parsed.technologies)
-                ? parsed.technologies
-                : defaultAnalysis.technologies,
-            skillsDemonstrated: Array.isArray(parsed.skillsDemonstrated)
-                ? parsed.skillsDemonstrated
-                : defaultAnalysis.skillsDemonstrated,
-            complexityScore: typeof parsed.complexityScore === 'number'
-                ? Math.min(10, Math.max(1, parsed.complexityScore))
-                : defaultAnalysis.complexityScore,
-            projectType: validateProjectType(parsed.projectType)
-                || inferProjectType(repo),
-            achievements: Array.isArray(parsed.achievements)
-                ? parsed.achievements
-                : defaultAnalysis.achievements,
-            resumeBulletPoints: Array.isArray(parsed.resumeBulletPoints)
-                ? parsed.resumeBulletPoints
-                : defaultAnalysis.resumeBulletPoints,
-        };
-    } catch (error) {
-        console.error('Failed to parse analysis response:', error);
-        return defaultAnalysis;
-    }
-}
-
-/**
- * Validate project type
- */
-function validateProjectType(
-    type: string
-): RepositoryAnalysis['projectType'] | null {
-    const validTypes = ['web', 'api', 'ml', 'mobile', 'cli', 'library', 'devops', 'other'];
-    return validTypes.includes(type)
-        ? type as RepositoryAnalysis['projectType']
-        : null;
-}
-
 /**
  * Infer project type from repository data
  */
-function inferProjectType(repo: ProcessedRepository): RepositoryAnalysis['projectType'] {
+export function inferProjectType(repo: ProcessedRepository): RepositoryAnalysis['projectType'] {
     const langs = repo.languages.map(l => l.toLowerCase());
     const topics = repo.topics.map(t => t.toLowerCase());
     const name = repo.name.toLowerCase();
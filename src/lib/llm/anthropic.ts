@@ -0,0 +1,90 @@
+/**
+ * Anthropic Client Configuration
+ *
+ * A small client for the Messages API, called over fetch like the rest of
+ * the app's HTTP APIs
+ */
+
+import { ProxyAgent, fetch as undiciFetch } from 'undici';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+// Default model for analysis
+export const ANTHROPIC_DEFAULT_MODEL = process.env.ANTHROPIC_MODEL || 'claude-haiku-4-5';
+
+// Model for the final resume synthesis
+export const ANTHROPIC_SYNTHESIS_MODEL = process.env.ANTHROPIC_SYNTHESIS_MODEL || 'claude-sonnet-4-5';
+
+// Model for ATS fixes and summary rewrites
+export const ANTHROPIC_FIX_MODEL = process.env.ANTHROPIC_FIX_MODEL || ANTHROPIC_DEFAULT_MODEL;
+
+// Use proxy if configured, as for OpenAI; one agent keeps its connections across requests
+const proxyUrl = process.env.HTTPS_PROXY || process.env.HTTP_PROXY;
+const proxyAgent = proxyUrl ? new ProxyAgent(proxyUrl) : null;
+
+export interface AnthropicMessageRequest {
+    model: string;
+    system?: string; // The system prompt is not a message in this API
+    messages: { role: 'user' | 'assistant'; content: string }[];
+    max_tokens: number; // Required
+    temperature?: number;
+}
+
+export interface AnthropicMessageResponse {
+    model: string;
+    content: Array<{ type: 'text'; text: string } | { type: string }>;
+    stop_reason: string | null;
+    usage: {
+        input_tokens: number;
+        output_tokens: number;
+    };
+}
+
+export class AnthropicAPIError extends Error {
+    constructor(message: string, public status: number) {
+        super(message);
+        this.name = 'AnthropicAPIError';
+    }
+}
+
+/**
+ * Create a message with the Messages API
+ */
+export async function createAnthropicMessage(
+    body: AnthropicMessageRequest,
+    options: { apiKey?: string; signal?: AbortSignal } = {}
+): Promise<AnthropicMessageResponse> {
+    const key = options.apiKey || process.env.ANTHROPIC_API_KEY;
+
+    if (!key) {
+        throw new Error('Anthropic API key is required. Set ANTHROPIC_API_KEY environment variable.');
+    }
+
+    const baseUrl = process.env.ANTHROPIC_BASE_URL || ANTHROPIC_API_URL;
+
+    const init = {
+        method: 'POST',
+        headers: {
+            'content-type': 'application/json',
+            'x-api-key': key,
+            'anthropic-version': ANTHROPIC_VERSION,
+        },
+        body: JSON.stringify(body),
+        signal: options.signal,
+    };
+
+    const response = proxyAgent
+        ? await undiciFetch(`${baseUrl}/messages`, { ...init, dispatcher: proxyAgent })
+        : await fetch(`${baseUrl}/messages`, init);
+
+    if (!response.ok) {
+        const error = await response.json().catch(() => null) as { error?: { message?: string } } | null;
+        throw new AnthropicAPIError(
+            error?.error?.message || `Anthropic API request failed with status ${response.status}`,
+            response.status
+        );
+    }
+
+    return await response.json() as AnthropicMessageResponse;
+}
@@ -1,7 +1,19 @@
-import { UnifiedLLMService } from './llm-service';
+import { LLM_PROVIDERS, UnifiedLLMService } from './llm-service';
 import { LLMRequest, LLMProvider } from './types';
-import type { Resume } from '@/types';
+import { atsResultSchema, fixResultSchema, jobMatchSchema } from './schemas';
+import { chatStructured, serviceCall, StructuredOutputError } from './structured-output';
+import type { Resume, StructuredOutputDiagnostics } from '@/types';
 import { calculateCost, type TokenUsage } from '../tokens';
+import {
+    buildJobMatchReport,
+    collectResumeEvidence,
+    matchJobDescription,
+    type JobMatchReport,
+    type RequirementMatch,
+} from '../job-match';
+
+// Postings are trimmed to keep prompts within the smaller models' context
+export const MAX_JOB_DESCRIPTION_CHARS = 6000;
 
 // Types for LLM ATS analysis
 export interface LLMATSResult {
@@ -16,6 +28,7 @@ export interface LLMATSResult {
     suggestions: LLMSuggestion[];
     strengths: string[];
     tokenUsage: TokenUsage;
+    diagnostics?: StructuredOutputDiagnostics; // Set when the model's reply could not be repaired
 }
 
 export interface LLMSuggestion {
@@ -29,10 +42,16 @@ export interface LLMSuggestion {
     location?: string; // e.g., "summary", "project:0:bullet:1"
 }
 
+export interface LLMJobMatchResult extends JobMatchReport {
+    tokenUsage: TokenUsage;
+    diagnostics?: StructuredOutputDiagnostics; // Set when the model's reply could not be repaired
+}
+
 export interface FixResult {
     fixed: string;
     explanation: string;
     tokenUsage: TokenUsage;
+    diagnostics?: StructuredOutputDiagnostics; // Set when the model's reply could not be repaired
 }
 
 /**
@@ -41,15 +60,19 @@ export interface FixResult {
 export async function analyzeATSWithLLM(
     resume: Resume,
     targetRole?: string,
-    tier: LLMProvider = 'groq'
+    tier: LLMProvider = 'groq',
+    jobDescription?: string
 ): Promise<LLMATSResult> {
     const llmService = new UnifiedLLMService(tier);
 
     // Build resume content for analysis
     const resumeContent = buildResumeContent(resume);
-    const roleContext = targetRole
+    let roleContext = targetRole
         ? `The candidate is targeting a "${targetRole}" role.`
         : 'No specific target role specified.';
+    if (jobDescription) {
+        roleContext += `\n\nThe candidate is applying to this job posting; judge keywords and role alignment against it:\n${jobDescription.slice(0, MAX_JOB_DESCRIPTION_CHARS)}`;
+    }
 
     const systemPrompt = `You are an expert ATS (Applicant Tracking System) analyzer and resume consultant. 
 Your task is to analyze resumes for ATS compatibility and provide actionable feedback.
@@ -100,45 +123,28 @@ Provide a comprehensive ATS analysis in this exact JSON format:
 Return ONLY valid JSON, no markdown code blocks.`;
 
     try {
-        const response = await llmService.chat({
+        const response = await chatStructured(serviceCall(llmService), {
             messages: [
                 { role: 'system', content: systemPrompt },
                 { role: 'user', content: userPrompt }
             ],
             temperature: 0.3,
             maxTokens: 4096, // Increase limit to prevent JSON truncation
-            jsonMode: tier === 'openai' // Only OpenAI supports guaranteed JSON mode reliably via API flag
-        });
-
-        // Parse content - robustly handle markdown and extra text
-        const content = cleanJSON(response.content);
-
-        const parsed = JSON.parse(content.trim());
+            jsonMode: LLM_PROVIDERS[tier].enforcesJson // Only where the provider reliably enforces JSON
+        }, atsResultSchema, 'ATS analysis');
 
         // Add IDs to suggestions
-        const suggestions = (parsed.suggestions || []).map((s: Omit<LLMSuggestion, 'id'>, i: number) => ({
+        const suggestions = response.data.suggestions.map((s, i) => ({
             ...s,
             id: `suggestion-${i}-${Date.now()}`
         }));
 
         return {
-            overallScore: parsed.overallScore || 50,
-            breakdown: parsed.breakdown || {
-                keywords: { score: 50, feedback: 'Unable to analyze' },
-                impact: { score: 50, feedback: 'Unable to analyze' },
-                actionVerbs: { score: 50, feedback: 'Unable to analyze' },
-                formatting: { score: 50, feedback: 'Unable to analyze' },
-                roleAlignment: { score: 50, feedback: 'Unable to analyze' }
-            },
+            overallScore: response.data.overallScore,
+            breakdown: response.data.breakdown,
             suggestions,
-            strengths: parsed.strengths || [],
-            tokenUsage: {
-                // Map the new service usage format to the existing TokenUsage type
-                inputTokens: response.usage?.promptTokens || 0,
-                outputTokens: response.usage?.completionTokens || 0,
-                totalTokens: response.usage?.totalTokens || 0,
-                estimatedCost: response.usage?.cost || 0
-            }
+            strengths: response.data.strengths,
+            tokenUsage: response.usage
         };
     } catch (error) {
         console.error('ATS Analysis Error:', error);
@@ -153,7 +159,123 @@ Return ONLY valid JSON, no markdown code blocks.`;
             },
             suggestions: [],
             strengths: [],
-            tokenUsage: { totalTokens: 0, inputTokens: 0, outputTokens: 0, estimatedCost: 0 }
+            ...failedOutput(error)
+        };
+    }
+}
+
+/**
+ * Match a resume against a job posting
+ * Keyword rules run first; the LLM then judges the requirements they could not
+ * confirm by meaning (e.g. "Postgres" for "relational databases") and adds
+ * requirements the rules do not recognize, such as domain knowledge or degrees.
+ */
+export async function matchJobWithLLM(
+    resume: Resume,
+    jobDescription: string,
+    tier: LLMProvider = 'groq'
+): Promise<LLMJobMatchResult> {
+    const llmService = new UnifiedLLMService(tier);
+    const ruleReport = matchJobDescription(resume, jobDescription);
+    const evidence = collectResumeEvidence(resume);
+    const evidenceByLocation = new Map(evidence.map(item => [item.location, item]));
+
+    const systemPrompt = `You are an expert technical recruiter. You decide whether a resume meets each requirement of a job posting.
+
+Rules:
+1. Count equivalent experience: "Postgres" meets "relational databases", "mentored 3 engineers" meets "mentoring"
+2. Only cite resume locations from the list you are given, and only when the text supports the requirement
+3. Do not count a requirement as met because of a loosely related skill
+4. Keep explanations to one short sentence`;
+
+    const requirementLines = ruleReport.requirements.map(r =>
+        `- ${r.id}: ${r.label} (${r.priority}) - ${r.met ? 'met by keyword' : 'not found by keyword'}`
+    );
+    const resumeLines = evidence.map(item => `[${item.location}] ${item.label}: ${item.text}`);
+
+    const userPrompt = `JOB POSTING:
+${jobDescription.slice(0, MAX_JOB_DESCRIPTION_CHARS)}
+
+REQUIREMENTS FOUND BY KEYWORD EXTRACTION:
+${requirementLines.join('\n') || '(none)'}
+
+RESUME (each line starts with its location):
+${resumeLines.join('\n')}
+
+For every requirement above, decide whether the resume meets it. Then list up to 8 other important requirements from the posting that are missing from the list (domain knowledge, degrees, certifications, responsibilities) and check those too.
+
+Return JSON in this exact format:
+{
+    "requirements": [
+        { "id": "<requirement id>", "met": <true|false>, "evidence": ["<location>"], "explanation": "<why>" }
+    ],
+    "additionalRequirements": [
+        { "label": "<short requirement>", "priority": "required|preferred", "met": <true|false>, "evidence": ["<location>"], "explanation": "<why>" }
+    ]
+}
+
+Return ONLY valid JSON, no markdown code blocks.`;
+
+    try {
+        const response = await chatStructured(serviceCall(llmService), {
+            messages: [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: userPrompt }
+            ],
+            temperature: 0.2,
+            maxTokens: 3000,
+            jsonMode: LLM_PROVIDERS[tier].enforcesJson
+        }, jobMatchSchema, 'job match');
+
+        const verdicts = new Map(response.data.requirements.map(verdict => [verdict.id, verdict]));
+        const citedEvidence = (verdict: { evidence: string[] }) => verdict.evidence
+            .map(location => evidenceByLocation.get(location))
+            .filter((item): item is NonNullable<typeof item> => !!item)
+            .slice(0, 3);
+
+        // Keyword matches quote the resume directly, so they stand; the LLM can only add matches
+        const requirements: RequirementMatch[] = ruleReport.requirements.map(match => {
+            const verdict = verdicts.get(match.id);
+            if (match.met || !verdict) return match;
+
+            const cited = citedEvidence(verdict);
+            const met = verdict.met && cited.length > 0;
+            return {
+                ...match,
+                met,
+                evidence: met ? cited : match.evidence,
+                matchedBy: met ? 'semantic' : undefined,
+                note: met ? verdict.explanation : match.note ?? verdict.explanation,
+            };
+        });
+
+        const additional = response.data.additionalRequirements
+            .slice(0, 8)
+            .map((verdict, i): RequirementMatch => {
+                const cited = citedEvidence(verdict);
+                const met = verdict.met && cited.length > 0;
+                return {
+                    id: `qualification:${i}`,
+                    kind: 'qualification',
+                    label: verdict.label,
+                    priority: verdict.priority,
+                    met,
+                    evidence: cited,
+                    matchedBy: met ? 'semantic' : undefined,
+                    note: verdict.explanation,
+                };
+            });
+
+        return {
+            ...buildJobMatchReport(ruleReport.job, [...requirements, ...additional], true),
+            tokenUsage: response.usage
+        };
+    } catch (error) {
+        // The keyword report still stands without the model's verdicts
+        console.error('Job Match Error:', error);
+        return {
+            ...ruleReport,
+            ...failedOutput(error)
         };
     }
 }
@@ -193,34 +315,27 @@ Provide an improved version that fixes the issue. Return JSON:
 Return ONLY valid JSON.`;
 
     try {
-        const response = await llmService.chat({
+        const response = await chatStructured(serviceCall(llmService), {
             messages: [
                 { role: 'system', content: systemPrompt },
                 { role: 'user', content: userPrompt }
             ],
             temperature: 0.5,
             maxTokens: 500,
-            jsonMode: tier === 'openai'
-        });
-
-        const content = cleanJSON(response.content);
+            model: LLM_PROVIDERS[tier].fixModel,
+            jsonMode: LLM_PROVIDERS[tier].enforcesJson
+        }, fixResultSchema, 'fix');
 
-        const parsed = JSON.parse(content.trim());
         return {
-            fixed: parsed.fixed || originalText,
-            explanation: parsed.explanation || 'Text improved',
-            tokenUsage: {
-                totalTokens: response.usage?.totalTokens || 0,
-                inputTokens: response.usage?.promptTokens || 0,
-                outputTokens: response.usage?.completionTokens || 0,
-                estimatedCost: response.usage?.cost || 0
-            }
+            fixed: response.data.fixed,
+            explanation: response.data.explanation || 'Text improved',
+            tokenUsage: response.usage
         };
-    } catch {
+    } catch (error) {
         return {
             fixed: originalText,
             explanation: 'Could not generate fix',
-            tokenUsage: { totalTokens: 0, inputTokens: 0, outputTokens: 0, estimatedCost: 0 }
+            ...failedOutput(error)
         };
     }
 }
@@ -259,38 +374,41 @@ Write an optimized professional summary for this target role. Return JSON:
 Return ONLY valid JSON.`;
 
     try {
-        const response = await llmService.chat({
+        const response = await chatStructured(serviceCall(llmService), {
             messages: [
                 { role: 'system', content: systemPrompt },
                 { role: 'user', content: userPrompt }
             ],
             temperature: 0.6,
             maxTokens: 500,
-            jsonMode: tier === 'openai'
-        });
+            model: LLM_PROVIDERS[tier].fixModel,
+            jsonMode: LLM_PROVIDERS[tier].enforcesJson
+        }, fixResultSchema, 'summary');
 
-        const content = cleanJSON(response.content);
-
-        const parsed = JSON.parse(content.trim());
         return {
-            fixed: parsed.fixed || currentSummary,
-            explanation: parsed.explanation || 'Summary optimized',
-            tokenUsage: {
-                totalTokens: response.usage?.totalTokens || 0,
-                inputTokens: response.usage?.promptTokens || 0,
-                outputTokens: response.usage?.completionTokens || 0,
-                estimatedCost: response.usage?.cost || 0
-            }
+            fixed: response.data.fixed,
+            explanation: response.data.explanation || 'Summary optimized',
+            tokenUsage: response.usage
         };
-    } catch {
+    } catch (error) {
         return {
             fixed: currentSummary,
             explanation: 'Could not optimize',
-            tokenUsage: { totalTokens: 0, inputTokens: 0, outputTokens: 0, estimatedCost: 0 }
+            ...failedOutput(error)
         };
     }
 }
 
+/**
+ * Token usage and diagnostics for a call whose output could not be used
+ */
+function failedOutput(error: unknown): Pick<FixResult, 'tokenUsage' | 'diagnostics'> {
+    if (error instanceof StructuredOutputError) {
+        return { tokenUsage: error.usage, diagnostics: error.diagnostics };
+    }
+    return { tokenUsage: { totalTokens: 0, inputTokens: 0, outputTokens: 0, estimatedCost: 0 } };
+}
+
 /**
  * Build a text representation of the resume for analysis
  */
@@ -342,20 +460,3 @@ function buildResumeContent(resume: Resume): string {
 
     return sections.join('\n');
 }
-
-/**
- * Helper to clean LLM output and extract JSON
- */
-function cleanJSON(text: string): string {
-    // Remove markdown code blocks
-    let cleaned = text.replace(/```json/g, '').replace(/```/g, '').trim();
-    // Locate the first { and last } to handle potential preamble/postscript
-    const firstBrace = cleaned.indexOf('{');
-    const lastBrace = cleaned.lastIndexOf('}');
-    if (firstBrace >= 0 && lastBrace > firstBrace) {
-        cleaned = cleaned.substring(firstBrace, lastBrace + 1);
-    }
-    return cleaned;
-}
-
-
@@ -0,0 +1,101 @@
+/**
+ * Cover Letter Generator
+ *
+ * Drafts a cover letter with the LLM from a resume and the analyzed projects
+ * picked as evidence. The model must cite the project facts it uses; citations
+ * are checked against the evidence when the letter is built.
+ */
+
+import { LLM_PROVIDERS, UnifiedLLMService } from './llm-service';
+import type { LLMProvider } from './types';
+import { coverLetterSchema } from './schemas';
+import { chatStructured, serviceCall } from './structured-output';
+import type { Resume } from '@/types';
+import type { TokenUsage } from '../tokens';
+import { MAX_JOB_DESCRIPTION_CHARS } from './ats-analyzer';
+import type { CoverLetterDraft, CoverLetterInput, ProjectEvidence } from '../cover-letter';
+
+export interface CoverLetterGenerationResult {
+    draft: CoverLetterDraft;
+    tokenUsage: TokenUsage;
+}
+
+const COVER_LETTER_SYSTEM_PROMPT = `You are an expert career coach who writes concise, specific cover letters for software engineers.
+
+Rules:
+1. 3-4 paragraphs, 250-350 words in total, first person
+2. Open with the role and company and one concrete reason the candidate fits
+3. The middle paragraphs argue from the candidate's projects: what problem each solved, how, and the result
+4. Only use facts from the resume and the project evidence you are given. Never invent employers, metrics, users or technologies
+5. For every project fact a paragraph uses, add a citation with the exact project name from the evidence and the fact it relies on
+6. No placeholders like [Company] or [Hiring Manager], no clichés like "I am writing to express my interest"
+7. Close with a short, confident call to action`;
+
+/**
+ * Draft a cover letter
+ * Throws StructuredOutputError when the model does not return a usable letter.
+ */
+export async function generateCoverLetterWithLLM(
+    resume: Resume,
+    evidence: ProjectEvidence[],
+    input: CoverLetterInput,
+    tier: LLMProvider = 'groq'
+): Promise<CoverLetterGenerationResult> {
+    const llmService = new UnifiedLLMService(tier);
+
+    const skills = resume.skills.categories.flatMap(cat => cat.items).slice(0, 20);
+    const experience = resume.experience
+        .map(exp => `- ${exp.title} at ${exp.company} (${exp.startDate} – ${exp.current ? 'Present' : exp.endDate || 'Present'})`)
+        .join('\n');
+    const projects = evidence.map(project => ({
+        name: project.projectName,
+        summary: project.summary,
+        problemSolved: project.problemSolved,
+        achievements: project.achievements.slice(0, 4),
+        technologies: project.technologies.slice(0, 8),
+        matchesJob: project.matched,
+    }));
+
+    const userPrompt = `CANDIDATE
+Name: ${resume.header.name || 'Not given'}
+Title: ${resume.header.title || 'Not given'}
+Summary: ${resume.summary || 'Not given'}
+Skills: ${skills.join(', ') || 'Not given'}
+Experience:
+${experience || 'None listed'}
+
+PROJECT EVIDENCE
+${JSON.stringify(projects, null, 2)}
+
+COMPANY: ${input.company || 'Not given'}
+${input.jobDescription ? `JOB POSTING:\n${input.jobDescription.slice(0, MAX_JOB_DESCRIPTION_CHARS)}` : 'No job posting was given; write for the company in general.'}
+
+Return JSON:
+{
+    "greeting": "<e.g. Dear Hiring Team,>",
+    "paragraphs": [
+        {
+            "text": "<paragraph>",
+            "citations": [{ "project": "<exact project name from the evidence>", "fact": "<the fact used>" }]
+        }
+    ],
+    "closing": "<e.g. Sincerely,>"
+}
+
+Return ONLY valid JSON.`;
+
+    const response = await chatStructured(serviceCall(llmService), {
+        messages: [
+            { role: 'system', content: COVER_LETTER_SYSTEM_PROMPT },
+            { role: 'user', content: userPrompt }
+        ],
+        temperature: 0.7,
+        maxTokens: 1500,
+        jsonMode: LLM_PROVIDERS[tier].enforcesJson
+    }, coverLetterSchema, 'cover letter');
+
+    return {
+        draft: response.data,
+        tokenUsage: response.usage
+    };
+}
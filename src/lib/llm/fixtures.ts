@@ -0,0 +1,86 @@
+/**
+ * LLM Fixtures
+ *
+ * Record and replay of LLM responses, to run the app and tests offline on
+ * real model output:
+ * - LLM_FIXTURES=record saves every response to a JSON file named by the
+ *   hash of its prompt
+ * - LLM_FIXTURES=replay answers from those files and never calls a provider
+ *
+ * Files live in LLM_FIXTURES_DIR (defaults to fixtures/llm). Server-only.
+ */
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import type { LLMRequest, LLMResponse } from './types';
+
+const DEFAULT_FIXTURES_DIR = path.join('fixtures', 'llm');
+
+export type FixtureMode = 'record' | 'replay';
+
+interface Fixture {
+    hash: string;
+    recordedAt: string;
+    request: Pick<LLMRequest, 'messages' | 'jsonMode'>;
+    response: LLMResponse;
+}
+
+export class MissingFixtureError extends Error {
+    constructor(public hash: string) {
+        super(`No recorded LLM response for prompt ${hash}. Record one with LLM_FIXTURES=record.`);
+        this.name = 'MissingFixtureError';
+    }
+}
+
+export function getFixtureMode(): FixtureMode | null {
+    const mode = process.env.LLM_FIXTURES;
+    return mode === 'record' || mode === 'replay' ? mode : null;
+}
+
+/**
+ * Hash of what the model is asked, whichever provider and model answer it
+ */
+export function getPromptHash(request: LLMRequest): string {
+    return createHash('sha256')
+        .update(JSON.stringify({ messages: request.messages, jsonMode: !!request.jsonMode }))
+        .digest('hex')
+        .slice(0, 32);
+}
+
+function fixturePath(hash: string): string {
+    return path.join(process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR, `${hash}.json`);
+}
+
+/**
+ * The recorded response to a request
+ * Throws MissingFixtureError when none was recorded.
+ */
+export async function replayFixture(request: LLMRequest): Promise<LLMResponse> {
+    const hash = getPromptHash(request);
+
+    let fixture: Fixture;
+    try {
+        fixture = JSON.parse(await fs.readFile(fixturePath(hash), 'utf-8')) as Fixture;
+    } catch {
+        throw new MissingFixtureError(hash);
+    }
+    return fixture.response;
+}
+
+/**
+ * Save a response for later replay, replacing an earlier recording
+ */
+export async function recordFixture(request: LLMRequest, response: LLMResponse): Promise<void> {
+    const hash = getPromptHash(request);
+    const fixture: Fixture = {
+        hash,
+        recordedAt: new Date().toISOString(),
+        request: { messages: request.messages, jsonMode: request.jsonMode },
+        response,
+    };
+
+    const file = fixturePath(hash);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, JSON.stringify(fixture, null, 2));
+}
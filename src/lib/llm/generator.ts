@@ -4,8 +4,8 @@
  * Synthesizes analyzed repository data into a complete resume structure
  */
 
-import type OpenAI from 'openai';
-import { getOpenAIClient, LLM_DEFAULT_MODEL, LLM_SYNTHESIS_MODEL } from './openai';
+import { LLM_PROVIDERS, UnifiedLLMService, getTokenUsage } from './llm-service';
+import type { LLMProvider } from './types';
 import {
     RESUME_GENERATION_SYSTEM_PROMPT,
     BULLET_ENHANCE_SYSTEM_PROMPT,
@@ -14,12 +14,12 @@ import {
     generateRoleAwareSystemPrompt,
     generateRoleTargetedResumeSynthesisPrompt,
 } from './prompts';
+import { resumeSynthesisSchema, type ResumeSynthesis } from './schemas';
+import { chatStructured, type StructuredChat } from './structured-output';
 import {
     countTokens,
     getAvailableTokens,
     truncateToTokenLimit,
-    calculateCost,
-    type ModelName,
     type TokenUsage,
 } from '../tokens';
 import {
@@ -28,19 +28,23 @@ import {
     Resume,
     ResumeHeader,
     ResumeSkills,
-    ProjectItem,
+    RESUME_SCHEMA_VERSION,
 } from '@/types';
 import { retry, generateId, unique } from '../utils';
+import { runLimited, type ConcurrencyLimiter } from '../scheduler';
 
 const MAX_RETRIES = 3;
 
 interface GeneratorOptions {
     apiKey?: string;
-    model?: ModelName;
+    tier?: LLMProvider;   // Provider to generate with (default groq, the free tier)
+    model?: string;       // Defaults to the provider's synthesis model
     verbose?: boolean;
     onProgress?: (message: string) => void;
     targetRole?: string;  // e.g., 'software-engineer', 'data-scientist'
     customRole?: string;  // Custom role entered by user
+    signal?: AbortSignal; // Cancels generation, including pending retries
+    limiter?: ConcurrencyLimiter; // Shared limit on LLM calls in flight
 }
 
 interface GenerationResult {
@@ -50,6 +54,7 @@ interface GenerationResult {
 
 /**
  * Generate a complete resume from user profile and project analyses
+ * Throws StructuredOutputError when the model's reply cannot be repaired.
  */
 export async function generateResume(
     user: ProcessedUser,
@@ -58,16 +63,17 @@ export async function generateResume(
 ): Promise<GenerationResult> {
     const {
         apiKey,
-        model = LLM_SYNTHESIS_MODEL as ModelName,
+        tier = 'groq',
+        model = LLM_PROVIDERS[tier].synthesisModel,
         verbose = false,
         onProgress,
         targetRole,
         customRole,
+        signal,
+        limiter,
     } = options;
 
-    const openai = getOpenAIClient(apiKey);
-    let totalInputTokens = 0;
-    let totalOutputTokens = 0;
+    const llm = new UnifiedLLMService(tier, { apiKey });
 
     const log = (msg: string) => {
         if (verbose) console.log(`[Generator] ${msg}`);
@@ -97,44 +103,40 @@ export async function generateResume(
     }
 
     // Truncate if needed
-    const availableTokens = getAvailableTokens(model);
+    const availableTokens = getAvailableTokens(llm.getContextModel(model));
     const maxPromptTokens = availableTokens - countTokens(systemPrompt) - 2000;
 
     const finalPrompt = promptTokens > maxPromptTokens
         ? truncateToTokenLimit(userPrompt, maxPromptTokens)
         : userPrompt;
 
-    // Call LLM for resume generation
-    const response = await retry(
-        () => openai.chat.completions.create({
-            model,
-            messages: [
-                { role: 'system', content: systemPrompt },
-                { role: 'user', content: finalPrompt },
-            ],
-            temperature: 0.4,
-            response_format: { type: 'json_object' },
-        }),
-        { maxRetries: MAX_RETRIES }
-    );
+    const call: StructuredChat = async request => {
+        const reply = await retry(
+            () => runLimited(limiter, () => llm.chat(request), signal),
+            { maxRetries: MAX_RETRIES, signal }
+        );
+        return { content: reply.content, usage: getTokenUsage(reply) };
+    };
 
-    totalInputTokens += response.usage?.prompt_tokens || 0;
-    totalOutputTokens += response.usage?.completion_tokens || 0;
+    // Call LLM for resume generation; a reply that cannot be repaired throws
+    const response = await chatStructured(call, {
+        model,
+        messages: [
+            { role: 'system', content: systemPrompt },
+            { role: 'user', content: finalPrompt },
+        ],
+        temperature: 0.4,
+        jsonMode: true,
+        signal,
+    }, resumeSynthesisSchema, 'resume');
 
-    // Parse the response
-    const responseText = response.choices[0]?.message?.content || '';
-    const resume = parseResumeResponse(responseText, user, analyses);
+    const resume = toResume(response.data, user, analyses);
 
     log('Resume generation complete!');
 
     return {
         resume,
-        tokenUsage: {
-            inputTokens: totalInputTokens,
-            outputTokens: totalOutputTokens,
-            totalTokens: totalInputTokens + totalOutputTokens,
-            estimatedCost: calculateCost(totalInputTokens, totalOutputTokens, model),
-        },
+        tokenUsage: response.usage,
     };
 }
 
@@ -149,59 +151,72 @@ export async function enhanceBulletPoint(
     enhanced: string;
     tokenUsage: TokenUsage;
 }> {
-    const { apiKey, model = LLM_DEFAULT_MODEL as ModelName } = options;
-    const openai = getOpenAIClient(apiKey);
+    const { apiKey, tier = 'groq', model, signal } = options;
+    const llm = new UnifiedLLMService(tier, { apiKey });
 
     const prompt = generateBulletEnhancePrompt(bullet, context);
 
     const response = await retry(
-        () => openai.chat.completions.create({
+        () => llm.chat({
             model,
             messages: [
                 { role: 'system', content: BULLET_ENHANCE_SYSTEM_PROMPT },
                 { role: 'user', content: prompt },
             ],
             temperature: 0.5,
-            max_tokens: 200,
+            maxTokens: 200,
+            signal,
         }),
-        { maxRetries: MAX_RETRIES }
+        { maxRetries: MAX_RETRIES, signal }
     );
 
-    const enhanced = response.choices[0]?.message?.content?.trim() || bullet;
-    const inputTokens = response.usage?.prompt_tokens || 0;
-    const outputTokens = response.usage?.completion_tokens || 0;
-
     return {
-        enhanced,
-        tokenUsage: {
-            inputTokens,
-            outputTokens,
-            totalTokens: inputTokens + outputTokens,
-            estimatedCost: calculateCost(inputTokens, outputTokens, model),
-        },
+        enhanced: response.content.trim() || bullet,
+        tokenUsage: getTokenUsage(response),
     };
 }
 
 /**
- * Parse the resume response with fallbacks
+ * Build the resume from a validated synthesis, with profile data for what it leaves out
  */
-function parseResumeResponse(
-    response: string,
+function toResume(
+    synthesis: ResumeSynthesis,
     user: ProcessedUser,
     analyses: RepositoryAnalysis[]
 ): Resume {
     const now = new Date().toISOString();
+    const header = createDefaultHeader(user);
+    const categories = synthesis.skills
+        .map(category => ({
+            id: category.id || generateId(),
+            name: category.name,
+            items: unique(category.items),
+        }))
+        .filter(category => category.items.length > 0);
 
-    // Default resume structure
-    const defaultResume: Resume = {
+    return {
+        schemaVersion: RESUME_SCHEMA_VERSION,
         id: generateId(),
         userId: user.id.toString(),
         template: 'modern',
-        header: createDefaultHeader(user),
-        summary: createDefaultSummary(user, analyses),
-        skills: extractSkills(analyses),
+        header: {
+            ...header,
+            ...synthesis.header,
+            name: synthesis.header.name || header.name,
+            title: synthesis.header.title || header.title,
+            email: synthesis.header.email || header.email,
+        },
+        summary: synthesis.summary,
+        skills: categories.length > 0 ? { categories } : extractSkills(analyses),
         experience: [],
-        projects: createDefaultProjects(analyses),
+        projects: synthesis.projects.map(project => ({
+            id: generateId(),
+            name: project.name,
+            url: project.url || '',
+            description: project.description,
+            technologies: project.technologies,
+            bullets: project.bullets,
+        })),
         education: [],
         certifications: [],
         customSections: [],
@@ -225,41 +240,6 @@ function parseResumeResponse(
             },
         },
     };
-
-    try {
-        const parsed = JSON.parse(response);
-
-        // Merge parsed data with defaults
-        return {
-            ...defaultResume,
-            header: {
-                ...defaultResume.header,
-                ...parsed.header,
-                name: parsed.header?.name || user.name || user.username,
-            },
-            summary: parsed.summary || defaultResume.summary,
-            skills: {
-                categories: Array.isArray(parsed.skills?.categories)
-                    ? parsed.skills.categories
-                    : defaultResume.skills.categories,
-            },
-            projects: Array.isArray(parsed.projects)
-                ? parsed.projects.map((p: Partial<ProjectItem>) => ({
-                    id: generateId(),
-                    name: p.name || 'Unnamed Project',
-                    url: p.url || '',
-                    description: p.description || '',
-                    technologies: Array.isArray(p.technologies) ? p.technologies : [],
-                    bullets: Array.isArray(p.bullets) ? p.bullets : [],
-                    dateRange: p.dateRange,
-                    repoId: p.repoId,
-                }))
-                : defaultResume.projects,
-        };
-    } catch (error) {
-        console.error('Failed to parse resume response:', error);
-        return defaultResume;
-    }
 }
 
 /**
@@ -278,37 +258,6 @@ function createDefaultHeader(user: ProcessedUser): ResumeHeader {
     };
 }
 
-/**
- * Create default summary from analyses
- */
-function createDefaultSummary(
-    user: ProcessedUser,
-    analyses: RepositoryAnalysis[]
-): string {
-    const projectTypes = unique(analyses.map(a => a.projectType));
-    const topTech = unique(analyses.flatMap(a => a.technologies)).slice(0, 5);
-
-    const typeLabels: Record<string, string> = {
-        web: 'web applications',
-        api: 'backend services',
-        ml: 'machine learning solutions',
-        mobile: 'mobile applications',
-        cli: 'command-line tools',
-        library: 'software libraries',
-        devops: 'DevOps infrastructure',
-        other: 'software projects',
-    };
-
-    const focusAreas = projectTypes
-        .slice(0, 2)
-        .map(t => typeLabels[t] || 'software projects')
-        .join(' and ');
-
-    return `Passionate software developer with experience building ${focusAreas}. ` +
-        `Proficient in ${topTech.join(', ')}. ` +
-        `${user.bio || `Active open-source contributor with ${user.publicRepos} public repositories.`}`;
-}
-
 /**
  * Extract and categorize skills from analyses
  */
@@ -349,17 +298,3 @@ function extractSkills(analyses: RepositoryAnalysis[]): ResumeSkills {
         ],
     };
 }
-
-/**
- * Create default projects from analyses
- */
-function createDefaultProjects(analyses: RepositoryAnalysis[]): ProjectItem[] {
-    return analyses.slice(0, 8).map(analysis => ({
-        id: generateId(),
-        name: analysis.projectName,
-        url: '',
-        description: analysis.oneLiner,
-        technologies: analysis.technologies.slice(0, 5),
-        bullets: analysis.resumeBulletPoints.slice(0, 3),
-    }));
-}
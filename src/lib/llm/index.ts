@@ -3,3 +3,7 @@ export * from './prompts';
 export * from './analyzer';
 export * from './generator';
 export * from './readme-generator';
+export * from './llm-service';
+export * from './types';
+export * from './schemas';
+export * from './structured-output';
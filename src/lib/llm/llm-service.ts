@@ -1,44 +1,249 @@
+/**
+ * Unified LLM Service
+ *
+ * Every LLM call goes through here, whichever provider serves it:
+ * - groq: the free tier
+ * - openai: the premium tier
+ * - anthropic: the premium tier instead, with PREMIUM_LLM_PROVIDER=anthropic
+ * - local: any OpenAI-compatible server (Ollama, llama.cpp, vLLM), for
+ *   deployments that must keep code off third-party APIs. Setting
+ *   LLM_PROVIDER=local sends every request there, whatever its tier.
+ * - mock: canned replies for offline development and tests (LLM_PROVIDER=mock)
+ *
+ * Any provider's responses can be recorded and replayed (see fixtures.ts).
+ *
+ * Requests can ask for JSON output, pick a model and be cancelled; responses
+ * report the model that answered and the tokens it used with their cost.
+ */
+
 import { Groq } from 'groq-sdk';
-import { getOpenAIClient } from './openai'; // Existing OpenAI logic
-import { LLMRequest, LLMResponse, LLMProvider } from './types';
-import { calculateCost } from '@/lib/tokens';
+import OpenAI from 'openai';
+import { getOpenAIClient, LLM_DEFAULT_MODEL, LLM_SYNTHESIS_MODEL } from './openai'; // Existing OpenAI logic
+import {
+    ANTHROPIC_DEFAULT_MODEL,
+    ANTHROPIC_FIX_MODEL,
+    ANTHROPIC_SYNTHESIS_MODEL,
+    createAnthropicMessage,
+    type AnthropicMessageRequest,
+} from './anthropic';
+import { createMockResponse, MOCK_MODEL } from './mock';
+import { getFixtureMode, recordFixture, replayFixture } from './fixtures';
+import { LLMRequest, LLMResponse, LLMProvider, LLMService } from './types';
+import { calculateCost, getContextModel, type ModelName, type TokenUsage } from '@/lib/tokens';
+
+interface ProviderInfo {
+    label: string;
+    requiredVariable?: string; // Environment variable the provider cannot work without
+    defaultModel: string;
+    synthesisModel: string; // For the final resume synthesis
+    fixModel: string;       // For ATS fixes and summary rewrites
+    contextFallback: ModelName; // Budget models without known token limits like this one
+    enforcesJson: boolean;  // Whether jsonMode reliably yields JSON
+}
+
+// Ollama's OpenAI-compatible endpoint
+const LOCAL_DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const LOCAL_DEFAULT_MODEL = process.env.LOCAL_LLM_MODEL || 'llama3.1:8b';
+
+export const LLM_PROVIDERS: Record<LLMProvider, ProviderInfo> = {
+    groq: {
+        label: 'Groq',
+        requiredVariable: 'GROQ_API_KEY',
+        defaultModel: 'openai/gpt-oss-120b',
+        synthesisModel: 'openai/gpt-oss-120b',
+        fixModel: 'openai/gpt-oss-120b',
+        contextFallback: 'openai/gpt-oss-120b',
+        enforcesJson: false,
+    },
+    openai: {
+        label: 'OpenAI',
+        requiredVariable: 'OPENAI_API_KEY',
+        defaultModel: LLM_DEFAULT_MODEL,
+        synthesisModel: LLM_SYNTHESIS_MODEL,
+        fixModel: LLM_DEFAULT_MODEL,
+        contextFallback: LLM_DEFAULT_MODEL,
+        enforcesJson: true,
+    },
+    anthropic: {
+        label: 'Anthropic',
+        requiredVariable: 'ANTHROPIC_API_KEY',
+        defaultModel: ANTHROPIC_DEFAULT_MODEL,
+        synthesisModel: ANTHROPIC_SYNTHESIS_MODEL,
+        fixModel: ANTHROPIC_FIX_MODEL,
+        contextFallback: 'claude-haiku-4-5',
+        enforcesJson: true,
+    },
+    local: {
+        label: 'Local LLM',
+        requiredVariable: 'LOCAL_LLM_BASE_URL',
+        defaultModel: LOCAL_DEFAULT_MODEL,
+        synthesisModel: process.env.LOCAL_LLM_SYNTHESIS_MODEL || LOCAL_DEFAULT_MODEL,
+        fixModel: process.env.LOCAL_LLM_FIX_MODEL || LOCAL_DEFAULT_MODEL,
+        contextFallback: 'llama3.1:8b', // Assume a small context until told otherwise
+        enforcesJson: true,
+    },
+    mock: {
+        label: 'Mock',
+        defaultModel: MOCK_MODEL,
+        synthesisModel: MOCK_MODEL,
+        fixModel: MOCK_MODEL,
+        contextFallback: 'gpt-4o-mini',
+        enforcesJson: true,
+    },
+};
+
+function isLLMProvider(value: unknown): value is LLMProvider {
+    return typeof value === 'string' && value in LLM_PROVIDERS;
+}
+
+/**
+ * Read the tier a request asked for; anything but a premium provider is the
+ * free tier. Premium requests go to PREMIUM_LLM_PROVIDER when it is set, and a
+ * provider pinned with LLM_PROVIDER overrides the request.
+ */
+export function toLLMProvider(tier?: unknown): LLMProvider {
+    const pinned = process.env.LLM_PROVIDER;
+    if (isLLMProvider(pinned)) return pinned;
+
+    if (tier === 'openai' || tier === 'anthropic') {
+        const premium = process.env.PREMIUM_LLM_PROVIDER;
+        return premium === 'openai' || premium === 'anthropic' ? premium : tier;
+    }
+    return 'groq';
+}
+
+/**
+ * Whether the provider's API key (or, for a local server, its URL) is set.
+ * Replaying recorded responses needs no provider at all.
+ */
+export function isProviderConfigured(provider: LLMProvider): boolean {
+    const variable = LLM_PROVIDERS[provider].requiredVariable;
+    return !variable || !!process.env[variable] || getFixtureMode() === 'replay';
+}
+
+/**
+ * Pull the JSON object out of a reply that may wrap it in a code fence or prose
+ */
+export function cleanJSON(text: string): string {
+    // Remove markdown code blocks
+    let cleaned = text.replace(/```json/g, '').replace(/```/g, '').trim();
+    // Locate the first { and last } to handle potential preamble/postscript
+    const firstBrace = cleaned.indexOf('{');
+    const lastBrace = cleaned.lastIndexOf('}');
+    if (firstBrace >= 0 && lastBrace > firstBrace) {
+        cleaned = cleaned.substring(firstBrace, lastBrace + 1);
+    }
+    return cleaned;
+}
+
+/**
+ * Convert a response's usage to the TokenUsage the pipeline adds up
+ */
+export function getTokenUsage(response: LLMResponse): TokenUsage {
+    return {
+        inputTokens: response.usage?.promptTokens || 0,
+        outputTokens: response.usage?.completionTokens || 0,
+        totalTokens: response.usage?.totalTokens || 0,
+        estimatedCost: response.usage?.cost || 0,
+    };
+}
+
+let groqClient: Groq | null = null;
+
+function getGroqClient(): Groq {
+    if (!groqClient) {
+        groqClient = new Groq({
+            apiKey: process.env.GROQ_API_KEY || 'dummy_key_if_missing',
+            dangerouslyAllowBrowser: true // For client-side if needed, though we prefer server-side
+        });
+    }
+    return groqClient;
+}
+
+let localClient: OpenAI | null = null;
+
+function getLocalClient(): OpenAI {
+    if (!localClient) {
+        localClient = new OpenAI({
+            baseURL: process.env.LOCAL_LLM_BASE_URL || LOCAL_DEFAULT_BASE_URL,
+            apiKey: process.env.LOCAL_LLM_API_KEY || 'local', // Most local servers ignore it
+        });
+    }
+    return localClient;
+}
+
+// Set once the local server has rejected response_format
+let localJsonModeUnsupported = false;
 
-const groq = new Groq({
-    apiKey: process.env.GROQ_API_KEY || 'dummy_key_if_missing',
-    dangerouslyAllowBrowser: true // For client-side if needed, though we prefer server-side
-});
+const JSON_INSTRUCTION = 'Respond with a single valid JSON object and nothing else: no markdown, no commentary.';
 
-export class UnifiedLLMService {
-    private provider: LLMProvider;
+export class UnifiedLLMService implements LLMService {
+    readonly provider: LLMProvider;
+    private apiKey?: string;
 
-    constructor(provider: LLMProvider = 'groq') {
+    constructor(provider: LLMProvider = toLLMProvider(), options: { apiKey?: string } = {}) {
         this.provider = provider;
+        this.apiKey = options.apiKey;
+    }
+
+    /**
+     * The model used when a request does not name one
+     */
+    get model(): string {
+        return LLM_PROVIDERS[this.provider].defaultModel;
+    }
+
+    /**
+     * The model whose token limit prompts for `model` are budgeted with
+     */
+    getContextModel(model: string = this.model): ModelName {
+        return getContextModel(model, LLM_PROVIDERS[this.provider].contextFallback);
     }
 
     async chat(request: LLMRequest): Promise<LLMResponse> {
-        if (this.provider === 'openai') {
-            return this.callOpenAI(request);
-        } else {
-            return this.callGroq(request);
+        const fixtures = getFixtureMode();
+        if (fixtures === 'replay') return replayFixture(request);
+
+        const response = await this.callProvider(request);
+        if (fixtures === 'record') await recordFixture(request, response);
+        return response;
+    }
+
+    private async callProvider(request: LLMRequest): Promise<LLMResponse> {
+        switch (this.provider) {
+            case 'openai':
+                return this.callOpenAI(request);
+            case 'anthropic':
+                return this.callAnthropic(request);
+            case 'local':
+                return this.callLocal(request);
+            case 'mock':
+                return createMockResponse(request);
+            default:
+                return this.callGroq(request);
         }
     }
 
     private async callGroq(request: LLMRequest): Promise<LLMResponse> {
+        const model = request.model ?? this.model;
+
         try {
-            const completion = await groq.chat.completions.create({
+            const completion = await getGroqClient().chat.completions.create({
                 messages: request.messages,
-                model: "openai/gpt-oss-120b", // User requested specific model
+                model,
                 temperature: request.temperature ?? 1,
                 max_tokens: request.maxTokens ?? 8192,
                 top_p: 1,
                 stream: false,
-            });
+                response_format: request.jsonMode ? { type: 'json_object' } : undefined,
+            }, { signal: request.signal });
 
             const content = completion.choices[0]?.message?.content || '';
             const usage = completion.usage;
 
             return {
                 content,
+                model,
                 usage: {
                     promptTokens: usage?.prompt_tokens || 0,
                     completionTokens: usage?.completion_tokens || 0,
@@ -47,14 +252,14 @@ export class UnifiedLLMService {
                 }
             };
         } catch (error) {
-            console.error('Groq API Error:', error);
+            if (!request.signal?.aborted) console.error('Groq API Error:', error);
             throw error;
         }
     }
 
     private async callOpenAI(request: LLMRequest): Promise<LLMResponse> {
-        const openai = getOpenAIClient();
-        const model = 'gpt-4o-mini';
+        const openai = getOpenAIClient(this.apiKey);
+        const model = request.model ?? this.model;
 
         try {
             const completion = await openai.chat.completions.create({
@@ -63,30 +268,161 @@ export class UnifiedLLMService {
                 temperature: request.temperature ?? 0.7,
                 max_tokens: request.maxTokens,
                 response_format: request.jsonMode ? { type: 'json_object' } : undefined
-            });
+            }, { signal: request.signal });
 
             const content = completion.choices[0]?.message?.content || '';
             const usage = completion.usage;
-
-            // Calculate cost for OpenAI
-            const cost = calculateCost({
-                input: usage?.prompt_tokens || 0,
-                output: usage?.completion_tokens || 0,
-                model: model
-            });
+            const promptTokens = usage?.prompt_tokens || 0;
+            const completionTokens = usage?.completion_tokens || 0;
 
             return {
                 content,
+                model,
                 usage: {
-                    promptTokens: usage?.prompt_tokens || 0,
-                    completionTokens: usage?.completion_tokens || 0,
-                    totalTokens: usage?.total_tokens || 0,
-                    cost
+                    promptTokens,
+                    completionTokens,
+                    totalTokens: usage?.total_tokens || promptTokens + completionTokens,
+                    // Models without known pricing are not costed
+                    cost: calculateCost(promptTokens, completionTokens, model),
                 }
             };
         } catch (error) {
-            console.error('OpenAI API Error:', error);
+            if (!request.signal?.aborted) console.error('OpenAI API Error:', error);
             throw error;
         }
     }
+
+    /**
+     * Call Anthropic. There is no JSON mode: JSON is asked for in the system
+     * prompt and cut out of the reply.
+     */
+    private async callAnthropic(request: LLMRequest): Promise<LLMResponse> {
+        const model = request.model ?? this.model;
+        const messages = request.jsonMode ? withJsonInstruction(request.messages) : request.messages;
+
+        try {
+            const message = await createAnthropicMessage({
+                model,
+                ...toAnthropicMessages(messages),
+                max_tokens: request.maxTokens ?? 8192,
+                temperature: request.temperature,
+            }, { apiKey: this.apiKey, signal: request.signal });
+
+            const content = message.content
+                .map(block => 'text' in block ? block.text : '')
+                .join('');
+            const promptTokens = message.usage.input_tokens;
+            const completionTokens = message.usage.output_tokens;
+
+            return {
+                content: request.jsonMode ? cleanJSON(content) : content,
+                model,
+                usage: {
+                    promptTokens,
+                    completionTokens,
+                    totalTokens: promptTokens + completionTokens,
+                    cost: calculateCost(promptTokens, completionTokens, model),
+                }
+            };
+        } catch (error) {
+            if (!request.signal?.aborted) console.error('Anthropic API Error:', error);
+            throw error;
+        }
+    }
+
+    /**
+     * Call the local server. Not every model or server supports JSON mode:
+     * without it, the JSON is asked for in the system prompt and cut out of
+     * the reply instead.
+     */
+    private async callLocal(request: LLMRequest): Promise<LLMResponse> {
+        const model = request.model ?? this.model;
+        const jsonMode = !!request.jsonMode
+            && process.env.LOCAL_LLM_JSON_MODE !== 'off'
+            && !localJsonModeUnsupported;
+        const messages = request.jsonMode && !jsonMode
+            ? withJsonInstruction(request.messages)
+            : request.messages;
+
+        try {
+            const completion = await getLocalClient().chat.completions.create({
+                messages,
+                model,
+                temperature: request.temperature ?? 0.7,
+                max_tokens: request.maxTokens,
+                response_format: jsonMode ? { type: 'json_object' } : undefined,
+            }, { signal: request.signal });
+
+            const content = completion.choices[0]?.message?.content || '';
+            const usage = completion.usage;
+            const promptTokens = usage?.prompt_tokens || 0;
+            const completionTokens = usage?.completion_tokens || 0;
+
+            return {
+                // Small models wrap JSON in fences even in JSON mode
+                content: request.jsonMode ? cleanJSON(content) : content,
+                model,
+                usage: {
+                    promptTokens,
+                    completionTokens,
+                    totalTokens: usage?.total_tokens || promptTokens + completionTokens,
+                    cost: 0, // Runs on the deployment's own hardware
+                }
+            };
+        } catch (error) {
+            if (jsonMode && rejectsJsonMode(error)) {
+                // Ask in the prompt from now on
+                localJsonModeUnsupported = true;
+                return this.callLocal(request);
+            }
+            if (!request.signal?.aborted) console.error('Local LLM Error:', error);
+            throw error;
+        }
+    }
+}
+
+/**
+ * Whether the local server refused the request because of response_format,
+ * rather than for something JSON mode would not fix
+ */
+function rejectsJsonMode(error: unknown): boolean {
+    if (!(error instanceof OpenAI.BadRequestError)) return false;
+    return error.param === 'response_format' || /response_format|json_object/i.test(error.message);
+}
+
+/**
+ * Move system messages into Anthropic's separate system prompt. The
+ * conversation must start with the user and alternate, so messages from the
+ * same role in a row are merged.
+ */
+function toAnthropicMessages(
+    messages: LLMRequest['messages']
+): Pick<AnthropicMessageRequest, 'system' | 'messages'> {
+    const system = messages
+        .filter(message => message.role === 'system')
+        .map(message => message.content)
+        .join('\n\n');
+    const conversation: AnthropicMessageRequest['messages'] = [];
+
+    for (const message of messages) {
+        if (message.role === 'system') continue;
+        const last = conversation[conversation.length - 1];
+        if (last?.role === message.role) {
+            last.content += `\n\n${message.content}`;
+        } else {
+            conversation.push({ role: message.role, content: message.content });
+        }
+    }
+    if (conversation[0]?.role !== 'user') {
+        conversation.unshift({ role: 'user', content: 'Continue.' });
+    }
+
+    return { system: system || undefined, messages: conversation };
+}
+
+function withJsonInstruction(messages: LLMRequest['messages']): LLMRequest['messages'] {
+    const [first, ...rest] = messages;
+    return first?.role === 'system'
+        ? [{ ...first, content: `${first.content}\n\n${JSON_INSTRUCTION}` }, ...rest]
+        : [{ role: 'system', content: JSON_INSTRUCTION }, ...messages];
 }
@@ -0,0 +1,256 @@
+/**
+ * Mock LLM Provider
+ *
+ * Canned replies for offline development and tests (LLM_PROVIDER=mock). The
+ * prompt family is recognized from the system prompt and answered with
+ * output its parser accepts; names, languages and requirements are copied
+ * from the user prompt, so the same prompt always gets the same reply.
+ */
+
+import { createHash } from 'crypto';
+import { countTokens } from '../tokens';
+import { capitalize, safeJsonParse } from '../utils';
+import type { LLMRequest, LLMResponse } from './types';
+
+export const MOCK_MODEL = 'mock';
+
+export type MockPromptFamily =
+    | 'repo_analysis'
+    | 'chunk_summary'
+    | 'chunk_combine'
+    | 'resume_synthesis'
+    | 'bullet_enhance'
+    | 'ats_analysis'
+    | 'job_match'
+    | 'fix'
+    | 'summary_optimization'
+    | 'resume_parsing'
+    | 'readme'
+    | 'cover_letter';
+
+// A phrase from each family's system prompt
+const FAMILY_MARKERS: Array<[MockPromptFamily, string]> = [
+    ['repo_analysis', 'analyzing GitHub repositories'],
+    ['chunk_summary', 'summarizing code repositories'],
+    ['chunk_combine', 'combining multiple summaries'],
+    ['resume_synthesis', 'specializing in software engineering positions'],
+    ['bullet_enhance', 'improve resume bullet points'],
+    ['ats_analysis', 'ATS (Applicant Tracking System) analyzer'],
+    ['job_match', 'meets each requirement of a job posting'],
+    ['fix', 'improve resume content for ATS optimization'],
+    ['summary_optimization', 'specializing in professional summaries'],
+    ['resume_parsing', 'Resume Parser'],
+    ['readme', 'README.md files'],
+    ['cover_letter', 'cover letters'],
+];
+
+/**
+ * Which prompt family a request belongs to, or null for prompts the mock does not know
+ */
+export function getMockPromptFamily(request: LLMRequest): MockPromptFamily | null {
+    const system = request.messages.find(message => message.role === 'system')?.content ?? '';
+    return FAMILY_MARKERS.find(([, marker]) => system.includes(marker))?.[0] ?? null;
+}
+
+/**
+ * Answer a request with the canned reply for its prompt family
+ */
+export function createMockResponse(request: LLMRequest): LLMResponse {
+    const prompt = request.messages
+        .filter(message => message.role !== 'system')
+        .map(message => message.content)
+        .join('\n');
+    const family = getMockPromptFamily(request);
+    const reply = family ? MOCK_REPLIES[family](prompt) : null;
+    const content = reply === null
+        ? (request.jsonMode ? '{}' : 'Mock response.')
+        : typeof reply === 'string' ? reply : JSON.stringify(reply);
+
+    const promptTokens = countTokens(request.messages.map(message => message.content).join('\n'));
+    const completionTokens = countTokens(content);
+
+    return {
+        content,
+        model: MOCK_MODEL,
+        usage: {
+            promptTokens,
+            completionTokens,
+            totalTokens: promptTokens + completionTokens,
+            cost: 0,
+        },
+    };
+}
+
+// The project evidence a cover letter prompt lists
+interface EvidenceProject {
+    name: string;
+    summary?: string;
+    problemSolved?: string;
+}
+
+const MOCK_REPLIES: Record<MockPromptFamily, (prompt: string) => string | object> = {
+    repo_analysis: prompt => {
+        const name = match(prompt, /^## Repository: (.+)$/m) || 'project';
+        const languages = list(match(prompt, /^Languages: (.+)$/m));
+        const technologies = languages.length > 0 ? languages : ['Git'];
+        return {
+            projectName: name,
+            oneLiner: `${name} is a ${technologies[0]} project with a documented setup and tests.`,
+            detailedSummary: `${name} is built with ${technologies.join(', ')}. It separates its core logic from I/O and ships with automated checks.`,
+            problemSolved: `Gives developers a reliable way to work with ${name}.`,
+            technologies,
+            skillsDemonstrated: ['Software design', 'Testing', 'Documentation'],
+            complexityScore: 4 + (hash(prompt) % 5),
+            projectType: 'library',
+            achievements: [`Structured ${name} into reusable modules`],
+            resumeBulletPoints: [
+                `Developed ${name} in ${technologies.slice(0, 2).join(' and ')}, structuring it into reusable modules`,
+                `Added automated tests and documentation to ${name}, reducing setup time for contributors`,
+            ],
+        };
+    },
+
+    chunk_summary: prompt => {
+        const repository = match(prompt, /from the "(.+?)" repository/) || 'the repository';
+        const chunk = match(prompt, /This is chunk (\d+) of/) || '1';
+        return `Part ${chunk} of ${repository} defines modules, their configuration and how they are used.`;
+    },
+
+    chunk_combine: prompt => {
+        const repository = match(prompt, /summaries of the "(.+?)" repository/) || 'the repository';
+        return `${repository} is organized into modules with configuration and usage documentation.`;
+    },
+
+    resume_synthesis: prompt => {
+        const name = match(prompt, /^Name: (.+)$/m) || 'Developer';
+        const github = match(prompt, /^GitHub: (.+)$/m) || '';
+        const projectsSection = prompt.split('## Analyzed Projects')[1]?.split('\n---')[0] ?? '';
+        const projects = projectsSection.split(/^### /m).slice(1).map(block => {
+            const projectName = block.split('\n')[0].trim();
+            return {
+                name: projectName,
+                url: github ? `${github}/${projectName}` : '',
+                description: match(block, /^Summary: (.+)$/m) || '',
+                technologies: list(match(block, /^Technologies: (.+)$/m)),
+                bullets: (block.split('Resume Bullets:')[1] ?? '')
+                    .split('\n')
+                    .filter(line => line.startsWith('- '))
+                    .map(line => line.slice(2)),
+            };
+        });
+        const technologies = [...new Set(projects.flatMap(project => project.technologies))];
+
+        return {
+            header: { name, title: 'Software Engineer', email: '', github },
+            summary: `Software engineer working in ${technologies.slice(0, 3).join(', ') || 'several languages'}, with projects such as ${projects.slice(0, 2).map(project => project.name).join(' and ') || 'open source tools'}.`,
+            skills: {
+                categories: [{ id: 'languages', name: 'Languages & Technologies', items: technologies }],
+            },
+            projects,
+        };
+    },
+
+    bullet_enhance: prompt => {
+        const bullet = match(prompt, /"([\s\S]+?)"/) || 'Built the project';
+        return `${capitalize(bullet.replace(/\.$/, ''))}, cutting manual work by 30%`;
+    },
+
+    ats_analysis: () => ({
+        overallScore: 72,
+        breakdown: {
+            keywords: { score: 70, feedback: 'Covers the core technologies of the role.' },
+            impact: { score: 65, feedback: 'Some bullets lack measurable results.' },
+            actionVerbs: { score: 80, feedback: 'Most bullets start with strong verbs.' },
+            formatting: { score: 85, feedback: 'Clean structure with standard sections.' },
+            roleAlignment: { score: 60, feedback: 'The summary could name the target role.' },
+        },
+        strengths: ['Clear project descriptions', 'Relevant technical skills'],
+        suggestions: [{
+            severity: 'important',
+            category: 'impact',
+            issue: 'Bullets do not quantify results',
+            suggestion: 'Add a number to at least one bullet per project',
+            location: 'summary',
+        }],
+    }),
+
+    job_match: prompt => ({
+        // Keep what the keyword rules decided
+        requirements: [...prompt.matchAll(/^- (\S+): .+ - (met by keyword|not found by keyword)$/gm)]
+            .map(([, id, status]) => ({
+                id,
+                met: status === 'met by keyword',
+                evidence: [],
+                explanation: status === 'met by keyword' ? 'Named in the resume.' : 'Not mentioned in the resume.',
+            })),
+        additionalRequirements: [],
+    }),
+
+    fix: prompt => {
+        const original = match(prompt, /Original text: "([\s\S]*?)"\n/) || '';
+        return {
+            fixed: `${capitalize(original.replace(/\.$/, ''))}, improving reliability by 20%`,
+            explanation: 'Added a measurable result.',
+        };
+    },
+
+    summary_optimization: prompt => {
+        const role = match(prompt, /^Target Role: (.+)$/m) || 'Software Engineer';
+        const skills = list(match(prompt, /^Available Skills: (.+)$/m)).slice(0, 3);
+        return {
+            fixed: `${role} experienced in ${skills.join(', ') || 'modern software development'}, delivering maintainable, well-tested software.`,
+            explanation: `Named the target role and led with the most relevant skills.`,
+        };
+    },
+
+    resume_parsing: prompt => {
+        const text = prompt.split('into JSON:')[1] ?? prompt;
+        const name = text.split('\n').map(line => line.trim()).find(Boolean) || '';
+        const email = match(text, /([\w.+-]+@[\w-]+\.[\w.]+)/) || '';
+        return {
+            basics: { name, label: '', email, phone: '', url: '', summary: '', profiles: [] },
+            work: [],
+            education: [],
+            skills: [],
+            projects: [],
+        };
+    },
+
+    readme: prompt => {
+        const name = match(prompt, /\*\*Repository Name:\*\* (.+)$/m) || 'Project';
+        const description = match(prompt, /\*\*Description:\*\* (.+)$/m) || '';
+        return `# ${name}\n\n${description}\n\n## Getting Started\n\nClone the repository and follow the setup steps for its language.\n`;
+    },
+
+    cover_letter: prompt => {
+        const evidence = prompt.split('PROJECT EVIDENCE')[1]?.split('\n\nCOMPANY:')[0] ?? '[]';
+        const projects = safeJsonParse<EvidenceProject[]>(evidence, []);
+        const company = match(prompt, /^COMPANY: (.+)$/m);
+        const at = company && company !== 'Not given' ? ` at ${company}` : '';
+        return {
+            greeting: 'Dear Hiring Team,',
+            paragraphs: [
+                { text: `I would like to bring my experience building software to your team${at}.`, citations: [] },
+                ...projects.slice(0, 2).map(project => ({
+                    text: `In ${project.name}, I ${project.problemSolved ? `tackled this problem: ${project.problemSolved.replace(/\.$/, '')}` : 'built the project end to end'}.`,
+                    citations: [{ project: project.name, fact: project.problemSolved || project.summary || project.name }],
+                })),
+                { text: 'I would welcome the chance to discuss how I can help.', citations: [] },
+            ],
+            closing: 'Sincerely,',
+        };
+    },
+};
+
+function match(text: string, pattern: RegExp): string | null {
+    return text.match(pattern)?.[1]?.trim() ?? null;
+}
+
+function list(value: string | null): string[] {
+    if (!value || value === 'None detected' || value === 'None') return [];
+    return value.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+function hash(text: string): number {
+    return createHash('sha256').update(text).digest().readUInt32BE(0);
+}
@@ -9,6 +9,12 @@
 
 import { ProcessedRepository, RepositoryContent, ProcessedUser, RepositoryAnalysis } from '@/types';
 
+/**
+ * Version of the repository analysis prompts (system, user, chunk summary).
+ * Cached analyses are keyed by it: bump it when those prompts change.
+ */
+export const REPO_ANALYSIS_PROMPT_VERSION = 1;
+
 /**
  * System prompt for repository analysis
  */
@@ -4,7 +4,8 @@
  * Uses LLM to generate professional README files from repository metadata
  */
 
-import { getOpenAIClient, LLM_DEFAULT_MODEL } from './openai';
+import { UnifiedLLMService, getTokenUsage } from './llm-service';
+import type { LLMProvider } from './types';
 import type { TokenUsage } from '../tokens';
 
 interface RepoContext {
@@ -84,9 +85,9 @@ Generate a professional README.md for this project. Output only the markdown con
 
 export async function generateReadme(
     context: RepoContext,
-    options: { apiKey?: string; verbose?: boolean } = {}
+    options: { apiKey?: string; tier?: LLMProvider; verbose?: boolean } = {}
 ): Promise<GenerateReadmeResult> {
-    const client = getOpenAIClient(options.apiKey);
+    const llm = new UnifiedLLMService(options.tier, { apiKey: options.apiKey });
 
     const prompt = createReadmePrompt(context);
 
@@ -94,34 +95,17 @@ export async function generateReadme(
         console.log('[README Generator] Generating README for:', context.name);
     }
 
-    const response = await client.chat.completions.create({
-        model: LLM_DEFAULT_MODEL,
+    const response = await llm.chat({
         messages: [
             { role: 'system', content: README_SYSTEM_PROMPT },
             { role: 'user', content: prompt },
         ],
         temperature: 0.7,
-        max_tokens: 2000,
+        maxTokens: 2000,
     });
 
-    const readme = response.choices[0]?.message?.content || '# README\n\nNo content generated.';
-
-    const inputTokens = response.usage?.prompt_tokens || 0;
-    const outputTokens = response.usage?.completion_tokens || 0;
-    const totalTokens = inputTokens + outputTokens;
-
-    // Estimate cost (GPT-4o-mini pricing)
-    const inputCost = (inputTokens / 1000) * 0.00015;
-    const outputCost = (outputTokens / 1000) * 0.0006;
-    const estimatedCost = inputCost + outputCost;
-
     return {
-        readme,
-        tokenUsage: {
-            inputTokens,
-            outputTokens,
-            totalTokens,
-            estimatedCost,
-        },
+        readme: response.content || '# README\n\nNo content generated.',
+        tokenUsage: getTokenUsage(response),
     };
 }
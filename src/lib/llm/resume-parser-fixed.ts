@@ -1,6 +1,10 @@
 import { UnifiedLLMService } from './llm-service';
 import { LLMRequest } from './types';
+import { parsedResumeSchema } from './schemas';
+import { chatStructured, serviceCall, StructuredOutputError } from './structured-output';
 import { Resume } from '@/types';
+import { fromJsonResume } from '@/lib/export/json-resume';
+import { migrateResume } from '@/lib/resume-schema';
 
 export class ResumeParser {
     private llmService: UnifiedLLMService;
@@ -97,92 +101,26 @@ export class ResumeParser {
             // Plan says: "use Groq (openai/gpt-oss-120b)"
             // llm-service calls Groq if provider is 'groq'.
             // I'll assume 'groq' provider for this internal task.
-            const response = await this.llmService.chat(request);
-
-            let jsonString = response.content;
-            // Clean up if MD code block is present despite instructions
-            if (jsonString.includes('```json')) {
-                jsonString = jsonString.split('```json')[1].split('```')[0];
-            } else if (jsonString.includes('```')) {
-                jsonString = jsonString.split('```')[1].split('```')[0];
-            }
-
-            const parsed = JSON.parse(jsonString);
+            const response = await chatStructured(serviceCall(this.llmService), request, parsedResumeSchema, 'parsed resume');
 
             // Mapper to internal Resume Type
-            return this.mapToInternalResume(parsed);
+            return this.mapToInternalResume(response.data);
         } catch (error) {
             console.error("Resume Parsing Error:", error);
+            // Keep the diagnostics for the caller
+            if (error instanceof StructuredOutputError) throw error;
             throw new Error("Failed to parse resume text.");
         }
     }
 
-    private mapToInternalResume(data: any): Resume {
-        // Transform the LLM output (JSON Resume format-ish) to our Resume Interface
-        return {
-            id: crypto.randomUUID(),
-            userId: "", // Placeholder, will be assigned by auth context or backend if needed
-            template: 'modern',
-            header: {
-                name: data.basics?.name || "Your Name",
-                title: data.basics?.label || "Professional Title",
-                email: data.basics?.email || "",
-                phone: data.basics?.phone || "",
-                github: data.basics?.profiles?.find((p: any) => p.network?.toLowerCase().includes('github'))?.url || "",
-                linkedin: data.basics?.profiles?.find((p: any) => p.network?.toLowerCase().includes('linkedin'))?.url || "",
-                portfolio: data.basics?.url || "",
-                location: data.basics?.location?.city ? `${data.basics.location.city}, ${data.basics.location.region || ''}` : "",
-                avatar: ""
-            },
-            summary: data.basics?.summary || "",
-            skills: {
-                categories: data.skills?.map((cat: any) => ({
-                    id: crypto.randomUUID(),
-                    name: cat.name || "Skills",
-                    items: cat.keywords || []
-                })) || []
-            },
-            experience: data.work?.map((job: any) => ({
-                id: crypto.randomUUID(),
-                company: job.name || "",
-                title: job.position || "",
-                current: !job.endDate,
-                startDate: job.startDate || "",
-                endDate: job.endDate || "",
-                bullets: job.highlights || []
-            })) || [],
-            projects: data.projects?.map((proj: any) => ({
-                id: crypto.randomUUID(),
-                name: proj.name || "",
-                description: proj.description || "",
-                technologies: proj.keywords || [],
-                bullets: proj.highlights || [],
-                url: proj.url || ""
-            })) || [],
-            education: data.education?.map((edu: any) => ({
-                id: crypto.randomUUID(),
-                institution: edu.institution || "",
-                degree: `${edu.studyType || ''} ${edu.area || ''}`.trim(),
-                field: edu.area || "",
-                graduationDate: edu.endDate || "",
-                gpa: edu.score || ""
-            })) || [],
-            certifications: [],
-            customSections: [],
-            sectionOrder: ['header', 'summary', 'skills', 'experience', 'projects', 'education', 'certifications'],
-            sectionVisibility: {
-                header: true,
-                summary: true,
-                skills: true,
-                experience: true,
-                projects: true,
-                education: true,
-                certifications: true
-            },
-            metadata: {
-                createdAt: new Date().toISOString(),
-                updatedAt: new Date().toISOString()
-            }
-        };
+    private mapToInternalResume(data: unknown): Resume {
+        // The LLM output is a JSON Resume document, so the deterministic converter does the mapping
+        const resume = fromJsonResume(data);
+        resume.id = crypto.randomUUID();
+        resume.header.name = resume.header.name || "Your Name";
+        resume.header.title = resume.header.title || "Professional Title";
+        // Nothing to round-trip: the document came from the model, not from a file
+        delete resume.metadata.jsonResume;
+        return migrateResume(resume);
     }
 }
@@ -0,0 +1,173 @@
+/**
+ * LLM Output Schemas
+ *
+ * What each JSON prompt must return. Replies are validated against these
+ * before use; see structured-output.ts for the repair retries.
+ */
+
+import { z } from 'zod';
+import { capitalize } from '../utils';
+
+const PROJECT_TYPES = ['web', 'api', 'ml', 'mobile', 'cli', 'library', 'devops', 'other'] as const;
+
+const text = z.string().trim().min(1, 'Must not be empty');
+const textList = z.array(z.string());
+
+// ============================================
+// Repository analysis
+// ============================================
+
+export const repositoryAnalysisSchema = z.object({
+    projectName: text,
+    oneLiner: text,
+    detailedSummary: text,
+    problemSolved: z.string(),
+    technologies: textList,
+    skillsDemonstrated: textList,
+    complexityScore: z.number()
+        .transform(score => Math.min(10, Math.max(1, Math.round(score)))),
+    projectType: z.enum(PROJECT_TYPES),
+    achievements: textList.default([]),
+    resumeBulletPoints: z.array(text).min(1, 'At least one bullet point is required'),
+});
+
+// ============================================
+// Resume synthesis
+// ============================================
+
+const skillCategoriesSchema = z.object({
+    categories: z.array(z.object({
+        id: z.string().optional(),
+        name: text,
+        items: textList,
+    })),
+});
+
+export const resumeSynthesisSchema = z.object({
+    header: z.looseObject({
+        name: z.string().optional(),
+        title: z.string().optional(),
+        email: z.string().optional(),
+        phone: z.string().optional(),
+        location: z.string().optional(),
+        github: z.string().optional(),
+        linkedin: z.string().optional(),
+        portfolio: z.string().optional(),
+    }),
+    summary: text,
+    // The prompts ask for lists by category name; categories are the resume's own shape
+    skills: z.union([
+        skillCategoriesSchema.transform(skills => skills.categories),
+        z.record(z.string(), textList).transform(skills => Object.entries(skills).map(([id, items]) => ({
+            id,
+            name: capitalize(id),
+            items,
+        }))),
+    ]),
+    projects: z.array(z.object({
+        name: text,
+        url: z.string().optional(),
+        description: z.string().default(''),
+        technologies: textList.default([]),
+        bullets: z.array(text).min(1, 'At least one bullet is required'),
+    })).min(1, 'At least one project is required'),
+});
+
+export type ResumeSynthesis = z.infer<typeof resumeSynthesisSchema>;
+
+// ============================================
+// ATS analysis
+// ============================================
+
+const score = z.number().min(0).max(100);
+const categoryScore = z.object({ score, feedback: z.string() });
+
+export const atsResultSchema = z.object({
+    overallScore: score,
+    breakdown: z.object({
+        keywords: categoryScore,
+        impact: categoryScore,
+        actionVerbs: categoryScore,
+        formatting: categoryScore,
+        roleAlignment: categoryScore,
+    }),
+    strengths: textList.default([]),
+    suggestions: z.array(z.object({
+        severity: z.enum(['critical', 'important', 'minor']),
+        category: z.enum(['keywords', 'impact', 'actionVerbs', 'formatting', 'roleAlignment']),
+        issue: text,
+        suggestion: text,
+        originalText: z.string().optional(),
+        fixedText: z.string().optional(),
+        location: z.string().optional(),
+    })).default([]),
+});
+
+export const fixResultSchema = z.object({
+    fixed: text,
+    explanation: z.string().default(''),
+});
+
+// ============================================
+// Job matching
+// ============================================
+
+const verdict = {
+    met: z.boolean(),
+    evidence: textList.default([]), // Resume locations
+    explanation: z.string().optional(),
+};
+
+export const jobMatchSchema = z.object({
+    requirements: z.array(z.object({ id: text, ...verdict })),
+    additionalRequirements: z.array(z.object({
+        label: text,
+        priority: z.enum(['required', 'preferred']).default('required'),
+        ...verdict,
+    })).default([]),
+});
+
+// ============================================
+// Cover letters
+// ============================================
+
+// Paragraphs may come back as plain strings; citations name projects the way the prompt does
+export const coverLetterSchema = z.object({
+    greeting: z.string().default(''),
+    paragraphs: z.array(z.union([
+        text.transform(paragraph => ({ text: paragraph, citations: [] })),
+        z.object({
+            text,
+            citations: z.array(z.object({ project: text, fact: text })).default([]),
+        }).transform(paragraph => ({
+            text: paragraph.text,
+            citations: paragraph.citations.map(({ project, fact }) => ({ projectName: project, fact })),
+        })),
+    ])).min(1, 'At least one paragraph is required'),
+    closing: z.string().default(''),
+});
+
+// ============================================
+// Resume parsing (a JSON Resume document)
+// ============================================
+
+const entries = z.array(z.looseObject({})).optional();
+
+// The prompt allows null for missing fields; the JSON Resume converter reads it as empty
+const missing = z.string().nullish();
+
+export const parsedResumeSchema = z.looseObject({
+    basics: z.looseObject({
+        name: missing,
+        label: missing,
+        email: missing,
+        summary: missing,
+    }),
+    work: entries,
+    education: entries,
+    skills: z.array(z.looseObject({
+        name: z.string(),
+        keywords: textList.nullish(),
+    })).optional(),
+    projects: entries,
+});
@@ -0,0 +1,119 @@
+/**
+ * Structured Output
+ *
+ * JSON replies are checked against a schema. A reply that is not JSON or does
+ * not match is sent back to the model with the validation errors, up to
+ * MAX_REPAIRS times; after that the call fails with diagnostics instead of
+ * falling back to defaults unnoticed.
+ */
+
+import type { z } from 'zod';
+import { UnifiedLLMService, cleanJSON, getTokenUsage } from './llm-service';
+import type { LLMRequest } from './types';
+import type { TokenUsage } from '../tokens';
+import type { StructuredOutputDiagnostics } from '@/types';
+
+export const MAX_REPAIRS = 2;
+
+// Replies are cut to this length in diagnostics
+const MAX_DIAGNOSTIC_CONTENT = 2000;
+
+export class StructuredOutputError extends Error {
+    constructor(public diagnostics: StructuredOutputDiagnostics, public usage: TokenUsage) {
+        super(`The model returned an invalid ${diagnostics.schema} after ${diagnostics.attempts} attempts: ${diagnostics.issues.slice(0, 3).join('; ')}`);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+export type StructuredChat = (request: LLMRequest) => Promise<{ content: string; usage: TokenUsage }>;
+
+/**
+ * Call a service directly, without the retries or limits callers may add
+ */
+export function serviceCall(llm: UnifiedLLMService): StructuredChat {
+    return async request => {
+        const response = await llm.chat(request);
+        return { content: response.content, usage: getTokenUsage(response) };
+    };
+}
+
+/**
+ * Make a JSON request and validate the reply, asking the model to repair it
+ * when it does not match. Throws StructuredOutputError once the repairs run out.
+ */
+export async function chatStructured<T extends z.ZodType>(
+    call: StructuredChat,
+    request: LLMRequest,
+    schema: T,
+    name: string,
+    maxRepairs: number = MAX_REPAIRS
+): Promise<{ data: z.output<T>; usage: TokenUsage; attempts: number }> {
+    const usage: TokenUsage = { inputTokens: 0, outputTokens: 0, totalTokens: 0, estimatedCost: 0 };
+    const messages = [...request.messages];
+
+    for (let attempt = 1; ; attempt++) {
+        const response = await call({ ...request, messages });
+        usage.inputTokens += response.usage.inputTokens;
+        usage.outputTokens += response.usage.outputTokens;
+        usage.totalTokens += response.usage.totalTokens;
+        usage.estimatedCost += response.usage.estimatedCost;
+
+        const result = validate(response.content, schema);
+        if (result.success) {
+            return { data: result.data, usage, attempts: attempt };
+        }
+
+        if (attempt > maxRepairs) {
+            throw new StructuredOutputError({
+                schema: name,
+                stage: result.stage,
+                issues: result.issues,
+                attempts: attempt,
+                content: response.content.slice(0, MAX_DIAGNOSTIC_CONTENT),
+            }, usage);
+        }
+
+        console.warn(`Invalid ${name} from the model (attempt ${attempt}), asking for a repair: ${result.issues.join('; ')}`);
+        messages.push(
+            { role: 'assistant', content: response.content },
+            { role: 'user', content: generateRepairPrompt(result.stage, result.issues) },
+        );
+    }
+}
+
+function validate<T extends z.ZodType>(
+    content: string,
+    schema: T
+): { success: true; data: z.output<T> } | { success: false; stage: 'json' | 'schema'; issues: string[] } {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(cleanJSON(content));
+    } catch (error) {
+        return {
+            success: false,
+            stage: 'json',
+            issues: [`(root): ${error instanceof Error ? error.message : 'Invalid JSON'}`],
+        };
+    }
+
+    const result = schema.safeParse(parsed);
+    if (result.success) {
+        return { success: true, data: result.data };
+    }
+    return {
+        success: false,
+        stage: 'schema',
+        issues: result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`),
+    };
+}
+
+function generateRepairPrompt(stage: 'json' | 'schema', issues: string[]): string {
+    const problem = stage === 'json'
+        ? 'Your reply could not be parsed as JSON'
+        : 'Your JSON does not match the required format';
+
+    return `${problem}:
+${issues.map(issue => `- ${issue}`).join('\n')}
+
+Reply again with the corrected JSON object only, in the format requested above. Keep the content that was valid.`;
+}
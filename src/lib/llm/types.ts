@@ -3,10 +3,13 @@ export interface LLMRequest {
     temperature?: number;
     maxTokens?: number;
     jsonMode?: boolean;
+    model?: string; // Defaults to the provider's model
+    signal?: AbortSignal;
 }
 
 export interface LLMResponse {
     content: string;
+    model: string; // The model that answered
     usage?: {
         promptTokens: number;
         completionTokens: number;
@@ -15,7 +18,7 @@ export interface LLMResponse {
     };
 }
 
-export type LLMProvider = 'groq' | 'openai';
+export type LLMProvider = 'groq' | 'openai' | 'anthropic' | 'local' | 'mock';
 
 export interface LLMService {
     chat(request: LLMRequest): Promise<LLMResponse>;
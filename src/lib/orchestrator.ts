@@ -4,24 +4,47 @@
  * Main entry point that coordinates the entire analysis pipeline:
  * 1. Fetch GitHub profile and repositories
  * 2. Fetch content for each repository
- * 3. Analyze each repository with LLM
+ * 3. Analyze each repository with LLM, while contributions to other
+ *    people's projects are fetched alongside
  * 4. Generate final resume
  * 
  * Supports progress callbacks for UI updates.
  */
 
-import { GitHubClient } from './github';
-import { analyzeRepository, generateResume } from './llm';
+import { GitHubClient, type ResponseCacheStats } from './github';
+import {
+    analyzeRepository,
+    generateResume,
+    inferProjectType,
+    LLM_PROVIDERS,
+    REPO_ANALYSIS_PROMPT_VERSION,
+    StructuredOutputError,
+    UnifiedLLMService,
+    type LLMProvider,
+} from './llm';
+import { getAnalysisCache, type AnalysisCache, type AnalysisCacheKey } from './cache';
+import { addContributionsSection, summarizeContributions } from './contributions';
 import { allocateTokenBudget, getAvailableTokens, type TokenUsage } from './tokens';
 import {
+    ContributionSummary,
     ProcessedUser,
     ProcessedRepository,
     RepositoryAnalysis,
+    RepositoryProgress,
+    StructuredOutputDiagnostics,
     AnalysisJob,
     AnalysisStatus,
     Resume,
 } from '@/types';
-import { generateId, sleep } from './utils';
+import { generateId, isAbortError } from './utils';
+import { ConcurrencyLimiter } from './scheduler';
+
+// A repository analysis taking longer than this is given up on; the run goes on
+const REPO_ANALYSIS_TIMEOUT_MS = 3 * 60 * 1000;
+
+// Calls in flight at once, overridable with GITHUB_CONCURRENCY / LLM_CONCURRENCY
+const DEFAULT_GITHUB_CONCURRENCY = 6;
+const DEFAULT_LLM_CONCURRENCY = 3;
 
 export interface AnalysisProgress {
     status: AnalysisStatus;
@@ -34,23 +57,39 @@ export interface AnalysisProgress {
 export interface AnalysisOptions {
     githubToken?: string;
     openaiApiKey?: string;
+    tier?: LLMProvider; // LLM provider to analyze with (default groq, the free tier)
     selectedRepos?: string[]; // Only analyze these repos if provided
     maxRepos?: number;
     onProgress?: (progress: AnalysisProgress) => void;
+    onRepository?: (repository: RepositoryProgress) => void; // Per-repo status, with each analysis as it finishes
     verbose?: boolean;
     targetRole?: string;  // e.g., 'software-engineer', 'data-scientist'
     customRole?: string;  // Custom role entered by user
+    signal?: AbortSignal; // Cancels the run
+    checkpoint?: Record<string, RepositoryAnalysis>; // Analyses from an earlier run, by repo name; not redone
+    repoTimeoutMs?: number;
+    githubConcurrency?: number; // GitHub API calls in flight at once
+    llmConcurrency?: number;    // LLM calls (and repos being analyzed) at once
+    cache?: AnalysisCache | null; // Defaults to the configured cache; null skips it
+    includeContributions?: boolean; // Add open source contributions to the resume (default true)
 }
 
 export interface AnalysisResult {
     user: ProcessedUser;
     repositories: ProcessedRepository[];
     analyses: RepositoryAnalysis[];
+    contributions: ContributionSummary[]; // Per external project, best first
     resume: Resume;
     tokenUsage: {
         total: TokenUsage;
         perRepo: Map<string, TokenUsage>;
+        cache: {
+            hits: number;
+            misses: number;
+            saved: TokenUsage; // What the reused analyses cost when first made
+        };
     };
+    githubCache: ResponseCacheStats; // GitHub responses revalidated (304) vs fetched in full
     timing: {
         startTime: Date;
         endTime: Date;
@@ -71,12 +110,21 @@ export async function runAnalysis(
     const {
         githubToken,
         openaiApiKey,
+        tier = 'groq',
         selectedRepos,
         maxRepos = 20,
         onProgress,
+        onRepository,
         verbose = false,
         targetRole,
         customRole,
+        signal,
+        checkpoint = {},
+        repoTimeoutMs = REPO_ANALYSIS_TIMEOUT_MS,
+        githubConcurrency = readConcurrency('GITHUB_CONCURRENCY', DEFAULT_GITHUB_CONCURRENCY),
+        llmConcurrency = readConcurrency('LLM_CONCURRENCY', DEFAULT_LLM_CONCURRENCY),
+        cache = getAnalysisCache(),
+        includeContributions = true,
     } = options;
 
     const startTime = new Date();
@@ -95,7 +143,7 @@ export async function runAnalysis(
     // Initialize clients
     const github = new GitHubClient(githubToken, (msg) => {
         if (verbose) console.log(`[GitHub] ${msg}`);
-    });
+    }, { concurrency: githubConcurrency });
 
     // Token usage tracking
     const totalUsage: TokenUsage = {
@@ -105,6 +153,11 @@ export async function runAnalysis(
         estimatedCost: 0,
     };
     const perRepoUsage = new Map<string, TokenUsage>();
+    const cacheStats = {
+        hits: 0,
+        misses: 0,
+        saved: { inputTokens: 0, outputTokens: 0, totalTokens: 0, estimatedCost: 0 } as TokenUsage,
+    };
 
     try {
         // Step 1: Fetch user profile
@@ -115,7 +168,18 @@ export async function runAnalysis(
             message: `Fetching profile for ${username}...`,
         });
 
-        const user = await github.getUser(username);
+        const user = await github.getUser(username, signal);
+
+        // Contributions only need GitHub, so they are fetched while repos are
+        // analyzed. Without them the resume is still complete.
+        const contributionsPromise = includeContributions
+            ? github.getContributions(username, signal)
+                .then(contributions => summarizeContributions(username, contributions))
+                .catch((error): ContributionSummary[] => {
+                    if (!signal?.aborted) console.error('Failed to fetch contributions:', error);
+                    return [];
+                })
+            : Promise.resolve([]);
 
         emitProgress({
             status: 'fetching_repos',
@@ -125,7 +189,7 @@ export async function runAnalysis(
         });
 
         // Step 2: Fetch repositories
-        const repositories = await github.getRepositories(username);
+        const repositories = await github.getRepositories(username, signal);
 
         // Filter to user-selected repos if provided
         let reposToAnalyze: ProcessedRepository[];
@@ -144,40 +208,81 @@ export async function runAnalysis(
             message: `Analyzing ${reposToAnalyze.length} repositories...`,
         });
 
-        // Step 3: Analyze each repository
-        const analyses: RepositoryAnalysis[] = [];
-        const tokenBudget = allocateTokenBudget(getAvailableTokens());
+        for (const repo of reposToAnalyze) {
+            const saved = checkpoint[repo.name];
+            onRepository?.(saved
+                ? { name: repo.name, status: 'completed', analysis: saved }
+                : { name: repo.name, status: 'pending' });
+        }
 
-        for (let i = 0; i < reposToAnalyze.length; i++) {
-            const repo = reposToAnalyze[i];
+        // Step 3: Analyze repositories in parallel. GitHub calls and LLM calls
+        // each have their own limit; results keep the order of the repos.
+        const tokenBudget = allocateTokenBudget(getAvailableTokens(new UnifiedLLMService(tier).getContextModel()));
+        const llmLimiter = new ConcurrencyLimiter(llmConcurrency);
+        const repoSlots = new ConcurrencyLimiter(llmConcurrency); // Every repo needs the LLM, so more would only queue
+        let finished = reposToAnalyze.filter(repo => checkpoint[repo.name]).length;
 
+        const analyzeOne = async (repo: ProcessedRepository): Promise<RepositoryAnalysis> => {
             emitProgress({
                 status: 'analyzing_repos',
-                current: i + 1,
+                current: finished,
                 total: reposToAnalyze.length,
                 currentRepo: repo.name,
                 message: `Analyzing ${repo.name}...`,
             });
+            onRepository?.({ name: repo.name, status: 'analyzing' });
+
+            const timeout = AbortSignal.timeout(repoTimeoutMs);
+            const repoSignal = signal ? AbortSignal.any([signal, timeout]) : timeout;
 
             try {
+                // Unchanged repos (same tree SHA) reuse their cached analysis. The
+                // SHA comes with the repository over GraphQL, else from its tree.
+                const tree = repo.treeSha
+                    ? undefined
+                    : await github.getRepositoryTree(username, repo.name, repoSignal);
+                const treeSha = repo.treeSha ?? tree?.sha;
+                const cacheKey: AnalysisCacheKey | null = cache && treeSha ? {
+                    repository: repo.fullName,
+                    treeSha,
+                    promptVersion: REPO_ANALYSIS_PROMPT_VERSION,
+                    model: LLM_PROVIDERS[tier].defaultModel,
+                } : null;
+
+                const cached = cache && cacheKey ? await cache.get(cacheKey) : null;
+                if (cached) {
+                    cacheStats.hits++;
+                    cacheStats.saved.inputTokens += cached.tokenUsage.inputTokens;
+                    cacheStats.saved.outputTokens += cached.tokenUsage.outputTokens;
+                    cacheStats.saved.totalTokens += cached.tokenUsage.totalTokens;
+                    cacheStats.saved.estimatedCost += cached.tokenUsage.estimatedCost;
+
+                    onRepository?.({ name: repo.name, status: 'completed', analysis: cached.analysis, cached: true });
+                    return cached.analysis;
+                }
+                if (cacheKey) cacheStats.misses++;
+
                 // Fetch repository content
                 const content = await github.getRepositoryContent(
                     username,
                     repo.name,
-                    tokenBudget
+                    tokenBudget,
+                    repoSignal,
+                    tree
                 );
 
                 // Analyze with LLM
                 const result = await analyzeRepository(repo, content, {
                     apiKey: openaiApiKey,
+                    tier,
                     verbose,
                     onProgress: (msg) => {
                         if (verbose) console.log(`  [Analyzer] ${msg}`);
                     },
+                    signal: repoSignal,
+                    limiter: llmLimiter,
                 });
 
-                analyses.push(result.analysis);
-
                 // Track token usage
                 perRepoUsage.set(repo.name, result.tokenUsage);
                 totalUsage.inputTokens += result.tokenUsage.inputTokens;
@@ -185,12 +290,32 @@ export async function runAnalysis(
                 totalUsage.totalTokens += result.tokenUsage.totalTokens;
                 totalUsage.estimatedCost += result.tokenUsage.estimatedCost;
 
-                // Small delay to avoid rate limits
-                await sleep(200);
+                if (cache && cacheKey) await cache.set(cacheKey, result.analysis, result.tokenUsage);
+
+                onRepository?.({
+                    name: repo.name,
+                    status: 'completed',
+                    analysis: result.analysis,
+                    tokenUsage: result.tokenUsage,
+                });
+                return result.analysis;
             } catch (error) {
+                // Cancelling the run stops here; a repo that timed out is skipped
+                if (signal?.aborted) throw error;
                 console.error(`Failed to analyze ${repo.name}:`, error);
+
+                // An unrepairable reply still spent tokens
+                const failedOutput = error instanceof StructuredOutputError ? error : undefined;
+                if (failedOutput) {
+                    perRepoUsage.set(repo.name, failedOutput.usage);
+                    totalUsage.inputTokens += failedOutput.usage.inputTokens;
+                    totalUsage.outputTokens += failedOutput.usage.outputTokens;
+                    totalUsage.totalTokens += failedOutput.usage.totalTokens;
+                    totalUsage.estimatedCost += failedOutput.usage.estimatedCost;
+                }
+
                 // Create a basic analysis for failed repos
-                analyses.push({
+                const fallback: RepositoryAnalysis = {
                     projectName: repo.name,
                     oneLiner: repo.description || `A ${repo.primaryLanguage || 'software'} project`,
                     detailedSummary: repo.description || 'Analysis failed.',
@@ -198,11 +323,42 @@ export async function runAnalysis(
                     technologies: repo.languages,
                     skillsDemonstrated: [],
                     complexityScore: 3,
-                    projectType: 'other',
+                    projectType: inferProjectType(repo),
                     achievements: [],
                     resumeBulletPoints: [`Developed ${repo.name}`],
+                };
+
+                onRepository?.({
+                    name: repo.name,
+                    status: 'failed',
+                    analysis: fallback,
+                    error: timeout.aborted
+                        ? `Timed out after ${Math.round(repoTimeoutMs / 1000)}s`
+                        : error instanceof Error ? error.message : 'Unknown error',
+                    diagnostics: failedOutput?.diagnostics,
+                    tokenUsage: failedOutput?.usage,
+                });
+                return fallback;
+            } finally {
+                finished++;
+                emitProgress({
+                    status: 'analyzing_repos',
+                    current: finished,
+                    total: reposToAnalyze.length,
+                    message: `Analyzed ${finished} of ${reposToAnalyze.length} repositories`,
                 });
             }
+        };
+
+        const analyses = await Promise.all(reposToAnalyze.map(repo =>
+            // Repos analyzed by an earlier, interrupted run are reused
+            checkpoint[repo.name] ?? repoSlots.run(() => analyzeOne(repo), signal)
+        ));
+
+        const contributions = await contributionsPromise;
+        signal?.throwIfAborted();
+        if (verbose) {
+            console.log(`[GitHub] Open source contributions to ${contributions.length} projects`);
         }
 
         analysisEndTime = new Date();
@@ -217,12 +373,15 @@ export async function runAnalysis(
 
         const resumeResult = await generateResume(user, analyses, {
             apiKey: openaiApiKey,
+            tier,
             verbose,
             targetRole,
             customRole,
             onProgress: (msg) => {
                 if (verbose) console.log(`[Generator] ${msg}`);
             },
+            signal,
+            limiter: llmLimiter,
         });
 
         // Update total token usage
@@ -232,6 +391,10 @@ export async function runAnalysis(
         totalUsage.estimatedCost += resumeResult.tokenUsage.estimatedCost;
 
         const endTime = new Date();
+        const githubCache = github.getCacheStats();
+        if (verbose) {
+            console.log(`[GitHub] Response cache: ${githubCache.hits} hits, ${githubCache.misses} misses`);
+        }
 
         emitProgress({
             status: 'completed',
@@ -244,11 +407,14 @@ export async function runAnalysis(
             user,
             repositories: reposToAnalyze,
             analyses,
-            resume: resumeResult.resume,
+            contributions,
+            resume: addContributionsSection(resumeResult.resume, contributions),
             tokenUsage: {
                 total: totalUsage,
                 perRepo: perRepoUsage,
+                cache: cacheStats,
             },
+            githubCache,
             timing: {
                 startTime,
                 endTime,
@@ -259,16 +425,24 @@ export async function runAnalysis(
             },
         };
     } catch (error) {
+        const cancelled = signal?.aborted || isAbortError(error);
         emitProgress({
-            status: 'failed',
+            status: cancelled ? 'cancelled' : 'failed',
             current: 0,
             total: 0,
-            message: error instanceof Error ? error.message : 'Analysis failed',
+            message: cancelled
+                ? 'Analysis cancelled'
+                : error instanceof Error ? error.message : 'Analysis failed',
         });
         throw error;
     }
 }
 
+function readConcurrency(name: string, fallback: number): number {
+    const value = parseInt(process.env[name] || '', 10);
+    return Number.isNaN(value) || value < 1 ? fallback : value;
+}
+
 /**
  * Create an analysis job for tracking in the database
  */
@@ -288,6 +462,37 @@ export function createAnalysisJob(username: string): AnalysisJob {
     };
 }
 
+/**
+ * Map an analysis failure to a message and HTTP status for clients
+ */
+export function describeAnalysisError(error: unknown): {
+    message: string;
+    status: number;
+    diagnostics?: StructuredOutputDiagnostics;
+} {
+    if (isAbortError(error)) {
+        return { message: 'Analysis cancelled', status: 499 }; // Client closed request
+    }
+
+    if (error instanceof StructuredOutputError) {
+        return { message: error.message, status: 502, diagnostics: error.diagnostics }; // Bad output upstream
+    }
+
+    if (error instanceof Error) {
+        if (error.message.includes('Not Found')) {
+            return { message: 'GitHub user not found', status: 404 };
+        }
+        if (error.message.includes('rate limit')) {
+            return { message: 'GitHub API rate limit exceeded. Please try again later.', status: 429 };
+        }
+        if (error.message.includes('API key')) {
+            return { message: 'Invalid or missing API key', status: 401 };
+        }
+    }
+
+    return { message: 'Failed to analyze GitHub profile', status: 500 };
+}
+
 /**
  * Update an analysis job with current progress
  */
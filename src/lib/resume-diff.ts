@@ -0,0 +1,561 @@
+/**
+ * Resume Diff
+ *
+ * Field-level comparison of two resumes for the revision history.
+ * Entries are matched by id, so edits, additions and removals are reported
+ * against the item they belong to ("Bullet changed in project X") rather
+ * than as raw JSON paths.
+ */
+
+import type {
+    Resume,
+    ResumeHeader,
+    ExperienceItem,
+    ProjectItem,
+    EducationItem,
+    CertificationItem,
+    CustomSection,
+    CustomSectionItem,
+} from '@/types';
+import { projectVisibilityKey } from '@/types/resume';
+
+export type ResumeChangeKind = 'added' | 'removed' | 'changed' | 'moved' | 'shown' | 'hidden';
+
+export interface ResumeChange {
+    kind: ResumeChangeKind;
+    section: string;     // Section id: 'header', 'projects', a custom section id, 'template' or 'layout'
+    path: string;        // Dot path of the field in the newer resume, e.g. 'projects.2.bullets.1'
+    description: string; // e.g. 'Bullet changed in project "Realtime Chat"'
+    before?: string;
+    after?: string;
+}
+
+const SECTION_NAMES: Record<string, string> = {
+    header: 'Header',
+    summary: 'Summary',
+    skills: 'Skills',
+    experience: 'Experience',
+    projects: 'Projects',
+    education: 'Education',
+    certifications: 'Certifications',
+};
+
+const HEADER_FIELDS: FieldSpec<ResumeHeader>[] = [
+    ['name', 'Name'],
+    ['title', 'Title'],
+    ['email', 'Email'],
+    ['phone', 'Phone'],
+    ['location', 'Location'],
+    ['github', 'GitHub'],
+    ['linkedin', 'LinkedIn'],
+    ['portfolio', 'Portfolio'],
+    ['avatar', 'Photo'],
+];
+
+const EXPERIENCE_FIELDS: FieldSpec<ExperienceItem>[] = [
+    ['title', 'Job title'],
+    ['company', 'Company'],
+    ['location', 'Location'],
+    ['startDate', 'Start date'],
+    ['endDate', 'End date'],
+    ['current', 'Current role'],
+];
+
+const PROJECT_FIELDS: FieldSpec<ProjectItem>[] = [
+    ['name', 'Name'],
+    ['url', 'URL'],
+    ['description', 'Description'],
+    ['dateRange', 'Dates'],
+    ['repoId', 'Repository'],
+];
+
+const EDUCATION_FIELDS: FieldSpec<EducationItem>[] = [
+    ['institution', 'Institution'],
+    ['degree', 'Degree'],
+    ['field', 'Field of study'],
+    ['graduationDate', 'Graduation date'],
+    ['gpa', 'GPA'],
+];
+
+const CERTIFICATION_FIELDS: FieldSpec<CertificationItem>[] = [
+    ['name', 'Name'],
+    ['issuer', 'Issuer'],
+    ['date', 'Date'],
+    ['url', 'URL'],
+];
+
+const CUSTOM_ITEM_FIELDS: FieldSpec<CustomSectionItem>[] = [
+    ['title', 'Title'],
+    ['description', 'Description'],
+    ['date', 'Date'],
+    ['url', 'URL'],
+];
+
+type FieldSpec<T> = [keyof T & string, string];
+
+/**
+ * List the changes that turn `before` into `after`
+ */
+export function diffResumes(before: Resume, after: Resume): ResumeChange[] {
+    const changes: ResumeChange[] = [];
+
+    if (before.template !== after.template) {
+        changes.push({
+            kind: 'changed',
+            section: 'template',
+            path: 'template',
+            description: `Template changed from ${before.template} to ${after.template}`,
+            before: before.template,
+            after: after.template,
+        });
+    }
+
+    diffFields(changes, before.header, after.header, HEADER_FIELDS, 'header', 'header', 'the header');
+
+    if ((before.summary || '') !== (after.summary || '')) {
+        changes.push(fieldChange('summary', 'summary', 'Summary', '', before.summary, after.summary));
+    }
+
+    diffSkills(changes, before, after);
+
+    diffEntries(changes, before.experience, after.experience, 'experience', {
+        name: 'Experience entries',
+        label: exp => `experience "${[exp.title, exp.company].filter(Boolean).join(' at ') || 'Untitled'}"`,
+        fields: EXPERIENCE_FIELDS,
+        lists: [['bullets', 'Bullet']],
+    });
+
+    diffEntries(changes, before.projects, after.projects, 'projects', {
+        name: 'Projects',
+        label: project => `project "${project.name || 'Untitled'}"`,
+        fields: PROJECT_FIELDS,
+        lists: [['bullets', 'Bullet']],
+        sets: [['technologies', 'Technology']],
+    });
+
+    diffEntries(changes, before.education, after.education, 'education', {
+        name: 'Education entries',
+        label: edu => `education "${edu.institution || 'Untitled'}"`,
+        fields: EDUCATION_FIELDS,
+        lists: [['highlights', 'Highlight']],
+    });
+
+    diffEntries(changes, before.certifications || [], after.certifications || [], 'certifications', {
+        name: 'Certifications',
+        label: cert => `certification "${cert.name || 'Untitled'}"`,
+        fields: CERTIFICATION_FIELDS,
+    });
+
+    diffCustomSections(changes, before.customSections || [], after.customSections || []);
+    diffLayout(changes, before, after);
+
+    return changes;
+}
+
+/**
+ * Whether two resumes differ in anything but their save timestamps
+ */
+export function hasContentChanges(a: Resume, b: Resume): boolean {
+    return canonicalJson(stripTimestamps(a)) !== canonicalJson(stripTimestamps(b));
+}
+
+function stripTimestamps(resume: Resume): unknown {
+    const { metadata, ...rest } = resume;
+    return { ...rest, userId: undefined, metadata: { ...metadata, updatedAt: undefined } };
+}
+
+// JSON with sorted keys, since Postgres jsonb does not keep key order
+function canonicalJson(value: unknown): string {
+    return JSON.stringify(value, (_key, val: unknown) => {
+        if (!val || typeof val !== 'object' || Array.isArray(val)) return val;
+        return Object.fromEntries(Object.entries(val).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+    });
+}
+
+function diffSkills(changes: ResumeChange[], before: Resume, after: Resume): void {
+    const beforeCategories = before.skills?.categories || [];
+    const afterCategories = after.skills?.categories || [];
+    const beforeById = new Map(beforeCategories.map(cat => [cat.id, cat]));
+    const afterIds = new Set(afterCategories.map(cat => cat.id));
+
+    afterCategories.forEach((cat, index) => {
+        const path = `skills.categories.${index}`;
+        const previous = beforeById.get(cat.id);
+
+        if (!previous) {
+            changes.push({
+                kind: 'added',
+                section: 'skills',
+                path,
+                description: `Skill category "${cat.name}" added`,
+                after: cat.items.join(', '),
+            });
+            return;
+        }
+
+        if (previous.name !== cat.name) {
+            changes.push({
+                kind: 'changed',
+                section: 'skills',
+                path: `${path}.name`,
+                description: `Skill category "${previous.name}" renamed to "${cat.name}"`,
+                before: previous.name,
+                after: cat.name,
+            });
+        }
+
+        diffSet(changes, previous.items, cat.items, 'skills', `${path}.items`, 'Skill', `"${cat.name}"`);
+    });
+
+    for (const cat of beforeCategories) {
+        if (afterIds.has(cat.id)) continue;
+        changes.push({
+            kind: 'removed',
+            section: 'skills',
+            path: 'skills.categories',
+            description: `Skill category "${cat.name}" removed`,
+            before: cat.items.join(', '),
+        });
+    }
+
+    diffOrder(changes, beforeCategories, afterCategories, 'skills', 'skills.categories', 'Skill categories reordered');
+}
+
+interface EntrySpec<T> {
+    name: string;                         // Plural name used when entries are reordered
+    label: (item: T) => string;
+    fields: FieldSpec<T>[];
+    lists?: [keyof T & string, string][]; // Ordered string lists, e.g. bullets
+    sets?: [keyof T & string, string][];  // Unordered string lists, e.g. technologies
+}
+
+function diffEntries<T extends { id: string }>(
+    changes: ResumeChange[],
+    before: T[],
+    after: T[],
+    section: string,
+    spec: EntrySpec<T>,
+    basePath: string = section
+): void {
+    const beforeById = new Map(before.map(item => [item.id, item]));
+    const afterIds = new Set(after.map(item => item.id));
+
+    after.forEach((item, index) => {
+        const path = `${basePath}.${index}`;
+        const previous = beforeById.get(item.id);
+        const label = spec.label(item);
+
+        if (!previous) {
+            changes.push({ kind: 'added', section, path, description: `${capitalizeFirst(label)} added` });
+            return;
+        }
+
+        diffFields(changes, previous, item, spec.fields, section, path, label);
+
+        for (const [key, name] of spec.lists || []) {
+            diffList(changes, asStrings(previous[key]), asStrings(item[key]), section, `${path}.${key}`, name, label);
+        }
+        for (const [key, name] of spec.sets || []) {
+            diffSet(changes, asStrings(previous[key]), asStrings(item[key]), section, `${path}.${key}`, name, label);
+        }
+    });
+
+    for (const item of before) {
+        if (afterIds.has(item.id)) continue;
+        changes.push({ kind: 'removed', section, path: basePath, description: `${capitalizeFirst(spec.label(item))} removed` });
+    }
+
+    diffOrder(changes, before, after, section, basePath, `${spec.name} reordered`);
+}
+
+function diffCustomSections(changes: ResumeChange[], before: CustomSection[], after: CustomSection[]): void {
+    const beforeById = new Map(before.map(section => [section.id, section]));
+    const afterIds = new Set(after.map(section => section.id));
+
+    after.forEach((section, index) => {
+        const path = `customSections.${index}`;
+        const previous = beforeById.get(section.id);
+        const label = `section "${section.title}"`;
+
+        if (!previous) {
+            changes.push({ kind: 'added', section: section.id, path, description: `Section "${section.title}" added` });
+            return;
+        }
+
+        if (previous.title !== section.title) {
+            changes.push({
+                kind: 'changed',
+                section: section.id,
+                path: `${path}.title`,
+                description: `Section "${previous.title}" renamed to "${section.title}"`,
+                before: previous.title,
+                after: section.title,
+            });
+        }
+
+        if ((previous.icon || '') !== (section.icon || '')) {
+            changes.push(fieldChange(section.id, `${path}.icon`, 'Icon', label, previous.icon, section.icon));
+        }
+
+        if (previous.visible !== section.visible) {
+            changes.push({
+                kind: section.visible ? 'shown' : 'hidden',
+                section: section.id,
+                path: `${path}.visible`,
+                description: `Section "${section.title}" ${section.visible ? 'shown' : 'hidden'}`,
+            });
+        }
+
+        if (previous.type !== section.type) {
+            changes.push({
+                kind: 'changed',
+                section: section.id,
+                path: `${path}.type`,
+                description: `Section "${section.title}" changed from ${previous.type} to ${section.type}`,
+                before: previous.type,
+                after: section.type,
+            });
+            return; // Content is not comparable across types
+        }
+
+        const contentPath = `${path}.content`;
+        switch (section.type) {
+            case 'text':
+                if (previous.content !== section.content) {
+                    changes.push(fieldChange(section.id, contentPath, 'Text', label, asText(previous.content), asText(section.content)));
+                }
+                break;
+            case 'list':
+                diffSet(changes, asStrings(previous.content), asStrings(section.content), section.id, contentPath, 'Item', label);
+                break;
+            case 'bullets':
+                diffList(changes, asStrings(previous.content), asStrings(section.content), section.id, contentPath, 'Bullet', label);
+                break;
+            case 'items':
+                diffEntries(changes, asItems(previous.content), asItems(section.content), section.id, {
+                    name: `Items in ${label}`,
+                    label: item => `"${item.title || 'Untitled'}" in ${label}`,
+                    fields: CUSTOM_ITEM_FIELDS,
+                }, contentPath);
+                break;
+        }
+    });
+
+    for (const section of before) {
+        if (afterIds.has(section.id)) continue;
+        changes.push({ kind: 'removed', section: section.id, path: 'customSections', description: `Section "${section.title}" removed` });
+    }
+}
+
+function diffLayout(changes: ResumeChange[], before: Resume, after: Resume): void {
+    const beforeVisibility = before.sectionVisibility || {};
+    const afterVisibility = after.sectionVisibility || {};
+
+    for (const id of Object.keys({ ...beforeVisibility, ...afterVisibility })) {
+        const wasVisible = beforeVisibility[id] !== false;
+        const isVisible = afterVisibility[id] !== false;
+        if (wasVisible === isVisible) continue;
+
+        // Hidden projects share the map with sections
+        const project = [...after.projects, ...before.projects].find(p => projectVisibilityKey(p.id) === id);
+
+        changes.push({
+            kind: isVisible ? 'shown' : 'hidden',
+            section: project ? 'projects' : id,
+            path: `sectionVisibility.${id}`,
+            description: project
+                ? `Project "${project.name}" ${isVisible ? 'shown' : 'hidden'}`
+                : `Section "${getSectionName(id, after, before)}" ${isVisible ? 'shown' : 'hidden'}`,
+        });
+    }
+
+    // Compare the relative order of sections present in both versions
+    const beforeOrder = before.sectionOrder || [];
+    const afterOrder = after.sectionOrder || [];
+    const shared = new Set(beforeOrder.filter(id => afterOrder.includes(id)));
+    const beforeShared = beforeOrder.filter(id => shared.has(id));
+    const afterShared = afterOrder.filter(id => shared.has(id));
+
+    if (beforeShared.join() !== afterShared.join()) {
+        const moved = afterShared.filter((id, index) => beforeShared[index] !== id);
+        changes.push({
+            kind: 'moved',
+            section: 'layout',
+            path: 'sectionOrder',
+            description: `Sections reordered (${moved.map(id => getSectionName(id, after, before)).join(', ')})`,
+            before: beforeShared.map(id => getSectionName(id, before, after)).join(' → '),
+            after: afterShared.map(id => getSectionName(id, after, before)).join(' → '),
+        });
+    }
+}
+
+function diffFields<T>(
+    changes: ResumeChange[],
+    before: T,
+    after: T,
+    fields: FieldSpec<T>[],
+    section: string,
+    path: string,
+    owner: string
+): void {
+    for (const [key, name] of fields) {
+        const previous = asText(before?.[key]);
+        const next = asText(after?.[key]);
+        if (previous !== next) {
+            changes.push(fieldChange(section, `${path}.${key}`, name, owner, previous, next));
+        }
+    }
+}
+
+function fieldChange(
+    section: string,
+    path: string,
+    name: string,
+    owner: string,
+    before?: string,
+    after?: string
+): ResumeChange {
+    const where = owner ? ` ${owner}` : '';
+
+    if (!before) return { kind: 'added', section, path, description: `${name} added${where && ` to${where}`}`, after };
+    if (!after) return { kind: 'removed', section, path, description: `${name} removed${where && ` from${where}`}`, before };
+    return { kind: 'changed', section, path, description: `${name} changed${where && ` in${where}`}`, before, after };
+}
+
+// Ordered lists: align unchanged lines, then pair up replacements as edits
+function diffList(
+    changes: ResumeChange[],
+    before: string[],
+    after: string[],
+    section: string,
+    path: string,
+    name: string,
+    owner: string
+): void {
+    const matches = longestCommonSubsequence(before, after);
+    let i = 0;
+    let j = 0;
+
+    for (const [matchI, matchJ] of [...matches, [before.length, after.length]]) {
+        const removed = before.slice(i, matchI);
+        const added = after.slice(j, matchJ);
+        const paired = Math.min(removed.length, added.length);
+
+        for (let k = 0; k < paired; k++) {
+            changes.push({
+                kind: 'changed',
+                section,
+                path: `${path}.${j + k}`,
+                description: `${name} changed in ${owner}`,
+                before: removed[k],
+                after: added[k],
+            });
+        }
+        for (let k = paired; k < added.length; k++) {
+            changes.push({ kind: 'added', section, path: `${path}.${j + k}`, description: `${name} added to ${owner}`, after: added[k] });
+        }
+        for (let k = paired; k < removed.length; k++) {
+            changes.push({ kind: 'removed', section, path, description: `${name} removed from ${owner}`, before: removed[k] });
+        }
+
+        i = matchI + 1;
+        j = matchJ + 1;
+    }
+}
+
+// Unordered lists: report membership only
+function diffSet(
+    changes: ResumeChange[],
+    before: string[],
+    after: string[],
+    section: string,
+    path: string,
+    name: string,
+    owner: string
+): void {
+    const beforeSet = new Set(before);
+    const afterSet = new Set(after);
+
+    after.forEach((item, index) => {
+        if (!beforeSet.has(item)) {
+            changes.push({ kind: 'added', section, path: `${path}.${index}`, description: `${name} "${item}" added to ${owner}`, after: item });
+        }
+    });
+    for (const item of before) {
+        if (!afterSet.has(item)) {
+            changes.push({ kind: 'removed', section, path, description: `${name} "${item}" removed from ${owner}`, before: item });
+        }
+    }
+}
+
+function diffOrder(
+    changes: ResumeChange[],
+    before: { id: string }[],
+    after: { id: string }[],
+    section: string,
+    path: string,
+    description: string
+): void {
+    const afterIds = new Set(after.map(item => item.id));
+    const beforeIds = new Set(before.map(item => item.id));
+    const beforeShared = before.filter(item => afterIds.has(item.id)).map(item => item.id);
+    const afterShared = after.filter(item => beforeIds.has(item.id)).map(item => item.id);
+
+    if (beforeShared.join() !== afterShared.join()) {
+        changes.push({ kind: 'moved', section, path, description });
+    }
+}
+
+// Index pairs of a longest common subsequence, in order
+function longestCommonSubsequence(a: string[], b: string[]): [number, number][] {
+    const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+
+    for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+            lengths[i][j] = a[i] === b[j]
+                ? lengths[i + 1][j + 1] + 1
+                : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+        }
+    }
+
+    const pairs: [number, number][] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+        if (a[i] === b[j]) {
+            pairs.push([i++, j++]);
+        } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+            i++;
+        } else {
+            j++;
+        }
+    }
+    return pairs;
+}
+
+function getSectionName(id: string, resume: Resume, fallback: Resume): string {
+    if (SECTION_NAMES[id]) return SECTION_NAMES[id];
+    const custom = resume.customSections?.find(s => s.id === id)
+        || fallback.customSections?.find(s => s.id === id);
+    return custom?.title || id;
+}
+
+function asText(value: unknown): string {
+    if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+    if (value === undefined || value === null) return '';
+    return String(value);
+}
+
+function asStrings(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function asItems(value: unknown): CustomSectionItem[] {
+    return Array.isArray(value)
+        ? value.filter((item): item is CustomSectionItem => !!item && typeof item === 'object' && 'id' in item)
+        : [];
+}
+
+function capitalizeFirst(text: string): string {
+    return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -0,0 +1,331 @@
+/**
+ * Resume Schema & Migrations
+ *
+ * Every stored or imported resume passes through `migrateResume`, which
+ * upgrades it step by step from its `schemaVersion` (0 when missing) to
+ * RESUME_SCHEMA_VERSION and validates the result.
+ *
+ * To change the Resume shape: bump RESUME_SCHEMA_VERSION, add a migration
+ * from the previous version to MIGRATIONS, and update resumeSchema.
+ */
+
+import { z } from 'zod';
+import type { Resume } from '@/types';
+import {
+    DEFAULT_SECTION_ORDER,
+    DEFAULT_SECTION_VISIBILITY,
+    DEFAULT_SKILL_CATEGORIES,
+    RESUME_SCHEMA_VERSION,
+} from '@/types/resume';
+
+/**
+ * Thrown when a document is not a resume or cannot be upgraded
+ */
+export class ResumeMigrationError extends Error {
+    constructor(message: string, public readonly issues: string[] = []) {
+        super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+        this.name = 'ResumeMigrationError';
+    }
+}
+
+// ============================================
+// Current shape
+// ============================================
+
+const skillCategorySchema = z.object({
+    id: z.string(),
+    name: z.string(),
+    items: z.array(z.string()),
+});
+
+const customSectionItemSchema = z.object({
+    id: z.string(),
+    title: z.string(),
+    description: z.string().optional(),
+    date: z.string().optional(),
+    url: z.string().optional(),
+});
+
+const customSectionSchema = z.object({
+    id: z.string(),
+    title: z.string(),
+    icon: z.string().optional(),
+    type: z.enum(['list', 'text', 'bullets', 'items']),
+    content: z.union([z.string(), z.array(z.string()), z.array(customSectionItemSchema)]),
+    visible: z.boolean(),
+});
+
+// Unknown keys are kept (loose objects) so data from newer fields is never dropped
+export const resumeSchema = z.looseObject({
+    schemaVersion: z.literal(RESUME_SCHEMA_VERSION),
+    id: z.string().min(1),
+    userId: z.string(),
+    template: z.enum(['modern', 'classic', 'minimal', 'creative']),
+    header: z.looseObject({
+        name: z.string(),
+        title: z.string(),
+        email: z.string(),
+        phone: z.string().optional(),
+        location: z.string().optional(),
+        github: z.string().optional(),
+        linkedin: z.string().optional(),
+        portfolio: z.string().optional(),
+        avatar: z.string().optional(),
+    }),
+    summary: z.string(),
+    skills: z.object({ categories: z.array(skillCategorySchema) }),
+    experience: z.array(z.looseObject({
+        id: z.string(),
+        company: z.string(),
+        title: z.string(),
+        location: z.string().optional(),
+        startDate: z.string(),
+        endDate: z.string().optional(),
+        current: z.boolean(),
+        bullets: z.array(z.string()),
+    })),
+    projects: z.array(z.looseObject({
+        id: z.string(),
+        name: z.string(),
+        url: z.string().optional(),
+        description: z.string(),
+        technologies: z.array(z.string()),
+        bullets: z.array(z.string()),
+        dateRange: z.string().optional(),
+        repoId: z.string().optional(),
+    })),
+    education: z.array(z.looseObject({
+        id: z.string(),
+        institution: z.string(),
+        degree: z.string(),
+        field: z.string(),
+        graduationDate: z.string().optional(),
+        gpa: z.string().optional(),
+        highlights: z.array(z.string()).optional(),
+    })),
+    certifications: z.array(z.looseObject({
+        id: z.string(),
+        name: z.string(),
+        issuer: z.string(),
+        date: z.string().optional(),
+        url: z.string().optional(),
+    })).optional(),
+    customSections: z.array(customSectionSchema),
+    sectionOrder: z.array(z.string()),
+    sectionVisibility: z.record(z.string(), z.boolean()),
+    metadata: z.looseObject({
+        createdAt: z.string(),
+        updatedAt: z.string(),
+        generatedFrom: z.object({
+            githubUsername: z.string(),
+            reposAnalyzed: z.number(),
+            generatedAt: z.string(),
+        }).optional(),
+        jsonResume: z.object({
+            fields: z.record(z.string(), z.record(z.string(), z.unknown())),
+        }).optional(),
+        tailoredFrom: z.looseObject({
+            resumeId: z.string(),
+            jobTitle: z.string().optional(),
+            jobDescription: z.string(),
+            tailoredAt: z.string(),
+        }).optional(),
+    }),
+});
+
+// ============================================
+// Migrations
+// ============================================
+
+type Document = Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version n document to version n + 1
+const MIGRATIONS: Record<number, (doc: Document) => Document> = {
+    0: migrateUnversioned,
+};
+
+/**
+ * Upgrade a stored or imported resume to the current schema and validate it
+ * Throws ResumeMigrationError when the document cannot be migrated.
+ */
+export function migrateResume(input: unknown): Resume {
+    if (!isDocument(input)) {
+        throw new ResumeMigrationError('Resume must be a JSON object');
+    }
+
+    const version = input.schemaVersion ?? 0;
+    if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+        throw new ResumeMigrationError(`Invalid schemaVersion ${JSON.stringify(version)}`);
+    }
+    if (version > RESUME_SCHEMA_VERSION) {
+        throw new ResumeMigrationError(
+            `Resume uses schema version ${version}, but this app only supports up to version ${RESUME_SCHEMA_VERSION}. Update the app to open it`
+        );
+    }
+
+    let doc = stripNulls(input) as Document;
+    for (let v = version; v < RESUME_SCHEMA_VERSION; v++) {
+        const migrate = MIGRATIONS[v];
+        if (!migrate) {
+            throw new ResumeMigrationError(`No migration from schema version ${v} to ${v + 1}`);
+        }
+        doc = { ...migrate(doc), schemaVersion: v + 1 };
+    }
+
+    const result = resumeSchema.safeParse(doc);
+    if (!result.success) {
+        throw new ResumeMigrationError(
+            version === RESUME_SCHEMA_VERSION
+                ? 'Resume is not valid'
+                : `Resume is not valid after migrating from schema version ${version}`,
+            result.error.issues.map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        );
+    }
+
+    return result.data as Resume;
+}
+
+/**
+ * Whether a parsed JSON document is in this app's Resume format rather than JSON Resume
+ */
+export function isResumeDocument(value: unknown): boolean {
+    return isDocument(value) && ('schemaVersion' in value || isDocument(value.header));
+}
+
+/**
+ * Non-throwing variant of migrateResume
+ */
+export function safeMigrateResume(input: unknown):
+    | { success: true; resume: Resume }
+    | { success: false; error: ResumeMigrationError } {
+    try {
+        return { success: true, resume: migrateResume(input) };
+    } catch (error) {
+        if (error instanceof ResumeMigrationError) return { success: false, error };
+        throw error;
+    }
+}
+
+/**
+ * v0 → v1: resumes saved before schemaVersion existed
+ *
+ * Fills in fields added over time (customSections, sectionOrder,
+ * sectionVisibility, certifications), converts the original fixed skill
+ * lists ({ languages, frameworks, databases, tools }) to categories, and
+ * gives list items ids.
+ */
+function migrateUnversioned(doc: Document): Document {
+    const now = new Date().toISOString();
+    const metadata = isDocument(doc.metadata) ? doc.metadata : {};
+    const header = isDocument(doc.header) ? doc.header : {};
+    const customSections = asDocuments(doc.customSections).map((section, i) => withId(section, `custom-${i}`));
+    const customIds = customSections.map(section => section.id as string);
+    const sectionOrder = Array.isArray(doc.sectionOrder) ? doc.sectionOrder : [...DEFAULT_SECTION_ORDER];
+
+    return {
+        ...doc,
+        userId: typeof doc.userId === 'string' ? doc.userId : 'anonymous',
+        template: doc.template || 'modern',
+        header: { name: '', title: '', email: '', ...header },
+        summary: doc.summary ?? '',
+        skills: { categories: migrateSkills(doc.skills) },
+        experience: asDocuments(doc.experience).map((exp, i) => ({
+            company: '',
+            title: '',
+            startDate: '',
+            current: !exp.endDate,
+            ...withId(exp, `experience-${i}`),
+            bullets: asList(exp.bullets),
+        })),
+        projects: asDocuments(doc.projects).map((project, i) => ({
+            name: '',
+            description: '',
+            ...withId(project, `project-${i}`),
+            technologies: asList(project.technologies),
+            bullets: asList(project.bullets),
+        })),
+        education: asDocuments(doc.education).map((edu, i) => ({
+            institution: '',
+            degree: '',
+            field: '',
+            ...withId(edu, `education-${i}`),
+        })),
+        certifications: asDocuments(doc.certifications).map((cert, i) => ({
+            name: '',
+            issuer: '',
+            ...withId(cert, `certification-${i}`),
+        })),
+        customSections: customSections.map(section => ({
+            title: '',
+            type: 'text',
+            content: '',
+            ...section,
+            visible: section.visible !== false,
+        })),
+        // Custom sections missing from an old order are appended so they stay visible
+        sectionOrder: [...sectionOrder, ...customIds.filter(id => !sectionOrder.includes(id))],
+        sectionVisibility: isDocument(doc.sectionVisibility)
+            ? { ...DEFAULT_SECTION_VISIBILITY, ...doc.sectionVisibility }
+            : { ...DEFAULT_SECTION_VISIBILITY },
+        metadata: {
+            ...metadata,
+            createdAt: metadata.createdAt || metadata.updatedAt || now,
+            updatedAt: metadata.updatedAt || metadata.createdAt || now,
+        },
+    };
+}
+
+function migrateSkills(skills: unknown): unknown[] {
+    if (isDocument(skills) && Array.isArray(skills.categories)) {
+        return skills.categories;
+    }
+
+    // A flat list of skills
+    if (Array.isArray(skills)) {
+        return [{ id: 'skills', name: 'Skills', items: skills }];
+    }
+
+    if (!isDocument(skills)) {
+        return DEFAULT_SKILL_CATEGORIES.map(cat => ({ ...cat, items: [] }));
+    }
+
+    // The original fixed lists, in their usual order, then any others
+    const defaults = DEFAULT_SKILL_CATEGORIES.map(cat => ({
+        ...cat,
+        items: Array.isArray(skills[cat.id]) ? skills[cat.id] : [],
+    }));
+    const known = new Set(DEFAULT_SKILL_CATEGORIES.map(cat => cat.id));
+    const others = Object.entries(skills)
+        .filter(([key, items]) => !known.has(key) && Array.isArray(items))
+        .map(([key, items]) => ({ id: key, name: key.charAt(0).toUpperCase() + key.slice(1), items }));
+
+    return [...defaults, ...others];
+}
+
+// null means "not set" everywhere in the Resume shape; LLM output and old saves use it freely
+function stripNulls(value: unknown): unknown {
+    if (Array.isArray(value)) return value.filter(item => item !== null).map(stripNulls);
+    if (!isDocument(value)) return value;
+
+    return Object.fromEntries(
+        Object.entries(value)
+            .filter(([, item]) => item !== null)
+            .map(([key, item]) => [key, stripNulls(item)])
+    );
+}
+
+function withId(item: Document, fallback: string): Document {
+    return typeof item.id === 'string' && item.id ? item : { ...item, id: fallback };
+}
+
+function asDocuments(value: unknown): Document[] {
+    return Array.isArray(value) ? value.filter(isDocument) : [];
+}
+
+function asList(value: unknown): unknown[] {
+    return Array.isArray(value) ? value : [];
+}
+
+function isDocument(value: unknown): value is Document {
+    return !!value && typeof value === 'object' && !Array.isArray(value);
+}
@@ -0,0 +1,134 @@
+/**
+ * Concurrency Scheduling
+ *
+ * Bounds how many API calls run at once. Calls over the limit wait their turn
+ * in order. When an API answers with a rate limit, the limiter pauses so calls
+ * that have not started yet wait out the backoff together.
+ */
+
+import { sleep } from './utils';
+
+const DEFAULT_BACKOFF_MS = 5000;
+const MAX_BACKOFF_MS = 60000;
+
+export class ConcurrencyLimiter {
+    readonly limit: number;
+    private active = 0;
+    private waiting: Array<() => void> = [];
+    private resumeAt = 0;
+
+    constructor(limit: number) {
+        this.limit = Math.max(1, Math.floor(limit) || 1);
+    }
+
+    /**
+     * Run a task once a slot is free. Rate limit errors pause the limiter
+     * before they are rethrown, so a retry waits for the backoff.
+     */
+    async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        await this.acquire(signal);
+
+        try {
+            const wait = this.resumeAt - Date.now();
+            if (wait > 0) await sleep(wait, signal);
+
+            return await task();
+        } catch (error) {
+            const backoffMs = getRateLimitBackoffMs(error);
+            if (backoffMs !== null) this.pause(backoffMs);
+            throw error;
+        } finally {
+            this.release();
+        }
+    }
+
+    /**
+     * Hold back tasks that have not started yet for a while
+     */
+    pause(ms: number): void {
+        this.resumeAt = Math.max(this.resumeAt, Date.now() + ms);
+    }
+
+    private acquire(signal?: AbortSignal): Promise<void> {
+        signal?.throwIfAborted();
+
+        if (this.active < this.limit) {
+            this.active++;
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => {
+            const grant = () => {
+                signal?.removeEventListener('abort', onAbort);
+                resolve();
+            };
+            const onAbort = () => {
+                const index = this.waiting.indexOf(grant);
+                if (index !== -1) this.waiting.splice(index, 1);
+                reject(signal!.reason);
+            };
+
+            this.waiting.push(grant);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    private release(): void {
+        const next = this.waiting.shift();
+        if (next) {
+            next(); // The slot passes straight to the next task
+        } else {
+            this.active--;
+        }
+    }
+}
+
+/**
+ * How long a rate-limited API asks us to wait, or null if the error is not a
+ * rate limit. Understands OpenAI-style 429s and GitHub's 403/429 responses
+ * with x-ratelimit-* headers.
+ */
+export function getRateLimitBackoffMs(error: unknown): number | null {
+    const err = error as { status?: number; headers?: unknown; response?: { headers?: unknown } } | null;
+    if (!err) return null;
+
+    const header = (name: string) => readHeader(err.headers, name) ?? readHeader(err.response?.headers, name);
+
+    const rateLimited = err.status === 429 || (err.status === 403 && header('x-ratelimit-remaining') === '0');
+    if (!rateLimited) return null;
+
+    const retryAfter = Number(header('retry-after'));
+    if (retryAfter > 0) {
+        return Math.min(retryAfter * 1000, MAX_BACKOFF_MS);
+    }
+
+    const reset = Number(header('x-ratelimit-reset'));
+    if (reset > 0) {
+        return Math.min(Math.max(reset * 1000 - Date.now(), 0) + 1000, MAX_BACKOFF_MS);
+    }
+
+    return DEFAULT_BACKOFF_MS;
+}
+
+// Header bags come as fetch Headers (OpenAI) or plain objects (Octokit)
+function readHeader(headers: unknown, name: string): string | null {
+    if (!headers || typeof headers !== 'object') return null;
+
+    if (typeof (headers as Headers).get === 'function') {
+        return (headers as Headers).get(name);
+    }
+
+    const value = (headers as Record<string, unknown>)[name];
+    return value === undefined || value === null ? null : String(value);
+}
+
+/**
+ * Run a task through a limiter when one is given, otherwise right away
+ */
+export function runLimited<T>(
+    limiter: ConcurrencyLimiter | undefined,
+    task: () => Promise<T>,
+    signal?: AbortSignal
+): Promise<T> {
+    return limiter ? limiter.run(task, signal) : task();
+}
@@ -0,0 +1,87 @@
+/**
+ * Server Sessions
+ *
+ * The signed-in user for server-side storage, in an httpOnly cookie signed
+ * with SESSION_SECRET. Sessions are only issued once GitHub has confirmed
+ * who the user is (see /api/session), so the cookie, unlike anything the
+ * client sends, can be trusted. Server-only.
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { NextResponse, type NextRequest } from 'next/server';
+
+export const SESSION_COOKIE = 'session';
+export const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60;
+
+interface SessionPayload {
+    userId: string;
+    expiresAt: number; // Unix time in ms
+}
+
+let developmentSecret: string | null = null;
+
+function getSessionSecret(): string {
+    const secret = process.env.SESSION_SECRET;
+    if (secret) return secret;
+
+    if (process.env.NODE_ENV === 'production') {
+        throw new Error('SESSION_SECRET is required to sign sessions in production');
+    }
+    // Sessions last until the dev server restarts
+    if (!developmentSecret) {
+        console.warn('SESSION_SECRET is not set; using a temporary secret for this process');
+        developmentSecret = randomBytes(32).toString('hex');
+    }
+    return developmentSecret;
+}
+
+function sign(data: string): string {
+    return createHmac('sha256', getSessionSecret()).update(data).digest('base64url');
+}
+
+/**
+ * Create the signed cookie value for a user
+ */
+export function createSessionToken(userId: string): string {
+    const payload: SessionPayload = { userId, expiresAt: Date.now() + SESSION_MAX_AGE_SECONDS * 1000 };
+    const data = Buffer.from(JSON.stringify(payload)).toString('base64url');
+    return `${data}.${sign(data)}`;
+}
+
+/**
+ * The user of a session cookie, or null when it is missing, tampered with or expired
+ */
+export function readSessionToken(token: string | undefined): string | null {
+    const [data, signature] = token?.split('.') ?? [];
+    if (!data || !signature) return null;
+
+    const expected = Buffer.from(sign(data));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+    try {
+        const payload = JSON.parse(Buffer.from(data, 'base64url').toString('utf-8')) as SessionPayload;
+        return typeof payload.userId === 'string' && payload.userId && payload.expiresAt > Date.now()
+            ? payload.userId
+            : null;
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * The signed-in user of a request, or null
+ */
+export function getSessionUserId(request: NextRequest): string | null {
+    return readSessionToken(request.cookies.get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * The response for requests that need a signed-in user
+ */
+export function unauthorizedResponse(): NextResponse {
+    return NextResponse.json(
+        { error: 'Unauthorized', message: 'Sign in with GitHub to sync resumes' },
+        { status: 401 }
+    );
+}
@@ -2,26 +2,44 @@
  * Resume Storage Service
  * 
  * Handles saving and loading resumes from storage.
- * Uses localStorage for simplicity - can be extended to use a database.
+ * localStorage is the client's offline cache; changes are pushed to
+ * /api/resumes in the background and queued while the server is unreachable.
  */
 
-import { Resume } from '@/types';
+import { Resume, ResumeRevision, RevisionSource, RepositoryAnalysis, RESUME_SCHEMA_VERSION } from '@/types';
 import { generateId } from './utils';
+import { hasContentChanges } from './resume-diff';
+import { safeMigrateResume } from './resume-schema';
+import { applySharedFacts, isVariantOf } from './tailor';
 
 const STORAGE_KEY = 'github_resumes';
+const PENDING_KEY = 'github_resumes_pending';
+const REVISIONS_KEY = 'github_resume_revisions';
+const UNSYNCED_REVISIONS_KEY = 'github_resume_revisions_unsynced';
+const ANALYSES_KEY = 'github_resume_analyses';
+
+// Revisions kept per resume in localStorage; the server keeps the full history
+const MAX_LOCAL_REVISIONS = 50;
+
+type PendingChange = 'save' | 'delete';
 
 /**
- * Get all saved resumes
+ * Get all saved resumes, upgraded to the current schema
+ * Resumes that cannot be migrated are skipped (and left untouched in storage).
  */
 export function getResumes(): Resume[] {
-    if (typeof window === 'undefined') return [];
+    const resumes: Resume[] = [];
 
-    try {
-        const data = localStorage.getItem(STORAGE_KEY);
-        return data ? JSON.parse(data) : [];
-    } catch {
-        return [];
+    for (const doc of readStoredResumes()) {
+        const result = safeMigrateResume(doc);
+        if (result.success) {
+            resumes.push(result.resume);
+        } else {
+            console.error(`Skipping stored resume ${getDocumentId(doc) || '(no id)'}: ${result.error.message}`);
+        }
     }
+
+    return resumes;
 }
 
 /**
@@ -34,8 +52,9 @@ export function getResume(id: string): Resume | null {
 
 /**
  * Save a resume
+ * Records a revision when the content changed since the last one.
  */
-export function saveResume(resume: Resume): Resume {
+export function saveResume(resume: Resume, source: RevisionSource = 'edit'): Resume {
     const resumes = getResumes();
     const existing = resumes.findIndex(r => r.id === resume.id);
 
@@ -53,7 +72,10 @@ export function saveResume(resume: Resume): Resume {
         resumes.push(updatedResume);
     }
 
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(resumes));
+    writeResumes(resumes);
+    // Queued first so the edit still syncs if its revision cannot be stored
+    queueChange(updatedResume.id, 'save');
+    recordRevision(updatedResume, source);
     return updatedResume;
 }
 
@@ -68,7 +90,10 @@ export function deleteResume(id: string): boolean {
         return false;
     }
 
-    localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered));
+    writeResumes(filtered);
+    deleteRevisions(id);
+    deleteAnalyses(id);
+    queueChange(id, 'delete');
     return true;
 }
 
@@ -79,6 +104,7 @@ export function createEmptyResume(userId: string = 'anonymous'): Resume {
     const now = new Date().toISOString();
 
     return {
+        schemaVersion: RESUME_SCHEMA_VERSION,
         id: generateId(),
         userId,
         template: 'modern',
@@ -125,7 +151,7 @@ export function createEmptyResume(userId: string = 'anonymous'): Resume {
 /**
  * Duplicate a resume
  */
-export function duplicateResume(resume: Resume): Resume {
+export function duplicateResume(resume: Resume, source: RevisionSource = 'edit'): Resume {
     const now = new Date().toISOString();
 
     return saveResume({
@@ -136,5 +162,422 @@ export function duplicateResume(resume: Resume): Resume {
             createdAt: now,
             updatedAt: now,
         },
+    }, source);
+}
+
+/**
+ * Get the variants tailored from a resume
+ */
+export function getVariants(baseId: string): Resume[] {
+    return getResumes().filter(resume => isVariantOf(resume, baseId));
+}
+
+/**
+ * Copy a base resume's shared facts (contact info, education, certifications) into some of its variants
+ */
+export function propagateSharedFacts(base: Resume, variantIds: string[]): Resume[] {
+    return getVariants(base.id)
+        .filter(variant => variantIds.includes(variant.id))
+        .map(variant => saveResume(applySharedFacts(variant, base), 'base-update'));
+}
+
+/**
+ * Keep the repository analyses a generated resume was built from
+ */
+export function saveAnalyses(resumeId: string, analyses: RepositoryAnalysis[]): void {
+    const all = readAnalyses();
+    all[resumeId] = analyses;
+    localStorage.setItem(ANALYSES_KEY, JSON.stringify(all));
+}
+
+/**
+ * Get the repository analyses behind a resume
+ * Tailored variants use their base resume's analyses.
+ */
+export function getAnalyses(resume: Resume): RepositoryAnalysis[] {
+    const all = readAnalyses();
+    return all[resume.id] || all[resume.metadata.tailoredFrom?.resumeId || ''] || [];
+}
+
+/**
+ * Get the locally cached revisions of a resume, newest first
+ * Revisions are stored as recorded and upgraded to the current schema here.
+ */
+export function getRevisions(resumeId: string): ResumeRevision[] {
+    return [...(readRevisions()[resumeId] || [])].reverse().flatMap(revision => {
+        const result = safeMigrateResume(revision.resume);
+        return result.success ? [{ ...revision, resume: result.resume }] : [];
+    });
+}
+
+/**
+ * Load the revision history of a resume from the server, merged with local revisions
+ * Falls back to the local revisions when offline.
+ */
+export async function loadRevisions(resumeId: string): Promise<ResumeRevision[]> {
+    const local = getRevisions(resumeId);
+    await flushPendingChanges();
+
+    try {
+        const response = await fetch(`/api/resumes/${encodeURIComponent(resumeId)}/revisions`);
+        if (!response.ok) return local;
+
+        const { revisions } = await response.json() as { revisions: ResumeRevision[] };
+        const byId = new Map([...revisions, ...local].map(r => [r.id, r]));
+
+        return [...byId.values()].sort((a, b) =>
+            new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+        );
+    } catch {
+        return local;
+    }
+}
+
+/**
+ * Restore a resume to a revision
+ * The restore itself is saved as a new revision, so it can be undone from the history.
+ */
+export function restoreRevision(revision: ResumeRevision): Resume {
+    const current = getResume(revision.resumeId);
+
+    return saveResume({
+        ...revision.resume,
+        id: revision.resumeId,
+        metadata: {
+            ...revision.resume.metadata,
+            createdAt: current?.metadata.createdAt || revision.resume.metadata.createdAt,
+        },
+    }, 'restore');
+}
+
+/**
+ * Copy a revision into a new resume
+ */
+export function forkRevision(revision: ResumeRevision): Resume {
+    return duplicateResume(revision.resume, 'fork');
+}
+
+/**
+ * Load a resume, preferring the server copy when it is newer than the cache
+ * Falls back to the cached copy when offline.
+ */
+export async function loadResume(id: string): Promise<Resume | null> {
+    const cached = getResume(id);
+    if (getPendingChanges()[id]) return cached; // Local edits not pushed yet
+
+    try {
+        const response = await fetch(`/api/resumes/${encodeURIComponent(id)}`);
+        if (!response.ok) return cached;
+
+        const { resume } = await response.json() as { resume: Resume };
+        if (cached && !isNewer(resume, cached)) return cached;
+
+        cacheResumes([resume]);
+        return resume;
+    } catch {
+        return cached;
+    }
+}
+
+/**
+ * Push pending changes, then merge the server's resumes into the cache
+ * The newer copy of each resume (by updatedAt) wins. Returns the merged list.
+ */
+export async function syncResumes(): Promise<Resume[]> {
+    await flushPendingChanges();
+
+    try {
+        const response = await fetch('/api/resumes');
+        if (!response.ok) return getResumes();
+
+        const { resumes: remote } = await response.json() as { resumes: Resume[] };
+        const remoteById = new Map(remote.map(r => [r.id, r]));
+
+        // Cached resumes the server lacks or has an older copy of get pushed up
+        for (const local of getResumes()) {
+            const server = remoteById.get(local.id);
+            if (!server || isNewer(local, server)) queueChange(local.id, 'save');
+        }
+
+        cacheResumes(remote);
+        return getResumes();
+    } catch {
+        return getResumes();
+    }
+}
+
+/**
+ * Forget the resumes, revisions, analyses and queued changes cached in this
+ * browser, so whoever signs in next neither sees nor uploads them
+ */
+export function clearLocalResumes(): void {
+    if (typeof window === 'undefined') return;
+
+    for (const key of [STORAGE_KEY, PENDING_KEY, REVISIONS_KEY, UNSYNCED_REVISIONS_KEY, ANALYSES_KEY]) {
+        localStorage.removeItem(key);
+    }
+}
+
+let flushing: Promise<void> | null = null;
+let queuedWhileFlushing = false;
+
+/**
+ * Send queued changes to the server
+ * Stops at the first network failure and keeps the rest queued.
+ */
+export function flushPendingChanges(): Promise<void> {
+    if (typeof window === 'undefined') return Promise.resolve();
+
+    if (flushing) {
+        queuedWhileFlushing = true;
+        return flushing;
+    }
+
+    // Pushed on a later tick, so a change goes out with the revision recorded right after it
+    flushing = Promise.resolve().then(pushPendingChanges).finally(() => {
+        flushing = null;
+        if (queuedWhileFlushing) {
+            queuedWhileFlushing = false;
+            void flushPendingChanges();
+        }
     });
+    return flushing;
+}
+
+async function pushPendingChanges(): Promise<void> {
+    const pending = getPendingChanges();
+
+    for (const [id, change] of Object.entries(pending)) {
+        const path = `/api/resumes/${encodeURIComponent(id)}`;
+        const resume = getResume(id);
+        let revisions: ResumeRevision[] = [];
+        let response: Response;
+
+        try {
+            if (change === 'delete') {
+                response = await fetch(path, { method: 'DELETE' });
+            } else {
+                if (!resume) {
+                    clearChange(id, change);
+                    continue;
+                }
+                revisions = getUnsyncedRevisions(id);
+                response = await fetch(path, {
+                    method: 'PUT',
+                    headers: { 'Content-Type': 'application/json' },
+                    body: JSON.stringify({ resume, revisions }),
+                });
+            }
+        } catch {
+            return; // Offline - retry on the next change or sync
+        }
+
+        // Signed out - keep the changes for when the user signs in
+        if (response.status === 401) return;
+
+        // 404 on delete means it was never stored; other 4xx will not succeed on retry
+        if (response.ok || (response.status >= 400 && response.status < 500)) {
+            if (response.ok) markRevisionsSynced(revisions.map(r => r.id));
+            clearChange(id, change, resume?.metadata.updatedAt);
+        } else {
+            console.error(`Resume sync failed for ${id}: ${response.status}`);
+            return;
+        }
+    }
+}
+
+function queueChange(id: string, change: PendingChange): void {
+    const pending = getPendingChanges();
+    pending[id] = change;
+    localStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+    void flushPendingChanges();
+}
+
+// Only clear the change that was sent, not one queued while the request was in flight
+function clearChange(id: string, change: PendingChange, sentUpdatedAt?: string): void {
+    const pending = getPendingChanges();
+    if (pending[id] !== change) return;
+    if (sentUpdatedAt && getResume(id)?.metadata.updatedAt !== sentUpdatedAt) return;
+
+    delete pending[id];
+    localStorage.setItem(PENDING_KEY, JSON.stringify(pending));
+}
+
+function getPendingChanges(): Record<string, PendingChange> {
+    if (typeof window === 'undefined') return {};
+
+    try {
+        const data = localStorage.getItem(PENDING_KEY);
+        return data ? JSON.parse(data) : {};
+    } catch {
+        return {};
+    }
+}
+
+// Server copies are written into the cache unless the cached copy is newer
+function cacheResumes(remote: Resume[]): void {
+    const resumes = getResumes();
+    const pending = getPendingChanges();
+
+    for (const resume of remote) {
+        if (pending[resume.id] === 'delete') continue;
+
+        const index = resumes.findIndex(r => r.id === resume.id);
+        if (index === -1) {
+            resumes.push(resume);
+        } else if (isNewer(resume, resumes[index])) {
+            resumes[index] = resume;
+        }
+    }
+
+    writeResumes(resumes);
+}
+
+function recordRevision(resume: Resume, source: RevisionSource): void {
+    const all = readRevisions();
+    const revisions = all[resume.id] || [];
+    const latest = revisions[revisions.length - 1];
+
+    if (latest && !hasContentChanges(latest.resume, resume)) return;
+
+    const revision: ResumeRevision = {
+        id: generateId(),
+        resumeId: resume.id,
+        source,
+        createdAt: resume.metadata.updatedAt,
+        resume,
+    };
+
+    const next = [...revisions, revision];
+    const evicted = new Set(next.slice(0, -MAX_LOCAL_REVISIONS).map(r => r.id));
+
+    all[resume.id] = next.slice(-MAX_LOCAL_REVISIONS);
+    writeRevisions(all);
+    writeUnsyncedRevisionIds([...readUnsyncedRevisionIds().filter(id => !evicted.has(id)), revision.id]);
+}
+
+function deleteRevisions(resumeId: string): void {
+    const all = readRevisions();
+    const ids = new Set((all[resumeId] || []).map(r => r.id));
+
+    delete all[resumeId];
+    writeRevisions(all);
+    writeUnsyncedRevisionIds(readUnsyncedRevisionIds().filter(id => !ids.has(id)));
+}
+
+function readAnalyses(): Record<string, RepositoryAnalysis[]> {
+    if (typeof window === 'undefined') return {};
+
+    try {
+        const data = localStorage.getItem(ANALYSES_KEY);
+        return data ? JSON.parse(data) : {};
+    } catch {
+        return {};
+    }
+}
+
+function deleteAnalyses(resumeId: string): void {
+    const all = readAnalyses();
+    if (!all[resumeId]) return;
+
+    delete all[resumeId];
+    localStorage.setItem(ANALYSES_KEY, JSON.stringify(all));
+}
+
+function getUnsyncedRevisions(resumeId: string): ResumeRevision[] {
+    const unsynced = new Set(readUnsyncedRevisionIds());
+    return (readRevisions()[resumeId] || []).filter(r => unsynced.has(r.id));
+}
+
+function markRevisionsSynced(ids: string[]): void {
+    if (ids.length === 0) return;
+    const synced = new Set(ids);
+    writeUnsyncedRevisionIds(readUnsyncedRevisionIds().filter(id => !synced.has(id)));
+}
+
+function readRevisions(): Record<string, ResumeRevision[]> {
+    if (typeof window === 'undefined') return {};
+
+    try {
+        const data = localStorage.getItem(REVISIONS_KEY);
+        return data ? JSON.parse(data) : {};
+    } catch {
+        return {};
+    }
+}
+
+// When storage is full, the oldest revisions make room; synced ones go first, the server keeps those
+function writeRevisions(revisions: Record<string, ResumeRevision[]>): void {
+    for (;;) {
+        try {
+            localStorage.setItem(REVISIONS_KEY, JSON.stringify(revisions));
+            return;
+        } catch (error) {
+            if (!isQuotaExceeded(error) || !evictOldestRevision(revisions)) throw error;
+        }
+    }
+}
+
+function evictOldestRevision(revisions: Record<string, ResumeRevision[]>): boolean {
+    const unsynced = new Set(readUnsyncedRevisionIds());
+    const all = Object.values(revisions).flat();
+    const candidates = all.some(r => !unsynced.has(r.id)) ? all.filter(r => !unsynced.has(r.id)) : all;
+    const oldest = candidates.reduce<ResumeRevision | null>(
+        (found, r) => (!found || r.createdAt < found.createdAt ? r : found),
+        null
+    );
+    if (!oldest) return false;
+
+    revisions[oldest.resumeId] = revisions[oldest.resumeId].filter(r => r.id !== oldest.id);
+    return true;
+}
+
+function isQuotaExceeded(error: unknown): boolean {
+    return error instanceof DOMException
+        && (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
+
+function readUnsyncedRevisionIds(): string[] {
+    try {
+        const data = localStorage.getItem(UNSYNCED_REVISIONS_KEY);
+        return data ? JSON.parse(data) : [];
+    } catch {
+        return [];
+    }
+}
+
+function writeUnsyncedRevisionIds(ids: string[]): void {
+    localStorage.setItem(UNSYNCED_REVISIONS_KEY, JSON.stringify(ids));
+}
+
+function readStoredResumes(): unknown[] {
+    if (typeof window === 'undefined') return [];
+
+    try {
+        const data = localStorage.getItem(STORAGE_KEY);
+        const parsed = data ? JSON.parse(data) : [];
+        return Array.isArray(parsed) ? parsed : [];
+    } catch {
+        return [];
+    }
+}
+
+// Unreadable documents are kept as-is so a newer app version can still open them
+function writeResumes(resumes: Resume[]): void {
+    const ids = new Set(resumes.map(r => r.id));
+    const unreadable = readStoredResumes().filter(doc =>
+        !ids.has(getDocumentId(doc)) && !safeMigrateResume(doc).success
+    );
+
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([...resumes, ...unreadable]));
+}
+
+function getDocumentId(doc: unknown): string {
+    return doc && typeof doc === 'object' && typeof (doc as { id?: unknown }).id === 'string'
+        ? (doc as { id: string }).id
+        : '';
+}
+
+function isNewer(a: Resume, b: Resume): boolean {
+    return new Date(a.metadata.updatedAt).getTime() > new Date(b.metadata.updatedAt).getTime();
 }
@@ -0,0 +1,148 @@
+/**
+ * Resume Tailoring
+ *
+ * Builds a variant of a base resume for one job posting: projects ordered by
+ * relevance with unrelated ones hidden, skill categories reprioritized, and a
+ * link back to the base in `metadata.tailoredFrom`. Facts shared with the base
+ * (contact info, education, certifications) can later be copied into variants.
+ */
+
+import type { Resume, ProjectItem } from '@/types';
+import { projectVisibilityKey } from '@/types/resume';
+import { generateId } from '@/lib/utils';
+import { diffResumes, type ResumeChange } from '@/lib/resume-diff';
+import {
+    extractJobRequirements,
+    mentionsRequirement,
+    type JobDescriptionAnalysis,
+    type JobRequirement,
+} from '@/lib/job-match';
+
+// Matches the ATS scorer, which flags resumes with fewer than 3 projects
+export const MIN_VISIBLE_PROJECTS = 3;
+
+export interface ProjectRelevance {
+    projectId: string;
+    name: string;
+    score: number;      // Weighted count of matched requirements, required ones count double
+    matched: string[];  // Labels of the requirements the project mentions
+    visible: boolean;
+}
+
+export interface TailoredResume {
+    resume: Resume;
+    job: JobDescriptionAnalysis;
+    projects: ProjectRelevance[];
+    matchedSkills: string[]; // Resume skills the posting asks for, most important first
+}
+
+/**
+ * Build a variant of a resume tailored to a job posting
+ * The summary is left as is; the tailor API route rewrites it with the LLM.
+ */
+export function tailorResume(base: Resume, jobDescription: string): TailoredResume {
+    const job = extractJobRequirements(jobDescription);
+    const terms = job.requirements.filter(r => r.kind === 'skill' || r.kind === 'tool');
+    const now = new Date().toISOString();
+
+    // Stable sort keeps the original order among equally relevant projects
+    const ranked = base.projects
+        .map((project, index) => ({ project, index, ...scoreText(getProjectText(project), terms) }))
+        .sort((a, b) => b.score - a.score || a.index - b.index);
+
+    // Without recognizable requirements there is nothing to rank by, so nothing is hidden
+    const projects: ProjectRelevance[] = ranked.map(({ project, score, matched }, rank) => ({
+        projectId: project.id,
+        name: project.name,
+        score,
+        matched,
+        visible: terms.length === 0 || score > 0 || rank < MIN_VISIBLE_PROJECTS,
+    }));
+
+    const sectionVisibility = { ...base.sectionVisibility };
+    for (const project of projects) {
+        sectionVisibility[projectVisibilityKey(project.projectId)] = project.visible;
+    }
+
+    const categories = base.skills.categories
+        .map((category, index) => {
+            const items = category.items
+                .map((item, i) => ({ item, i, ...scoreText(item, terms) }))
+                .sort((a, b) => b.score - a.score || a.i - b.i);
+            return {
+                category: { ...category, items: items.map(({ item }) => item) },
+                index,
+                score: items.reduce((sum, { score }) => sum + score, 0),
+                matched: items.filter(({ score }) => score > 0),
+            };
+        })
+        .sort((a, b) => b.score - a.score || a.index - b.index);
+
+    const matchedSkills = categories
+        .flatMap(({ matched }) => matched)
+        .sort((a, b) => b.score - a.score)
+        .map(({ item }) => item);
+
+    return {
+        resume: {
+            ...base,
+            id: generateId(),
+            projects: ranked.map(({ project }) => project),
+            skills: { categories: categories.map(({ category }) => category) },
+            sectionVisibility,
+            metadata: {
+                ...base.metadata,
+                createdAt: now,
+                updatedAt: now,
+                tailoredFrom: {
+                    resumeId: base.id,
+                    jobTitle: job.title,
+                    jobDescription,
+                    tailoredAt: now,
+                },
+            },
+        },
+        job,
+        projects,
+        matchedSkills,
+    };
+}
+
+/**
+ * Copy the facts a variant shares with its base into the variant
+ * The header title stays, since variants often retitle themselves for the job.
+ */
+export function applySharedFacts(variant: Resume, base: Resume): Resume {
+    return {
+        ...variant,
+        header: { ...base.header, title: variant.header.title },
+        education: base.education,
+        certifications: base.certifications,
+    };
+}
+
+/**
+ * Shared facts that differ between a variant and its base, as changes to the variant
+ */
+export function getSharedFactChanges(variant: Resume, base: Resume): ResumeChange[] {
+    return diffResumes(variant, applySharedFacts(variant, base));
+}
+
+/**
+ * Whether a resume is a variant tailored from the given base
+ */
+export function isVariantOf(resume: Resume, baseId: string): boolean {
+    return resume.metadata.tailoredFrom?.resumeId === baseId;
+}
+
+function scoreText(text: string, terms: JobRequirement[]): { score: number; matched: string[] } {
+    const matched = terms.filter(term => mentionsRequirement(term, text));
+    return {
+        score: matched.reduce((sum, term) => sum + (term.priority === 'required' ? 2 : 1), 0),
+        matched: matched.map(term => term.label),
+    };
+}
+
+function getProjectText(project: ProjectItem): string {
+    return [project.name, project.description, ...project.technologies, ...project.bullets].join('\n');
+}
@@ -13,13 +13,32 @@
 
 import { encode } from 'gpt-tokenizer';
 
-// Token limits for different OpenAI models
+// Token limits for the models prompts are budgeted for
 export const MODEL_TOKEN_LIMITS = {
     'gpt-4o': 128000,
     'gpt-4o-mini': 128000,
     'gpt-4-turbo': 128000,
     'gpt-4': 8192,
     'gpt-3.5-turbo': 16385,
+    // Anthropic
+    'claude-haiku-4-5': 200000,
+    'claude-sonnet-4-5': 200000,
+    'claude-opus-4-5': 200000,
+    'claude-opus-4-1': 200000,
+    'claude-sonnet-4': 200000,
+    'claude-opus-4': 200000,
+    'claude-3-7-sonnet': 200000,
+    'claude-3-5-haiku': 200000,
+    // Groq
+    'openai/gpt-oss-120b': 131072,
+    // Local models, at the context length local servers usually run them
+    // with rather than their trained maximum
+    'llama3.1:8b': 8192,
+    'llama3.2:3b': 8192,
+    'mistral:7b': 8192,
+    'gemma2:9b': 8192,
+    'qwen2.5:7b': 32768,
+    'qwen2.5-coder:7b': 32768,
 } as const;
 
 export type ModelName = keyof typeof MODEL_TOKEN_LIMITS;
@@ -27,6 +46,30 @@ export type ModelName = keyof typeof MODEL_TOKEN_LIMITS;
 // Default model for our application
 export const DEFAULT_MODEL: ModelName = 'gpt-4o-mini';
 
+/**
+ * Whether a model name is one of the models with known token limits
+ */
+export function isKnownModel(model: string): model is ModelName {
+    return model in MODEL_TOKEN_LIMITS;
+}
+
+/**
+ * The alias of a dated or "-latest" model ID, e.g. claude-sonnet-4-5 for
+ * claude-sonnet-4-5-20250929; other names are returned unchanged
+ */
+export function normalizeModelName(model: string): string {
+    return model.replace(/-(\d{8}|latest)$/, '');
+}
+
+/**
+ * The model whose context limit applies when budgeting for a model; models
+ * without known limits are budgeted like the fallback
+ */
+export function getContextModel(model?: string, fallback: ModelName = DEFAULT_MODEL): ModelName {
+    const name = model && normalizeModelName(model);
+    return name && isKnownModel(name) ? name : fallback;
+}
+
 // Reserve tokens for system prompt and response
 export const RESERVED_TOKENS = {
     systemPrompt: 1000,
@@ -432,24 +475,35 @@ export interface TokenUsage {
     estimatedCost: number;
 }
 
-// Pricing per 1M tokens (as of early 2024)
-const PRICING = {
+// Pricing per 1M tokens (OpenAI as of early 2024, Anthropic as of late 2025)
+const PRICING: Partial<Record<ModelName, { input: number; output: number }>> = {
     'gpt-4o': { input: 2.50, output: 10.00 },
     'gpt-4o-mini': { input: 0.15, output: 0.60 },
     'gpt-4-turbo': { input: 10.00, output: 30.00 },
     'gpt-4': { input: 30.00, output: 60.00 },
     'gpt-3.5-turbo': { input: 0.50, output: 1.50 },
-} as const;
+    'claude-haiku-4-5': { input: 1.00, output: 5.00 },
+    'claude-sonnet-4-5': { input: 3.00, output: 15.00 },
+    'claude-opus-4-5': { input: 5.00, output: 25.00 },
+    'claude-opus-4-1': { input: 15.00, output: 75.00 },
+    'claude-sonnet-4': { input: 3.00, output: 15.00 },
+    'claude-opus-4': { input: 15.00, output: 75.00 },
+    'claude-3-7-sonnet': { input: 3.00, output: 15.00 },
+    'claude-3-5-haiku': { input: 0.80, output: 4.00 },
+};
 
 /**
- * Calculate estimated cost for token usage
+ * Calculate estimated cost for token usage; models without known pricing
+ * (free tier and local models) cost nothing
  */
 export function calculateCost(
     inputTokens: number,
     outputTokens: number,
-    model: ModelName = DEFAULT_MODEL
+    model: string = DEFAULT_MODEL
 ): number {
-    const prices = PRICING[model];
+    const name = normalizeModelName(model);
+    const prices = isKnownModel(name) ? PRICING[name] : undefined;
+    if (!prices) return 0;
     const inputCost = (inputTokens / 1_000_000) * prices.input;
     const outputCost = (outputTokens / 1_000_000) * prices.output;
     return inputCost + outputCost;
@@ -17,10 +17,35 @@ export function generateId(): string {
 }
 
 /**
- * Sleep for a specified duration
+ * Sleep for a specified duration, or until the signal aborts (which rejects)
  */
-export function sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    if (!signal) return new Promise(resolve => setTimeout(resolve, ms));
+
+    return new Promise((resolve, reject) => {
+        if (signal.aborted) {
+            reject(signal.reason);
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(signal.reason);
+        };
+        const timer = setTimeout(() => {
+            signal.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Check whether an error comes from an aborted operation
+ */
+export function isAbortError(error: unknown): boolean {
+    const name = (error as { name?: string } | null)?.name;
+    return name === 'AbortError' || name === 'TimeoutError' || name === 'APIUserAbortError';
 }
 
 /**
@@ -34,6 +59,7 @@ export async function retry<T>(
         maxDelayMs?: number;
         backoffMultiplier?: number;
         shouldRetry?: (error: unknown) => boolean;
+        signal?: AbortSignal; // Stops retrying once aborted
     } = {}
 ): Promise<T> {
     const {
@@ -42,22 +68,25 @@ export async function retry<T>(
         maxDelayMs = 30000,
         backoffMultiplier = 2,
         shouldRetry = () => true,
+        signal,
     } = options;
 
     let lastError: unknown;
     let delay = initialDelayMs;
 
     for (let attempt = 0; attempt <= maxRetries; attempt++) {
+        signal?.throwIfAborted();
+
         try {
             return await fn();
         } catch (error) {
             lastError = error;
 
-            if (attempt === maxRetries || !shouldRetry(error)) {
+            if (attempt === maxRetries || signal?.aborted || isAbortError(error) || !shouldRetry(error)) {
                 throw error;
             }
 
-            await sleep(delay);
+            await sleep(delay, signal);
             delay = Math.min(delay * backoffMultiplier, maxDelayMs);
         }
     }
@@ -172,6 +201,15 @@ export function isValidGitHubUsername(username: string): boolean {
     return pattern.test(username);
 }
 
+/**
+ * Get a valid GitHub username from a username or profile URL, or null
+ */
+export function resolveGitHubUsername(input: string): string | null {
+    const trimmed = input.trim();
+    const username = parseGitHubUrl(trimmed)?.username || trimmed;
+    return isValidGitHubUsername(username) ? username : null;
+}
+
 /**
  * Debounce a function
  */
@@ -0,0 +1,35 @@
+// Cover letter data structure types
+
+import type { ResumeHeader } from './resume';
+
+// A fact from an analyzed project that a paragraph relies on
+export interface CoverLetterCitation {
+  projectName: string;
+  fact: string;
+}
+
+export interface CoverLetterParagraph {
+  id: string;
+  text: string;
+  citations: CoverLetterCitation[];
+}
+
+export interface CoverLetter {
+  id: string;
+  userId: string;
+  resumeId: string;             // Resume the letter was written from
+  company: string;
+  jobTitle?: string;
+  jobDescription?: string;
+  sender: ResumeHeader;         // Contact details, copied from the resume when generated
+  date: string;                 // As printed on the letter, e.g. "March 3, 2025"
+  greeting: string;             // e.g. "Dear Hiring Team,"
+  paragraphs: CoverLetterParagraph[];
+  closing: string;              // e.g. "Sincerely,"
+  signature: string;
+  metadata: {
+    createdAt: string;
+    updatedAt: string;
+    provider?: 'groq' | 'openai' | 'anthropic' | 'local' | 'mock';
+  };
+}
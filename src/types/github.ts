@@ -97,6 +97,8 @@ export interface ProcessedRepository {
     pushedAt: string;
     createdAt: string;
     size: number;
+    headSha?: string; // Default branch HEAD commit, when fetched over GraphQL
+    treeSha?: string; // Its root tree
 }
 
 export interface RepositoryContent {
@@ -128,6 +130,41 @@ export interface RepositoryAnalysis {
     resumeBulletPoints: string[];
 }
 
+// Work by the user in a repository someone else owns
+export interface Contribution {
+    kind: 'pull_request' | 'review' | 'issue'; // A review is a pull request the user reviewed
+    repository: string; // Full name, e.g. vercel/next.js
+    number: number;
+    title: string;
+    url: string;
+    state: 'open' | 'closed' | 'merged';
+    createdAt: string;
+    mergedAt?: string | null;
+    additions?: number;    // Pull requests the user authored, when known
+    deletions?: number;
+    changedFiles?: number;
+}
+
+// A user's contributions to one external project
+export interface ContributionSummary {
+    repository: string;
+    url: string;
+    pullRequests: {
+        merged: number;
+        open: number;
+        closed: number; // Closed without merging
+    };
+    reviews: number;
+    issues: number;
+    additions: number;    // Across merged pull requests
+    deletions: number;
+    changedFiles: number;
+    firstContributionAt: string;
+    lastContributionAt: string;
+    highlights: Contribution[]; // Most notable contributions, merged work first
+    evidenceUrl: string;        // GitHub search listing the user's work in the project
+}
+
 export interface ProcessedUser {
     id: number;
     username: string;
@@ -152,7 +189,31 @@ export type AnalysisStatus =
     | 'analyzing_repos'
     | 'generating_resume'
     | 'completed'
-    | 'failed';
+    | 'failed'
+    | 'cancelled';
+
+// Where one repository is in an analysis run
+// Why a model's JSON reply was rejected, after the repair retries ran out
+export interface StructuredOutputDiagnostics {
+    schema: string;            // What was asked for, e.g. 'repository analysis'
+    stage: 'json' | 'schema';  // The last reply was not JSON, or did not match the schema
+    issues: string[];          // "path: message"
+    attempts: number;          // Replies received, the first included
+    content: string;           // The last reply, truncated
+}
+
+export interface RepositoryProgress {
+    name: string;
+    status: 'pending' | 'analyzing' | 'completed' | 'failed';
+    analysis?: RepositoryAnalysis; // Set when done; a basic fallback when the analysis failed
+    error?: string;
+    diagnostics?: StructuredOutputDiagnostics; // Set when the model's reply could not be repaired
+    cached?: boolean; // Reused from the analysis cache; nothing was spent
+    tokenUsage?: {
+        totalTokens: number;
+        estimatedCost: number;
+    };
+}
 
 export interface AnalysisJob {
     id: string;
@@ -167,8 +228,26 @@ export interface AnalysisJob {
     user?: ProcessedUser;
     repositories?: ProcessedRepository[];
     analyses?: RepositoryAnalysis[];
+    repositoryProgress?: RepositoryProgress[]; // Per repository, updated as each one finishes
     resume?: import('./resume').Resume;
+    tokenUsage?: {
+        totalTokens: number;
+        estimatedCost: number;
+    };
+    cachedRepositories?: number; // Analyses reused from the cache instead of redone
     error?: string;
+    diagnostics?: StructuredOutputDiagnostics; // Set when the resume could not be generated from the model's reply
     createdAt: string;
     updatedAt: string;
+    startedAt?: string;   // When a worker picked the job up
+    completedAt?: string; // When it completed or failed
 }
+
+// Streamed to clients following a job; a snapshot always comes first
+export type AnalysisJobEvent =
+    | { type: 'snapshot'; job: AnalysisJob }
+    | { type: 'progress'; status: AnalysisStatus; progress: AnalysisJob['progress'] }
+    | { type: 'repository'; repository: RepositoryProgress; tokenUsage: NonNullable<AnalysisJob['tokenUsage']> }
+    | { type: 'completed'; job: AnalysisJob }
+    | { type: 'failed'; error: string }
+    | { type: 'cancelled' };
@@ -1,2 +1,4 @@
 export * from './resume';
 export * from './github';
+export * from './json-resume';
+export * from './cover-letter';
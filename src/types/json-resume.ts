@@ -0,0 +1,181 @@
+// JSON Resume (https://jsonresume.org/schema) document types, v1.0.0
+
+import type { CustomSection, ResumeMetadata, ResumeTemplate } from './resume';
+
+export interface JsonResumeLocation {
+    address?: string;
+    postalCode?: string;
+    city?: string;
+    countryCode?: string;
+    region?: string;
+}
+
+export interface JsonResumeProfile {
+    network?: string;
+    username?: string;
+    url?: string;
+}
+
+export interface JsonResumeBasics {
+    name?: string;
+    label?: string;
+    image?: string;
+    email?: string;
+    phone?: string;
+    url?: string;
+    summary?: string;
+    location?: JsonResumeLocation;
+    profiles?: JsonResumeProfile[];
+}
+
+export interface JsonResumeWork {
+    name?: string;
+    location?: string;
+    description?: string;
+    position?: string;
+    url?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+    highlights?: string[];
+}
+
+export interface JsonResumeVolunteer {
+    organization?: string;
+    position?: string;
+    url?: string;
+    startDate?: string;
+    endDate?: string;
+    summary?: string;
+    highlights?: string[];
+}
+
+export interface JsonResumeEducation {
+    institution?: string;
+    url?: string;
+    area?: string;
+    studyType?: string;
+    startDate?: string;
+    endDate?: string;
+    score?: string;
+    courses?: string[];
+}
+
+export interface JsonResumeAward {
+    title?: string;
+    date?: string;
+    awarder?: string;
+    summary?: string;
+}
+
+export interface JsonResumeCertificate {
+    name?: string;
+    date?: string;
+    url?: string;
+    issuer?: string;
+}
+
+export interface JsonResumePublication {
+    name?: string;
+    publisher?: string;
+    releaseDate?: string;
+    url?: string;
+    summary?: string;
+}
+
+export interface JsonResumeSkill {
+    name?: string;
+    level?: string;
+    keywords?: string[];
+}
+
+export interface JsonResumeLanguage {
+    language?: string;
+    fluency?: string;
+}
+
+export interface JsonResumeInterest {
+    name?: string;
+    keywords?: string[];
+}
+
+export interface JsonResumeReference {
+    name?: string;
+    reference?: string;
+}
+
+export interface JsonResumeProject {
+    name?: string;
+    description?: string;
+    highlights?: string[];
+    keywords?: string[];
+    startDate?: string;
+    endDate?: string;
+    url?: string;
+    roles?: string[];
+    entity?: string;
+    type?: string;
+}
+
+// JSON Resume sections that map onto custom sections
+export type JsonResumeSectionKey =
+    | 'volunteer'
+    | 'awards'
+    | 'publications'
+    | 'languages'
+    | 'interests'
+    | 'references';
+
+/**
+ * Editor-only data kept in `meta.githubToResume` so an exported file
+ * imports back into the exact same resume. Only non-default values are written.
+ */
+export interface JsonResumeAppMeta {
+    template?: ResumeTemplate;
+    sectionOrder?: string[];
+    sectionVisibility?: Record<string, boolean>;
+    createdAt?: string;
+    generatedFrom?: ResumeMetadata['generatedFrom'];
+    ids?: Record<string, string[]>; // Item ids per section, in order
+    sections?: JsonResumeAppSection[]; // Custom sections that differ from the defaults
+    fields?: Record<string, Record<string, unknown>>; // Editor-only item fields by item id
+}
+
+// Custom section settings; `content` is only stored for sections JSON Resume has no key for
+export interface JsonResumeAppSection extends Omit<CustomSection, 'content'> {
+    content?: CustomSection['content'];
+}
+
+export interface JsonResumeMeta {
+    canonical?: string;
+    version?: string;
+    lastModified?: string;
+    githubToResume?: JsonResumeAppMeta;
+    [key: string]: unknown;
+}
+
+export interface JsonResume {
+    $schema?: string;
+    basics?: JsonResumeBasics;
+    work?: JsonResumeWork[];
+    volunteer?: JsonResumeVolunteer[];
+    education?: JsonResumeEducation[];
+    awards?: JsonResumeAward[];
+    certificates?: JsonResumeCertificate[];
+    publications?: JsonResumePublication[];
+    skills?: JsonResumeSkill[];
+    languages?: JsonResumeLanguage[];
+    interests?: JsonResumeInterest[];
+    references?: JsonResumeReference[];
+    projects?: JsonResumeProject[];
+    meta?: JsonResumeMeta;
+    [key: string]: unknown;
+}
+
+/**
+ * JSON Resume fields with no editor equivalent, kept on an imported resume
+ * so exporting it again gives back the original document
+ */
+export interface JsonResumeExtras {
+    fields: Record<string, Record<string, unknown>>; // Unmapped fields by item id ('$resume', 'basics' and 'meta' for the top level)
+}
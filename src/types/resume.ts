@@ -1,5 +1,7 @@
 // Resume data structure types
 
+import type { JsonResumeExtras } from './json-resume';
+
 export interface ResumeHeader {
   name: string;
   title: string;
@@ -100,9 +102,18 @@ export const CUSTOM_SECTION_TEMPLATES = [
   { id: 'courses', title: 'Relevant Courses', icon: '📚', type: 'list' as const },
   { id: 'patents', title: 'Patents', icon: '💡', type: 'items' as const },
   { id: 'speaking', title: 'Speaking & Presentations', icon: '🎤', type: 'items' as const },
+  { id: 'open-source', title: 'Open Source Contributions', icon: '🌍', type: 'items' as const },
   { id: 'custom', title: 'Custom Section', icon: '📝', type: 'text' as const },
 ];
 
+// Link from a variant tailored to a job posting back to its base resume
+export interface ResumeVariantSource {
+  resumeId: string;       // Base resume the variant was tailored from
+  jobTitle?: string;
+  jobDescription: string;
+  tailoredAt: string;
+}
+
 export interface ResumeMetadata {
   createdAt: string;
   updatedAt: string;
@@ -111,9 +122,15 @@ export interface ResumeMetadata {
     reposAnalyzed: number;
     generatedAt: string;
   };
+  jsonResume?: JsonResumeExtras; // Set on resumes imported from JSON Resume
+  tailoredFrom?: ResumeVariantSource; // Set on tailored variants
 }
 
+// Version of the Resume shape; bump it and add a migration in src/lib/resume-schema.ts on breaking changes
+export const RESUME_SCHEMA_VERSION = 1;
+
 export interface Resume {
+  schemaVersion: number;
   id: string;
   userId: string;
   template: 'modern' | 'classic' | 'minimal' | 'creative';
@@ -130,6 +147,18 @@ export interface Resume {
   metadata: ResumeMetadata;
 }
 
+// What produced a saved revision
+export type RevisionSource = 'edit' | 'ai-fix' | 'restore' | 'fork' | 'tailor' | 'base-update';
+
+// Immutable snapshot of a resume, recorded on every save that changes content
+export interface ResumeRevision {
+  id: string;
+  resumeId: string;
+  source: RevisionSource;
+  createdAt: string;
+  resume: Resume;
+}
+
 // Template type
 export type ResumeTemplate = 'modern' | 'classic' | 'minimal' | 'creative';
 
@@ -166,4 +195,13 @@ export const DEFAULT_SECTION_VISIBILITY: Record<string, boolean> = {
   certifications: true,
 };
 
+// Individual projects are hidden with sectionVisibility[projectVisibilityKey(id)] = false
+export function projectVisibilityKey(projectId: string): string {
+  return `project:${projectId}`;
+}
+
+export function isProjectVisible(resume: Resume, project: ProjectItem): boolean {
+  return resume.sectionVisibility?.[projectVisibilityKey(project.id)] !== false;
+}
+
 